@@ -0,0 +1,34 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+const ORACLE_SERVICE_URL = process.env.ORACLE_SERVICE_URL || 'https://hardex-production.up.railway.app';
+
+export default async function handler(_req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    // Fetch the asset registry from the Railway oracle service
+    const response = await fetch(`${ORACLE_SERVICE_URL}/assets`, {
+      headers: { 'Accept': 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Oracle service returned ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    return res.status(200).json({
+      ...data,
+      source: 'oracle-service',
+    });
+  } catch (error) {
+    console.error('Failed to fetch assets from oracle service:', error);
+
+    return res.status(503).json({
+      error: 'Oracle service unavailable',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      assets: [],
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+const ORACLE_SERVICE_URL = process.env.ORACLE_SERVICE_URL || 'https://hardex-production.up.railway.app';
+
+export default async function handler(_req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  try {
+    // Fetch the attestation public key from the Railway oracle service
+    const response = await fetch(`${ORACLE_SERVICE_URL}/pubkey`, {
+      headers: { 'Accept': 'application/json' },
+    });
+
+    const data = await response.json();
+
+    // 404 means the service runs without attestations; pass it through
+    return res.status(response.status).json({
+      ...data,
+      source: 'oracle-service',
+    });
+  } catch (error) {
+    console.error('Failed to fetch public key from oracle service:', error);
+
+    return res.status(503).json({
+      error: 'Oracle service unavailable',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
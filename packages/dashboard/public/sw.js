@@ -1,10 +1,9 @@
 // Service Worker for Hardex Dashboard
-// Enables background price updates even when tab is not active
+// Raises price alerts for the prices the app receives from the oracle stream.
+// The app forwards each update, so the worker never polls the oracle itself.
 
 const CACHE_NAME = 'hardex-v1';
-const API_URL = '/api/prices';
 const PRICE_CACHE_KEY = 'hardex-prices';
-const UPDATE_INTERVAL = 30000; // 30 seconds
 
 // Install event - cache static assets
 self.addEventListener('install', (event) => {
@@ -24,19 +23,12 @@ self.addEventListener('activate', (event) => {
       );
     }).then(() => self.clients.claim())
   );
-
-  // Start background updates
-  startBackgroundUpdates();
 });
 
 // Handle messages from the main app
 self.addEventListener('message', (event) => {
-  if (event.data.type === 'START_UPDATES') {
-    console.log('[SW] Starting background updates');
-    startBackgroundUpdates();
-  } else if (event.data.type === 'STOP_UPDATES') {
-    console.log('[SW] Stopping background updates');
-    stopBackgroundUpdates();
+  if (event.data.type === 'PRICES') {
+    event.waitUntil(checkAndCachePrices(event.data.data));
   } else if (event.data.type === 'GET_PRICES') {
     // Return cached prices immediately
     getCachedPrices().then((prices) => {
@@ -45,58 +37,21 @@ self.addEventListener('message', (event) => {
   }
 });
 
-let updateIntervalId = null;
-
-function startBackgroundUpdates() {
-  if (updateIntervalId) return;
-
-  // Initial fetch
-  fetchAndBroadcast();
-
-  // Set up interval
-  updateIntervalId = setInterval(fetchAndBroadcast, UPDATE_INTERVAL);
-}
-
-function stopBackgroundUpdates() {
-  if (updateIntervalId) {
-    clearInterval(updateIntervalId);
-    updateIntervalId = null;
-  }
-}
+// Compare prices forwarded by the app with the last ones seen, then cache them
+async function checkAndCachePrices(prices) {
+  if (!prices) return;
 
-async function fetchAndBroadcast() {
   try {
-    const response = await fetch(API_URL);
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Cache the prices
-    await cachePrices(data);
-
-    // Check for significant changes and show notification
     const prevPrices = await getCachedPrices();
-    const significantChange = checkSignificantChange(prevPrices, data);
+    const significantChange = checkSignificantChange(prevPrices, prices);
 
     if (significantChange) {
-      showPriceNotification(significantChange);
+      await showPriceNotification(significantChange);
     }
 
-    // Broadcast to all clients
-    const clients = await self.clients.matchAll();
-    clients.forEach((client) => {
-      client.postMessage({
-        type: 'PRICE_UPDATE',
-        data: data,
-        timestamp: Date.now(),
-      });
-    });
-
-    console.log('[SW] Price update broadcasted');
+    await cachePrices(prices);
   } catch (error) {
-    console.error('[SW] Failed to fetch prices:', error);
+    console.error('[SW] Failed to check prices:', error);
   }
 }
 
@@ -170,7 +125,7 @@ async function showPriceNotification(change) {
   const title = `${direction} ${assetNames[change.assetId] || change.assetId} Price Alert`;
   const body = `Price ${change.direction === 'up' ? 'increased' : 'decreased'} by ${percent}%\n$${change.oldPrice.toFixed(2)} → $${change.newPrice.toFixed(2)}`;
 
-  self.registration.showNotification(title, {
+  await self.registration.showNotification(title, {
     body,
     icon: '/favicon.ico',
     badge: '/favicon.ico',
@@ -6,12 +6,14 @@ import { PriceChart } from './components/PriceChart';
 import { AssetSelector } from './components/AssetSelector';
 import { RentalTab } from './components/RentalTab';
 import { usePrices } from './hooks/usePrices';
-import { ASSETS, type AssetId } from './types';
+import { useAssets } from './hooks/useAssets';
+import type { AssetId } from './types';
 
 type TabId = 'hardware' | 'rental';
 
 function App() {
   const { prices, history, isConnected, lastUpdate, refetch } = usePrices();
+  const assets = useAssets();
   const [selectedAsset, setSelectedAsset] = useState<AssetId>('GPU_RTX4090');
   const [activeTab, setActiveTab] = useState<TabId>('rental');
 
@@ -66,7 +68,7 @@ function App() {
               <>
                 {/* Stats Overview */}
                 <section className="mb-8">
-                  <StatsBar prices={prices} />
+                  <StatsBar assets={assets} prices={prices} />
                 </section>
 
                 {/* Price Cards Grid */}
@@ -77,7 +79,7 @@ function App() {
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                    {ASSETS.map((asset) => (
+                    {assets.map((asset) => (
                       <PriceCard
                         key={asset.id}
                         asset={asset}
@@ -92,10 +94,10 @@ function App() {
                 <section>
                   <div className="mb-4">
                     <h2 className="text-lg font-semibold text-white mb-3">Price History</h2>
-                    <AssetSelector selected={selectedAsset} onSelect={setSelectedAsset} />
+                    <AssetSelector assets={assets} selected={selectedAsset} onSelect={setSelectedAsset} />
                   </div>
 
-                  <PriceChart history={history} selectedAsset={selectedAsset} />
+                  <PriceChart assets={assets} history={history} selectedAsset={selectedAsset} />
                 </section>
               </>
             ) : (
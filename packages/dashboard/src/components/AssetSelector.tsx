@@ -1,16 +1,16 @@
 import { Cpu, MemoryStick } from 'lucide-react';
-import type { AssetId } from '../types';
-import { ASSETS } from '../types';
+import type { AssetId, AssetInfo } from '../types';
 
 interface AssetSelectorProps {
+  assets: AssetInfo[];
   selected: AssetId | null;
   onSelect: (assetId: AssetId) => void;
 }
 
-export function AssetSelector({ selected, onSelect }: AssetSelectorProps) {
+export function AssetSelector({ assets, selected, onSelect }: AssetSelectorProps) {
   return (
     <div className="flex flex-wrap gap-2">
-      {ASSETS.map((asset) => {
+      {assets.map((asset) => {
         const isSelected = selected === asset.id;
         const Icon = asset.category === 'GPU' ? Cpu : MemoryStick;
 
@@ -7,18 +7,18 @@ import {
   XAxis,
   YAxis,
 } from 'recharts';
-import type { AssetId, PriceHistory } from '../types';
-import { ASSETS } from '../types';
+import type { AssetId, AssetInfo, PriceHistory } from '../types';
 
 interface PriceChartProps {
+  assets: AssetInfo[];
   history: Record<AssetId, PriceHistory[]>;
   selectedAsset: AssetId | null;
 }
 
-export function PriceChart({ history, selectedAsset }: PriceChartProps) {
+export function PriceChart({ assets, history, selectedAsset }: PriceChartProps) {
   const assetId = selectedAsset || 'GPU_RTX4090';
   const data = history[assetId] || [];
-  const asset = ASSETS.find((a) => a.id === assetId);
+  const asset = assets.find((a) => a.id === assetId);
 
   if (data.length < 2) {
     return (
@@ -1,22 +1,25 @@
 import { Cpu, MemoryStick, Activity, Clock } from 'lucide-react';
-import type { AssetId, PriceData } from '../types';
-import { ASSETS } from '../types';
+import type { AssetId, AssetInfo, PriceData } from '../types';
 
 interface StatsBarProps {
+  assets: AssetInfo[];
   prices: Record<AssetId, PriceData> | null;
 }
 
-export function StatsBar({ prices }: StatsBarProps) {
+export function StatsBar({ assets, prices }: StatsBarProps) {
   if (!prices) return null;
 
-  const gpuAssets = ASSETS.filter((a) => a.category === 'GPU');
-  const ramAssets = ASSETS.filter((a) => a.category === 'RAM');
+  const gpuAssets = assets.filter((a) => a.category === 'GPU');
+  const ramAssets = assets.filter((a) => a.category === 'RAM');
 
-  const avgGpuPrice =
-    gpuAssets.reduce((sum, a) => sum + (prices[a.id]?.price || 0), 0) / gpuAssets.length;
+  const averagePrice = (group: AssetInfo[]) =>
+    group.length > 0
+      ? group.reduce((sum, a) => sum + (prices[a.id]?.price || 0), 0) / group.length
+      : 0;
 
-  const avgRamPrice =
-    ramAssets.reduce((sum, a) => sum + (prices[a.id]?.price || 0), 0) / ramAssets.length;
+  const avgGpuPrice = averagePrice(gpuAssets);
+
+  const avgRamPrice = averagePrice(ramAssets);
 
   const totalSources = Object.values(prices).reduce(
     (sum, p) => sum + (p?.sourceCount || 0),
@@ -1,3 +1,5 @@
 export { usePrices, usePriceChange } from './usePrices';
 export { useServiceWorker } from './useServiceWorker';
 export { useRentalPrices } from './useRentalPrices';
+export { useAssets } from './useAssets';
+export { useOracleStream } from './useOracleStream';
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import type { AssetInfo, AssetsResponse } from '../types';
+import { ASSETS } from '../types';
+
+const API_BASE = import.meta.env.VITE_ORACLE_API_URL || '/api';
+
+/**
+ * Load the tracked asset list from the oracle service's asset registry.
+ * Falls back to the built-in list if the registry can't be fetched.
+ */
+export function useAssets(): AssetInfo[] {
+  const [assets, setAssets] = useState<AssetInfo[]>(ASSETS);
+
+  useEffect(() => {
+    const fetchAssets = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/assets`);
+
+        if (!response.ok) {
+          console.warn('Asset registry not available:', response.status);
+          return;
+        }
+
+        const data: AssetsResponse = await response.json();
+
+        if (!data.assets || data.assets.length === 0) {
+          return;
+        }
+
+        setAssets(
+          data.assets.map((asset) => ({
+            id: asset.id,
+            name: asset.name,
+            category: asset.category,
+            icon: asset.category === 'GPU' ? 'gpu' : 'memory',
+            description: asset.description,
+          }))
+        );
+      } catch (err) {
+        console.warn('Failed to fetch asset registry:', err);
+      }
+    };
+
+    fetchAssets();
+  }, []);
+
+  return assets;
+}
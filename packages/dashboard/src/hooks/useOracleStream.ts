@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+
+// The deployed /api functions are buffered and cannot relay a long-lived stream,
+// so connect to the oracle itself: an explicit stream URL, an oracle API URL, or
+// the dev server's /api proxy. Without one the hooks keep polling.
+const STREAM_URL = import.meta.env.VITE_ORACLE_STREAM_URL
+  || (import.meta.env.VITE_ORACLE_API_URL && `${import.meta.env.VITE_ORACLE_API_URL}/stream`)
+  || (import.meta.env.DEV ? '/api/stream' : null);
+const REOPEN_DELAY = 30000; // Retry after the server refused the stream (e.g. 503 when full)
+
+export type OracleStreamTopic = 'prices' | 'rental';
+
+// Handlers keyed by server-sent event name: `prices` snapshot, `price` update, `rental` stats
+export type OracleStreamHandlers = Partial<Record<'prices' | 'price' | 'rental', (data: unknown) => void>>;
+
+/**
+ * Subscribe to the oracle's /stream server-sent events.
+ * EventSource reconnects on its own and resumes from the last event ID;
+ * `isStreaming` is false while disconnected so callers can fall back to polling.
+ */
+export function useOracleStream(topics: OracleStreamTopic[], handlers: OracleStreamHandlers): boolean {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const topicList = topics.join(',');
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined' || !STREAM_URL) return;
+
+    let source: EventSource | null = null;
+    let reopenTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const open = () => {
+      source = new EventSource(`${STREAM_URL}?topics=${topicList}`);
+
+      source.onopen = () => setIsStreaming(true);
+      source.onerror = () => {
+        setIsStreaming(false);
+
+        // CONNECTING means the browser is already retrying; CLOSED means it gave up
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+          reopenTimeout = setTimeout(open, REOPEN_DELAY);
+        }
+      };
+
+      for (const name of ['prices', 'price', 'rental'] as const) {
+        source.addEventListener(name, (event) => {
+          try {
+            handlersRef.current[name]?.(JSON.parse((event as MessageEvent<string>).data));
+          } catch (err) {
+            console.warn(`Malformed ${name} stream event:`, err);
+          }
+        });
+      }
+    };
+
+    open();
+
+    return () => {
+      if (reopenTimeout) clearTimeout(reopenTimeout);
+      source?.close();
+      setIsStreaming(false);
+    };
+  }, [topicList]);
+
+  return isStreaming;
+}
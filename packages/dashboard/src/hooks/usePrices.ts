@@ -1,9 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { AssetId, PriceData, PriceHistory } from '../types';
+import type { AssetId, PriceData, PriceHistory, PricesResponse, PriceStreamEvent } from '../types';
 import { useServiceWorker } from './useServiceWorker';
+import { useOracleStream } from './useOracleStream';
 
 const API_BASE = import.meta.env.VITE_ORACLE_API_URL || '/api';
-const POLL_INTERVAL = 5000; // 5 seconds for foreground polling
+const POLL_INTERVAL = 5000; // 5 seconds for foreground polling while the stream is down
 const MAX_HISTORY_POINTS = 2000; // Extended history from Supabase
 const CACHE_KEY_HISTORY = 'hardex_price_history';
 const CACHE_KEY_PRICES = 'hardex_last_prices';
@@ -18,6 +19,7 @@ interface UsePricesResult {
   prices: Record<AssetId, PriceData> | null;
   history: Record<AssetId, PriceHistory[]>;
   isConnected: boolean;
+  isStreaming: boolean;
   lastUpdate: number | null;
   error: string | null;
   refetch: () => Promise<void>;
@@ -156,18 +158,8 @@ export function usePrices(): UsePricesResult {
     fetchHistoricalData();
   }, []);
 
-  // Handle service worker messages for background updates
-  const handleSWMessage = useCallback((message: { type: string; data?: unknown; timestamp?: number }) => {
-    if (message.type === 'PRICE_UPDATE' && message.data) {
-      const priceData = message.data as { prices: Record<AssetId, PriceData>; timestamp: number };
-      if (priceData.prices) {
-        updatePriceState(priceData.prices, priceData.timestamp || Date.now());
-      }
-    }
-  }, []);
-
-  // Register service worker for background updates (auto-starts when registered)
-  useServiceWorker(handleSWMessage);
+  // Register the service worker that raises price alerts
+  const { sendMessage } = useServiceWorker();
 
   // Common function to update price state
   const updatePriceState = useCallback((newPrices: Record<AssetId, PriceData>, timestamp: number) => {
@@ -207,12 +199,56 @@ export function usePrices(): UsePricesResult {
     }
   }, [history]);
 
-  // Save prices to cache whenever they change
+  // Save prices to cache and hand them to the service worker for alerts whenever they change
   useEffect(() => {
     if (prices) {
       saveToCache(CACHE_KEY_PRICES, prices);
+      sendMessage({ type: 'PRICES', data: prices });
     }
-  }, [prices]);
+  }, [prices, sendMessage]);
+
+  // Apply one asset's streamed update; paused or stale assets are dropped like in /prices
+  const applyPriceEvent = useCallback((event: PriceStreamEvent) => {
+    if (event.condition !== 'new') return;
+
+    setPrices((prev) => {
+      const next = { ...(prev ?? {}) } as Record<AssetId, PriceData>;
+      if (event.price) {
+        next[event.assetId] = event.price;
+      } else {
+        delete next[event.assetId];
+      }
+      previousPrices.current = next;
+      return next;
+    });
+    setLastUpdate(event.timestamp);
+    setIsConnected(true);
+    setError(null);
+
+    const priceData = event.price;
+    if (!priceData) return;
+
+    setHistory((prev) => {
+      const assetHistory = prev[event.assetId] || [];
+      if (assetHistory.length > 0 && assetHistory[assetHistory.length - 1].timestamp === priceData.timestamp) {
+        return prev;
+      }
+      const newPoint: PriceHistory = {
+        timestamp: priceData.timestamp,
+        price: priceData.price,
+        twap: priceData.twap,
+      };
+      return { ...prev, [event.assetId]: [...assetHistory.slice(-MAX_HISTORY_POINTS + 1), newPoint] };
+    });
+  }, []);
+
+  const isStreaming = useOracleStream(['prices'], {
+    prices: (data) => {
+      const snapshot = data as PricesResponse;
+      updatePriceState(snapshot.prices, snapshot.timestamp);
+    },
+    price: (data) => applyPriceEvent(data as PriceStreamEvent),
+  });
 
   const fetchPrices = useCallback(async () => {
     try {
@@ -232,16 +268,22 @@ export function usePrices(): UsePricesResult {
 
   useEffect(() => {
     fetchPrices();
+  }, [fetchPrices]);
+
+  // Poll only as a fallback when the stream is unavailable
+  useEffect(() => {
+    if (isStreaming) return;
 
     const interval = setInterval(fetchPrices, POLL_INTERVAL);
 
     return () => clearInterval(interval);
-  }, [fetchPrices]);
+  }, [fetchPrices, isStreaming]);
 
   return {
     prices,
     history,
     isConnected,
+    isStreaming,
     lastUpdate,
     error,
     refetch: fetchPrices,
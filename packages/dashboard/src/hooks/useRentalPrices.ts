@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { RentalGpuType, RentalPriceStats } from '../types';
+import type { RentalGpuType, RentalPriceStats, RentalPricesResponse, RentalStreamEvent } from '../types';
 import {
   storePriceRecords,
   getAllPriceHistory,
@@ -7,9 +7,10 @@ import {
   cleanupOldData,
   getStorageStats,
 } from '../utils/rentalStorage';
+import { useOracleStream } from './useOracleStream';
 
 const API_BASE = import.meta.env.VITE_ORACLE_API_URL || '/api';
-const POLL_INTERVAL = 60000; // 1 minute for rental prices
+const POLL_INTERVAL = 60000; // 1 minute for rental prices while the stream is down
 const MAX_MEMORY_HISTORY = 120; // Keep last 2 hours in memory for charts
 const MAINTENANCE_INTERVAL = 10 * 60 * 1000; // Run maintenance every 10 minutes
 
@@ -33,6 +34,7 @@ interface UseRentalPricesResult {
   history: Record<RentalGpuType, RentalPriceHistory[]>;
   storageStats: StorageStats | null;
   isLoading: boolean;
+  isStreaming: boolean;
   error: string | null;
   lastUpdate: number | null;
   dataSource: 'supabase' | 'simulated' | 'loading';
@@ -226,67 +228,78 @@ export function useRentalPrices(): UseRentalPricesResult {
     setStorageStats(stats);
   }, []);
 
-  const fetchPrices = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const response = await fetch(`${API_BASE}/rental/prices`);
+  // Apply rental stats from /rental/prices or a streamed `rental` event
+  const applyRentalData = useCallback((data: RentalPricesResponse | RentalStreamEvent) => {
+    setPrices(data.prices);
+    setLastUpdate(data.timestamp);
+    setError(null);
+
+    // Track data source
+    if (data.source === 'supabase' || data.source === 'oracle-service') {
+      setDataSource('supabase');
+    } else {
+      setDataSource('simulated');
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
+    // Prepare records for storage
+    const recordsToStore: Array<{ gpuType: RentalGpuType; data: RentalPriceHistory }> = [];
 
-      const data = await response.json();
-      setPrices(data.prices);
-      setLastUpdate(data.timestamp);
-      setError(null);
-
-      // Track data source
-      if (data.source === 'supabase' || data.source === 'oracle-service') {
-        setDataSource('supabase');
-      } else {
-        setDataSource('simulated');
+    // Update in-memory history
+    setHistory((prev) => {
+      const newHistory = { ...prev };
+
+      for (const [gpuType, stats] of Object.entries(data.prices) as [
+        RentalGpuType,
+        RentalPriceStats,
+      ][]) {
+        const gpuHistory = newHistory[gpuType] || [];
+        const newPoint: RentalPriceHistory = {
+          timestamp: data.timestamp,
+          avgPrice: stats.avgPrice,
+          minPrice: stats.minPrice,
+          maxPrice: stats.maxPrice,
+          offerCount: stats.offerCount,
+        };
+
+        if (gpuHistory.length === 0 || gpuHistory[gpuHistory.length - 1].timestamp !== data.timestamp) {
+          newHistory[gpuType] = [...gpuHistory.slice(-MAX_MEMORY_HISTORY + 1), newPoint];
+          recordsToStore.push({ gpuType, data: newPoint });
+        }
       }
 
-      // Prepare records for storage
-      const recordsToStore: Array<{ gpuType: RentalGpuType; data: RentalPriceHistory }> = [];
+      return newHistory;
+    });
 
-      // Update in-memory history
-      setHistory((prev) => {
-        const newHistory = { ...prev };
+    if (recordsToStore.length > 0) {
+      storePriceRecords(recordsToStore).catch(console.error);
+    }
 
-        for (const [gpuType, stats] of Object.entries(data.prices) as [
-          RentalGpuType,
-          RentalPriceStats,
-        ][]) {
-          const gpuHistory = newHistory[gpuType] || [];
-          const newPoint: RentalPriceHistory = {
-            timestamp: data.timestamp,
-            avgPrice: stats.avgPrice,
-            minPrice: stats.minPrice,
-            maxPrice: stats.maxPrice,
-            offerCount: stats.offerCount,
-          };
-
-          if (gpuHistory.length === 0 || gpuHistory[gpuHistory.length - 1].timestamp !== data.timestamp) {
-            newHistory[gpuType] = [...gpuHistory.slice(-MAX_MEMORY_HISTORY + 1), newPoint];
-            recordsToStore.push({ gpuType, data: newPoint });
-          }
-        }
+    runMaintenance();
+  }, [runMaintenance]);
+
+  const isStreaming = useOracleStream(['rental'], {
+    rental: (data) => {
+      applyRentalData(data as RentalStreamEvent);
+      setIsLoading(false);
+    },
+  });
 
-        return newHistory;
-      });
+  const fetchPrices = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`${API_BASE}/rental/prices`);
 
-      if (recordsToStore.length > 0) {
-        storePriceRecords(recordsToStore).catch(console.error);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
       }
 
-      runMaintenance();
+      applyRentalData(await response.json());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch rental prices');
     } finally {
       setIsLoading(false);
     }
-  }, [runMaintenance]);
+  }, [applyRentalData]);
 
   const loadFullHistory = useCallback(async (gpuType: RentalGpuType): Promise<RentalPriceHistory[]> => {
     const allHistory = await getAllPriceHistory();
@@ -295,15 +308,21 @@ export function useRentalPrices(): UseRentalPricesResult {
 
   useEffect(() => {
     fetchPrices();
+  }, [fetchPrices]);
+
+  // Poll only as a fallback when the stream is unavailable
+  useEffect(() => {
+    if (isStreaming) return;
     const interval = setInterval(fetchPrices, POLL_INTERVAL);
     return () => clearInterval(interval);
-  }, [fetchPrices]);
+  }, [fetchPrices, isStreaming]);
 
   return {
     prices,
     history,
     storageStats,
     isLoading,
+    isStreaming,
     error,
     lastUpdate,
     dataSource,
@@ -42,11 +42,6 @@ export function useServiceWorker(
         registration.addEventListener('updatefound', () => {
           console.log('[App] Service worker update found');
         });
-
-        // Tell SW to start background updates
-        if (registration.active) {
-          registration.active.postMessage({ type: 'START_UPDATES' });
-        }
       } catch (error) {
         console.error('[App] Service worker registration failed:', error);
       }
@@ -57,11 +52,6 @@ export function useServiceWorker(
       if (existing) {
         registrationRef.current = existing;
         setIsRegistered(true);
-
-        // Ensure updates are running
-        if (existing.active) {
-          existing.active.postMessage({ type: 'START_UPDATES' });
-        }
       } else {
         registerSW();
       }
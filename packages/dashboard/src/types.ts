@@ -1,14 +1,14 @@
-export type AssetId =
-  | 'GPU_RTX4090'
-  | 'GPU_RTX4080'
-  | 'GPU_RTX3090'
-  | 'RAM_DDR5_32'
-  | 'RAM_DDR5_64';
+// API response shapes; the oracle service publishes the authoritative schemas at GET /openapi.json (docs at /docs)
+
+// Asset IDs come from the oracle service's asset registry (GET /assets)
+export type AssetId = string;
 
 export interface SourceInfo {
   name: string;
   price: number;
   isSimulated: boolean;
+  reliability?: number;  // Learned 0-1 source reliability
+  weight?: number;       // Aggregation weight (reliability x adapter health)
 }
 
 export interface PriceData {
@@ -17,12 +17,72 @@ export interface PriceData {
   priceInt: string;
   sourceCount: number;
   timestamp: number;
+  ageMs?: number;      // Time since the oracle last priced the asset from listings
+  quorum?: PriceQuorum;  // Support for the latest update; when not met the price is held
+  guardrail?: PriceGuardrail;  // 'pending' while a large move awaits confirmation
+  pin?: PricePin | null;  // Set while an operator has pinned the price manually
   currency: string;
   sources: SourceInfo[];
+  confidence?: number;
+  method?: 'median' | 'nftperp' | 'ventuals' | 'hybrid';
+  condition?: 'new' | 'used' | 'refurbished';
+  attestation?: PriceAttestation;  // Present when the oracle signs responses
+}
+
+export interface PriceQuorum {
+  met: boolean;
+  sources: number;
+  listings: number;
+  minSources: number;
+  minListings: number;
+}
+
+export interface PriceGuardrail {
+  state: 'ok' | 'clamped' | 'pending' | 'confirmed' | 'released';
+  candidate: number | null;
+  band: { min: number; max: number } | null;
+  confirmations: number;
+  required: number;
+  pendingSince: number | null;
+}
+
+export interface PricePin {
+  price: number;
+  reason: string;
+  pinnedAt: number;
+  expiresAt: number;
+}
+
+export interface PriceAttestation {
+  algorithm: 'ed25519';
+  version: string;
+  publicKey: string;   // hex
+  signature: string;   // hex
+}
+
+export interface UnavailablePriceError {
+  statusCode: 503;
+  reason: 'paused' | 'stale';
+  error: string;
+  ageMs: number;
+  maxAgeMs: number;
+  timestamp: number;
 }
 
 export interface PricesResponse {
   prices: Record<AssetId, PriceData>;
+  errors?: Partial<Record<AssetId, UnavailablePriceError>>;  // Assets withheld because their feed is paused or stale
+  timestamp: number;
+}
+
+// `price` event on /stream: one asset after an oracle update
+export interface PriceStreamEvent {
+  assetId: AssetId;
+  condition: 'new' | 'used' | 'refurbished';
+  changed: boolean;
+  insufficientSources: boolean;
+  price: PriceData | null;
+  error: UnavailablePriceError | null;
   timestamp: number;
 }
 
@@ -41,11 +101,23 @@ export interface PriceHistory {
 export interface AssetInfo {
   id: AssetId;
   name: string;
-  category: 'GPU' | 'RAM';
+  category: string;
   icon: string;
   description: string;
 }
 
+export interface AssetsResponse {
+  assets: Array<{
+    id: AssetId;
+    name: string;
+    description: string;
+    category: string;
+    priceBounds: { min: number; max: number };
+  }>;
+  timestamp: number;
+}
+
+// Fallback asset list, used until the registry has been fetched from /assets
 export const ASSETS: AssetInfo[] = [
   {
     id: 'GPU_RTX4090',
@@ -104,13 +176,24 @@ export interface RentalPriceStats {
   offerCount: number;
   interruptibleAvg: number;
   onDemandAvg: number;
+  providers?: Record<string, RentalProviderStats>;  // Breakdown by rental provider
   timestamp: number;
 }
 
+export type RentalProviderStats = Omit<RentalPriceStats, 'gpuType' | 'providers' | 'timestamp'>;
+
 export interface RentalPricesResponse {
   prices: Record<RentalGpuType, RentalPriceStats>;
   timestamp: number;
   cached: boolean;
+  source?: string;
+}
+
+// `rental` event on /stream: same stats as /rental/prices
+export interface RentalStreamEvent {
+  prices: Record<RentalGpuType, RentalPriceStats>;
+  timestamp: number;
+  source: 'oracle-service';
 }
 
 export interface RentalGpuInfo {
@@ -0,0 +1,72 @@
+/**
+ * Verification of signed price attestations from the oracle service.
+ * Rebuilds the canonical message signed by the service
+ * (packages/oracle-service/src/attestation/attestor.ts) and checks the
+ * ed25519 signature with Web Crypto.
+ */
+
+import type { AssetId, PriceData, PriceAttestation } from '../types';
+
+const API_BASE = import.meta.env.VITE_ORACLE_API_URL || '/api';
+
+const ATTESTATION_VERSION = 'hardex-price-v1';
+
+function hexToBytes(hex: string): ArrayBuffer {
+  const clean = hex.replace(/^0x/, '');
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Canonical message the oracle signs for a price
+ */
+export function canonicalPriceMessage(assetId: AssetId, price: PriceData): string {
+  return [
+    ATTESTATION_VERSION,
+    assetId,
+    price.condition ?? 'new',
+    price.priceInt,
+    BigInt(Math.round(price.twap * 1e8)).toString(),
+    price.timestamp.toString(),
+    price.sourceCount.toString(),
+  ].join('\n');
+}
+
+/**
+ * Fetch the oracle's attestation public key (hex), or null if attestations are disabled
+ */
+export async function fetchOraclePublicKey(): Promise<string | null> {
+  const response = await fetch(`${API_BASE}/pubkey`);
+  if (!response.ok) return null;
+
+  const data: { publicKey?: string } = await response.json();
+  return data.publicKey ?? null;
+}
+
+/**
+ * Verify a price's attestation against the oracle's public key.
+ * Always pass a key obtained independently (e.g. fetchOraclePublicKey or a pinned value),
+ * not the one embedded in the attestation.
+ */
+export async function verifyPriceAttestation(
+  assetId: AssetId,
+  price: PriceData,
+  publicKey: string,
+  attestation: PriceAttestation | undefined = price.attestation
+): Promise<boolean> {
+  if (!attestation || attestation.algorithm !== 'ed25519' || attestation.version !== ATTESTATION_VERSION) {
+    return false;
+  }
+
+  try {
+    const key = await crypto.subtle.importKey('raw', hexToBytes(publicKey), { name: 'Ed25519' }, false, ['verify']);
+    const message = new TextEncoder().encode(canonicalPriceMessage(assetId, price));
+    return await crypto.subtle.verify({ name: 'Ed25519' }, key, hexToBytes(attestation.signature), message);
+  } catch {
+    // Browsers without Ed25519 support in Web Crypto end up here too
+    return false;
+  }
+}
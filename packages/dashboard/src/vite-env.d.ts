@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_ORACLE_API_URL?: string;
+  readonly VITE_ORACLE_STREAM_URL?: string;
 }
 
 interface ImportMeta {
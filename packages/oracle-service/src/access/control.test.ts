@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { AccessControl } from './control.js';
+
+const PARTNER_KEY = 'partner-key-0123456789';
+
+describe('AccessControl', () => {
+  let server: Server;
+  let baseUrl: string;
+  let access: AccessControl;
+
+  beforeEach(() =>
+    new Promise<void>(resolve => {
+      access = new AccessControl({
+        clients: [{ name: 'partner', key: PARTNER_KEY, requestsPerMinute: 3 }],
+        client: { requestsPerMinute: 100, dailyQuota: 1000 },
+        anonymous: { requestsPerMinute: 1, dailyQuota: 100 },
+      });
+      const app = express();
+      app.get('/prices', access.limit(), (_req, res) => {
+        res.json({ ok: true });
+      });
+      const rental = express.Router();
+      rental.get('/prices/:gpuType', (_req, res) => {
+        res.json({ ok: true });
+      });
+      app.use('/rental', access.limit(), rental);
+      app.get('/usage', (req, res) => {
+        res.json(access.getStatus(req));
+      });
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        resolve();
+      });
+    })
+  );
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const get = (path: string, key?: string) =>
+    fetch(`${baseUrl}${path}`, { headers: key ? { 'X-API-Key': key } : {} });
+
+  it('limits anonymous callers and responds 429 with Retry-After', async () => {
+    const first = await get('/prices');
+    expect(first.status).toBe(200);
+    expect(first.headers.get('x-ratelimit-limit')).toBe('1');
+    expect(first.headers.get('x-quota-remaining')).toBe('99');
+
+    const second = await get('/prices');
+    expect(second.status).toBe(429);
+    expect(Number(second.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(await second.json()).toMatchObject({ error: 'Rate limit exceeded', client: 'anonymous' });
+  });
+
+  it('applies per-client limits to keyed callers', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await get('/prices', PARTNER_KEY)).status).toBe(200);
+    }
+    expect((await get('/prices', PARTNER_KEY)).status).toBe(429);
+
+    // Anonymous callers have their own budget
+    expect((await get('/prices')).status).toBe(200);
+  });
+
+  it('rejects unknown keys', async () => {
+    expect((await get('/prices', 'not-a-real-key-000000')).status).toBe(401);
+  });
+
+  it('reports usage per client', async () => {
+    await get('/prices', PARTNER_KEY);
+    await get('/prices', PARTNER_KEY);
+
+    const status = await (await get('/usage', PARTNER_KEY)).json();
+    expect(status).toMatchObject({
+      client: 'partner',
+      anonymous: false,
+      limits: { limit: 3, remaining: 1, quota: 1000, quotaRemaining: 998 },
+      usage: { requests: 2, routes: { 'GET /prices': 2 } },
+    });
+
+    const report = access.getUsageReport();
+    expect(report.map(r => [r.client, r.usage?.requests ?? 0])).toEqual([['partner', 2], ['anonymous', 0]]);
+  });
+
+  it('counts requests to a limited router under its mount path', async () => {
+    await get('/rental/prices/RTX_4090', PARTNER_KEY);
+    await get('/rental/prices/H100_80GB', PARTNER_KEY);
+
+    const status = await (await get('/usage', PARTNER_KEY)).json();
+    expect(status).toMatchObject({ usage: { requests: 2, routes: { 'GET /rental': 2 } } });
+  });
+});
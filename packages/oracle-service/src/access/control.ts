@@ -0,0 +1,170 @@
+/**
+ * Public API Access Control
+ *
+ * Identifies callers of the public price routes and enforces their budgets:
+ * - clients send `X-API-Key: <key>` and get their configured limits
+ * - callers without a key are anonymous and limited per IP at a lower rate
+ * - an unknown key is rejected with 401 rather than treated as anonymous
+ *
+ * Every response carries X-RateLimit-* and X-Quota-* headers; rejected
+ * requests get 429 with Retry-After.
+ */
+
+import { createHash } from 'crypto';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { ApiClient, RateLimitPolicy } from '../config/index.js';
+import { RateLimiter, type RateLimitDecision } from './limiter.js';
+import { UsageTracker, type ClientUsage } from './usage.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('access');
+
+export const ANONYMOUS_CLIENT = 'anonymous';
+
+export interface AccessControlOptions {
+  clients: ApiClient[];
+  client: RateLimitPolicy;      // Default limits for keyed clients
+  anonymous: RateLimitPolicy;   // Limits per anonymous IP
+}
+
+export interface ClientIdentity {
+  client: string;               // Client name, or 'anonymous'
+  anonymous: boolean;
+  bucket: string;               // Rate limit bucket: the client, or the anonymous IP
+  policy: RateLimitPolicy;
+}
+
+export interface ClientStatus {
+  client: string;
+  anonymous: boolean;
+  limits: Omit<RateLimitDecision, 'allowed' | 'reason' | 'retryAfterMs'>;
+  usage: ClientUsage | null;    // Omitted for anonymous callers, who share one counter
+}
+
+export class AccessControl {
+  private clients: Map<string, { name: string; policy: RateLimitPolicy }> = new Map();
+  private limiter = new RateLimiter();
+  private usage = new UsageTracker();
+
+  constructor(private readonly options: AccessControlOptions) {
+    for (const client of options.clients) {
+      this.clients.set(hashKey(client.key), {
+        name: client.name,
+        policy: {
+          requestsPerMinute: client.requestsPerMinute ?? options.client.requestsPerMinute,
+          dailyQuota: client.dailyQuota ?? options.client.dailyQuota,
+        },
+      });
+    }
+  }
+
+  /**
+   * Identify the caller of a request
+   * @returns null when an API key is sent but not recognized
+   */
+  identify(req: Request): ClientIdentity | null {
+    const key = req.header('x-api-key')?.trim();
+
+    if (!key) {
+      return {
+        client: ANONYMOUS_CLIENT,
+        anonymous: true,
+        bucket: `${ANONYMOUS_CLIENT}:${req.ip ?? 'unknown'}`,
+        policy: this.options.anonymous,
+      };
+    }
+
+    const client = this.clients.get(hashKey(key));
+    if (!client) return null;
+    return { client: client.name, anonymous: false, bucket: client.name, policy: client.policy };
+  }
+
+  /**
+   * Middleware counting each request against the caller's budgets
+   */
+  limit(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const identity = this.identify(req);
+      if (!identity) {
+        res.status(401).json({ error: 'Invalid API key' });
+        return;
+      }
+
+      const route = `${req.method} ${routeKey(req)}`;
+      const decision = this.limiter.consume(identity.bucket, identity.policy);
+      this.usage.record(identity.client, route, decision.reason);
+      setLimitHeaders(res, decision);
+
+      if (!decision.allowed) {
+        const retryAfter = Math.ceil((decision.retryAfterMs ?? 0) / 1000);
+        logger.debug(`${identity.bucket}: ${decision.reason} limit reached on ${route}, retry in ${retryAfter}s`);
+        res.setHeader('Retry-After', String(retryAfter));
+        res.status(429).json({
+          error: decision.reason === 'quota' ? 'Daily quota exceeded' : 'Rate limit exceeded',
+          client: identity.client,
+          retryAfter,
+          limit: decision.limit,
+          quota: decision.quota,
+        });
+        return;
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * Limits and usage for the caller of a request, without counting it
+   * @returns null when an API key is sent but not recognized
+   */
+  getStatus(req: Request): ClientStatus | null {
+    const identity = this.identify(req);
+    if (!identity) return null;
+
+    const { allowed: _allowed, reason: _reason, retryAfterMs: _retryAfterMs, ...limits } =
+      this.limiter.peek(identity.bucket, identity.policy);
+
+    return {
+      client: identity.client,
+      anonymous: identity.anonymous,
+      limits,
+      usage: identity.anonymous ? null : this.usage.get(identity.client),
+    };
+  }
+
+  /**
+   * Usage report for every client, including configured clients not seen yet
+   */
+  getUsageReport(): Array<{ client: string; policy: RateLimitPolicy; usage: ClientUsage | null }> {
+    const configured = Array.from(this.clients.values()).map(({ name, policy }) => ({
+      client: name,
+      policy,
+      usage: this.usage.get(name),
+    }));
+    return [
+      ...configured,
+      { client: ANONYMOUS_CLIENT, policy: this.options.anonymous, usage: this.usage.get(ANONYMOUS_CLIENT) },
+    ];
+  }
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Usage key for a request: the matched route pattern, or the mount path when
+// limiting a whole router, so raw paths like /rental/prices/RTX_4090 don't
+// each get their own counter
+function routeKey(req: Request): string {
+  if (req.route) return `${req.baseUrl}${req.route.path}`;
+  return req.baseUrl || '/';
+}
+
+function setLimitHeaders(res: Response, decision: RateLimitDecision): void {
+  res.setHeader('X-RateLimit-Limit', String(decision.limit));
+  res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+  res.setHeader('X-RateLimit-Reset', String(Math.ceil(decision.resetMs / 1000)));
+  res.setHeader('X-Quota-Limit', String(decision.quota));
+  res.setHeader('X-Quota-Remaining', String(decision.quotaRemaining));
+  res.setHeader('X-Quota-Reset', String(Math.ceil(decision.quotaResetMs / 1000)));
+}
@@ -0,0 +1,6 @@
+export { AccessControl, ANONYMOUS_CLIENT } from './control.js';
+export type { AccessControlOptions, ClientIdentity, ClientStatus } from './control.js';
+export { RateLimiter } from './limiter.js';
+export type { RateLimitDecision } from './limiter.js';
+export { UsageTracker } from './usage.js';
+export type { ClientUsage } from './usage.js';
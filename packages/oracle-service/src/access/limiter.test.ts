@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from './limiter.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('RateLimiter', () => {
+  const policy = { requestsPerMinute: 2, dailyQuota: 5 };
+
+  it('allows a burst up to the per-minute limit, then asks to retry', () => {
+    const limiter = new RateLimiter();
+    const now = 10 * DAY;
+
+    expect(limiter.consume('a', policy, now).remaining).toBe(1);
+    expect(limiter.consume('a', policy, now).allowed).toBe(true);
+
+    const rejected = limiter.consume('a', policy, now);
+    expect(rejected).toMatchObject({ allowed: false, reason: 'rate', remaining: 0, retryAfterMs: 30000 });
+
+    // Tokens refill continuously
+    expect(limiter.consume('a', policy, now + 30000).allowed).toBe(true);
+  });
+
+  it('keeps separate budgets per caller', () => {
+    const limiter = new RateLimiter();
+    const now = 10 * DAY;
+
+    limiter.consume('a', policy, now);
+    limiter.consume('a', policy, now);
+
+    expect(limiter.consume('a', policy, now).allowed).toBe(false);
+    expect(limiter.consume('b', policy, now).allowed).toBe(true);
+  });
+
+  it('enforces the daily quota until 00:00 UTC', () => {
+    const limiter = new RateLimiter();
+    let now = 10 * DAY;
+
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.consume('a', policy, now).allowed).toBe(true);
+      now += 60000;
+    }
+
+    const rejected = limiter.consume('a', policy, now);
+    expect(rejected).toMatchObject({ allowed: false, reason: 'quota', quotaRemaining: 0 });
+    expect(rejected.retryAfterMs).toBe(11 * DAY - now);
+
+    expect(limiter.consume('a', policy, 11 * DAY)).toMatchObject({ allowed: true, quotaRemaining: 4 });
+  });
+
+  it('reports budgets without consuming them', () => {
+    const limiter = new RateLimiter();
+    const now = 10 * DAY;
+
+    expect(limiter.peek('a', policy, now)).toMatchObject({ remaining: 2, quotaRemaining: 5 });
+    limiter.consume('a', policy, now);
+    expect(limiter.peek('a', policy, now)).toMatchObject({ remaining: 1, quotaRemaining: 4 });
+    expect(limiter.peek('a', policy, now)).toMatchObject({ remaining: 1, quotaRemaining: 4 });
+  });
+});
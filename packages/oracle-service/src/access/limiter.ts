@@ -0,0 +1,137 @@
+/**
+ * Request Rate Limiter
+ *
+ * Enforces two budgets per caller:
+ * - a token bucket holding `requestsPerMinute` tokens, refilled continuously,
+ *   so short bursts are allowed but the sustained rate is capped
+ * - a daily quota that resets at 00:00 UTC
+ *
+ * Buckets are created on first use and dropped once idle, so anonymous
+ * callers tracked per IP don't accumulate forever.
+ */
+
+import type { RateLimitPolicy } from '../config/index.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const PRUNE_EVERY = 1000;  // Checks between sweeps for idle buckets
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  reason: 'rate' | 'quota' | null;  // Budget that rejected the request
+  limit: number;                    // Requests per minute
+  remaining: number;                // Whole tokens left in the bucket
+  resetMs: number;                  // Time until the bucket is full again
+  quota: number;
+  quotaRemaining: number;
+  quotaResetMs: number;             // Time until the daily quota resets
+  retryAfterMs: number | null;      // Set when rejected
+}
+
+interface Bucket {
+  tokens: number;
+  refilledAt: number;
+  day: number;                      // UTC day number the quota count belongs to
+  used: number;                     // Requests counted against today's quota
+}
+
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private checks = 0;
+
+  /**
+   * Count a request against a caller's budgets
+   */
+  consume(id: string, policy: RateLimitPolicy, now: number = Date.now()): RateLimitDecision {
+    if (++this.checks % PRUNE_EVERY === 0) {
+      this.prune(now);
+    }
+
+    const bucket = this.getBucket(id, policy, now);
+    let reason: RateLimitDecision['reason'] = null;
+
+    if (bucket.used >= policy.dailyQuota) {
+      reason = 'quota';
+    } else if (bucket.tokens < 1) {
+      reason = 'rate';
+    } else {
+      bucket.tokens -= 1;
+      bucket.used += 1;
+    }
+
+    return this.decide(bucket, policy, now, reason);
+  }
+
+  /**
+   * Current budgets for a caller, without counting a request
+   */
+  peek(id: string, policy: RateLimitPolicy, now: number = Date.now()): RateLimitDecision {
+    const bucket = this.buckets.get(id) ? this.getBucket(id, policy, now) : this.newBucket(policy, now);
+    return this.decide(bucket, policy, now, null);
+  }
+
+  private getBucket(id: string, policy: RateLimitPolicy, now: number): Bucket {
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      bucket = this.newBucket(policy, now);
+      this.buckets.set(id, bucket);
+      return bucket;
+    }
+
+    const ratePerMs = policy.requestsPerMinute / MINUTE_MS;
+    bucket.tokens = Math.min(policy.requestsPerMinute, bucket.tokens + (now - bucket.refilledAt) * ratePerMs);
+    bucket.refilledAt = now;
+
+    const day = Math.floor(now / DAY_MS);
+    if (day !== bucket.day) {
+      bucket.day = day;
+      bucket.used = 0;
+    }
+    return bucket;
+  }
+
+  private newBucket(policy: RateLimitPolicy, now: number): Bucket {
+    return { tokens: policy.requestsPerMinute, refilledAt: now, day: Math.floor(now / DAY_MS), used: 0 };
+  }
+
+  private decide(
+    bucket: Bucket,
+    policy: RateLimitPolicy,
+    now: number,
+    reason: RateLimitDecision['reason']
+  ): RateLimitDecision {
+    const msPerToken = MINUTE_MS / policy.requestsPerMinute;
+    const quotaResetMs = (bucket.day + 1) * DAY_MS - now;
+
+    let retryAfterMs: number | null = null;
+    if (reason === 'quota') {
+      retryAfterMs = quotaResetMs;
+    } else if (reason === 'rate') {
+      retryAfterMs = Math.ceil((1 - bucket.tokens) * msPerToken);
+    }
+
+    return {
+      allowed: reason === null,
+      reason,
+      limit: policy.requestsPerMinute,
+      remaining: Math.floor(bucket.tokens),
+      resetMs: Math.ceil((policy.requestsPerMinute - bucket.tokens) * msPerToken),
+      quota: policy.dailyQuota,
+      quotaRemaining: Math.max(0, policy.dailyQuota - bucket.used),
+      quotaResetMs,
+      retryAfterMs,
+    };
+  }
+
+  /**
+   * Drop buckets that have refilled completely and carry no quota for today
+   */
+  private prune(now: number): void {
+    const today = Math.floor(now / DAY_MS);
+    for (const [id, bucket] of this.buckets) {
+      if (now - bucket.refilledAt > MINUTE_MS && (bucket.day !== today || bucket.used === 0)) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+}
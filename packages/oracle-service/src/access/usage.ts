@@ -0,0 +1,79 @@
+/**
+ * API Usage Tracker
+ *
+ * Counts requests per client for the usage report: totals, rejections by
+ * budget, requests per route and per UTC day. Anonymous callers are counted
+ * together under a single 'anonymous' client.
+ */
+
+const MAX_ROUTES = 50;        // Distinct routes tracked per client; the rest count as 'other'
+const MAX_DAYS = 30;          // Days of daily counts kept per client
+
+export interface ClientUsage {
+  client: string;
+  requests: number;           // Requests served, including ones that later failed
+  rejected: { rate: number; quota: number };
+  routes: Record<string, number>;
+  daily: Record<string, number>;  // YYYY-MM-DD (UTC) -> requests
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export class UsageTracker {
+  private usage: Map<string, ClientUsage> = new Map();
+
+  record(
+    client: string,
+    route: string,
+    rejected: 'rate' | 'quota' | null,
+    now: number = Date.now()
+  ): void {
+    const usage = this.getUsage(client, now);
+    usage.lastSeen = now;
+
+    if (rejected) {
+      usage.rejected[rejected]++;
+      return;
+    }
+
+    usage.requests++;
+
+    const routeKey = route in usage.routes || Object.keys(usage.routes).length < MAX_ROUTES ? route : 'other';
+    usage.routes[routeKey] = (usage.routes[routeKey] ?? 0) + 1;
+
+    const day = new Date(now).toISOString().slice(0, 10);
+    usage.daily[day] = (usage.daily[day] ?? 0) + 1;
+    const days = Object.keys(usage.daily).sort();
+    for (const old of days.slice(0, Math.max(0, days.length - MAX_DAYS))) {
+      delete usage.daily[old];
+    }
+  }
+
+  get(client: string): ClientUsage | null {
+    const usage = this.usage.get(client);
+    return usage ? structuredClone(usage) : null;
+  }
+
+  getAll(): ClientUsage[] {
+    return Array.from(this.usage.values())
+      .map(usage => structuredClone(usage))
+      .sort((a, b) => b.requests - a.requests);
+  }
+
+  private getUsage(client: string, now: number): ClientUsage {
+    let usage = this.usage.get(client);
+    if (!usage) {
+      usage = {
+        client,
+        requests: 0,
+        rejected: { rate: 0, quota: 0 },
+        routes: {},
+        daily: {},
+        firstSeen: now,
+        lastSeen: now,
+      };
+      this.usage.set(client, usage);
+    }
+    return usage;
+  }
+}
@@ -1,8 +1,8 @@
 import axios, { AxiosInstance } from 'axios';
 import crypto from 'crypto';
-import type { PriceAdapter, PricePoint } from './types.js';
+import type { AdapterConfig, PriceAdapter, PricePoint } from './types.js';
 import type { AssetId, Config } from '../config/index.js';
-import { ASSET_SEARCH_TERMS } from '../config/index.js';
+import { getAssetDefinition } from '../config/index.js';
 import { AdapterError } from './types.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -36,6 +36,13 @@ interface AmazonSearchResponse {
 
 export class AmazonAdapter implements PriceAdapter {
   readonly name = 'amazon';
+  // PA-API 5 starts accounts at one request per second
+  readonly limits: AdapterConfig = {
+    enabled: true,
+    domain: 'amazon.com',
+    concurrency: 1,
+    rateLimit: { maxRequests: 1, windowMs: 1000 },
+  };
   private client: AxiosInstance;
 
   constructor(private config: Config['apis']['amazon']) {
@@ -79,7 +86,7 @@ export class AmazonAdapter implements PriceAdapter {
       return [];
     }
 
-    const searchTerms = ASSET_SEARCH_TERMS[assetId];
+    const searchTerms = getAssetDefinition(assetId).searchTerms;
     const prices: PricePoint[] = [];
 
     try {
@@ -1,7 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
-import type { PriceAdapter, PricePoint } from './types.js';
+import type { AdapterConfig, PriceAdapter, PricePoint } from './types.js';
 import type { AssetId, Config } from '../config/index.js';
-import { ASSET_SEARCH_TERMS, BESTBUY_CATEGORY_IDS } from '../config/index.js';
+import { getAssetDefinition, getRetailerQuery } from '../config/index.js';
 import { AdapterError } from './types.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -27,6 +27,13 @@ interface BestBuySearchResponse {
 
 export class BestBuyAdapter implements PriceAdapter {
   readonly name = 'bestbuy';
+  // Products API allows 5 calls per second
+  readonly limits: AdapterConfig = {
+    enabled: true,
+    domain: 'bestbuy.com',
+    concurrency: 2,
+    rateLimit: { maxRequests: 5, windowMs: 1000 },
+  };
   private client: AxiosInstance;
 
   constructor(private config: Config['apis']['bestbuy']) {
@@ -46,8 +53,8 @@ export class BestBuyAdapter implements PriceAdapter {
       return [];
     }
 
-    const searchTerms = ASSET_SEARCH_TERMS[assetId];
-    const categoryId = BESTBUY_CATEGORY_IDS[assetId];
+    const searchTerms = getAssetDefinition(assetId).searchTerms;
+    const categoryId = getRetailerQuery(assetId, 'bestbuy-api')?.categoryId;
     const prices: PricePoint[] = [];
 
     try {
@@ -102,7 +109,7 @@ export class BestBuyAdapter implements PriceAdapter {
 
   private buildSearchQuery(
     term: string,
-    categoryId: string,
+    categoryId: string | undefined,
     assetId: AssetId
   ): Record<string, string> {
     // Build Best Buy query filter
@@ -114,13 +121,14 @@ export class BestBuyAdapter implements PriceAdapter {
     filters.push(`(search=${encodeURIComponent(term)})`);
 
     // Category filter
-    filters.push(`(categoryPath.id=${categoryId})`);
+    if (categoryId) {
+      filters.push(`(categoryPath.id=${categoryId})`);
+    }
 
-    // Price range filters based on asset type
-    if (assetId.startsWith('GPU_')) {
-      filters.push('(salePrice>=500)'); // GPUs typically $500+
-    } else if (assetId.startsWith('RAM_')) {
-      filters.push('(salePrice>=50)'); // RAM typically $50+
+    // Price floor from the asset's sanity bounds
+    const { min } = getAssetDefinition(assetId).priceBounds;
+    if (min > 0) {
+      filters.push(`(salePrice>=${min})`);
     }
 
     return {
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreakerAdapter } from './circuit-breaker.js';
+import { AdapterError, type PriceAdapter, type PricePoint } from './types.js';
+import { VirtualClock } from '../utils/clock.js';
+
+class StubAdapter implements PriceAdapter {
+  readonly name = 'stub';
+  calls = 0;
+  fail = false;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async fetchPrices(assetId: string): Promise<PricePoint[]> {
+    this.calls++;
+    if (this.fail) {
+      throw new AdapterError(this.name, 'BLOCKED', 'blocked');
+    }
+    return [{ price: 100, source: this.name, timestamp: Date.now(), assetId }];
+  }
+}
+
+describe('CircuitBreakerAdapter', () => {
+  let stub: StubAdapter;
+  let breaker: CircuitBreakerAdapter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    stub = new StubAdapter();
+    breaker = new CircuitBreakerAdapter(stub, { failureThreshold: 2, cooldownMs: 60000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes calls through while closed', async () => {
+    const prices = await breaker.fetchPrices('GPU_RTX4090');
+
+    expect(prices).toHaveLength(1);
+    expect(breaker.getHealth().state).toBe('closed');
+    expect(breaker.getHealth().successRate).toBe(1);
+  });
+
+  it('opens after consecutive failures and stops calling the adapter', async () => {
+    stub.fail = true;
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow('blocked');
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow('blocked');
+
+    expect(breaker.getHealth().state).toBe('open');
+    expect(breaker.getHealth().healthScore).toBe(0);
+
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(stub.calls).toBe(2);
+  });
+
+  it('records the last error', async () => {
+    stub.fail = true;
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow();
+
+    const health = breaker.getHealth();
+    expect(health.lastError?.code).toBe('BLOCKED');
+    expect(health.consecutiveFailures).toBe(1);
+    expect(health.successRate).toBe(0);
+  });
+
+  it('closes again after a successful half-open trial', async () => {
+    stub.fail = true;
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow();
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow();
+
+    vi.setSystemTime(Date.now() + 60000);
+    expect(breaker.getHealth().state).toBe('half-open');
+
+    stub.fail = false;
+    await breaker.fetchPrices('GPU_RTX4090');
+
+    expect(breaker.getHealth().state).toBe('closed');
+    expect(breaker.getHealth().consecutiveFailures).toBe(0);
+  });
+
+  it('re-opens when the half-open trial fails', async () => {
+    stub.fail = true;
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow();
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow();
+
+    vi.setSystemTime(Date.now() + 60000);
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow('blocked');
+
+    const health = breaker.getHealth();
+    expect(health.state).toBe('open');
+    expect(health.nextAttemptAt).toBe(Date.now() + 60000);
+  });
+
+  it('times the cooldown on the given clock', async () => {
+    const clock = new VirtualClock(1000);
+    breaker = new CircuitBreakerAdapter(stub, { failureThreshold: 1, cooldownMs: 60000 }, clock);
+    stub.fail = true;
+    await expect(breaker.fetchPrices('GPU_RTX4090')).rejects.toThrow();
+
+    vi.setSystemTime(Date.now() + 120000);
+    expect(breaker.getHealth()).toMatchObject({ state: 'open', openedAt: 1000, nextAttemptAt: 61000 });
+
+    clock.set(61000);
+    expect(breaker.getHealth().state).toBe('half-open');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Circuit Breaker for Price Adapters
+ *
+ * Wraps a PriceAdapter so a source that keeps failing (blocked scraper,
+ * expired API credentials) stops being called every cycle:
+ * - closed: calls pass through; consecutive failures are counted
+ * - open: calls are rejected immediately until the cooldown expires
+ * - half-open: a single trial call decides whether to close or re-open
+ *
+ * Also tracks success rate, latency and the last error for health reporting.
+ * Cooldowns and health timestamps follow the given clock, so a backtest opens
+ * and closes circuits on its virtual timeline; latency is always wall time.
+ */
+
+import type { AdapterConfig, PriceAdapter, PricePoint } from './types.js';
+import type { AssetId } from '../config/index.js';
+import { AdapterError } from './types.js';
+import * as metrics from '../metrics/index.js';
+import { createLogger } from '../utils/logger.js';
+import { systemClock, type Clock } from '../utils/clock.js';
+
+const logger = createLogger('circuit-breaker');
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;   // Consecutive failures before opening
+  cooldownMs: number;         // Time to stay open before a trial call
+  windowSize: number;         // Recent calls used for success rate
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 15 * 60 * 1000,  // 15 minutes
+  windowSize: 20,
+};
+
+export interface AdapterHealth {
+  name: string;
+  state: CircuitState;
+  successRate: number;         // 0-1 over the recent window
+  healthScore: number;         // 0-1, used to down-weight the source
+  totalCalls: number;
+  totalFailures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastSuccessAt: number | null;
+  lastError: {
+    code: string;
+    message: string;
+    timestamp: number;
+  } | null;
+  openedAt: number | null;
+  nextAttemptAt: number | null;
+}
+
+export class CircuitBreakerAdapter implements PriceAdapter {
+  readonly name: string;
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = [];
+  private totalCalls = 0;
+  private totalFailures = 0;
+  private consecutiveFailures = 0;
+  private avgLatencyMs: number | null = null;
+  private lastLatencyMs: number | null = null;
+  private lastSuccessAt: number | null = null;
+  private lastError: AdapterHealth['lastError'] = null;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly inner: PriceAdapter,
+    options: Partial<CircuitBreakerOptions> = {},
+    private readonly clock: Clock = systemClock
+  ) {
+    this.name = inner.name;
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  /**
+   * The wrapped adapter
+   */
+  get adapter(): PriceAdapter {
+    return this.inner;
+  }
+
+  get limits(): AdapterConfig | undefined {
+    return this.inner.limits;
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async fetchPrices(assetId: AssetId): Promise<PricePoint[]> {
+    if (!this.acquire()) {
+      metrics.adapterFetches.inc({ adapter: this.name, code: 'CIRCUIT_OPEN' });
+      throw new AdapterError(
+        this.name,
+        'CIRCUIT_OPEN',
+        `Circuit open after ${this.consecutiveFailures} consecutive failures`
+      );
+    }
+
+    const start = Date.now();
+    try {
+      const prices = await this.inner.fetchPrices(assetId);
+      this.recordSuccess(Date.now() - start);
+      metrics.adapterFetches.inc({ adapter: this.name, code: 'OK' });
+      metrics.adapterFetchDuration.observe({ adapter: this.name, outcome: 'success' }, (Date.now() - start) / 1000);
+      return prices;
+    } catch (error) {
+      this.recordFailure(error, Date.now() - start);
+      metrics.adapterFetches.inc({ adapter: this.name, code: error instanceof AdapterError ? error.code : 'UNKNOWN' });
+      metrics.adapterFetchDuration.observe({ adapter: this.name, outcome: 'failure' }, (Date.now() - start) / 1000);
+      throw error;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Current circuit state, moving open -> half-open once the cooldown expires
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && this.openedAt !== null &&
+        this.clock.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  getHealth(): AdapterHealth {
+    const state = this.getState();
+    const successRate = this.outcomes.length > 0
+      ? this.outcomes.filter(Boolean).length / this.outcomes.length
+      : 1;
+    const stateFactor = state === 'closed' ? 1 : state === 'half-open' ? 0.5 : 0;
+
+    return {
+      name: this.name,
+      state,
+      successRate,
+      healthScore: successRate * stateFactor,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+      consecutiveFailures: this.consecutiveFailures,
+      avgLatencyMs: this.avgLatencyMs,
+      lastLatencyMs: this.lastLatencyMs,
+      lastSuccessAt: this.lastSuccessAt,
+      lastError: this.lastError,
+      openedAt: state === 'closed' ? null : this.openedAt,
+      nextAttemptAt: state === 'open' && this.openedAt !== null
+        ? this.openedAt + this.options.cooldownMs
+        : null,
+    };
+  }
+
+  /**
+   * Force the circuit closed and clear failure counters
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Decide whether a call may proceed. Half-open allows one trial call at a time.
+   */
+  private acquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') return true;
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  private recordSuccess(latencyMs: number): void {
+    this.recordOutcome(true, latencyMs);
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = this.clock.now();
+
+    if (this.state !== 'closed') {
+      logger.info(`${this.name}: trial call succeeded, closing circuit`);
+      this.state = 'closed';
+      this.openedAt = null;
+    }
+  }
+
+  private recordFailure(error: unknown, latencyMs: number): void {
+    this.recordOutcome(false, latencyMs);
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastError = {
+      code: error instanceof AdapterError ? error.code : 'UNKNOWN',
+      message: error instanceof Error ? error.message : String(error),
+      timestamp: this.clock.now(),
+    };
+
+    if (this.state === 'half-open' ||
+        this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(
+          `${this.name}: opening circuit after ${this.consecutiveFailures} consecutive failures ` +
+          `(retry in ${Math.round(this.options.cooldownMs / 1000)}s)`
+        );
+      }
+      this.state = 'open';
+      this.openedAt = this.clock.now();
+    }
+  }
+
+  private recordOutcome(success: boolean, latencyMs: number): void {
+    this.totalCalls++;
+    this.outcomes.push(success);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    this.lastLatencyMs = latencyMs;
+    // Exponential moving average of latency
+    this.avgLatencyMs = this.avgLatencyMs === null
+      ? latencyMs
+      : this.avgLatencyMs * 0.8 + latencyMs * 0.2;
+  }
+}
@@ -1,7 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
-import type { PriceAdapter, PricePoint } from './types.js';
+import type { AdapterConfig, ListingCondition, PriceAdapter, PricePoint } from './types.js';
 import type { AssetId, Config } from '../config/index.js';
-import { ASSET_SEARCH_TERMS } from '../config/index.js';
+import { getAssetDefinition } from '../config/index.js';
 import { AdapterError } from './types.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -26,8 +26,25 @@ interface EbaySearchResponse {
   total: number;
 }
 
+/**
+ * Map an eBay condition label ("New", "Open box", "Seller refurbished", ...) to a listing condition
+ */
+function parseCondition(condition: string | undefined): ListingCondition {
+  const value = condition?.toLowerCase() ?? '';
+  if (value.includes('refurbished')) return 'refurbished';
+  if (value.startsWith('new') || value.startsWith('brand new')) return 'new';
+  return 'used';
+}
+
 export class EbayAdapter implements PriceAdapter {
   readonly name = 'ebay';
+  // Browse API default quota is 5,000 calls per day
+  readonly limits: AdapterConfig = {
+    enabled: true,
+    domain: 'ebay.com',
+    concurrency: 4,
+    rateLimit: { maxRequests: 5000, windowMs: 24 * 60 * 60 * 1000 },
+  };
   private client: AxiosInstance;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
@@ -80,7 +97,7 @@ export class EbayAdapter implements PriceAdapter {
       return [];
     }
 
-    const searchTerms = ASSET_SEARCH_TERMS[assetId];
+    const searchTerms = getAssetDefinition(assetId).searchTerms;
     const prices: PricePoint[] = [];
 
     try {
@@ -96,7 +113,7 @@ export class EbayAdapter implements PriceAdapter {
             },
             params: {
               q: term,
-              filter: 'conditions:{NEW},deliveryCountry:US,price:[100..],buyingOptions:{FIXED_PRICE}',
+              filter: 'deliveryCountry:US,price:[100..],buyingOptions:{FIXED_PRICE}',
               sort: 'price',
               limit: 20,
             },
@@ -118,7 +135,7 @@ export class EbayAdapter implements PriceAdapter {
               metadata: {
                 productName: item.title,
                 seller: item.seller?.username,
-                condition: item.condition?.toLowerCase().includes('new') ? 'new' : 'used',
+                condition: parseCondition(item.condition),
                 url: item.itemWebUrl,
               },
             });
@@ -1,24 +1,30 @@
 import type { Config } from '../config/index.js';
-import type { PriceAdapter } from './types.js';
+import type { PriceAdapter, Region } from './types.js';
 import { EbayAdapter } from './ebay.js';
 import { AmazonAdapter } from './amazon.js';
 import { BestBuyAdapter } from './bestbuy.js';
 import { MockAdapter } from './mock.js';
 import { BestBuyScraperAdapter } from './scraper-bestbuy.js';
-import { NeweggScraperAdapter } from './scraper-newegg.js';
-import { AmazonScraperAdapter } from './scraper-amazon.js';
+import { NeweggScraperAdapter, NEWEGG_SITES } from './scraper-newegg.js';
+import { AmazonScraperAdapter, AMAZON_MARKETPLACES } from './scraper-amazon.js';
 import { BHPhotoScraperAdapter } from './scraper-bhphoto.js';
 import { initProxyPool } from './scraper-utils.js';
 
 export * from './types.js';
+export { CircuitBreakerAdapter, DEFAULT_CIRCUIT_BREAKER_OPTIONS } from './circuit-breaker.js';
+export type { AdapterHealth, CircuitBreakerOptions, CircuitState } from './circuit-breaker.js';
+export { classifyListing, classifyListings, parseCapacityGb, DEFAULT_EXCLUDE_TERMS } from './listing-classifier.js';
+export type { ListingClassification, ClassifiedListings, RejectionReason } from './listing-classifier.js';
 export { initProxyPool } from './scraper-utils.js';
 export { EbayAdapter } from './ebay.js';
 export { AmazonAdapter } from './amazon.js';
 export { BestBuyAdapter } from './bestbuy.js';
 export { MockAdapter, createMockAdapter } from './mock.js';
 export { BestBuyScraperAdapter } from './scraper-bestbuy.js';
-export { NeweggScraperAdapter } from './scraper-newegg.js';
-export { AmazonScraperAdapter } from './scraper-amazon.js';
+export { NeweggScraperAdapter, NEWEGG_SITES } from './scraper-newegg.js';
+export type { NeweggSite, NeweggScraperOptions } from './scraper-newegg.js';
+export { AmazonScraperAdapter, AMAZON_MARKETPLACES } from './scraper-amazon.js';
+export type { AmazonMarketplace, AmazonScraperOptions } from './scraper-amazon.js';
 export { BHPhotoScraperAdapter } from './scraper-bhphoto.js';
 
 export function createAdapters(config: Config): PriceAdapter[] {
@@ -34,6 +40,7 @@ export function createAdapters(config: Config): PriceAdapter[] {
 
 export interface ScraperOptions {
   useProxy?: boolean;
+  regions?: readonly Region[];  // Markets to scrape; US only by default
 }
 
 export function createScraperAdapters(options?: ScraperOptions): PriceAdapter[] {
@@ -44,12 +51,26 @@ export function createScraperAdapters(options?: ScraperOptions): PriceAdapter[]
   }
 
   // Return all scraper adapters that don't need API keys
-  return [
-    new NeweggScraperAdapter({ useProxy }),
-    new BestBuyScraperAdapter({ useProxy }),
-    new AmazonScraperAdapter({ useProxy }),
-    new BHPhotoScraperAdapter({ useProxy }),
-  ];
+  const regions = options?.regions ?? ['us'];
+  const adapters: PriceAdapter[] = [];
+  if (regions.includes('us')) {
+    adapters.push(
+      new NeweggScraperAdapter({ useProxy }),
+      new BestBuyScraperAdapter({ useProxy }),
+      new AmazonScraperAdapter({ useProxy }),
+      new BHPhotoScraperAdapter({ useProxy }),
+    );
+  }
+  if (regions.includes('ca')) {
+    adapters.push(new NeweggScraperAdapter({ useProxy, site: NEWEGG_SITES.ca }));
+  }
+  if (regions.includes('uk')) {
+    adapters.push(new AmazonScraperAdapter({ useProxy, marketplace: AMAZON_MARKETPLACES.uk }));
+  }
+  if (regions.includes('eu')) {
+    adapters.push(new AmazonScraperAdapter({ useProxy, marketplace: AMAZON_MARKETPLACES.de }));
+  }
+  return adapters;
 }
 
 export function createMockAdapters(): PriceAdapter[] {
@@ -65,3 +86,12 @@ export function createAllAdapters(config: Config): PriceAdapter[] {
     new BestBuyAdapter(config.apis.bestbuy),
   ];
 }
+
+// GPU rental marketplaces
+export * from './rental-types.js';
+export { VastaiRentalAdapter } from './rental-vastai.js';
+export { RunPodRentalAdapter } from './rental-runpod.js';
+export { LambdaRentalAdapter } from './rental-lambda.js';
+export { TensorDockRentalAdapter } from './rental-tensordock.js';
+export { MockRentalAdapter } from './rental-mock.js';
+export { RentalPriceAggregator, createRentalAdapters, summarizeOffers } from './rental-aggregator.js';
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { classifyListing, classifyListings, parseCapacityGb } from './listing-classifier.js';
+import type { PricePoint } from './types.js';
+
+function listing(source: string, productName?: string): PricePoint {
+  return {
+    price: 1600,
+    source,
+    timestamp: Date.now(),
+    assetId: 'GPU_RTX4090',
+    metadata: productName ? { productName } : undefined,
+  };
+}
+
+describe('parseCapacityGb', () => {
+  it('should multiply kit notation', () => {
+    expect(parseCapacityGb('G.Skill Trident Z5 DDR5-6000 (2x16GB)')).toBe(32);
+    expect(parseCapacityGb('Corsair Vengeance 64GB (2 x 32GB) DDR5')).toBe(64);
+  });
+
+  it('should read a bare size', () => {
+    expect(parseCapacityGb('Kingston Fury Beast 32GB DDR5 6000')).toBe(32);
+    expect(parseCapacityGb('DDR5 desktop memory')).toBeNull();
+  });
+});
+
+describe('classifyListing', () => {
+  it('should accept genuine graphics cards', () => {
+    expect(classifyListing('ASUS TUF Gaming GeForce RTX 4090 24GB GDDR6X', 'GPU_RTX4090').accepted).toBe(true);
+    expect(classifyListing('MSI RTX 4080 SUPER 16G Gaming X Slim', 'GPU_RTX4080').accepted).toBe(true);
+  });
+
+  it('should reject accessories, laptops and prebuilt PCs', () => {
+    const waterBlock = classifyListing('EKWB EK-Quantum Vector2 RTX 4090 Water Block', 'GPU_RTX4090');
+    expect(waterBlock).toEqual({ accepted: false, reason: 'excluded-term', detail: 'water block' });
+
+    expect(classifyListing('CableMod 12VHPWR Cable for RTX 4090', 'GPU_RTX4090').accepted).toBe(false);
+    expect(classifyListing('ASUS ROG Strix SCAR 18 Gaming Laptop RTX 4090', 'GPU_RTX4090').accepted).toBe(false);
+    expect(classifyListing('CyberPowerPC Gamer Supreme Gaming PC RTX 4090', 'GPU_RTX4090').accepted).toBe(false);
+  });
+
+  it('should reject other models', () => {
+    const result = classifyListing('ZOTAC GeForce RTX 4080 16GB', 'GPU_RTX4090');
+    expect(result.accepted).toBe(false);
+    expect(result.reason).toBe('missing-term');
+
+    expect(classifyListing('EVGA GeForce RTX 3090 Ti FTW3', 'GPU_RTX3090').accepted).toBe(false);
+  });
+
+  it('should match RAM kits by total capacity', () => {
+    expect(classifyListing('Corsair Vengeance DDR5 6000 (2x16GB)', 'RAM_DDR5_32').accepted).toBe(true);
+    expect(classifyListing('Corsair Vengeance 32GB DDR5 6000', 'RAM_DDR5_32').accepted).toBe(true);
+
+    const kit64 = classifyListing('Corsair Vengeance 64GB (2x32GB) DDR5 6000', 'RAM_DDR5_32');
+    expect(kit64).toEqual({ accepted: false, reason: 'capacity-mismatch', detail: '64GB' });
+
+    expect(classifyListing('Crucial 32GB DDR5 4800 SODIMM', 'RAM_DDR5_32').accepted).toBe(false);
+    expect(classifyListing('Corsair Vengeance 32GB DDR4 3200', 'RAM_DDR5_32').accepted).toBe(false);
+  });
+});
+
+describe('classifyListings', () => {
+  it('should count rejected listings per source', () => {
+    const result = classifyListings([
+      listing('newegg-scraper', 'Gigabyte GeForce RTX 4090 Gaming OC'),
+      listing('newegg-scraper', 'Phanteks Glacier RTX 4090 Water Block'),
+      listing('amazon-scraper', 'Vertical GPU Mount Bracket RTX 4090'),
+      listing('ebay'),
+    ], 'GPU_RTX4090');
+
+    expect(result.accepted.map(p => p.source)).toEqual(['newegg-scraper', 'ebay']);
+    expect(result.rejected).toBe(2);
+    expect(result.rejectedBySource).toEqual({ 'newegg-scraper': 1, 'amazon-scraper': 1 });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Listing Classifier
+ *
+ * Retailer searches for "rtx 4090" return water blocks, cables, prebuilt PCs
+ * and laptops alongside actual cards. The classifier checks each listing's
+ * `metadata.productName` against the asset's registry match rules:
+ * - default accessory terms and per-asset `exclude` terms reject a listing
+ * - every `required` group must match (any term within a group)
+ * - `capacityGb` is compared with the parsed kit capacity ("2x16GB" = 32)
+ *
+ * Assets without match rules fall back to their registry search terms.
+ */
+
+import type { PricePoint } from './types.js';
+import type { AssetId, MatchRules } from '../config/index.js';
+import { getAssetDefinition } from '../config/index.js';
+
+export type RejectionReason = 'excluded-term' | 'missing-term' | 'capacity-mismatch';
+
+export interface ListingClassification {
+  accepted: boolean;
+  reason?: RejectionReason;
+  detail?: string;
+}
+
+export interface ClassifiedListings {
+  accepted: PricePoint[];
+  rejected: number;
+  rejectedBySource: Record<string, number>;
+}
+
+// Accessory terms rejected for every asset
+export const DEFAULT_EXCLUDE_TERMS: readonly string[] = [
+  'cable',
+  'adapter',
+  'mount',
+  'bracket',
+  'riser',
+  'stand',
+  'case',
+  'bag',
+  'dock',
+  'enclosure',
+  'cooler only',
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsWord(text: string, term: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(term.toLowerCase())}($|[^a-z0-9])`).test(text);
+}
+
+/**
+ * Parse the total memory capacity in GB from a product title.
+ * Kit notation ("2x16GB", "2 x 16 GB") takes precedence over a bare size.
+ */
+export function parseCapacityGb(name: string): number | null {
+  const kit = name.match(/(\d+)\s*x\s*(\d+)\s*gb/i);
+  if (kit) {
+    return parseInt(kit[1], 10) * parseInt(kit[2], 10);
+  }
+
+  const size = name.match(/(\d+)\s*gb/i);
+  return size ? parseInt(size[1], 10) : null;
+}
+
+/**
+ * Fallback for assets without match rules: every word of one search term must appear
+ */
+function matchesSearchTerms(nameLower: string, searchTerms: string[]): boolean {
+  return searchTerms.some(term =>
+    term.toLowerCase().split(/\s+/).every(word => nameLower.includes(word))
+  );
+}
+
+/**
+ * Decide whether a product title is a genuine listing for an asset
+ */
+export function classifyListing(name: string, assetId: AssetId): ListingClassification {
+  const asset = getAssetDefinition(assetId);
+  const rules: MatchRules | undefined = asset.match;
+  const nameLower = name.toLowerCase();
+
+  const excluded = [...DEFAULT_EXCLUDE_TERMS, ...(rules?.exclude ?? [])]
+    .find(term => containsWord(nameLower, term));
+  if (excluded) {
+    return { accepted: false, reason: 'excluded-term', detail: excluded };
+  }
+
+  if (!rules) {
+    return matchesSearchTerms(nameLower, asset.searchTerms)
+      ? { accepted: true }
+      : { accepted: false, reason: 'missing-term', detail: asset.searchTerms.join(' | ') };
+  }
+
+  const missing = rules.required.find(group =>
+    !group.some(term => nameLower.includes(term.toLowerCase()))
+  );
+  if (missing) {
+    return { accepted: false, reason: 'missing-term', detail: missing.join(' | ') };
+  }
+
+  if (rules.capacityGb !== undefined) {
+    const capacity = parseCapacityGb(name);
+    if (capacity !== rules.capacityGb) {
+      return {
+        accepted: false,
+        reason: 'capacity-mismatch',
+        detail: capacity === null ? 'no capacity found' : `${capacity}GB`,
+      };
+    }
+  }
+
+  return { accepted: true };
+}
+
+/**
+ * Split listings into genuine matches and per-source rejection counts.
+ * Listings without a product name (e.g. from APIs that don't return titles) are kept.
+ */
+export function classifyListings(prices: PricePoint[], assetId: AssetId): ClassifiedListings {
+  const accepted: PricePoint[] = [];
+  const rejectedBySource: Record<string, number> = {};
+  let rejected = 0;
+
+  for (const price of prices) {
+    const name = price.metadata?.productName;
+    if (!name || classifyListing(name, assetId).accepted) {
+      accepted.push(price);
+      continue;
+    }
+    rejected++;
+    rejectedBySource[price.source] = (rejectedBySource[price.source] || 0) + 1;
+  }
+
+  return { accepted, rejected, rejectedBySource };
+}
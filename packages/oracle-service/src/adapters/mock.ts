@@ -1,20 +1,21 @@
 import type { PriceAdapter, PricePoint } from './types.js';
 import type { AssetId } from '../config/index.js';
+import { getAssetDefinition } from '../config/index.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('mock-adapter');
 
-// Base prices for each asset (realistic market prices)
-const BASE_PRICES: Record<AssetId, number> = {
-  GPU_RTX4090: 1599.99,
-  GPU_RTX4080: 1199.99,
-  GPU_RTX3090: 899.99,
-  RAM_DDR5_32: 129.99,
-  RAM_DDR5_64: 249.99,
-};
-
 // Track simulated prices with some volatility
-const currentPrices: Record<AssetId, number> = { ...BASE_PRICES };
+const currentPrices = new Map<AssetId, number>();
+
+/**
+ * Base price for an asset: the registry reference price, or the midpoint
+ * of its sanity bounds when none is set
+ */
+function getBasePrice(assetId: AssetId): number {
+  const { referencePrice, priceBounds } = getAssetDefinition(assetId);
+  return referencePrice ?? (priceBounds.min + priceBounds.max) / 2;
+}
 
 /**
  * Mock adapter that generates realistic-looking price data
@@ -37,10 +38,11 @@ export class MockAdapter implements PriceAdapter {
     await new Promise((resolve) => setTimeout(resolve, Math.random() * 200 + 100));
 
     // Update price with random walk
-    const currentPrice = currentPrices[assetId];
+    const basePrice = getBasePrice(assetId);
+    const currentPrice = currentPrices.get(assetId) ?? basePrice;
     const change = (Math.random() - 0.5) * 2 * this.volatility * currentPrice;
-    const newPrice = Math.max(currentPrice + change, BASE_PRICES[assetId] * 0.8);
-    currentPrices[assetId] = newPrice;
+    const newPrice = Math.max(currentPrice + change, basePrice * 0.8);
+    currentPrices.set(assetId, newPrice);
 
     // Generate multiple "listings" with slight variations
     const numListings = Math.floor(Math.random() * 5) + 3;
@@ -69,23 +71,13 @@ export class MockAdapter implements PriceAdapter {
   }
 
   private generateProductName(assetId: AssetId, index: number): string {
-    const brands = ['ASUS', 'MSI', 'EVGA', 'Gigabyte', 'Zotac', 'PNY'];
+    const asset = getAssetDefinition(assetId);
+    const brands = asset.category === 'GPU'
+      ? ['ASUS', 'MSI', 'EVGA', 'Gigabyte', 'Zotac', 'PNY']
+      : ['G.Skill', 'Corsair', 'Kingston', 'Crucial', 'TeamGroup', 'Patriot'];
     const brand = brands[index % brands.length];
 
-    switch (assetId) {
-      case 'GPU_RTX4090':
-        return `${brand} GeForce RTX 4090 Gaming OC`;
-      case 'GPU_RTX4080':
-        return `${brand} GeForce RTX 4080 SUPER`;
-      case 'GPU_RTX3090':
-        return `${brand} GeForce RTX 3090 Ti`;
-      case 'RAM_DDR5_32':
-        return `${brand === 'ASUS' ? 'G.Skill' : 'Corsair'} DDR5 32GB (2x16GB) Kit`;
-      case 'RAM_DDR5_64':
-        return `${brand === 'ASUS' ? 'Kingston' : 'Crucial'} DDR5 64GB (2x32GB) Kit`;
-      default:
-        return `Unknown Product`;
-    }
+    return `${brand} ${asset.description}`;
   }
 
   private generateSellerName(): string {
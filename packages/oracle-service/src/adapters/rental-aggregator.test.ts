@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { RentalPriceAggregator, summarizeOffers } from './rental-aggregator.js';
+import { DEFAULT_RENTAL_PRICES, type RentalGpuType, type RentalOffer, type RentalPriceAdapter } from './rental-types.js';
+import { AdapterError } from './types.js';
+
+function offer(source: string, price: number, overrides: Partial<RentalOffer> = {}): RentalOffer {
+  return {
+    id: `${source}-${price}`,
+    source,
+    gpuType: 'RTX_4090',
+    gpuCount: 1,
+    pricePerHour: price,
+    pricePerGpuHour: price,
+    totalVram: 24,
+    reliability: 0.99,
+    location: 'US',
+    provider: 'Datacenter',
+    available: true,
+    interruptible: false,
+    dlPerf: 0,
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+class StubRentalAdapter implements RentalPriceAdapter {
+  calls = 0;
+
+  constructor(readonly name: string, private offers: RentalOffer[], private fail = false) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async searchOffers(gpuTypes: readonly RentalGpuType[]): Promise<RentalOffer[]> {
+    this.calls++;
+    if (this.fail) {
+      throw new AdapterError(this.name, 'FETCH_FAILED', 'down');
+    }
+    return this.offers.filter(o => gpuTypes.includes(o.gpuType));
+  }
+}
+
+describe('summarizeOffers', () => {
+  it('splits interruptible and on-demand averages', () => {
+    const summary = summarizeOffers([
+      offer('a', 1),
+      offer('a', 3),
+      offer('a', 0.5, { interruptible: true }),
+    ]);
+
+    expect(summary.minPrice).toBe(0.5);
+    expect(summary.maxPrice).toBe(3);
+    expect(summary.medianPrice).toBe(1);
+    expect(summary.offerCount).toBe(3);
+    expect(summary.onDemandAvg).toBe(2);
+    expect(summary.interruptibleAvg).toBe(0.5);
+  });
+});
+
+describe('RentalPriceAggregator', () => {
+  it('breaks stats down per provider', async () => {
+    const rental = new RentalPriceAggregator([
+      new StubRentalAdapter('vastai', [offer('vastai', 0.3), offer('vastai', 0.4), offer('vastai', 0.5)]),
+      new StubRentalAdapter('runpod', [offer('runpod', 0.7)]),
+    ]);
+
+    const stats = await rental.getPriceStats('RTX_4090');
+
+    expect(Object.keys(stats.providers).sort()).toEqual(['runpod', 'vastai']);
+    expect(stats.providers.vastai.offerCount).toBe(3);
+    expect(stats.providers.vastai.medianPrice).toBeCloseTo(0.4);
+    expect(stats.providers.runpod.avgPrice).toBe(0.7);
+    expect(stats.offerCount).toBe(4);
+    expect(stats.minPrice).toBe(0.3);
+    expect(stats.maxPrice).toBe(0.7);
+  });
+
+  it('weights each provider equally in the headline average and median', async () => {
+    const rental = new RentalPriceAggregator([
+      new StubRentalAdapter('vastai', [offer('vastai', 0.4), offer('vastai', 0.4), offer('vastai', 0.4)]),
+      new StubRentalAdapter('lambda', [offer('lambda', 0.8)]),
+    ]);
+
+    const stats = await rental.getPriceStats('RTX_4090');
+
+    expect(stats.avgPrice).toBeCloseTo(0.6);
+    expect(stats.medianPrice).toBeCloseTo(0.6);
+  });
+
+  it('skips failing providers', async () => {
+    const rental = new RentalPriceAggregator([
+      new StubRentalAdapter('vastai', [], true),
+      new StubRentalAdapter('tensordock', [offer('tensordock', 0.5)]),
+    ]);
+
+    const stats = await rental.getPriceStats('RTX_4090');
+
+    expect(Object.keys(stats.providers)).toEqual(['tensordock']);
+    expect(stats.avgPrice).toBe(0.5);
+  });
+
+  it('ignores unavailable offers', async () => {
+    const rental = new RentalPriceAggregator([
+      new StubRentalAdapter('lambda', [offer('lambda', 0.5), offer('lambda', 9, { available: false })]),
+    ]);
+
+    const stats = await rental.getPriceStats('RTX_4090');
+
+    expect(stats.offerCount).toBe(1);
+    expect(stats.maxPrice).toBe(0.5);
+  });
+
+  it('falls back to default prices when no provider returns offers', async () => {
+    const rental = new RentalPriceAggregator([new StubRentalAdapter('vastai', [], true)]);
+
+    const stats = await rental.getPriceStats('A100_80GB');
+
+    expect(stats.offerCount).toBe(0);
+    expect(stats.avgPrice).toBe(DEFAULT_RENTAL_PRICES.A100_80GB.avg);
+    expect(stats.providers).toEqual({});
+  });
+
+  it('queries each provider once for all GPU types and serves lookups from the snapshot', async () => {
+    const vastai = new StubRentalAdapter('vastai', [
+      offer('vastai', 0.4),
+      offer('vastai', 2.5, { gpuType: 'H100_80GB' }),
+    ]);
+    const rental = new RentalPriceAggregator([vastai]);
+
+    const [all, h100] = await Promise.all([rental.getAllPriceStats(), rental.getPriceStats('H100_80GB')]);
+    const offers = await rental.searchOffers('RTX_4090');
+
+    expect(vastai.calls).toBe(1);
+    expect(all.RTX_4090.avgPrice).toBe(0.4);
+    expect(h100.avgPrice).toBe(2.5);
+    expect(all.A6000.offerCount).toBe(0);
+    expect(offers.map(o => o.id)).toEqual(['vastai-0.4']);
+  });
+
+  it('refetches once the snapshot is older than the cache TTL', async () => {
+    const vastai = new StubRentalAdapter('vastai', [offer('vastai', 0.4)]);
+    const rental = new RentalPriceAggregator([vastai], 0);
+
+    await rental.getPriceStats('RTX_4090');
+    await rental.getPriceStats('RTX_4090');
+
+    expect(vastai.calls).toBe(2);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * GPU Rental Price Aggregator
+ *
+ * Queries every configured rental adapter and combines their offers into
+ * cross-market stats with a per-provider breakdown. Each provider counts
+ * once in the headline average and median, so a marketplace with hundreds
+ * of hosts does not drown out a provider that publishes a single list price.
+ *
+ * Providers are fetched once per refresh for every tracked GPU type, and
+ * the offers are bucketed by type into a snapshot that per-type lookups
+ * read until it is older than the cache TTL.
+ */
+
+import type { Config } from '../config/index.js';
+import type {
+  RentalGpuType,
+  RentalOffer,
+  RentalPriceAdapter,
+  RentalPriceStats,
+  RentalPriceSummary,
+} from './rental-types.js';
+import { DEFAULT_RENTAL_PRICES, RENTAL_GPU_TYPES } from './rental-types.js';
+import { AdapterError } from './types.js';
+import { VastaiRentalAdapter } from './rental-vastai.js';
+import { RunPodRentalAdapter } from './rental-runpod.js';
+import { LambdaRentalAdapter } from './rental-lambda.js';
+import { TensorDockRentalAdapter } from './rental-tensordock.js';
+import { MockRentalAdapter } from './rental-mock.js';
+import { median } from '../aggregator/outlier.js';
+import * as metrics from '../metrics/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('rental-aggregator');
+
+const DEFAULT_CACHE_TTL_MS = 60000;
+
+export interface RentalSnapshot {
+  offers: Record<RentalGpuType, RentalOffer[]>;
+  stats: Record<RentalGpuType, RentalPriceStats>;
+  timestamp: number;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Summarize a set of offers on per-GPU-hour prices
+ */
+export function summarizeOffers(offers: RentalOffer[]): RentalPriceSummary {
+  const prices = offers.map(o => o.pricePerGpuHour);
+
+  return {
+    minPrice: prices.length > 0 ? Math.min(...prices) : 0,
+    maxPrice: prices.length > 0 ? Math.max(...prices) : 0,
+    medianPrice: median(prices),
+    avgPrice: mean(prices),
+    offerCount: offers.length,
+    interruptibleAvg: mean(offers.filter(o => o.interruptible).map(o => o.pricePerGpuHour)),
+    onDemandAvg: mean(offers.filter(o => !o.interruptible).map(o => o.pricePerGpuHour)),
+  };
+}
+
+export class RentalPriceAggregator {
+  private snapshot: RentalSnapshot | null = null;
+  private refreshing: Promise<RentalSnapshot> | null = null;
+
+  constructor(
+    private adapters: RentalPriceAdapter[],
+    private cacheTtlMs = DEFAULT_CACHE_TTL_MS
+  ) {}
+
+  getProviders(): string[] {
+    return this.adapters.map(a => a.name);
+  }
+
+  /**
+   * Fetch every provider once for all tracked GPU types and replace the
+   * cached snapshot. Concurrent callers share the same fetch.
+   */
+  refresh(): Promise<RentalSnapshot> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchSnapshot().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Get the cached snapshot, refreshing it once it is older than the TTL
+   */
+  async getSnapshot(): Promise<RentalSnapshot> {
+    if (this.snapshot && Date.now() - this.snapshot.timestamp < this.cacheTtlMs) {
+      return this.snapshot;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Get offers from all providers for a GPU type
+   */
+  async searchOffers(gpuType: RentalGpuType): Promise<RentalOffer[]> {
+    return (await this.getSnapshot()).offers[gpuType];
+  }
+
+  /**
+   * Get aggregated price statistics for a GPU type across all providers
+   */
+  async getPriceStats(gpuType: RentalGpuType): Promise<RentalPriceStats> {
+    return (await this.getSnapshot()).stats[gpuType];
+  }
+
+  /**
+   * Get all tracked GPU rental stats
+   */
+  async getAllPriceStats(): Promise<Record<RentalGpuType, RentalPriceStats>> {
+    return (await this.getSnapshot()).stats;
+  }
+
+  private async fetchSnapshot(): Promise<RentalSnapshot> {
+    const offers = {} as Record<RentalGpuType, RentalOffer[]>;
+    for (const gpuType of RENTAL_GPU_TYPES) {
+      offers[gpuType] = [];
+    }
+
+    for (const offer of await this.fetchOffers()) {
+      offers[offer.gpuType]?.push(offer);
+    }
+
+    const stats = {} as Record<RentalGpuType, RentalPriceStats>;
+    for (const gpuType of RENTAL_GPU_TYPES) {
+      stats[gpuType] = this.computeStats(gpuType, offers[gpuType]);
+    }
+
+    this.snapshot = { offers, stats, timestamp: Date.now() };
+    return this.snapshot;
+  }
+
+  /**
+   * Fetch offers from all providers. A failing provider is logged and skipped.
+   */
+  private async fetchOffers(): Promise<RentalOffer[]> {
+    const results = await Promise.all(
+      this.adapters.map(async adapter => {
+        try {
+          const offers = await adapter.searchOffers(RENTAL_GPU_TYPES);
+          metrics.rentalFetches.inc({ adapter: adapter.name, code: 'OK' });
+          metrics.rentalOffers.inc({ adapter: adapter.name }, offers.length);
+          return offers;
+        } catch (error) {
+          const code = error instanceof AdapterError ? error.code : 'UNKNOWN';
+          metrics.rentalFetches.inc({ adapter: adapter.name, code });
+          logger.warn(`${adapter.name} failed: ${error}`);
+          return [];
+        }
+      })
+    );
+
+    return results.flat();
+  }
+
+  private computeStats(gpuType: RentalGpuType, allOffers: RentalOffer[]): RentalPriceStats {
+    const offers = allOffers.filter(o => o.available);
+
+    if (offers.length === 0) {
+      logger.warn(`No rental offers for ${gpuType}, using defaults`);
+      return this.getDefaultStats(gpuType);
+    }
+
+    const bySource = new Map<string, RentalOffer[]>();
+    for (const offer of offers) {
+      const list = bySource.get(offer.source) || [];
+      list.push(offer);
+      bySource.set(offer.source, list);
+    }
+
+    const providers: Record<string, RentalPriceSummary> = {};
+    for (const [source, sourceOffers] of bySource) {
+      providers[source] = summarizeOffers(sourceOffers);
+    }
+
+    const summaries = Object.values(providers);
+    const overall = summarizeOffers(offers);
+
+    return {
+      gpuType,
+      ...overall,
+      medianPrice: median(summaries.map(s => s.medianPrice)),
+      avgPrice: mean(summaries.map(s => s.avgPrice)),
+      interruptibleAvg: mean(summaries.filter(s => s.interruptibleAvg > 0).map(s => s.interruptibleAvg)),
+      onDemandAvg: mean(summaries.filter(s => s.onDemandAvg > 0).map(s => s.onDemandAvg)),
+      providers,
+      timestamp: Date.now(),
+    };
+  }
+
+  private getDefaultStats(gpuType: RentalGpuType): RentalPriceStats {
+    const def = DEFAULT_RENTAL_PRICES[gpuType];
+    return {
+      gpuType,
+      minPrice: def.min,
+      maxPrice: def.max,
+      medianPrice: def.avg,
+      avgPrice: def.avg,
+      offerCount: 0,
+      interruptibleAvg: def.min * 0.6,
+      onDemandAvg: def.avg,
+      providers: {},
+      timestamp: Date.now(),
+    };
+  }
+}
+
+/**
+ * Create the rental adapters for the configured providers.
+ * Demo mode, or a setup where no real provider is available, uses the mock adapter.
+ */
+export function createRentalAdapters(config: Config, demoMode = false): RentalPriceAdapter[] {
+  if (demoMode) {
+    return [new MockRentalAdapter()];
+  }
+
+  const adapters: RentalPriceAdapter[] = [
+    new VastaiRentalAdapter(),
+    new RunPodRentalAdapter(config.apis.runpod),
+    new LambdaRentalAdapter(config.apis.lambda),
+    new TensorDockRentalAdapter(),
+  ].filter(adapter => adapter.isAvailable());
+
+  return adapters.length > 0 ? adapters : [new MockRentalAdapter()];
+}
@@ -0,0 +1,112 @@
+/**
+ * Lambda Labs GPU Rental Price Adapter
+ *
+ * Reads on-demand instance types and prices from the Lambda Cloud API.
+ * Instances are priced per instance, so prices are divided by the GPU count.
+ *
+ * Reference: https://docs.lambdalabs.com/public-cloud/cloud-api/
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import type { Config } from '../config/index.js';
+import type { RentalGpuType, RentalOffer, RentalPriceAdapter } from './rental-types.js';
+import { RENTAL_GPU_VRAM } from './rental-types.js';
+import { AdapterError } from './types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('lambda-rental');
+
+const LAMBDA_API_BASE = 'https://cloud.lambdalabs.com/api/v1';
+
+// Match Lambda GPU descriptions, e.g. "A100 (40 GB SXM4)", "H100 (80 GB PCIe)"
+const GPU_DESCRIPTION_MAP: Record<RentalGpuType, RegExp> = {
+  RTX_4090: /RTX 4090/i,
+  RTX_3090: /RTX 3090/i,
+  A100_80GB: /A100 \(80 GB/i,
+  A100_40GB: /A100 \(40 GB/i,
+  H100_80GB: /H100 \(80 GB SXM/i,
+  H100_PCIE: /H100 \(80 GB PCIe/i,
+  A6000: /RTX A6000/i,
+  L40S: /L40S/i,
+};
+
+interface LambdaInstanceType {
+  instance_type: {
+    name: string;
+    description: string;
+    gpu_description: string;
+    price_cents_per_hour: number;
+    specs: {
+      gpus: number;
+    };
+  };
+  regions_with_capacity_available: Array<{ name: string; description: string }>;
+}
+
+interface LambdaInstanceTypesResponse {
+  data: Record<string, LambdaInstanceType>;
+}
+
+export class LambdaRentalAdapter implements RentalPriceAdapter {
+  readonly name = 'lambda';
+  private client: AxiosInstance;
+
+  constructor(private config: Config['apis']['lambda']) {
+    this.client = axios.create({
+      baseURL: LAMBDA_API_BASE,
+      timeout: 15000,
+    });
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  async searchOffers(gpuTypes: readonly RentalGpuType[]): Promise<RentalOffer[]> {
+    if (!this.isAvailable()) {
+      logger.warn('Lambda Labs adapter not configured, skipping');
+      return [];
+    }
+
+    try {
+      const response = await this.client.get<LambdaInstanceTypesResponse>('/instance-types', {
+        auth: { username: this.config.apiKey!, password: '' },
+      });
+
+      const offers: RentalOffer[] = [];
+
+      for (const entry of Object.values(response.data.data || {})) {
+        const { instance_type: instance, regions_with_capacity_available: regions } = entry;
+        const description = instance.gpu_description || instance.description;
+        const gpuType = gpuTypes.find(type => GPU_DESCRIPTION_MAP[type].test(description));
+        if (!gpuType) continue;
+
+        const gpuCount = instance.specs?.gpus || 1;
+        const pricePerHour = instance.price_cents_per_hour / 100;
+        if (pricePerHour <= 0) continue;
+
+        offers.push({
+          id: instance.name,
+          source: this.name,
+          gpuType,
+          gpuCount,
+          pricePerHour,
+          pricePerGpuHour: pricePerHour / gpuCount,
+          totalVram: RENTAL_GPU_VRAM[gpuType] * gpuCount,
+          reliability: 0.99,
+          location: regions.map(r => r.name).join(', ') || 'Unavailable',
+          provider: 'Datacenter',
+          available: regions.length > 0,
+          interruptible: false,
+          dlPerf: 0,
+          timestamp: Date.now(),
+        });
+      }
+
+      logger.info(`Found ${offers.length} Lambda instance types`);
+      return offers;
+    } catch (error) {
+      throw new AdapterError(this.name, 'FETCH_FAILED', 'Failed to fetch instance types', error);
+    }
+  }
+}
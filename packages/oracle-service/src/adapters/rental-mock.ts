@@ -0,0 +1,55 @@
+/**
+ * Mock GPU Rental Adapter
+ *
+ * Generates simulated rental offers around typical market prices
+ * for development and demo mode.
+ */
+
+import type { RentalGpuType, RentalOffer, RentalPriceAdapter } from './rental-types.js';
+import { DEFAULT_RENTAL_PRICES, RENTAL_GPU_VRAM } from './rental-types.js';
+
+export class MockRentalAdapter implements RentalPriceAdapter {
+  readonly name = 'mock';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async searchOffers(gpuTypes: readonly RentalGpuType[]): Promise<RentalOffer[]> {
+    return gpuTypes.flatMap(gpuType => this.simulateOffers(gpuType));
+  }
+
+  private simulateOffers(gpuType: RentalGpuType): RentalOffer[] {
+    const defaults = DEFAULT_RENTAL_PRICES[gpuType];
+    const count = Math.floor(Math.random() * 20) + 10;
+    const offers: RentalOffer[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const isInterruptible = Math.random() > 0.6;
+      const basePrice = isInterruptible ? defaults.min * 0.6 : defaults.avg;
+
+      // Add variance
+      const variance = (Math.random() - 0.5) * 0.4;
+      const price = Math.max(0.1, basePrice * (1 + variance));
+
+      offers.push({
+        id: `sim-${gpuType}-${i}`,
+        source: this.name,
+        gpuType,
+        gpuCount: Math.floor(Math.random() * 4) + 1,
+        pricePerHour: price,
+        pricePerGpuHour: price,
+        totalVram: RENTAL_GPU_VRAM[gpuType],
+        reliability: 0.9 + Math.random() * 0.1,
+        location: ['US-West', 'US-East', 'EU-West', 'Asia'][Math.floor(Math.random() * 4)],
+        provider: Math.random() > 0.5 ? 'Datacenter' : 'Consumer',
+        available: true,
+        interruptible: isInterruptible,
+        dlPerf: Math.random() * 100 + 50,
+        timestamp: Date.now(),
+      });
+    }
+
+    return offers;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * RunPod GPU Rental Price Adapter
+ *
+ * Reads per-GPU-hour list prices from RunPod's GraphQL API. RunPod prices
+ * by GPU type rather than by host, so each GPU type yields up to four offers:
+ * secure/community cloud, on-demand/spot.
+ *
+ * Reference: https://docs.runpod.io/sdks/graphql/manage-pods
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import type { Config } from '../config/index.js';
+import type { RentalGpuType, RentalOffer, RentalPriceAdapter } from './rental-types.js';
+import { RENTAL_GPU_VRAM } from './rental-types.js';
+import { AdapterError } from './types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('runpod-rental');
+
+const RUNPOD_API_BASE = 'https://api.runpod.io';
+
+// RunPod GPU type IDs for each tracked GPU
+const GPU_ID_MAP: Record<RentalGpuType, string[]> = {
+  RTX_4090: ['NVIDIA GeForce RTX 4090'],
+  RTX_3090: ['NVIDIA GeForce RTX 3090'],
+  A100_80GB: ['NVIDIA A100 80GB PCIe', 'NVIDIA A100-SXM4-80GB'],
+  A100_40GB: ['NVIDIA A100-PCIE-40GB', 'NVIDIA A100-SXM4-40GB'],
+  H100_80GB: ['NVIDIA H100 80GB HBM3'],
+  H100_PCIE: ['NVIDIA H100 PCIe'],
+  A6000: ['NVIDIA RTX A6000'],
+  L40S: ['NVIDIA L40S'],
+};
+
+const GPU_TYPES_QUERY = `
+  query GpuTypes {
+    gpuTypes {
+      id
+      displayName
+      memoryInGb
+      securePrice
+      communityPrice
+      secureSpotPrice
+      communitySpotPrice
+    }
+  }
+`;
+
+interface RunPodGpuType {
+  id: string;
+  displayName: string;
+  memoryInGb: number;
+  securePrice: number | null;
+  communityPrice: number | null;
+  secureSpotPrice: number | null;
+  communitySpotPrice: number | null;
+}
+
+interface RunPodGpuTypesResponse {
+  data?: { gpuTypes: RunPodGpuType[] };
+  errors?: Array<{ message: string }>;
+}
+
+export class RunPodRentalAdapter implements RentalPriceAdapter {
+  readonly name = 'runpod';
+  private client: AxiosInstance;
+
+  constructor(private config: Config['apis']['runpod']) {
+    this.client = axios.create({
+      baseURL: RUNPOD_API_BASE,
+      timeout: 15000,
+    });
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  async searchOffers(gpuTypes: readonly RentalGpuType[]): Promise<RentalOffer[]> {
+    if (!this.isAvailable()) {
+      logger.warn('RunPod adapter not configured, skipping');
+      return [];
+    }
+
+    try {
+      const response = await this.client.post<RunPodGpuTypesResponse>(
+        '/graphql',
+        { query: GPU_TYPES_QUERY },
+        { params: { api_key: this.config.apiKey } }
+      );
+
+      if (response.data.errors?.length) {
+        throw new Error(response.data.errors.map(e => e.message).join('; '));
+      }
+
+      const offers: RentalOffer[] = [];
+
+      for (const gpu of response.data.data?.gpuTypes || []) {
+        const gpuType = gpuTypes.find(type => GPU_ID_MAP[type].includes(gpu.id));
+        if (!gpuType) continue;
+
+        const tiers: Array<[string, number | null, boolean]> = [
+          ['Secure', gpu.securePrice, false],
+          ['Community', gpu.communityPrice, false],
+          ['Secure', gpu.secureSpotPrice, true],
+          ['Community', gpu.communitySpotPrice, true],
+        ];
+
+        for (const [tier, price, interruptible] of tiers) {
+          if (!price || price <= 0) continue;
+
+          offers.push({
+            id: `${gpu.id}-${tier.toLowerCase()}-${interruptible ? 'spot' : 'on-demand'}`,
+            source: this.name,
+            gpuType,
+            gpuCount: 1,
+            pricePerHour: price,
+            pricePerGpuHour: price,
+            totalVram: gpu.memoryInGb || RENTAL_GPU_VRAM[gpuType],
+            reliability: tier === 'Secure' ? 0.99 : 0.95,
+            location: 'Global',
+            provider: tier,
+            available: true,
+            interruptible,
+            dlPerf: 0,
+            timestamp: Date.now(),
+          });
+        }
+      }
+
+      logger.info(`Found ${offers.length} RunPod price tiers`);
+      return offers;
+    } catch (error) {
+      throw new AdapterError(this.name, 'FETCH_FAILED', 'Failed to fetch GPU types', error);
+    }
+  }
+}
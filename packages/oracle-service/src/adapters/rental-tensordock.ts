@@ -0,0 +1,102 @@
+/**
+ * TensorDock GPU Rental Price Adapter
+ *
+ * Reads host nodes from TensorDock's public marketplace API. Each online
+ * host with a tracked GPU model becomes one offer, priced per GPU-hour.
+ *
+ * Reference: https://documenter.getpostman.com/view/20973002/2s8YzMYRDc
+ */
+
+import axios from 'axios';
+import type { RentalGpuType, RentalOffer, RentalPriceAdapter } from './rental-types.js';
+import { RENTAL_GPU_VRAM } from './rental-types.js';
+import { AdapterError } from './types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('tensordock-rental');
+
+const TENSORDOCK_API_BASE = 'https://marketplace.tensordock.com/api/v0';
+
+// TensorDock GPU model keys, e.g. "geforcertx4090-pcie-24gb"
+const GPU_MODEL_MAP: Record<RentalGpuType, string[]> = {
+  RTX_4090: ['geforcertx4090-pcie-24gb'],
+  RTX_3090: ['geforcertx3090-pcie-24gb'],
+  A100_80GB: ['a100-pcie-80gb', 'a100-sxm4-80gb'],
+  A100_40GB: ['a100-pcie-40gb', 'a100-sxm4-40gb'],
+  H100_80GB: ['h100-sxm5-80gb'],
+  H100_PCIE: ['h100-pcie-80gb'],
+  A6000: ['rtxa6000-pcie-48gb'],
+  L40S: ['l40s-pcie-48gb'],
+};
+
+interface TensorDockHostNode {
+  specs: {
+    gpu: Record<string, { amount: number; price: number; vram?: number }>;
+  };
+  location?: {
+    country?: string;
+    region?: string;
+  };
+  status?: {
+    online?: boolean;
+  };
+}
+
+interface TensorDockHostNodesResponse {
+  hostnodes: Record<string, TensorDockHostNode>;
+}
+
+export class TensorDockRentalAdapter implements RentalPriceAdapter {
+  readonly name = 'tensordock';
+  private client = axios.create({
+    baseURL: TENSORDOCK_API_BASE,
+    timeout: 15000,
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'HardexOracle/1.0',
+    },
+  });
+
+  isAvailable(): boolean {
+    return true; // Public marketplace API, no credentials needed
+  }
+
+  async searchOffers(gpuTypes: readonly RentalGpuType[]): Promise<RentalOffer[]> {
+    try {
+      const response = await this.client.get<TensorDockHostNodesResponse>('/client/deploy/hostnodes');
+
+      const offers: RentalOffer[] = [];
+
+      for (const [hostId, host] of Object.entries(response.data.hostnodes || {})) {
+        if (host.status?.online === false) continue;
+
+        for (const [model, gpu] of Object.entries(host.specs?.gpu || {})) {
+          const gpuType = gpuTypes.find(type => GPU_MODEL_MAP[type].includes(model));
+          if (!gpuType || gpu.amount <= 0 || gpu.price <= 0) continue;
+
+          offers.push({
+            id: `${hostId}-${model}`,
+            source: this.name,
+            gpuType,
+            gpuCount: gpu.amount,
+            pricePerHour: gpu.price * gpu.amount,
+            pricePerGpuHour: gpu.price,
+            totalVram: (gpu.vram || RENTAL_GPU_VRAM[gpuType]) * gpu.amount,
+            reliability: 0.95,
+            location: [host.location?.region, host.location?.country].filter(Boolean).join(', ') || 'Unknown',
+            provider: 'Marketplace',
+            available: true,
+            interruptible: false,
+            dlPerf: 0,
+            timestamp: Date.now(),
+          });
+        }
+      }
+
+      logger.info(`Found ${offers.length} TensorDock host GPUs`);
+      return offers;
+    } catch (error) {
+      throw new AdapterError(this.name, 'FETCH_FAILED', 'Failed to fetch host nodes', error);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * GPU Rental Price Types
+ *
+ * Shared by the rental marketplace adapters (Vast.ai, RunPod, Lambda Labs,
+ * TensorDock, mock) and the cross-provider rental aggregator.
+ */
+
+// GPU types we track for rental pricing
+export type RentalGpuType =
+  | 'RTX_4090'
+  | 'RTX_3090'
+  | 'A100_80GB'
+  | 'A100_40GB'
+  | 'H100_80GB'
+  | 'H100_PCIE'
+  | 'A6000'
+  | 'L40S';
+
+export const RENTAL_GPU_TYPES: readonly RentalGpuType[] = [
+  'RTX_4090',
+  'RTX_3090',
+  'A100_80GB',
+  'A100_40GB',
+  'H100_80GB',
+  'H100_PCIE',
+  'A6000',
+  'L40S',
+];
+
+export interface RentalOffer {
+  id: string;
+  source: string;            // Adapter that returned the offer, e.g. 'vastai'
+  gpuType: RentalGpuType;
+  gpuCount: number;
+  pricePerHour: number;      // USD per hour
+  pricePerGpuHour: number;   // USD per GPU per hour
+  totalVram: number;         // GB
+  reliability: number;       // 0-1 score
+  location: string;
+  provider: string;          // Hosting type or tier within the source (e.g. 'Datacenter', 'Community')
+  available: boolean;
+  interruptible: boolean;    // Can be preempted (cheaper)
+  dlPerf: number;            // Deep learning performance score
+  timestamp: number;
+}
+
+export interface RentalPriceSummary {
+  minPrice: number;
+  maxPrice: number;
+  medianPrice: number;
+  avgPrice: number;
+  offerCount: number;
+  interruptibleAvg: number;  // Avg price for interruptible instances
+  onDemandAvg: number;       // Avg price for on-demand instances
+}
+
+export interface RentalPriceStats extends RentalPriceSummary {
+  gpuType: RentalGpuType;
+  providers: Record<string, RentalPriceSummary>;  // Breakdown by rental adapter
+  timestamp: number;
+}
+
+export interface RentalPriceAdapter {
+  readonly name: string;
+
+  /**
+   * Fetch current rental offers for the given GPU types in a single pass
+   * over the provider's catalog
+   * @returns Offers priced per GPU-hour in USD, tagged with their GPU type
+   */
+  searchOffers(gpuTypes: readonly RentalGpuType[]): Promise<RentalOffer[]>;
+
+  /**
+   * Check if the adapter is configured and available
+   */
+  isAvailable(): boolean;
+}
+
+// Typical per-GPU-hour prices (Jan 2025), used when no provider returns offers
+export const DEFAULT_RENTAL_PRICES: Record<RentalGpuType, { min: number; max: number; avg: number }> = {
+  RTX_4090: { min: 0.30, max: 0.70, avg: 0.44 },
+  RTX_3090: { min: 0.20, max: 0.50, avg: 0.30 },
+  A100_80GB: { min: 1.50, max: 2.50, avg: 1.89 },
+  A100_40GB: { min: 1.20, max: 2.00, avg: 1.50 },
+  H100_80GB: { min: 2.00, max: 4.00, avg: 2.85 },
+  H100_PCIE: { min: 1.80, max: 3.50, avg: 2.50 },
+  A6000: { min: 0.40, max: 0.80, avg: 0.55 },
+  L40S: { min: 0.80, max: 1.50, avg: 1.10 },
+};
+
+export const RENTAL_GPU_VRAM: Record<RentalGpuType, number> = {
+  RTX_4090: 24,
+  RTX_3090: 24,
+  A100_80GB: 80,
+  A100_40GB: 40,
+  H100_80GB: 80,
+  H100_PCIE: 80,
+  A6000: 48,
+  L40S: 48,
+};
+
+export function isRentalGpuType(value: unknown): value is RentalGpuType {
+  return typeof value === 'string' && (RENTAL_GPU_TYPES as readonly string[]).includes(value);
+}
@@ -1,6 +1,6 @@
 import * as cheerio from 'cheerio';
 import type { AxiosInstance } from 'axios';
-import type { PriceAdapter, PricePoint } from './types.js';
+import type { AdapterConfig, PriceAdapter, PricePoint, Region } from './types.js';
 import type { AssetId } from '../config/index.js';
 import { AdapterError } from './types.js';
 import { createLogger } from '../utils/logger.js';
@@ -12,26 +12,53 @@ import {
   getRandomDelay,
   isScraperApiConfigured,
   fetchViaScraperApi,
+  resolveSearchUrl,
 } from './scraper-utils.js';
 import type { ScraperAdapterOptions } from './scraper-newegg.js';
 
 const logger = createLogger('amazon-scraper');
 
-// Amazon search URLs
-const SEARCH_URLS: Record<AssetId, string> = {
-  GPU_RTX4090: 'https://www.amazon.com/s?k=rtx+4090+graphics+card&rh=n%3A284822',
-  GPU_RTX4080: 'https://www.amazon.com/s?k=rtx+4080+graphics+card&rh=n%3A284822',
-  GPU_RTX3090: 'https://www.amazon.com/s?k=rtx+3090+graphics+card&rh=n%3A284822',
-  RAM_DDR5_32: 'https://www.amazon.com/s?k=ddr5+32gb+ram&rh=n%3A172500',
-  RAM_DDR5_64: 'https://www.amazon.com/s?k=ddr5+64gb+ram&rh=n%3A172500',
+/**
+ * An Amazon storefront. Each has its own search URLs in the asset registry
+ * (under `retailer`), its own request budget and lists in its own currency.
+ */
+export interface AmazonMarketplace {
+  name: string;         // Adapter name
+  retailer: string;     // Asset registry `retailers` key
+  host: string;
+  region: Region;
+  currency: string;
+  country: string;      // ScraperAPI geotargeting code
+}
+
+export const AMAZON_MARKETPLACES: Record<'us' | 'de' | 'uk', AmazonMarketplace> = {
+  us: { name: 'amazon-scraper', retailer: 'amazon', host: 'www.amazon.com', region: 'us', currency: 'USD', country: 'us' },
+  de: { name: 'amazon-de-scraper', retailer: 'amazon-de', host: 'www.amazon.de', region: 'eu', currency: 'EUR', country: 'de' },
+  uk: { name: 'amazon-uk-scraper', retailer: 'amazon-uk', host: 'www.amazon.co.uk', region: 'uk', currency: 'GBP', country: 'uk' },
 };
 
+export interface AmazonScraperOptions extends ScraperAdapterOptions {
+  marketplace?: AmazonMarketplace;  // Defaults to amazon.com
+}
+
 export class AmazonScraperAdapter implements PriceAdapter {
-  readonly name = 'amazon-scraper';
+  readonly name: string;
+  readonly limits: AdapterConfig;
   private client: AxiosInstance;
   private useProxy: boolean;
-
-  constructor(options?: ScraperAdapterOptions) {
+  private marketplace: AmazonMarketplace;
+
+  constructor(options?: AmazonScraperOptions) {
+    this.marketplace = options?.marketplace ?? AMAZON_MARKETPLACES.us;
+    this.name = this.marketplace.name;
+    // Amazon blocks aggressive crawlers quickly
+    this.limits = {
+      enabled: true,
+      domain: this.marketplace.host.replace(/^www\./, ''),
+      concurrency: 1,
+      // Two requests per fetch: homepage warm-up and search page
+      rateLimit: { maxRequests: 3, windowMs: 60 * 1000 },
+    };
     this.useProxy = options?.useProxy ?? false;
     this.client = this.useProxy
       ? createRotatingProxyClient()
@@ -43,7 +70,12 @@ export class AmazonScraperAdapter implements PriceAdapter {
   }
 
   async fetchPrices(assetId: AssetId): Promise<PricePoint[]> {
-    const url = SEARCH_URLS[assetId];
+    const { host, retailer, currency, region, country } = this.marketplace;
+    const url = resolveSearchUrl(
+      assetId,
+      retailer,
+      query => `https://${host}/s?k=${encodeURIComponent(query).replace(/%20/g, '+')}`
+    );
     const prices: PricePoint[] = [];
 
     try {
@@ -54,7 +86,7 @@ export class AmazonScraperAdapter implements PriceAdapter {
         logger.info(`Using ScraperAPI for Amazon ${assetId}`);
         const response = await fetchViaScraperApi(url, {
           renderJs: false,
-          country: 'us',
+          country,
           premium: true, // Amazon often needs premium proxies
         });
 
@@ -66,7 +98,7 @@ export class AmazonScraperAdapter implements PriceAdapter {
       } else {
         // Direct scraping fallback
         // Amazon is aggressive about blocking - warm up with homepage
-        await this.client.get('https://www.amazon.com/', {
+        await this.client.get(`https://${host}/`, {
           headers: {
             ...getBrowserHeaders(),
             'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
@@ -78,7 +110,7 @@ export class AmazonScraperAdapter implements PriceAdapter {
         // Now try search
         const response = await this.client.get(url, {
           headers: {
-            ...getBrowserHeaders('https://www.amazon.com/'),
+            ...getBrowserHeaders(`https://${host}/`),
             'Cookie': this.generateAmazonCookies(),
           },
           maxRedirects: 5,
@@ -112,9 +144,9 @@ export class AmazonScraperAdapter implements PriceAdapter {
           const name = $item.find('h2 a span').text().trim() ||
                       $item.find('.a-text-normal').first().text().trim();
 
-          if (!name || !this.isRelevantProduct(name, assetId)) return;
+          if (!name) return;
 
-          // Extract price
+          // Extract price; whole and fraction are read separately, so separators don't matter
           const priceWhole = $item.find('.a-price-whole').first().text().replace(/[^0-9]/g, '');
           const priceFraction = $item.find('.a-price-fraction').first().text().replace(/[^0-9]/g, '') || '00';
 
@@ -127,6 +159,8 @@ export class AmazonScraperAdapter implements PriceAdapter {
 
           prices.push({
             price,
+            currency,
+            region,
             source: this.name,
             timestamp: Date.now(),
             assetId,
@@ -134,7 +168,7 @@ export class AmazonScraperAdapter implements PriceAdapter {
               productName: name,
               seller: 'Amazon',
               condition: 'new',
-              url: productUrl ? `https://www.amazon.com${productUrl}` : undefined,
+              url: productUrl ? `https://${host}${productUrl}` : undefined,
             },
           });
         } catch (e) {
@@ -142,7 +176,7 @@ export class AmazonScraperAdapter implements PriceAdapter {
         }
       });
 
-      logger.info(`Scraped ${prices.length} prices for ${assetId} from Amazon`);
+      logger.info(`Scraped ${prices.length} prices for ${assetId} from ${host}`);
       return prices;
     } catch (error) {
       if (error instanceof AdapterError) throw error;
@@ -158,36 +192,8 @@ export class AmazonScraperAdapter implements PriceAdapter {
       `session-id=${sessionId}`,
       `ubid-main=${ubid}`,
       `session-token=null`,
-      `i18n-prefs=USD`,
-      `sp-cdn="L5Z9:US"`,
+      `i18n-prefs=${this.marketplace.currency}`,
+      `sp-cdn="L5Z9:${this.marketplace.country.toUpperCase()}"`,
     ].join('; ');
   }
-
-  private isRelevantProduct(name: string, assetId: AssetId): boolean {
-    const nameLower = name.toLowerCase();
-
-    // Exclude accessories
-    const excludeTerms = ['cable', 'adapter', 'mount', 'stand', 'case', 'bag', 'cooler only'];
-    if (excludeTerms.some(term => nameLower.includes(term))) {
-      return false;
-    }
-
-    switch (assetId) {
-      case 'GPU_RTX4090':
-        return nameLower.includes('4090') &&
-               (nameLower.includes('geforce') || nameLower.includes('rtx') || nameLower.includes('nvidia'));
-      case 'GPU_RTX4080':
-        return nameLower.includes('4080') &&
-               (nameLower.includes('geforce') || nameLower.includes('rtx') || nameLower.includes('nvidia'));
-      case 'GPU_RTX3090':
-        return nameLower.includes('3090') &&
-               (nameLower.includes('geforce') || nameLower.includes('rtx') || nameLower.includes('nvidia'));
-      case 'RAM_DDR5_32':
-        return nameLower.includes('ddr5') && nameLower.includes('32');
-      case 'RAM_DDR5_64':
-        return nameLower.includes('ddr5') && nameLower.includes('64');
-      default:
-        return false;
-    }
-  }
 }
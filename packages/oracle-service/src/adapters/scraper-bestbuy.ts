@@ -1,6 +1,6 @@
 import * as cheerio from 'cheerio';
 import type { AxiosInstance } from 'axios';
-import type { PriceAdapter, PricePoint } from './types.js';
+import type { AdapterConfig, PriceAdapter, PricePoint } from './types.js';
 import type { AssetId } from '../config/index.js';
 import { AdapterError } from './types.js';
 import { createLogger } from '../utils/logger.js';
@@ -14,6 +14,8 @@ import {
   getRandomDelay,
   isScraperApiConfigured,
   fetchViaScraperApi,
+  resolveSearchQuery,
+  resolveSearchUrl,
 } from './scraper-utils.js';
 import type { ScraperAdapterOptions } from './scraper-newegg.js';
 
@@ -22,26 +24,19 @@ const logger = createLogger('bestbuy-scraper');
 // Best Buy internal API endpoint (used by their frontend)
 const API_BASE = 'https://www.bestbuy.com/api/tcfb/model.json';
 
-// Search queries for each asset
-const SEARCH_QUERIES: Record<AssetId, { query: string; categoryId: string }> = {
-  GPU_RTX4090: { query: 'rtx 4090', categoryId: 'abcat0507002' },
-  GPU_RTX4080: { query: 'rtx 4080', categoryId: 'abcat0507002' },
-  GPU_RTX3090: { query: 'rtx 3090', categoryId: 'abcat0507002' },
-  RAM_DDR5_32: { query: 'ddr5 32gb', categoryId: 'abcat0507012' },
-  RAM_DDR5_64: { query: 'ddr5 64gb', categoryId: 'abcat0507012' },
-};
-
-// Fallback: HTML search URLs
-const SEARCH_URLS: Record<AssetId, string> = {
-  GPU_RTX4090: 'https://www.bestbuy.com/site/searchpage.jsp?st=rtx+4090&cp=1',
-  GPU_RTX4080: 'https://www.bestbuy.com/site/searchpage.jsp?st=rtx+4080&cp=1',
-  GPU_RTX3090: 'https://www.bestbuy.com/site/searchpage.jsp?st=rtx+3090&cp=1',
-  RAM_DDR5_32: 'https://www.bestbuy.com/site/searchpage.jsp?st=ddr5+32gb&cp=1',
-  RAM_DDR5_64: 'https://www.bestbuy.com/site/searchpage.jsp?st=ddr5+64gb&cp=1',
-};
+// Fallback: HTML search URL, used when the asset registry has no explicit URL
+const buildSearchUrl = (query: string) =>
+  `https://www.bestbuy.com/site/searchpage.jsp?st=${encodeURIComponent(query).replace(/%20/g, '+')}&cp=1`;
 
 export class BestBuyScraperAdapter implements PriceAdapter {
   readonly name = 'bestbuy-scraper';
+  readonly limits: AdapterConfig = {
+    enabled: true,
+    domain: 'bestbuy.com',
+    concurrency: 1,
+    // Up to three requests per fetch: API, then homepage warm-up and search page
+    rateLimit: { maxRequests: 3, windowMs: 60 * 1000 },
+  };
   private client: AxiosInstance;
   private useProxy: boolean;
 
@@ -72,7 +67,7 @@ export class BestBuyScraperAdapter implements PriceAdapter {
   }
 
   private async fetchFromAPI(assetId: AssetId): Promise<PricePoint[]> {
-    const { query, categoryId } = SEARCH_QUERIES[assetId];
+    const query = resolveSearchQuery(assetId, 'bestbuy');
     const prices: PricePoint[] = [];
 
     // Best Buy's internal API parameters
@@ -109,8 +104,6 @@ export class BestBuyScraperAdapter implements PriceAdapter {
         const price = product.pricing.current || product.pricing.regular;
         if (!price || price < 50) continue;
 
-        if (!this.isRelevantProduct(product.name, assetId)) continue;
-
         prices.push({
           price,
           source: this.name,
@@ -133,7 +126,7 @@ export class BestBuyScraperAdapter implements PriceAdapter {
   }
 
   private async fetchFromHTML(assetId: AssetId): Promise<PricePoint[]> {
-    const url = SEARCH_URLS[assetId];
+    const url = resolveSearchUrl(assetId, 'bestbuy', buildSearchUrl);
     const prices: PricePoint[] = [];
 
     try {
@@ -199,7 +192,6 @@ export class BestBuyScraperAdapter implements PriceAdapter {
             const name = this.extractName($item, $);
 
             if (!name || !price || price < 50) return;
-            if (!this.isRelevantProduct(name, assetId)) return;
 
             const productUrl = $item.find('a.image-link, a[href*="/site/"]').first().attr('href');
 
@@ -269,25 +261,6 @@ export class BestBuyScraperAdapter implements PriceAdapter {
     return null;
   }
 
-  private isRelevantProduct(name: string, assetId: AssetId): boolean {
-    const nameLower = name.toLowerCase();
-
-    switch (assetId) {
-      case 'GPU_RTX4090':
-        return nameLower.includes('4090') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'GPU_RTX4080':
-        return nameLower.includes('4080') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'GPU_RTX3090':
-        return nameLower.includes('3090') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'RAM_DDR5_32':
-        return nameLower.includes('ddr5') && (nameLower.includes('32gb') || nameLower.includes('32 gb'));
-      case 'RAM_DDR5_64':
-        return nameLower.includes('ddr5') && (nameLower.includes('64gb') || nameLower.includes('64 gb'));
-      default:
-        return false;
-    }
-  }
-
   private parsePrice(priceText: string): number | null {
     if (!priceText) return null;
     const cleaned = priceText.replace(/[^0-9.]/g, '');
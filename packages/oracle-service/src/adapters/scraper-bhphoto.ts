@@ -1,6 +1,6 @@
 import * as cheerio from 'cheerio';
 import type { AxiosInstance } from 'axios';
-import type { PriceAdapter, PricePoint } from './types.js';
+import type { AdapterConfig, PriceAdapter, PricePoint } from './types.js';
 import type { AssetId } from '../config/index.js';
 import { AdapterError } from './types.js';
 import { createLogger } from '../utils/logger.js';
@@ -12,22 +12,25 @@ import {
   getRandomDelay,
   isScraperApiConfigured,
   fetchViaScraperApi,
+  resolveSearchUrl,
 } from './scraper-utils.js';
 import type { ScraperAdapterOptions } from './scraper-newegg.js';
 
 const logger = createLogger('bhphoto-scraper');
 
-// B&H Photo search URLs
-const SEARCH_URLS: Record<AssetId, string> = {
-  GPU_RTX4090: 'https://www.bhphotovideo.com/c/search?q=rtx%204090&sts=ma',
-  GPU_RTX4080: 'https://www.bhphotovideo.com/c/search?q=rtx%204080&sts=ma',
-  GPU_RTX3090: 'https://www.bhphotovideo.com/c/search?q=rtx%203090&sts=ma',
-  RAM_DDR5_32: 'https://www.bhphotovideo.com/c/search?q=ddr5%2032gb&sts=ma',
-  RAM_DDR5_64: 'https://www.bhphotovideo.com/c/search?q=ddr5%2064gb&sts=ma',
-};
+// B&H Photo search URL, used when the asset registry has no explicit URL
+const buildSearchUrl = (query: string) =>
+  `https://www.bhphotovideo.com/c/search?q=${encodeURIComponent(query)}&sts=ma`;
 
 export class BHPhotoScraperAdapter implements PriceAdapter {
   readonly name = 'bhphoto-scraper';
+  readonly limits: AdapterConfig = {
+    enabled: true,
+    domain: 'bhphotovideo.com',
+    concurrency: 1,
+    // Two requests per fetch: homepage warm-up and search page
+    rateLimit: { maxRequests: 5, windowMs: 60 * 1000 },
+  };
   private client: AxiosInstance;
   private useProxy: boolean;
 
@@ -43,7 +46,7 @@ export class BHPhotoScraperAdapter implements PriceAdapter {
   }
 
   async fetchPrices(assetId: AssetId): Promise<PricePoint[]> {
-    const url = SEARCH_URLS[assetId];
+    const url = resolveSearchUrl(assetId, 'bhphoto', buildSearchUrl);
     const prices: PricePoint[] = [];
 
     try {
@@ -94,7 +97,7 @@ export class BHPhotoScraperAdapter implements PriceAdapter {
           const name = $item.find('[data-selenium="miniProductPageName"]').text().trim() ||
                       $item.find('.productTitle').text().trim();
 
-          if (!name || !this.isRelevantProduct(name, assetId)) return;
+          if (!name) return;
 
           // Extract price
           const priceText = $item.find('[data-selenium="miniProductPagePrice"]').text() ||
@@ -136,7 +139,7 @@ export class BHPhotoScraperAdapter implements PriceAdapter {
             const $item = $(element);
             const name = $item.find('[class*="title"], .product-name').text().trim();
 
-            if (!name || !this.isRelevantProduct(name, assetId)) return;
+            if (!name) return;
 
             const priceText = $item.find('[class*="price"]').first().text();
             const price = this.parsePrice(priceText);
@@ -175,29 +178,4 @@ export class BHPhotoScraperAdapter implements PriceAdapter {
     const price = parseFloat(match[1].replace(/,/g, ''));
     return isNaN(price) ? null : price;
   }
-
-  private isRelevantProduct(name: string, assetId: AssetId): boolean {
-    const nameLower = name.toLowerCase();
-
-    // Exclude accessories
-    const excludeTerms = ['cable', 'adapter', 'dock', 'enclosure', 'cooler only', 'waterblock'];
-    if (excludeTerms.some(term => nameLower.includes(term))) {
-      return false;
-    }
-
-    switch (assetId) {
-      case 'GPU_RTX4090':
-        return nameLower.includes('4090') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'GPU_RTX4080':
-        return nameLower.includes('4080') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'GPU_RTX3090':
-        return nameLower.includes('3090') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'RAM_DDR5_32':
-        return nameLower.includes('ddr5') && (nameLower.includes('32gb') || nameLower.includes('32 gb'));
-      case 'RAM_DDR5_64':
-        return nameLower.includes('ddr5') && (nameLower.includes('64gb') || nameLower.includes('64 gb'));
-      default:
-        return false;
-    }
-  }
 }
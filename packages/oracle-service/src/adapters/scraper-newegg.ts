@@ -1,6 +1,6 @@
 import * as cheerio from 'cheerio';
 import type { AxiosInstance } from 'axios';
-import type { PriceAdapter, PricePoint } from './types.js';
+import type { AdapterConfig, PriceAdapter, PricePoint, Region } from './types.js';
 import type { AssetId } from '../config/index.js';
 import { AdapterError } from './types.js';
 import { createLogger } from '../utils/logger.js';
@@ -14,29 +14,53 @@ import {
   getRandomDelay,
   isScraperApiConfigured,
   fetchViaScraperApi,
+  resolveSearchUrl,
 } from './scraper-utils.js';
 
 const logger = createLogger('newegg-scraper');
 
-// Newegg search URLs for each asset
-const SEARCH_URLS: Record<AssetId, string> = {
-  GPU_RTX4090: 'https://www.newegg.com/p/pl?d=rtx+4090&N=100007709&PageSize=96',
-  GPU_RTX4080: 'https://www.newegg.com/p/pl?d=rtx+4080&N=100007709&PageSize=96',
-  GPU_RTX3090: 'https://www.newegg.com/p/pl?d=rtx+3090&N=100007709&PageSize=96',
-  RAM_DDR5_32: 'https://www.newegg.com/p/pl?d=ddr5+32gb&N=100007611&PageSize=96',
-  RAM_DDR5_64: 'https://www.newegg.com/p/pl?d=ddr5+64gb&N=100007611&PageSize=96',
-};
-
 export interface ScraperAdapterOptions {
   useProxy?: boolean;
 }
 
+/**
+ * A Newegg storefront; see AmazonMarketplace
+ */
+export interface NeweggSite {
+  name: string;         // Adapter name
+  retailer: string;     // Asset registry `retailers` key
+  host: string;
+  region: Region;
+  currency: string;
+  country: string;      // ScraperAPI geotargeting code
+}
+
+export const NEWEGG_SITES: Record<'us' | 'ca', NeweggSite> = {
+  us: { name: 'newegg-scraper', retailer: 'newegg', host: 'www.newegg.com', region: 'us', currency: 'USD', country: 'us' },
+  ca: { name: 'newegg-ca-scraper', retailer: 'newegg-ca', host: 'www.newegg.ca', region: 'ca', currency: 'CAD', country: 'ca' },
+};
+
+export interface NeweggScraperOptions extends ScraperAdapterOptions {
+  site?: NeweggSite;    // Defaults to newegg.com
+}
+
 export class NeweggScraperAdapter implements PriceAdapter {
-  readonly name = 'newegg-scraper';
+  readonly name: string;
+  readonly limits: AdapterConfig;
   private client: AxiosInstance;
   private useProxy: boolean;
-
-  constructor(options?: ScraperAdapterOptions) {
+  private site: NeweggSite;
+
+  constructor(options?: NeweggScraperOptions) {
+    this.site = options?.site ?? NEWEGG_SITES.us;
+    this.name = this.site.name;
+    this.limits = {
+      enabled: true,
+      domain: this.site.host.replace(/^www\./, ''),
+      concurrency: 1,
+      // Two requests per fetch: homepage warm-up and search page
+      rateLimit: { maxRequests: 5, windowMs: 60 * 1000 },
+    };
     this.useProxy = options?.useProxy ?? false;
     this.client = this.useProxy
       ? createRotatingProxyClient()
@@ -48,7 +72,12 @@ export class NeweggScraperAdapter implements PriceAdapter {
   }
 
   async fetchPrices(assetId: AssetId): Promise<PricePoint[]> {
-    const url = SEARCH_URLS[assetId];
+    const { host, retailer, currency, region, country } = this.site;
+    const url = resolveSearchUrl(
+      assetId,
+      retailer,
+      query => `https://${host}/p/pl?d=${encodeURIComponent(query).replace(/%20/g, '+')}&PageSize=96`
+    );
     const prices: PricePoint[] = [];
 
     try {
@@ -59,7 +88,7 @@ export class NeweggScraperAdapter implements PriceAdapter {
         logger.info(`Using ScraperAPI for Newegg ${assetId}`);
         const response = await fetchViaScraperApi(url, {
           renderJs: false,
-          country: 'us',
+          country,
         });
 
         if (response.status !== 200) {
@@ -70,7 +99,7 @@ export class NeweggScraperAdapter implements PriceAdapter {
       } else {
         // Direct scraping fallback
         // First establish session with homepage
-        await this.client.get('https://www.newegg.com/', {
+        await this.client.get(`https://${host}/`, {
           headers: getBrowserHeaders(),
         });
 
@@ -82,8 +111,8 @@ export class NeweggScraperAdapter implements PriceAdapter {
           url,
           {
             headers: {
-              ...getBrowserHeaders('https://www.newegg.com/'),
-              'Cookie': generateSessionCookies('newegg.com'),
+              ...getBrowserHeaders(`https://${host}/`),
+              'Cookie': generateSessionCookies(this.limits.domain),
             },
           },
           3
@@ -112,9 +141,11 @@ export class NeweggScraperAdapter implements PriceAdapter {
             const $item = $(element);
             const itemData = this.extractItemData($item, $, assetId);
 
-            if (itemData && this.isRelevantProduct(itemData.name, assetId)) {
+            if (itemData) {
               prices.push({
                 price: itemData.price,
+                currency,
+                region,
                 source: this.name,
                 timestamp: Date.now(),
                 assetId,
@@ -140,9 +171,11 @@ export class NeweggScraperAdapter implements PriceAdapter {
           const json = JSON.parse($(el).html() || '');
           if (json['@type'] === 'Product' && json.offers) {
             const price = parseFloat(json.offers.price);
-            if (price && price > 50 && this.isRelevantProduct(json.name, assetId)) {
+            if (price && price > 50 && json.name) {
               prices.push({
                 price,
+                currency,
+                region,
                 source: this.name,
                 timestamp: Date.now(),
                 assetId,
@@ -160,7 +193,7 @@ export class NeweggScraperAdapter implements PriceAdapter {
         }
       });
 
-      logger.info(`Scraped ${prices.length} prices for ${assetId} from Newegg`);
+      logger.info(`Scraped ${prices.length} prices for ${assetId} from ${host}`);
       return prices;
     } catch (error) {
       if (error instanceof AdapterError) throw error;
@@ -236,32 +269,4 @@ export class NeweggScraperAdapter implements PriceAdapter {
 
     return { name, price, url: url || undefined };
   }
-
-  private isRelevantProduct(name: string, assetId: AssetId): boolean {
-    const nameLower = name.toLowerCase();
-
-    // Exclude accessories, cables, etc.
-    const excludeTerms = ['cable', 'adapter', 'mount', 'bracket', 'cooler only', 'backplate'];
-    if (excludeTerms.some(term => nameLower.includes(term))) {
-      return false;
-    }
-
-    switch (assetId) {
-      case 'GPU_RTX4090':
-        return nameLower.includes('4090') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'GPU_RTX4080':
-        return (nameLower.includes('4080') || nameLower.includes('4080 super')) &&
-               (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'GPU_RTX3090':
-        return nameLower.includes('3090') && (nameLower.includes('geforce') || nameLower.includes('rtx'));
-      case 'RAM_DDR5_32':
-        return nameLower.includes('ddr5') &&
-               (nameLower.includes('32gb') || nameLower.includes('32 gb') || nameLower.includes('2x16'));
-      case 'RAM_DDR5_64':
-        return nameLower.includes('ddr5') &&
-               (nameLower.includes('64gb') || nameLower.includes('64 gb') || nameLower.includes('2x32'));
-      default:
-        return false;
-    }
-  }
 }
@@ -1,6 +1,8 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosProxyConfig } from 'axios';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import { SocksProxyAgent } from 'socks-proxy-agent';
+import type { AssetId } from '../config/index.js';
+import { getAssetDefinition, getRetailerQuery } from '../config/index.js';
 
 // Proxy configuration
 export interface ProxyConfig {
@@ -84,6 +86,26 @@ export function createProxyAgent(proxy: ProxyConfig): HttpsProxyAgent<string> |
   }
 }
 
+/**
+ * Get the search query for an asset at a retailer from the asset registry.
+ * Falls back to the asset's first search term when no retailer query is set.
+ */
+export function resolveSearchQuery(assetId: AssetId, retailer: string): string {
+  return getRetailerQuery(assetId, retailer)?.query || getAssetDefinition(assetId).searchTerms[0];
+}
+
+/**
+ * Resolve a retailer search URL for an asset from the asset registry.
+ * Uses the registry `url` when set, otherwise builds one from the search query.
+ */
+export function resolveSearchUrl(
+  assetId: AssetId,
+  retailer: string,
+  buildUrl: (query: string) => string
+): string {
+  return getRetailerQuery(assetId, retailer)?.url || buildUrl(resolveSearchQuery(assetId, retailer));
+}
+
 // Realistic browser user agents (updated 2024)
 const USER_AGENTS = [
   // Chrome on Windows
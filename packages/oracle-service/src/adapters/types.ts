@@ -1,14 +1,44 @@
 import type { AssetId } from '../config/index.js';
 
+export type ListingCondition = 'new' | 'used' | 'refurbished';
+
+export const LISTING_CONDITIONS: readonly ListingCondition[] = ['new', 'used', 'refurbished'];
+
+export function isListingCondition(value: unknown): value is ListingCondition {
+  return typeof value === 'string' && (LISTING_CONDITIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Retail markets with their own price index; see REGION_CURRENCIES
+ */
+export type Region = 'us' | 'ca' | 'uk' | 'eu';
+
+export const REGIONS: readonly Region[] = ['us', 'ca', 'uk', 'eu'];
+
+// Currency each regional index is priced in
+export const REGION_CURRENCIES: Record<Region, string> = {
+  us: 'USD',
+  ca: 'CAD',
+  uk: 'GBP',
+  eu: 'EUR',
+};
+
+export function isRegion(value: unknown): value is Region {
+  return typeof value === 'string' && (REGIONS as readonly string[]).includes(value);
+}
+
 export interface PricePoint {
-  price: number;        // Price in USD
+  price: number;        // Price in `currency`; the aggregator converts every listing to USD
+  currency?: string;    // ISO 4217 code; USD when absent
+  region?: Region;      // Market the listing is from; 'us' when absent
+  listed?: { price: number; currency: string };  // Price as listed, when `price` was converted
   source: string;       // Source identifier (e.g., 'ebay', 'amazon')
   timestamp: number;    // Unix timestamp in ms
   assetId: AssetId;
   metadata?: {
     productName?: string;
     seller?: string;
-    condition?: 'new' | 'used' | 'refurbished';
+    condition?: ListingCondition;  // Treated as 'new' when absent
     url?: string;
   };
 }
@@ -16,6 +46,12 @@ export interface PricePoint {
 export interface PriceAdapter {
   readonly name: string;
 
+  /**
+   * Request budget for the adapter's retailer, enforced by the fetch orchestrator.
+   * Adapters without one get the orchestrator's default limits.
+   */
+  readonly limits?: AdapterConfig;
+
   /**
    * Fetch current prices for an asset
    * @returns Array of price points from this source
@@ -30,6 +66,10 @@ export interface PriceAdapter {
 
 export interface AdapterConfig {
   enabled: boolean;
+  domain: string;         // Retailer host; adapters sharing one (API and scraper) share its budget
+  concurrency: number;    // Fetches in flight at once against the domain
+  // Counts fetchPrices() calls, not HTTP requests: an adapter making several
+  // requests per fetch (warm-up, fallback) divides the retailer's budget by that
   rateLimit: {
     maxRequests: number;
     windowMs: number;
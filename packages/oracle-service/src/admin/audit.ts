@@ -0,0 +1,66 @@
+/**
+ * Admin Audit Log
+ *
+ * Records every admin action with its parameters and outcome. Recent entries
+ * are kept in memory for GET /admin/audit; when a file path is configured
+ * entries are also appended there as JSON lines.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('admin-audit');
+
+const MAX_RECENT_ENTRIES = 1000;
+
+export interface AuditEntry {
+  timestamp: number;
+  action: string;                  // e.g. 'pause', 'pin', 'disable-adapter'
+  assetId: string | null;
+  params: Record<string, unknown>;
+  ok: boolean;
+  message?: string;                // Error or outcome detail
+  ip: string | null;
+}
+
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+
+  constructor(private filePath: string | null = null) {}
+
+  /**
+   * Record an action; a failed file write is logged, never thrown
+   */
+  async record(entry: Omit<AuditEntry, 'timestamp'> & { timestamp?: number }): Promise<AuditEntry> {
+    const full: AuditEntry = { ...entry, timestamp: entry.timestamp ?? Date.now() };
+
+    this.entries.push(full);
+    if (this.entries.length > MAX_RECENT_ENTRIES) {
+      this.entries.shift();
+    }
+
+    logger.info(
+      `${full.action}${full.assetId ? ` ${full.assetId}` : ''} ${full.ok ? 'ok' : 'failed'}` +
+      (full.message ? `: ${full.message}` : '')
+    );
+
+    if (this.filePath) {
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, `${JSON.stringify(full)}\n`);
+      } catch (error) {
+        logger.error(`Failed to write audit entry to ${this.filePath}: ${error}`);
+      }
+    }
+
+    return full;
+  }
+
+  /**
+   * Most recent entries, newest first
+   */
+  recent(limit = 100): AuditEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { FeedControls } from './controls.js';
+
+describe('FeedControls', () => {
+  it('pauses and resumes an asset', () => {
+    const controls = new FeedControls();
+
+    controls.pause('GPU_RTX4090', 'bad listings', 1000);
+    expect(controls.getPause('GPU_RTX4090')).toEqual({ reason: 'bad listings', since: 1000 });
+    expect(controls.getPause('RAM_DDR5_32')).toBeNull();
+
+    expect(controls.resume('GPU_RTX4090')).toBe(true);
+    expect(controls.resume('GPU_RTX4090')).toBe(false);
+    expect(controls.getPause('GPU_RTX4090')).toBeNull();
+  });
+
+  it('pins a price per condition until it expires', () => {
+    const controls = new FeedControls();
+    controls.pin('GPU_RTX4090', 'used', 1200, 'thin market', 5000, 1000);
+
+    expect(controls.getPin('GPU_RTX4090', 'used', 4999)).toEqual({
+      price: 1200,
+      reason: 'thin market',
+      pinnedAt: 1000,
+      expiresAt: 5000,
+    });
+    expect(controls.getPin('GPU_RTX4090', 'new', 4999)).toBeNull();
+    expect(controls.getPin('GPU_RTX4090', 'used', 5000)).toBeNull();
+    expect(controls.snapshot(5000).pins).toEqual({});
+  });
+
+  it('reports whether an unpin removed an active pin', () => {
+    const controls = new FeedControls();
+    controls.pin('GPU_RTX4090', 'new', 1500, 'outage', 5000, 1000);
+
+    expect(controls.unpin('GPU_RTX4090', 'new', 2000)).toBe(true);
+    expect(controls.unpin('GPU_RTX4090', 'new', 2000)).toBe(false);
+  });
+
+  it('disables adapters per asset', () => {
+    const controls = new FeedControls();
+    controls.disableAdapter('GPU_RTX4090', 'ebay', 'wrong SKU', 1000);
+
+    expect(controls.isAdapterDisabled('GPU_RTX4090', 'ebay')).toBe(true);
+    expect(controls.isAdapterDisabled('RAM_DDR5_32', 'ebay')).toBe(false);
+    expect(controls.snapshot().disabledAdapters).toEqual({
+      GPU_RTX4090: [{ adapter: 'ebay', reason: 'wrong SKU', since: 1000 }],
+    });
+
+    expect(controls.enableAdapter('GPU_RTX4090', 'ebay')).toBe(true);
+    expect(controls.enableAdapter('GPU_RTX4090', 'ebay')).toBe(false);
+    expect(controls.snapshot().disabledAdapters).toEqual({});
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Feed Controls
+ *
+ * Runtime interventions set through the admin API:
+ * - pause: stop updating an asset and refuse to serve its price
+ * - pin: serve a manual price for an asset/condition until it expires
+ * - disable: skip one adapter for one asset
+ *
+ * State is in memory; the audit log keeps the record of who changed what.
+ */
+
+import type { ListingCondition } from '../adapters/types.js';
+import type { AssetId } from '../config/index.js';
+
+export interface FeedPause {
+  reason: string;
+  since: number;
+}
+
+export interface PricePin {
+  price: number;
+  reason: string;
+  pinnedAt: number;
+  expiresAt: number;
+}
+
+export interface DisabledAdapter {
+  adapter: string;
+  reason: string;
+  since: number;
+}
+
+export interface FeedControlsSnapshot {
+  paused: Record<AssetId, FeedPause>;
+  pins: Record<string, PricePin & { assetId: AssetId; condition: ListingCondition }>;
+  disabledAdapters: Record<AssetId, DisabledAdapter[]>;
+}
+
+function pinKey(assetId: AssetId, condition: ListingCondition): string {
+  return `${assetId}:${condition}`;
+}
+
+export class FeedControls {
+  private paused: Map<AssetId, FeedPause> = new Map();
+  private pins: Map<string, PricePin & { assetId: AssetId; condition: ListingCondition }> = new Map();
+  private disabled: Map<AssetId, Map<string, DisabledAdapter>> = new Map();
+
+  pause(assetId: AssetId, reason: string, now: number = Date.now()): FeedPause {
+    const pause = { reason, since: now };
+    this.paused.set(assetId, pause);
+    return pause;
+  }
+
+  /**
+   * @returns Whether the asset was paused
+   */
+  resume(assetId: AssetId): boolean {
+    return this.paused.delete(assetId);
+  }
+
+  getPause(assetId: AssetId): FeedPause | null {
+    return this.paused.get(assetId) ?? null;
+  }
+
+  pin(
+    assetId: AssetId,
+    condition: ListingCondition,
+    price: number,
+    reason: string,
+    expiresAt: number,
+    now: number = Date.now()
+  ): PricePin {
+    const pin = { price, reason, pinnedAt: now, expiresAt };
+    this.pins.set(pinKey(assetId, condition), { ...pin, assetId, condition });
+    return pin;
+  }
+
+  /**
+   * @returns Whether an active pin was removed
+   */
+  unpin(assetId: AssetId, condition: ListingCondition, now: number = Date.now()): boolean {
+    const active = this.getPin(assetId, condition, now) !== null;
+    this.pins.delete(pinKey(assetId, condition));
+    return active;
+  }
+
+  /**
+   * Active pin for a series; expired pins are dropped
+   */
+  getPin(assetId: AssetId, condition: ListingCondition, now: number = Date.now()): PricePin | null {
+    const key = pinKey(assetId, condition);
+    const pin = this.pins.get(key);
+    if (!pin) return null;
+    if (pin.expiresAt <= now) {
+      this.pins.delete(key);
+      return null;
+    }
+    const { assetId: _assetId, condition: _condition, ...rest } = pin;
+    return rest;
+  }
+
+  disableAdapter(assetId: AssetId, adapter: string, reason: string, now: number = Date.now()): DisabledAdapter {
+    const entry = { adapter, reason, since: now };
+    const forAsset = this.disabled.get(assetId) || new Map<string, DisabledAdapter>();
+    forAsset.set(adapter, entry);
+    this.disabled.set(assetId, forAsset);
+    return entry;
+  }
+
+  /**
+   * @returns Whether the adapter was disabled for the asset
+   */
+  enableAdapter(assetId: AssetId, adapter: string): boolean {
+    const forAsset = this.disabled.get(assetId);
+    if (!forAsset?.delete(adapter)) return false;
+    if (forAsset.size === 0) this.disabled.delete(assetId);
+    return true;
+  }
+
+  isAdapterDisabled(assetId: AssetId, adapter: string): boolean {
+    return this.disabled.get(assetId)?.has(adapter) ?? false;
+  }
+
+  snapshot(now: number = Date.now()): FeedControlsSnapshot {
+    const pins: FeedControlsSnapshot['pins'] = {};
+    for (const pin of Array.from(this.pins.values())) {
+      if (this.getPin(pin.assetId, pin.condition, now)) {
+        pins[pinKey(pin.assetId, pin.condition)] = pin;
+      }
+    }
+
+    return {
+      paused: Object.fromEntries(this.paused),
+      pins,
+      disabledAdapters: Object.fromEntries(
+        Array.from(this.disabled.entries()).map(([assetId, adapters]) => [assetId, Array.from(adapters.values())])
+      ),
+    };
+  }
+}
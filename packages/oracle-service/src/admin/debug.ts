@@ -0,0 +1,124 @@
+/**
+ * Admin Debug Endpoints
+ *
+ * Connectivity checks for external services, mounted under /admin/debug:
+ * - GET /admin/debug/scraper: fetch a Newegg search page through ScraperAPI
+ * - GET /admin/debug/supabase: query the rental price table
+ */
+
+import type { Request, Response } from 'express';
+import { Router } from 'express';
+import * as cheerio from 'cheerio';
+import { fetchViaScraperApi, isScraperApiConfigured } from '../adapters/scraper-utils.js';
+import { getSupabase } from '../storage/supabase.js';
+
+export function createDebugRouter(): Router {
+  const router = Router();
+
+  // Test ScraperAPI against a Newegg search page
+  router.get('/scraper', async (_req: Request, res: Response) => {
+    if (!isScraperApiConfigured()) {
+      return res.json({ error: 'ScraperAPI not configured' });
+    }
+
+    try {
+      const testUrl = 'https://www.newegg.com/p/pl?d=rtx+4090&N=100007709';
+      const result = await fetchViaScraperApi(testUrl, { country: 'us' });
+
+      const html = typeof result.data === 'string' ? result.data : '';
+
+      // Check for various product selectors
+      const selectors = {
+        'item-cell': html.includes('item-cell'),
+        'item-container': html.includes('item-container'),
+        'goods-container': html.includes('goods-container'),
+        'product-price': html.includes('product-price'),
+        'price-current': html.includes('price-current'),
+        'item-title': html.includes('item-title'),
+        'item-info': html.includes('item-info'),
+      };
+
+      // Try to find price patterns
+      const priceMatches = html.match(/\$[\d,]+\.?\d*/g)?.slice(0, 10) || [];
+
+      // Try to actually parse items like the scraper does
+      const $ = cheerio.load(html);
+      const items: { name: string; price: string; priceNum: number }[] = [];
+
+      $('.item-cell, .item-container').each((_, element) => {
+        const $item = $(element);
+        const name = $item.find('.item-title, a.item-title').first().text().trim();
+
+        // Get price
+        const priceStrong = $item.find('.price-current strong').text();
+        const priceSup = $item.find('.price-current sup').text();
+        const priceText = $item.find('.price-current').text();
+
+        let priceNum = 0;
+        if (priceStrong) {
+          const dollars = priceStrong.replace(/[^0-9]/g, '');
+          const cents = priceSup.replace(/[^0-9]/g, '') || '00';
+          priceNum = parseFloat(`${dollars}.${cents}`);
+        }
+
+        if (name && name.length > 10) {
+          items.push({
+            name: name.substring(0, 80),
+            price: priceText.substring(0, 20),
+            priceNum,
+          });
+        }
+      });
+
+      res.json({
+        status: result.status,
+        dataLength: html.length,
+        selectors,
+        itemsFound: items.length,
+        items: items.slice(0, 5),
+        priceMatches,
+      });
+    } catch (error) {
+      res.json({ error: String(error) });
+    }
+  });
+
+  // Test the Supabase connection
+  router.get('/supabase', async (_req: Request, res: Response) => {
+    const supabase = getSupabase();
+
+    if (!supabase) {
+      return res.json({
+        configured: false,
+        url: process.env.SUPABASE_URL ? 'set' : 'missing',
+        key: process.env.SUPABASE_ANON_KEY ? 'set' : 'missing',
+      });
+    }
+
+    try {
+      // Direct query test
+      const { data, error, count } = await supabase
+        .from('rental_prices')
+        .select('*', { count: 'exact' });
+
+      res.json({
+        configured: true,
+        url: process.env.SUPABASE_URL,
+        queryResult: {
+          success: !error,
+          error: error?.message,
+          rowCount: data?.length || 0,
+          totalCount: count,
+          sample: data?.slice(0, 2),
+        },
+      });
+    } catch (err) {
+      res.json({
+        configured: true,
+        error: String(err),
+      });
+    }
+  });
+
+  return router;
+}
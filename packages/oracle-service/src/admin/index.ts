@@ -0,0 +1,6 @@
+export { createAdminRouter } from './router.js';
+export type { AdminOptions } from './router.js';
+export { FeedControls } from './controls.js';
+export type { FeedPause, PricePin, DisabledAdapter, FeedControlsSnapshot } from './controls.js';
+export { AuditLog } from './audit.js';
+export type { AuditEntry } from './audit.js';
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { PriceAggregator } from '../aggregator/index.js';
+import { AccessControl } from '../access/index.js';
+import { loadConfig } from '../config/index.js';
+import { Scheduler } from '../scheduler/index.js';
+import { AuditLog } from './audit.js';
+import { FeedControls } from './controls.js';
+import { createAdminRouter } from './router.js';
+
+const API_KEY = 'test-admin-key-0123456789';
+
+describe('admin router', () => {
+  let server: Server;
+  let baseUrl: string;
+  let controls: FeedControls;
+  let audit: AuditLog;
+  let jobRuns: number;
+  let priceUpdates: number;
+
+  const start = (apiKey: string | undefined) =>
+    new Promise<void>(resolve => {
+      controls = new FeedControls();
+      audit = new AuditLog();
+      const aggregator = new PriceAggregator([], loadConfig(), { controls });
+      const access = new AccessControl(loadConfig().access);
+      const scheduler = new Scheduler();
+      jobRuns = 0;
+      scheduler.register({ name: 'noop', description: 'Test job', schedule: '60000', run: async () => jobRuns++ });
+      priceUpdates = 0;
+      scheduler.register({
+        name: 'price-update',
+        description: 'Test price update',
+        schedule: '60000',
+        run: async () => {
+          priceUpdates++;
+          await new Promise(resolve => setTimeout(resolve, 50));
+        },
+      });
+      const app = express();
+      app.use(express.json());
+      app.use('/admin', createAdminRouter({ aggregator, controls, audit, access, scheduler, apiKey }));
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin`;
+        resolve();
+      });
+    });
+
+  const post = (path: string, body: unknown, key: string | null = API_KEY) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(key && { Authorization: `Bearer ${key}` }),
+      },
+      body: JSON.stringify(body),
+    });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('with an API key', () => {
+    beforeEach(() => start(API_KEY));
+
+    it('rejects missing and wrong keys and audits the attempt', async () => {
+      expect((await post('/assets/GPU_RTX4090/pause', { reason: 'test' }, null)).status).toBe(401);
+      expect((await post('/assets/GPU_RTX4090/pause', { reason: 'test' }, 'wrong-key')).status).toBe(401);
+
+      expect(controls.getPause('GPU_RTX4090')).toBeNull();
+      expect(audit.recent().map(e => [e.action, e.ok, e.message])).toEqual([
+        ['auth', false, 'Invalid API key'],
+        ['auth', false, 'Missing API key'],
+      ]);
+    });
+
+    it('pauses a feed and records the action', async () => {
+      const res = await post('/assets/GPU_RTX4090/pause', { reason: 'bad listings' });
+
+      expect(res.status).toBe(200);
+      expect(controls.getPause('GPU_RTX4090')?.reason).toBe('bad listings');
+      expect(audit.recent()[0]).toMatchObject({
+        action: 'pause',
+        assetId: 'GPU_RTX4090',
+        ok: true,
+        params: { reason: 'bad listings' },
+      });
+    });
+
+    it('requires a reason and an expiry to pin a price', async () => {
+      expect((await post('/assets/GPU_RTX4090/pin', { price: 1500, ttlMs: 60000 })).status).toBe(400);
+      expect((await post('/assets/GPU_RTX4090/pin', { price: 1500, reason: 'outage' })).status).toBe(400);
+      expect(controls.getPin('GPU_RTX4090', 'new')).toBeNull();
+
+      const res = await post('/assets/GPU_RTX4090/pin', { price: 1500, reason: 'outage', ttlMs: 60000 });
+      expect(res.status).toBe(200);
+      expect(controls.getPin('GPU_RTX4090', 'new')?.price).toBe(1500);
+      expect(audit.recent().map(e => e.ok)).toEqual([true, false, false]);
+    });
+
+    it('rejects unknown assets and adapters', async () => {
+      expect((await post('/assets/NOPE/pause', { reason: 'test' })).status).toBe(400);
+      expect((await post('/assets/GPU_RTX4090/adapters/nope/disable', { reason: 'test' })).status).toBe(400);
+    });
+
+    it('runs a scheduled job on demand', async () => {
+      const res = await post('/jobs/noop/run', {});
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ job: 'noop', run: { trigger: 'manual', ok: true } });
+      expect(jobRuns).toBe(1);
+      expect((await post('/jobs/missing/run', {})).status).toBe(404);
+      expect(audit.recent().map(e => [e.action, e.ok])).toEqual([['run-job', false], ['run-job', true]]);
+    });
+
+    it('refreshes through the price-update job and never overlaps it', async () => {
+      const [first, second] = await Promise.all([post('/refresh', {}), post('/refresh', {})]);
+
+      expect([first.status, second.status].sort()).toEqual([200, 409]);
+      expect(priceUpdates).toBe(1);
+      const ok = first.status === 200 ? first : second;
+      expect(await ok.json()).toMatchObject({ success: true, run: { trigger: 'manual', ok: true } });
+    });
+  });
+
+  it('is hidden without an API key', async () => {
+    await start(undefined);
+
+    const res = await post('/assets/GPU_RTX4090/pause', { reason: 'test' });
+    expect(res.status).toBe(404);
+  });
+});
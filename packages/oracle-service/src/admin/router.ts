@@ -0,0 +1,336 @@
+/**
+ * Admin API
+ *
+ * Operator interventions on the price feeds, mounted at /admin and protected
+ * by `Authorization: Bearer <ADMIN_API_KEY>`. Without a configured key every
+ * route answers 404. Every request that changes state, triggers work or hits
+ * a debug endpoint is written to the audit log, including rejected ones.
+ *
+ * - GET  /admin/controls                                   Current pauses, pins and disabled adapters
+ * - GET  /admin/audit?limit=                               Recent audit entries, newest first
+ * - GET  /admin/usage                                      Public API usage per client
+ * - POST /admin/assets/:assetId/pause      { reason }
+ * - POST /admin/assets/:assetId/resume     { reason? }
+ * - POST /admin/assets/:assetId/pin        { price, reason, ttlMs | expiresAt, condition? }
+ * - POST /admin/assets/:assetId/unpin      { reason?, condition? }
+ * - POST /admin/assets/:assetId/adapters/:adapter/disable  { reason }
+ * - POST /admin/assets/:assetId/adapters/:adapter/enable   { reason? }
+ * - POST /admin/assets/:assetId/release    { condition? }   Publish a move held by the guardrails
+ * - POST /admin/assets/:assetId/refresh                    Update one asset now
+ * - POST /admin/refresh                                    Run the price-update job now
+ * - POST /admin/jobs/:name/run                             Run a scheduled job now
+ * - GET  /admin/debug/scraper, /admin/debug/supabase
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { z } from 'zod';
+import type { PriceAggregator } from '../aggregator/index.js';
+import type { AccessControl } from '../access/index.js';
+import type { Scheduler } from '../scheduler/index.js';
+import { LISTING_CONDITIONS, type ListingCondition } from '../adapters/types.js';
+import { ASSET_IDS, type AssetId } from '../config/index.js';
+import type { AuditLog } from './audit.js';
+import type { FeedControls } from './controls.js';
+import { createDebugRouter } from './debug.js';
+
+const MAX_PIN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PRICE_UPDATE_JOB = 'price-update';          // Registered in index.ts
+
+const ReasonSchema = z.string().trim().min(1).max(500);
+const ConditionSchema = z.enum(LISTING_CONDITIONS as [ListingCondition, ...ListingCondition[]]).default('new');
+
+const PauseBodySchema = z.object({ reason: ReasonSchema });
+const OptionalReasonBodySchema = z.object({ reason: ReasonSchema.optional() });
+const ConditionBodySchema = z.object({ reason: ReasonSchema.optional(), condition: ConditionSchema });
+const PinBodySchema = z
+  .object({
+    price: z.number().positive(),
+    reason: ReasonSchema,
+    condition: ConditionSchema,
+    ttlMs: z.number().int().positive().max(MAX_PIN_TTL_MS).optional(),
+    expiresAt: z.number().int().positive().optional(),
+  })
+  .refine(body => (body.ttlMs === undefined) !== (body.expiresAt === undefined), {
+    message: 'Provide exactly one of ttlMs or expiresAt',
+  });
+
+export interface AdminOptions {
+  aggregator: PriceAggregator;
+  controls: FeedControls;
+  audit: AuditLog;
+  access: AccessControl;
+  scheduler: Scheduler;
+  apiKey?: string;          // Unset disables the admin API
+}
+
+export function createAdminRouter(options: AdminOptions): Router {
+  const { aggregator, controls, audit, access, scheduler, apiKey } = options;
+  const router = Router();
+
+  const record = (
+    req: Request,
+    action: string,
+    assetId: AssetId | null,
+    ok: boolean,
+    params: Record<string, unknown> = {},
+    message?: string
+  ) => audit.record({ action, assetId, params, ok, message, ip: req.ip ?? null });
+
+  /**
+   * Validate a request body, responding with 400 and auditing the rejection when invalid
+   */
+  const parseBody = <T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    req: Request,
+    res: Response,
+    action: string,
+    assetId: AssetId | null
+  ): T | null => {
+    const result = schema.safeParse(req.body ?? {});
+    if (result.success) return result.data;
+
+    const issues = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    void record(req, action, assetId, false, req.body ?? {}, issues.join('; '));
+    res.status(400).json({ error: 'Invalid request body', issues });
+    return null;
+  };
+
+  /**
+   * Resolve the :assetId route parameter, responding with 400 when unknown
+   */
+  const parseAsset = (req: Request, res: Response, action: string): AssetId | null => {
+    const assetId = req.params.assetId as AssetId;
+    if (ASSET_IDS.includes(assetId)) return assetId;
+
+    void record(req, action, assetId, false, {}, 'Invalid asset ID');
+    res.status(400).json({ error: 'Invalid asset ID', validAssets: ASSET_IDS });
+    return null;
+  };
+
+  router.use(requireApiKey(apiKey, (req, message) => record(req, 'auth', null, false, { path: req.path }, message)));
+
+  router.get('/controls', (_req: Request, res: Response) => {
+    res.json({ ...controls.snapshot(), timestamp: Date.now() });
+  });
+
+  router.get('/audit', (req: Request, res: Response) => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '100'), 10) || 100, 1), 1000);
+    res.json({ entries: audit.recent(limit), timestamp: Date.now() });
+  });
+
+  router.get('/usage', (_req: Request, res: Response) => {
+    res.json({ clients: access.getUsageReport(), timestamp: Date.now() });
+  });
+
+  router.post('/assets/:assetId/pause', async (req: Request, res: Response) => {
+    const assetId = parseAsset(req, res, 'pause');
+    if (!assetId) return;
+    const body = parseBody(PauseBodySchema, req, res, 'pause', assetId);
+    if (!body) return;
+
+    const pause = controls.pause(assetId, body.reason);
+    await record(req, 'pause', assetId, true, body);
+    res.json({ assetId, paused: pause });
+  });
+
+  router.post('/assets/:assetId/resume', async (req: Request, res: Response) => {
+    const assetId = parseAsset(req, res, 'resume');
+    if (!assetId) return;
+    const body = parseBody(OptionalReasonBodySchema, req, res, 'resume', assetId);
+    if (!body) return;
+
+    const resumed = controls.resume(assetId);
+    await record(req, 'resume', assetId, resumed, body, resumed ? undefined : 'Feed was not paused');
+    res.status(resumed ? 200 : 409).json({ assetId, resumed });
+  });
+
+  router.post('/assets/:assetId/pin', async (req: Request, res: Response) => {
+    const assetId = parseAsset(req, res, 'pin');
+    if (!assetId) return;
+    const body = parseBody(PinBodySchema, req, res, 'pin', assetId);
+    if (!body) return;
+
+    const now = Date.now();
+    const expiresAt = body.expiresAt ?? now + body.ttlMs!;
+    if (expiresAt <= now || expiresAt - now > MAX_PIN_TTL_MS) {
+      const message = `expiresAt must be in the future and at most ${MAX_PIN_TTL_MS / 3600000}h away`;
+      await record(req, 'pin', assetId, false, body, message);
+      res.status(400).json({ error: message });
+      return;
+    }
+
+    const pin = controls.pin(assetId, body.condition, body.price, body.reason, expiresAt, now);
+    await record(req, 'pin', assetId, true, { ...body, expiresAt });
+    res.json({ assetId, condition: body.condition, pin });
+  });
+
+  router.post('/assets/:assetId/unpin', async (req: Request, res: Response) => {
+    const assetId = parseAsset(req, res, 'unpin');
+    if (!assetId) return;
+    const body = parseBody(ConditionBodySchema, req, res, 'unpin', assetId);
+    if (!body) return;
+
+    const unpinned = controls.unpin(assetId, body.condition);
+    await record(req, 'unpin', assetId, unpinned, body, unpinned ? undefined : 'No active pin');
+    res.status(unpinned ? 200 : 409).json({ assetId, condition: body.condition, unpinned });
+  });
+
+  router.post('/assets/:assetId/adapters/:adapter/:toggle(disable|enable)', async (req: Request, res: Response) => {
+    const { adapter, toggle } = req.params;
+    const action = `${toggle}-adapter`;
+    const assetId = parseAsset(req, res, action);
+    if (!assetId) return;
+
+    const body = parseBody(toggle === 'disable' ? PauseBodySchema : OptionalReasonBodySchema, req, res, action, assetId);
+    if (!body) return;
+
+    const adapters = aggregator.getAdapterHealth().map(health => health.name);
+    if (!adapters.includes(adapter)) {
+      await record(req, action, assetId, false, { adapter, ...body }, 'Unknown adapter');
+      res.status(400).json({ error: 'Unknown adapter', validAdapters: adapters });
+      return;
+    }
+
+    if (toggle === 'disable') {
+      const disabled = controls.disableAdapter(assetId, adapter, body.reason!);
+      await record(req, action, assetId, true, { adapter, ...body });
+      res.json({ assetId, disabled });
+      return;
+    }
+
+    const enabled = controls.enableAdapter(assetId, adapter);
+    await record(req, action, assetId, enabled, { adapter, ...body }, enabled ? undefined : 'Adapter was not disabled');
+    res.status(enabled ? 200 : 409).json({ assetId, adapter, enabled });
+  });
+
+  router.post('/assets/:assetId/release', async (req: Request, res: Response) => {
+    const assetId = parseAsset(req, res, 'release');
+    if (!assetId) return;
+    const body = parseBody(ConditionBodySchema, req, res, 'release', assetId);
+    if (!body) return;
+
+    const released = await aggregator.releaseGuardrail(assetId, body.condition);
+    await record(req, 'release', assetId, released !== null, body, released ? undefined : 'Nothing pending');
+    if (!released) {
+      res.status(409).json({ error: 'No price is held by the guardrails', assetId, condition: body.condition });
+      return;
+    }
+    res.json({ assetId, condition: body.condition, price: released.price, timestamp: released.timestamp });
+  });
+
+  router.post('/assets/:assetId/refresh', async (req: Request, res: Response) => {
+    const assetId = parseAsset(req, res, 'refresh');
+    if (!assetId) return;
+
+    try {
+      const update = await aggregator.updatePrice(assetId);
+      await record(req, 'refresh', assetId, true);
+      res.json({
+        assetId,
+        price: update.price?.price ?? null,
+        changed: update.changed,
+        paused: controls.getPause(assetId) !== null,
+        insufficientSources: update.insufficientSources,
+      });
+    } catch (error) {
+      await record(req, 'refresh', assetId, false, {}, String(error));
+      res.status(500).json({ error: 'Refresh failed' });
+    }
+  });
+
+  // Goes through the scheduler so it never overlaps a scheduled cycle and pushes like one
+  router.post('/refresh', async (req: Request, res: Response) => {
+    if (!scheduler.has(PRICE_UPDATE_JOB)) {
+      await record(req, 'refresh', null, false, {}, 'Price update job not registered');
+      res.status(503).json({ error: 'Price updates are not scheduled' });
+      return;
+    }
+
+    const run = await scheduler.trigger(PRICE_UPDATE_JOB);
+    if (!run) {
+      await record(req, 'refresh', null, false, {}, 'Price update already running');
+      res.status(409).json({ error: 'Price update already running', job: PRICE_UPDATE_JOB });
+      return;
+    }
+
+    await record(req, 'refresh', null, run.ok, {}, run.error ?? undefined);
+    if (!run.ok) {
+      res.status(500).json({ error: 'Refresh failed', job: PRICE_UPDATE_JOB, run });
+      return;
+    }
+    res.json({
+      success: true,
+      run,
+      assets: ASSET_IDS.map(assetId => {
+        const price = aggregator.getPrice(assetId);
+        return {
+          assetId,
+          price: price?.price ?? null,
+          sources: price?.sources ?? [],
+          paused: controls.getPause(assetId) !== null,
+        };
+      }),
+    });
+  });
+
+  router.post('/jobs/:name/run', async (req: Request, res: Response) => {
+    const { name } = req.params;
+    if (!scheduler.has(name)) {
+      await record(req, 'run-job', null, false, { job: name }, 'Unknown job');
+      res.status(404).json({ error: 'Unknown job', jobs: scheduler.getStatus().map(job => job.name) });
+      return;
+    }
+
+    const run = await scheduler.trigger(name);
+    if (!run) {
+      await record(req, 'run-job', null, false, { job: name }, 'Job is already running');
+      res.status(409).json({ error: 'Job is already running', job: name });
+      return;
+    }
+
+    await record(req, 'run-job', null, run.ok, { job: name }, run.error ?? undefined);
+    res.status(run.ok ? 200 : 500).json({ job: name, run });
+  });
+
+  router.use('/debug', (req: Request, _res: Response, next: NextFunction) => {
+    void record(req, `debug${req.path.replace(/\//g, '-')}`, null, true);
+    next();
+  }, createDebugRouter());
+
+  return router;
+}
+
+/**
+ * Require `Authorization: Bearer <apiKey>`. Keys are compared as SHA-256
+ * digests in constant time; without a configured key the API is hidden.
+ */
+function requireApiKey(
+  apiKey: string | undefined,
+  onRejected: (req: Request, message: string) => unknown
+) {
+  const expected = apiKey ? createHash('sha256').update(apiKey).digest() : null;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!expected) {
+      res.status(404).json({ error: 'Admin API not enabled' });
+      return;
+    }
+
+    const header = req.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    const provided = createHash('sha256').update(token).digest();
+
+    if (!token || !timingSafeEqual(provided, expected)) {
+      void onRejected(req, token ? 'Invalid API key' : 'Missing API key');
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,527 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PriceAggregator, seriesKey } from './aggregator.js';
+import { loadConfig } from '../config/index.js';
+import { FeedControls } from '../admin/controls.js';
+import { MemoryListingArchive } from '../storage/listings.js';
+import type { ListingCondition, PriceAdapter, PricePoint, Region } from '../adapters/types.js';
+
+class StubAdapter implements PriceAdapter {
+  constructor(
+    readonly name: string,
+    private listings: Array<{ price: number; condition?: ListingCondition }>
+  ) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async fetchPrices(assetId: string): Promise<PricePoint[]> {
+    return this.listings.map(({ price, condition }) => ({
+      price,
+      source: this.name,
+      timestamp: Date.now(),
+      assetId,
+      metadata: { productName: 'NVIDIA GeForce RTX 4090', condition },
+    }));
+  }
+}
+
+describe('PriceAggregator', () => {
+  describe('condition indices', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+    };
+
+    it('should price new, used and refurbished listings separately', async () => {
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', [{ price: 1600 }, { price: 1620 }, { price: 1640 }]),
+        new StubAdapter('ebay', [
+          { price: 1650, condition: 'new' },
+          { price: 1300, condition: 'used' },
+          { price: 1400, condition: 'used' },
+          { price: 1450, condition: 'refurbished' },
+        ]),
+      ], config);
+
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.condition).toBe('new');
+      expect(update.price?.price).toBe(1630);
+      expect(aggregator.getPrice('GPU_RTX4090')?.price).toBe(1630);
+      expect(aggregator.getPrice('GPU_RTX4090', 'used')?.price).toBe(1350);
+      expect(aggregator.getPrice('GPU_RTX4090', 'refurbished')?.price).toBe(1450);
+      expect(aggregator.getConditionPrices('GPU_RTX4090').map(p => p.condition))
+        .toEqual(['new', 'used', 'refurbished']);
+    });
+
+    it('should not create secondary indices without listings', async () => {
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', [{ price: 1600 }]),
+      ], config);
+
+      await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(aggregator.getPrice('GPU_RTX4090', 'used')).toBeNull();
+      expect(aggregator.getAllPrices('used').size).toBe(0);
+      expect(aggregator.getAllPrices().get('GPU_RTX4090')?.condition).toBe('new');
+    });
+  });
+
+  it('should key the new series by the bare asset ID', () => {
+    expect(seriesKey('GPU_RTX4090')).toBe('GPU_RTX4090');
+    expect(seriesKey('GPU_RTX4090', 'used')).toBe('GPU_RTX4090:used');
+    expect(seriesKey('GPU_RTX4090', 'new', 'eu')).toBe('GPU_RTX4090@eu');
+  });
+
+  describe('staleness', () => {
+    const HOUR = 60 * 60 * 1000;
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+      maxPriceAgeMs: 2 * HOUR,
+      assetMaxPriceAges: { RAM_DDR5_32: 6 * HOUR },
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep the last price and flag it stale once it exceeds the max age', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+      const listings = [{ price: 1600 }];
+      const aggregator = new PriceAggregator([new StubAdapter('retail', listings)], config);
+
+      await aggregator.updatePrice('GPU_RTX4090');
+      expect(aggregator.getPrice('GPU_RTX4090')?.stale).toBe(false);
+
+      // Every source fails from here on
+      listings.length = 0;
+      vi.advanceTimersByTime(HOUR);
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.changed).toBe(false);
+      expect(update.insufficientSources).toBe(true);
+      expect(update.price?.price).toBe(1600);
+      expect(update.price?.ageMs).toBe(HOUR);
+      expect(update.price?.stale).toBe(false);
+
+      vi.advanceTimersByTime(2 * HOUR);
+      const price = aggregator.getPrice('GPU_RTX4090');
+      expect(price?.price).toBe(1600);
+      expect(price?.ageMs).toBe(3 * HOUR);
+      expect(price?.stale).toBe(true);
+      expect(aggregator.getAllPrices().get('GPU_RTX4090')?.stale).toBe(true);
+    });
+
+    it('should apply per-asset max ages', () => {
+      const aggregator = new PriceAggregator([], config);
+
+      expect(aggregator.getMaxPriceAgeMs('GPU_RTX4090')).toBe(2 * HOUR);
+      expect(aggregator.getMaxPriceAgeMs('RAM_DDR5_32')).toBe(6 * HOUR);
+    });
+  });
+
+  describe('quorum', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 2, minListings: 3 },
+    };
+
+    it('should not publish a price without quorum', async () => {
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', [{ price: 1600 }, { price: 1610 }, { price: 1620 }]),
+      ], config);
+
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.insufficientSources).toBe(true);
+      expect(update.price).toBeNull();
+      expect(aggregator.getPrice('GPU_RTX4090')).toBeNull();
+    });
+
+    it('should keep the last good price when a later update falls short', async () => {
+      const retail = [{ price: 1600 }, { price: 1610 }];
+      const ebay: Array<{ price: number; condition?: ListingCondition }> = [{ price: 1620, condition: 'new' }];
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', retail),
+        new StubAdapter('ebay', ebay),
+      ], config);
+
+      const first = await aggregator.updatePrice('GPU_RTX4090');
+      expect(first.insufficientSources).toBe(false);
+      expect(first.price?.quorum).toMatchObject({ met: true, sources: 2, listings: 3 });
+
+      // A single scraped page with a wild price must not move the feed
+      ebay.length = 0;
+      retail.splice(0, retail.length, { price: 1900 }, { price: 1905 }, { price: 1910 });
+      const second = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(second.insufficientSources).toBe(true);
+      expect(second.changed).toBe(false);
+      expect(second.price?.price).toBe(1610);
+      expect(aggregator.getPrice('GPU_RTX4090')?.quorum).toMatchObject({ met: false, sources: 1, listings: 3 });
+    });
+
+    it('should require a single source for used and refurbished series', () => {
+      const aggregator = new PriceAggregator([], config);
+
+      expect(aggregator.getQuorumPolicy('GPU_RTX4090', 'new')).toEqual({ minSources: 2, minListings: 3 });
+      expect(aggregator.getQuorumPolicy('GPU_RTX4090', 'used')).toEqual({ minSources: 1, minListings: 3 });
+    });
+  });
+
+  describe('source reliability', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 2, minListings: 3 },
+    };
+
+    it('should learn lower scores for sources whose listings are filtered as outliers', async () => {
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', [{ price: 1600 }, { price: 1610 }]),
+        new StubAdapter('marketplace', [{ price: 1605, condition: 'new' }]),
+        new StubAdapter('reseller', [{ price: 1900, condition: 'new' }]),
+      ], config);
+
+      for (let i = 0; i < 5; i++) {
+        await aggregator.updatePrice('GPU_RTX4090');
+      }
+
+      const score = (name: string) => aggregator.getSourceReliability().find(r => r.name === name)!;
+      expect(score('reseller').cleanliness).toBeLessThan(0.5);
+      expect(score('reseller').score).toBeLessThan(score('retail').score);
+
+      const retail = aggregator.getPrice('GPU_RTX4090')!.sources.find(s => s.id === 'retail')!;
+      expect(retail.reliability).toBe(1);
+      expect(retail.weight).toBe(1);
+    });
+  });
+
+  describe('listing archive', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+    };
+
+    it('should archive every listing with the stage that kept or dropped it', async () => {
+      const listingArchive = new MemoryListingArchive();
+      const accessories: PriceAdapter = {
+        name: 'accessories',
+        isAvailable: () => true,
+        fetchPrices: async assetId => [{
+          price: 1650,
+          source: 'accessories',
+          timestamp: Date.now(),
+          assetId,
+          metadata: { productName: 'Vertical GPU Mount Bracket for RTX 4090', seller: 'acme', url: 'https://example.com/1' },
+        }],
+      };
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', [{ price: 1600 }, { price: 1610 }, { price: 1620 }, { price: 2500 }, { price: 1 }]),
+        accessories,
+      ], config, { listingArchive });
+
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+      const cycleId = update.price!.cycleId!;
+      const listings = await listingArchive.query({ cycleId, limit: 100 });
+
+      expect(listings.map(l => [l.source, l.price, l.status])).toEqual([
+        ['retail', 1600, 'accepted'],
+        ['retail', 1610, 'accepted'],
+        ['retail', 1620, 'accepted'],
+        ['retail', 2500, 'outlier'],
+        ['retail', 1, 'out_of_bounds'],
+        ['accessories', 1650, 'rejected'],
+      ]);
+      expect(listings[5]).toMatchObject({ assetId: 'GPU_RTX4090', seller: 'acme', url: 'https://example.com/1' });
+
+      const next = await aggregator.updatePrice('GPU_RTX4090');
+      expect(next.price!.cycleId).not.toBe(cycleId);
+      expect(await listingArchive.query({ assetId: 'GPU_RTX4090', limit: 1 })).toEqual([
+        expect.objectContaining({ cycleId: next.price!.cycleId }),
+      ]);
+    });
+  });
+
+  describe('currencies and regions', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+      regions: ['us', 'eu'] as Region[],
+      fx: { ...loadConfig().fx, rates: { EUR: 0.8 } },
+    };
+
+    const market = (name: string, region: Region, currency: string, prices: number[]): PriceAdapter => ({
+      name,
+      isAvailable: () => true,
+      fetchPrices: async assetId => prices.map(price => ({
+        price,
+        currency,
+        region,
+        source: name,
+        timestamp: Date.now(),
+        assetId,
+        metadata: { productName: 'NVIDIA GeForce RTX 4090' },
+      })),
+    });
+
+    it('should price every market in USD and index each region in its own currency', async () => {
+      const listingArchive = new MemoryListingArchive();
+      const aggregator = new PriceAggregator([
+        market('retail', 'us', 'USD', [1600, 1620]),
+        market('amazon-de-scraper', 'eu', 'EUR', [1280, 1296]),
+        market('amazon-jp', 'us', 'JPY', [240000]),
+      ], config, { listingArchive });
+
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.price).toMatchObject({ price: 1610, currency: 'USD', region: null });
+      expect(aggregator.getPrice('GPU_RTX4090', 'new', 'eu')).toMatchObject({
+        price: 1288, currency: 'EUR', region: 'eu', sourceCount: 1,
+      });
+      expect(aggregator.getPrice('GPU_RTX4090', 'new', 'us')).toMatchObject({ price: 1610, currency: 'USD' });
+      expect(aggregator.getPrice('GPU_RTX4090', 'new', 'uk')).toBeNull();
+      expect(aggregator.getRegions()).toEqual(['us', 'eu']);
+
+      const listings = await listingArchive.query({ cycleId: update.price!.cycleId!, limit: 100 });
+      expect(listings.find(l => l.source === 'amazon-de-scraper')).toMatchObject({
+        price: 1600, listedPrice: 1280, currency: 'EUR', region: 'eu', status: 'accepted',
+      });
+      expect(listings.find(l => l.source === 'amazon-jp')).toMatchObject({ status: 'unconverted', currency: 'JPY' });
+    });
+
+    it('should not index regions when only one is configured', async () => {
+      const aggregator = new PriceAggregator([
+        market('amazon-de-scraper', 'eu', 'EUR', [1280]),
+      ], { ...config, regions: ['eu'] as Region[] });
+
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.price?.price).toBe(1600);
+      expect(aggregator.getPrice('GPU_RTX4090', 'new', 'eu')).toBeNull();
+      expect(aggregator.getRegions()).toEqual([]);
+    });
+  });
+
+  describe('manipulation screening', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+    };
+
+    it('should flag a flash sale and report it as an incident', async () => {
+      const listingArchive = new MemoryListingArchive();
+      const retail = [{ price: 1600 }, { price: 1610 }, { price: 1620 }];
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', retail),
+        new StubAdapter('ebay', [{ price: 1605 }]),
+      ], config, { listingArchive });
+      await aggregator.updatePrice('GPU_RTX4090');
+
+      retail.push({ price: 1100 }, { price: 1150 });
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+      const cycleId = update.price!.cycleId!;
+
+      expect(update.price?.price).toBe(1607.5);
+      const listings = await listingArchive.query({ cycleId, limit: 100 });
+      expect(listings.filter(l => l.status === 'flagged').map(l => l.price)).toEqual([1100, 1150]);
+      expect(aggregator.getIncidents({ assetId: 'GPU_RTX4090', limit: 10 })).toEqual([
+        expect.objectContaining({ type: 'flash_sale', cycleId, consensus: 1607.5, excluded: 2 }),
+      ]);
+    });
+  });
+
+  describe('guardrails', () => {
+    // A fresh price far below the feed would otherwise sit out a cycle as a suspected flash sale
+    const baseConfig = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+      manipulation: { ...loadConfig().manipulation, enabled: false },
+    };
+
+    it('should hold a large move until it is confirmed', async () => {
+      const config = { ...baseConfig, guardrails: { mode: 'hold' as const, maxUpdateMove: 0.15, maxHourlyMove: 0.25, confirmations: 2 } };
+      const listings = [{ price: 1600 }];
+      const aggregator = new PriceAggregator([new StubAdapter('retail', listings)], config);
+      await aggregator.updatePrice('GPU_RTX4090');
+
+      listings[0] = { price: 2240 }; // +40%
+      const held = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(held.changed).toBe(false);
+      expect(held.price?.price).toBe(1600);
+      expect(held.price?.guardrail).toMatchObject({ state: 'pending', candidate: 2240, confirmations: 1, required: 2 });
+      expect(aggregator.getPrice('GPU_RTX4090')?.guardrail.state).toBe('pending');
+
+      const confirmed = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(confirmed.changed).toBe(true);
+      expect(confirmed.price?.price).toBe(2240);
+      expect(confirmed.price?.guardrail.state).toBe('confirmed');
+    });
+
+    it('should clamp large moves in clamp mode', async () => {
+      const config = { ...baseConfig, guardrails: { mode: 'clamp' as const, maxUpdateMove: 0.15, maxHourlyMove: 0.25, confirmations: 3 } };
+      const listings = [{ price: 1600 }];
+      const aggregator = new PriceAggregator([new StubAdapter('retail', listings)], config);
+      await aggregator.updatePrice('GPU_RTX4090');
+
+      listings[0] = { price: 2240 };
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.price?.price).toBeCloseTo(1840);
+      expect(update.price?.guardrail).toMatchObject({ state: 'clamped', candidate: 2240 });
+    });
+
+    it('should publish a held move on manual release', async () => {
+      const config = { ...baseConfig, guardrails: { mode: 'hold' as const, maxUpdateMove: 0.15, maxHourlyMove: 0.25, confirmations: 5 } };
+      const listings = [{ price: 1600 }];
+      const aggregator = new PriceAggregator([new StubAdapter('retail', listings)], config);
+      await aggregator.updatePrice('GPU_RTX4090');
+      expect(await aggregator.releaseGuardrail('GPU_RTX4090')).toBeNull();
+
+      listings[0] = { price: 1000 };
+      await aggregator.updatePrice('GPU_RTX4090');
+      const released = await aggregator.releaseGuardrail('GPU_RTX4090');
+
+      expect(released?.price).toBe(1000);
+      expect(released?.guardrail.state).toBe('released');
+      expect(aggregator.getPrice('GPU_RTX4090')?.price).toBe(1000);
+
+      // Later cycles are measured from the released price
+      const next = await aggregator.updatePrice('GPU_RTX4090');
+      expect(next.price?.guardrail.state).toBe('ok');
+    });
+  });
+
+  describe('concurrent updates', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+    };
+
+    class CountingAdapter extends StubAdapter {
+      fetches: string[] = [];
+      events: string[] = [];
+
+      async fetchPrices(assetId: string): Promise<PricePoint[]> {
+        this.fetches.push(assetId);
+        this.events.push(`start ${assetId}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        this.events.push(`end ${assetId}`);
+        return super.fetchPrices(assetId);
+      }
+    }
+
+    it('should share the cycle in flight instead of running another', async () => {
+      const adapter = new CountingAdapter('retail', [{ price: 1600 }]);
+      const aggregator = new PriceAggregator([adapter], config);
+
+      const [cycle, again, single] = await Promise.all([
+        aggregator.updateAllPrices(),
+        aggregator.updateAllPrices(),
+        aggregator.updatePrice('GPU_RTX4090'),
+      ]);
+
+      expect(again).toBe(cycle);
+      expect(single).toBe(cycle.find(u => u.assetId === 'GPU_RTX4090'));
+      expect(adapter.fetches.filter(assetId => assetId === 'GPU_RTX4090')).toHaveLength(1);
+    });
+
+    it('should hold a cycle until a single-asset refresh finishes', async () => {
+      const adapter = new CountingAdapter('retail', [{ price: 1600 }]);
+      const aggregator = new PriceAggregator([adapter], config);
+
+      await Promise.all([aggregator.updatePrice('GPU_RTX4090'), aggregator.updateAllPrices()]);
+
+      expect(adapter.events.slice(0, 2)).toEqual(['start GPU_RTX4090', 'end GPU_RTX4090']);
+      expect(adapter.fetches.filter(assetId => assetId === 'GPU_RTX4090')).toHaveLength(2);
+    });
+  });
+
+  describe('admin controls', () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      quorum: { minSources: 1, minListings: 1 },
+    };
+
+    it('should skip updates and flag prices while a feed is paused', async () => {
+      const controls = new FeedControls();
+      const listings = [{ price: 1600 }];
+      const aggregator = new PriceAggregator([new StubAdapter('retail', listings)], config, { controls });
+      await aggregator.updatePrice('GPU_RTX4090');
+
+      controls.pause('GPU_RTX4090', 'bad listings');
+      listings[0] = { price: 1700 };
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.changed).toBe(false);
+      expect(update.price?.price).toBe(1600);
+      expect(aggregator.getPrice('GPU_RTX4090')?.paused?.reason).toBe('bad listings');
+
+      controls.resume('GPU_RTX4090');
+      expect((await aggregator.updatePrice('GPU_RTX4090')).price?.price).toBe(1700);
+      expect(aggregator.getPrice('GPU_RTX4090')?.paused).toBeNull();
+    });
+
+    it('should serve a pinned price until it expires', async () => {
+      const controls = new FeedControls();
+      const aggregator = new PriceAggregator([new StubAdapter('retail', [{ price: 1600 }])], config, { controls });
+
+      const now = Date.now();
+      controls.pin('GPU_RTX4090', 'new', 1500, 'retailer outage', now + 60000, now);
+      expect(aggregator.getPrice('GPU_RTX4090')).toMatchObject({ price: 1500, twap: 1500, sourceCount: 0 });
+
+      await aggregator.updatePrice('GPU_RTX4090');
+      const pinned = aggregator.getPrice('GPU_RTX4090');
+      expect(pinned?.price).toBe(1500);
+      expect(pinned?.priceInt).toBe(150000000000n);
+      expect(pinned?.median).toBe(1600);
+      expect(pinned?.pin?.reason).toBe('retailer outage');
+
+      controls.unpin('GPU_RTX4090', 'new');
+      expect(aggregator.getPrice('GPU_RTX4090')?.price).toBe(1600);
+      expect(aggregator.getPrice('GPU_RTX4090')?.pin).toBeNull();
+    });
+
+    it('should skip adapters disabled for an asset', async () => {
+      const controls = new FeedControls();
+      const aggregator = new PriceAggregator([
+        new StubAdapter('retail', [{ price: 1600 }]),
+        new StubAdapter('ebay', [{ price: 1700 }]),
+      ], config, { controls });
+
+      controls.disableAdapter('GPU_RTX4090', 'ebay', 'scraping wrong SKU');
+      const update = await aggregator.updatePrice('GPU_RTX4090');
+
+      expect(update.price?.price).toBe(1600);
+      expect(update.price?.sources.map(s => s.id)).toEqual(['retail']);
+
+      controls.enableAdapter('GPU_RTX4090', 'ebay');
+      const enabled = await aggregator.updatePrice('GPU_RTX4090');
+      expect(enabled.price?.sources.map(s => s.id).sort()).toEqual(['ebay', 'retail']);
+    });
+  });
+});
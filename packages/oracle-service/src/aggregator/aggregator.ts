@@ -1,159 +1,968 @@
-import type { PriceAdapter, PricePoint } from '../adapters/types.js';
-import type { AssetId, Config } from '../config/index.js';
-import { ASSET_IDS } from '../config/index.js';
+import { randomBytes } from 'crypto';
+import type { ListingCondition, PriceAdapter, PricePoint, Region } from '../adapters/types.js';
+import { AdapterError, LISTING_CONDITIONS, REGION_CURRENCIES } from '../adapters/types.js';
+import { CircuitBreakerAdapter, type AdapterHealth } from '../adapters/circuit-breaker.js';
+import { classifyListings } from '../adapters/listing-classifier.js';
+import type { AssetId, Config, GuardrailPolicy, PricingStrategyName, QuorumPolicy } from '../config/index.js';
+import { ASSET_IDS, getAssetDefinition } from '../config/index.js';
 import { filterOutliers, median } from './outlier.js';
+import { SourceReliabilityTracker, type SourceReliability } from './reliability.js';
+import { PriceGuardrail, type GuardrailStatus } from './guardrails.js';
 import { TWAPCalculator } from './twap.js';
+import { FetchOrchestrator, type FetchTask } from './orchestrator.js';
+import { ManipulationDetector, type IncidentQuery, type ManipulationIncident } from './manipulation.js';
+import {
+  DEFAULT_ILLIQUID_CONFIG,
+  type IlliquidPriceResult,
+  type OracleConfig,
+} from './illiquid-oracle.js';
+import { createPricingStrategy, type PricingStrategy } from './strategy.js';
+import type { ObservationStore } from '../storage/observations.js';
+import { toArchivedListing, type ListingArchive, type ListingStatus } from '../storage/listings.js';
+import { FeedControls, type FeedPause, type PricePin } from '../admin/controls.js';
+import { DEFAULT_FX_RATES, FxConverter, StaticFxRateProvider } from '../fx/index.js';
+import * as metrics from '../metrics/index.js';
 import { createLogger } from '../utils/logger.js';
+import { systemClock, type Clock } from '../utils/clock.js';
 
 const logger = createLogger('aggregator');
 
 export interface SourceDetail {
-  name: string;
+  id: string;               // Adapter name, e.g. 'newegg-scraper'
+  name: string;             // Display name
   price: number;
   count: number;
   isSimulated: boolean;
+  reliability: number;      // Learned 0-1 reliability score
+  weight: number;           // Aggregation weight: reliability x adapter health
+}
+
+export interface QuorumStatus extends QuorumPolicy {
+  met: boolean;
+  sources: number;          // Distinct sources in the latest update
+  listings: number;         // Listings in the latest update, after outlier filtering
 }
 
 export interface AggregatedPrice {
   assetId: AssetId;
-  price: number;            // Aggregated price in USD
+  condition: ListingCondition;  // Market segment the price is computed from
+  region: Region | null;    // Regional index, or null for the global price from every market
+  price: number;            // Aggregated price in `currency`
   twap: number;             // Time-weighted average price
+  median: number;           // Median of outlier-filtered listings
+  min: number;              // Lowest outlier-filtered listing
   priceInt: bigint;         // Price with 8 decimals (Chainlink format)
   sourceCount: number;      // Number of sources contributing
   timestamp: number;        // Unix timestamp in ms
   updatedAt: number;        // Last update time
-  currency: string;         // Currency code
+  ageMs: number;            // Time since the price was last computed from listings
+  stale: boolean;           // Older than the asset's max age
+  currency: string;         // Currency code: USD globally, the region's currency for regional indices
   sources: SourceDetail[];  // Details about each source
+  rejectedListings: Record<string, number>;  // Listings per source rejected as accessories/wrong SKUs
+  quorum: QuorumStatus;     // Support for the latest update; when not met this is the last good price
+  guardrail: GuardrailStatus;  // Move limits applied to the latest update; 'pending' means the price is held
+  paused: FeedPause | null;  // Set while an admin has paused the feed; the price must not be served
+  pin: PricePin | null;     // Manual price overriding the aggregated one until it expires
+  cycleId: string | null;   // Update cycle whose listings produced the price; see /listings
+  confidence: number;       // 0-1 confidence score from the pricing strategy
+  method: PricingStrategyName;
+  components: IlliquidPriceResult['components'];
+  winsorized: boolean;
+  volatilityAdjusted: boolean;
 }
 
 export interface PriceUpdate {
   assetId: AssetId;
-  price: AggregatedPrice;
+  condition: ListingCondition;
+  price: AggregatedPrice | null;  // Published price, null until one has met quorum
   changed: boolean;         // Whether price changed significantly
+  insufficientSources: boolean;  // Update fell short of quorum and was not published
+}
+
+/**
+ * Key for a per-condition price series. The `new` series keeps the bare asset ID
+ * so previously persisted TWAP observations still apply to it. Regional indices
+ * append the region, e.g. "GPU_RTX4090@eu".
+ */
+export function seriesKey(assetId: AssetId, condition: ListingCondition = 'new', region: Region | null = null): string {
+  const key = condition === 'new' ? assetId : `${assetId}:${condition}`;
+  return region ? `${key}@${region}` : key;
+}
+
+export interface AggregatorOptions {
+  observationStore?: ObservationStore | null;  // Persists TWAP observations across restarts
+  reliability?: SourceReliabilityTracker;      // Learned source scores, shared across assets
+  controls?: FeedControls;                     // Admin pauses, pins and adapter toggles
+  orchestrator?: FetchOrchestrator;            // Per-domain request limits and the cycle deadline
+  listingArchive?: ListingArchive | null;      // Keeps each cycle's raw listings for audits
+  clock?: Clock;                               // Virtual time for backtests; the system clock otherwise
+  fx?: FxConverter;                            // Rates for non-USD listings; the static rates otherwise
+}
+
+/**
+ * One update cycle's listings and the stage that kept or dropped each one
+ */
+interface UpdateCycle {
+  id: string;
+  statuses: Map<PricePoint, ListingStatus>;
 }
 
 export class PriceAggregator {
-  private adapters: PriceAdapter[];
+  private adapters: CircuitBreakerAdapter[];
   private twapCalculator: TWAPCalculator;
-  private lastPrices: Map<AssetId, AggregatedPrice> = new Map();
+  private lastPrices: Map<string, AggregatedPrice> = new Map();
   private priceChangeThreshold: number;
+  private strategies: Map<string, PricingStrategy> = new Map();
+  private strategyNames: Map<AssetId, PricingStrategyName> = new Map();
+  private illiquidConfig: OracleConfig;
+  private maxPriceAgeMs: number;
+  private assetMaxPriceAges: Partial<Record<AssetId, number>>;
+  private quorum: QuorumPolicy;
+  private guardrailPolicy: GuardrailPolicy;
+  private manipulation: ManipulationDetector;
+  private guardrails: Map<string, PriceGuardrail> = new Map();
+  private pendingPrices: Map<string, AggregatedPrice> = new Map();  // Held candidates awaiting confirmation
+  private observationStore: ObservationStore | null;
+  private reliability: SourceReliabilityTracker;
+  private controls: FeedControls;
+  private orchestrator: FetchOrchestrator;
+  private listingArchive: ListingArchive | null;
+  private fx: FxConverter;
+  private regions: readonly Region[];
+  private clock: Clock;
+  private outlierThreshold: number;
+  private updateListeners: Set<(update: PriceUpdate) => void> = new Set();
+  private inFlight: { assetIds: readonly AssetId[]; updates: Promise<PriceUpdate[]> } | null = null;
 
   constructor(
     adapters: PriceAdapter[],
-    config: Config
+    config: Config,
+    options: AggregatorOptions = {}
   ) {
-    this.adapters = adapters;
-    this.twapCalculator = new TWAPCalculator(config.twapWindowMs);
+    this.clock = options.clock ?? systemClock;
+    // Wrap each adapter in a circuit breaker so failing sources are skipped
+    this.adapters = adapters.map(adapter =>
+      adapter instanceof CircuitBreakerAdapter
+        ? adapter
+        : new CircuitBreakerAdapter(adapter, config.circuitBreaker, this.clock)
+    );
+    this.observationStore = options.observationStore ?? null;
+    this.reliability = options.reliability ?? new SourceReliabilityTracker();
+    this.controls = options.controls ?? new FeedControls();
+    this.orchestrator = options.orchestrator ?? new FetchOrchestrator(config.fetch);
+    this.listingArchive = options.listingArchive ?? null;
+    this.fx = options.fx ?? new FxConverter(new StaticFxRateProvider(config.fx.rates), {
+      ...DEFAULT_FX_RATES, ...config.fx.rates,
+    });
+    this.regions = config.regions;
+    this.twapCalculator = new TWAPCalculator(config.twapWindowMs, this.clock);
+    this.outlierThreshold = config.outlierThreshold;
     this.priceChangeThreshold = config.priceChangeThreshold;
+    this.maxPriceAgeMs = config.maxPriceAgeMs;
+    this.assetMaxPriceAges = config.assetMaxPriceAges;
+    this.quorum = config.quorum;
+    this.guardrailPolicy = config.guardrails;
+    this.manipulation = new ManipulationDetector(config.manipulation);
+
+    // One strategy instance per asset and condition, since strategies keep EMA/volatility state
+    this.illiquidConfig = {
+      ...DEFAULT_ILLIQUID_CONFIG,
+      twapWindowMs: config.twapWindowMs,
+      minSources: config.quorum.minSources,
+    };
+    for (const assetId of ASSET_IDS) {
+      this.strategyNames.set(assetId, config.assetPricingStrategies[assetId] ?? config.pricingStrategy);
+    }
   }
 
   /**
-   * Fetch and aggregate prices for all assets
+   * Reload persisted TWAP observations within the current window.
+   * Call once on boot, before the first update.
+   * @returns Number of observations restored
    */
-  async updateAllPrices(): Promise<PriceUpdate[]> {
-    const updates: PriceUpdate[] = [];
+  async rehydrate(): Promise<number> {
+    if (!this.observationStore) return 0;
 
-    for (const assetId of ASSET_IDS) {
-      try {
-        const update = await this.updatePrice(assetId);
-        updates.push(update);
-      } catch (error) {
-        logger.error(`Failed to update price for ${assetId}: ${error}`);
+    const since = this.clock.now() - this.twapCalculator.getWindowMs();
+    let restored = 0;
+
+    try {
+      const observations = await this.observationStore.load(since);
+      for (const [key, obs] of observations) {
+        if (!ASSET_IDS.includes(key.split(/[:@]/)[0])) continue;
+        this.twapCalculator.restore(key, obs);
+        restored += obs.length;
       }
+      logger.info(`Restored ${restored} TWAP observations from ${this.observationStore.name} store`);
+    } catch (error) {
+      logger.error(`Failed to rehydrate TWAP observations: ${error}`);
     }
 
-    return updates;
+    return restored;
   }
 
   /**
-   * Fetch and aggregate price for a single asset
+   * Fetch and aggregate prices for all assets.
+   * Every (asset, adapter) pair is fetched concurrently within per-retailer
+   * limits; adapters that miss the cycle deadline are left out of this cycle.
+   * A call while a full cycle is running shares that cycle's result.
+   */
+  updateAllPrices(): Promise<PriceUpdate[]> {
+    return this.runExclusive(ASSET_IDS, async () => {
+      const updates: PriceUpdate[] = [];
+      const endTimer = metrics.updateCycleDuration.startTimer();
+
+      const cycleId = newCycleId(this.clock.now());
+      const listings = await this.fetchListings(ASSET_IDS);
+      for (const assetId of ASSET_IDS) {
+        try {
+          const update = await this.applyListings(assetId, listings.get(assetId) ?? [], cycleId);
+          updates.push(update);
+        } catch (error) {
+          logger.error(`Failed to update price for ${assetId}: ${error}`);
+        }
+      }
+
+      endTimer();
+      return updates;
+    });
+  }
+
+  /**
+   * Fetch and aggregate prices for a single asset.
+   * Listings are split by condition into separate series; the returned update
+   * is for new listings, used/refurbished series are available via getPrice().
+   * Paused assets are not fetched, and adapters disabled for the asset are skipped.
+   * During a full cycle this returns the asset's update from that cycle.
    */
   async updatePrice(assetId: AssetId): Promise<PriceUpdate> {
-    // Fetch from all adapters in parallel
-    const fetchPromises = this.adapters.map(adapter =>
-      adapter.fetchPrices(assetId).catch(error => {
-        logger.warn(`Adapter ${adapter.name} failed: ${error}`);
-        return [] as PricePoint[];
-      })
-    );
+    const updates = await this.runExclusive([assetId], async () => {
+      const listings = await this.fetchListings([assetId]);
+      return [await this.applyListings(assetId, listings.get(assetId) ?? [], newCycleId(this.clock.now()))];
+    });
+
+    const update = updates.find(u => u.assetId === assetId);
+    if (!update) {
+      throw new Error(`Failed to update price for ${assetId}`);
+    }
+    return update;
+  }
+
+  /**
+   * Run one update at a time, so cycles never interleave on the guardrails,
+   * manipulation history or TWAP. A caller whose assets are all covered by
+   * the update in flight shares its result; others wait for it to finish.
+   */
+  private async runExclusive(
+    assetIds: readonly AssetId[],
+    update: () => Promise<PriceUpdate[]>
+  ): Promise<PriceUpdate[]> {
+    while (this.inFlight) {
+      const current = this.inFlight;
+      if (assetIds.every(assetId => current.assetIds.includes(assetId))) {
+        return current.updates;
+      }
+      await current.updates.catch(() => undefined);
+    }
+
+    const updates = update().finally(() => {
+      this.inFlight = null;
+    });
+    this.inFlight = { assetIds, updates };
+    return updates;
+  }
+
+  /**
+   * Fetch listings for unpaused assets from their enabled adapters through the orchestrator
+   */
+  private async fetchListings(assetIds: readonly AssetId[]): Promise<Map<AssetId, PricePoint[]>> {
+    const tasks: FetchTask[] = assetIds
+      .filter(assetId => !this.controls.getPause(assetId))
+      .flatMap(assetId => this.adapters
+        .filter(adapter => adapter.limits?.enabled !== false)
+        .filter(adapter => !this.controls.isAdapterDisabled(assetId, adapter.name))
+        .map(adapter => ({ assetId, adapter })));
+
+    const listings = new Map<AssetId, PricePoint[]>();
+    for (const outcome of await this.orchestrator.run(tasks)) {
+      const { assetId, adapter } = outcome.task;
+      const prices = listings.get(assetId) ?? [];
+      listings.set(assetId, prices);
+
+      if (outcome.status === 'ok') {
+        this.reliability.recordFetch(adapter.name, true);
+        prices.push(...outcome.prices);
+      } else if (outcome.status === 'late') {
+        this.reliability.recordFetch(adapter.name, false);
+        metrics.adapterDeadlineMisses.inc({ adapter: adapter.name });
+        logger.warn(`Adapter ${adapter.name} missed the update deadline for ${assetId}`);
+      } else if (outcome.error instanceof AdapterError && outcome.error.code === 'CIRCUIT_OPEN') {
+        logger.debug(`Skipping ${adapter.name}: circuit open`);
+      } else {
+        this.reliability.recordFetch(adapter.name, false);
+        logger.warn(`Adapter ${adapter.name} failed: ${outcome.error}`);
+      }
+    }
 
-    const results = await Promise.all(fetchPromises);
-    const allPrices = results.flat();
+    return listings;
+  }
+
+  /**
+   * Aggregate one asset's fetched listings into its condition series and archive them
+   */
+  private async applyListings(assetId: AssetId, allPrices: PricePoint[], cycleId: string): Promise<PriceUpdate> {
+    if (this.controls.getPause(assetId)) {
+      logger.info(`${assetId}: feed paused, skipping update`);
+      return this.notify({
+        assetId, condition: 'new', price: this.getPrice(assetId), changed: false, insufficientSources: false,
+      });
+    }
 
     logger.debug(`Collected ${allPrices.length} raw prices for ${assetId}`);
 
-    // Filter outliers
-    const filteredPrices = filterOutliers(allPrices);
-    logger.debug(`After outlier filtering: ${filteredPrices.length} prices`);
+    // Price every listing in USD, keeping what the retailer listed
+    const usdPrices: PricePoint[] = [];
+    const unconverted: PricePoint[] = [];
+    for (const p of allPrices) {
+      const usd = this.toUsd(p);
+      if (usd) {
+        usdPrices.push(usd);
+      } else {
+        unconverted.push(p);
+      }
+    }
+    if (unconverted.length > 0) {
+      const currencies = [...new Set(unconverted.map(p => p.currency))].join(', ');
+      logger.warn(`Dropped ${unconverted.length} listings for ${assetId} with no FX rate (${currencies})`);
+    }
+
+    // Reject accessories, prebuilt systems and wrong SKUs by product title
+    const { accepted, rejected, rejectedBySource } = classifyListings(usdPrices, assetId);
+    if (rejected > 0) {
+      logger.debug(`Rejected ${rejected} non-matching listings for ${assetId}`);
+    }
 
-    // Calculate median price
-    const medianPrice = filteredPrices.length > 0
-      ? median(filteredPrices.map(p => p.price))
-      : 0;
+    // Discard listings outside the asset's sanity bounds
+    const { min, max } = getAssetDefinition(assetId).priceBounds;
+    const boundedPrices = accepted.filter(p => p.price >= min && p.price <= max);
 
-    // Update TWAP
-    if (medianPrice > 0) {
-      this.twapCalculator.addObservation(assetId, medianPrice);
+    const cycle: UpdateCycle = { id: cycleId, statuses: new Map(usdPrices.map(p => [p, 'rejected'])) };
+    for (const p of unconverted) {
+      cycle.statuses.set(p, 'unconverted');
+    }
+    for (const p of accepted) {
+      cycle.statuses.set(p, 'out_of_bounds');
+    }
+    for (const p of boundedPrices) {
+      cycle.statuses.set(p, 'accepted');
     }
 
-    const twap = this.twapCalculator.getTWAP(assetId) || medianPrice;
+    metrics.listings.inc({ asset: assetId, stage: 'collected' }, allPrices.length);
+    metrics.listings.inc({ asset: assetId, stage: 'unconverted' }, unconverted.length);
+    metrics.listings.inc({ asset: assetId, stage: 'rejected' }, rejected);
+    metrics.listings.inc({ asset: assetId, stage: 'out_of_bounds' }, accepted.length - boundedPrices.length);
 
-    // Aggregate source details
-    const sourceMap = new Map<string, { prices: number[]; isSimulated: boolean }>();
-    for (const p of filteredPrices) {
-      const existing = sourceMap.get(p.source) || { prices: [], isSimulated: p.source === 'mock' };
-      existing.prices.push(p.price);
-      sourceMap.set(p.source, existing);
+    // Group by condition; listings without one come from retail and count as new
+    const byCondition = new Map<ListingCondition, PricePoint[]>();
+    for (const p of boundedPrices) {
+      const condition = p.metadata?.condition ?? 'new';
+      const group = byCondition.get(condition) || [];
+      group.push(p);
+      byCondition.set(condition, group);
     }
 
-    const sources: SourceDetail[] = Array.from(sourceMap.entries()).map(([name, data]) => ({
-      name: this.formatSourceName(name),
-      price: median(data.prices),
-      count: data.prices.length,
-      isSimulated: data.isSimulated,
-    }));
+    // Weight sources by learned reliability, down-weighting unhealthy adapters
+    const sourceWeights = new Map(
+      this.adapters.map(adapter => [
+        adapter.name,
+        adapter.getHealth().healthScore * this.reliability.getScore(adapter.name),
+      ])
+    );
+    const rejectedListings = Object.fromEntries(
+      Object.entries(rejectedBySource).map(([name, count]) => [this.formatSourceName(name), count])
+    );
+
+    // The new series always updates; secondary markets only when they have listings
+    const primary = await this.aggregateSeries(
+      assetId, 'new', byCondition.get('new') || [], sourceWeights, rejectedListings, cycle
+    );
+    for (const [condition, prices] of byCondition) {
+      if (condition === 'new') continue;
+      await this.aggregateSeries(assetId, condition, prices, sourceWeights, rejectedListings, cycle);
+    }
+
+    // Regional indices come from each market's screened new listings
+    if (this.regions.length > 1) {
+      const screened = (byCondition.get('new') || []).filter(p => cycle.statuses.get(p) !== 'flagged');
+      for (const region of this.regions) {
+        await this.aggregateRegion(
+          assetId, region, screened.filter(p => (p.region ?? 'us') === region), sourceWeights, rejectedListings, cycle
+        );
+      }
+    }
+
+    await this.archiveListings(assetId, cycle);
+    return this.notify(primary);
+  }
+
+  /**
+   * Aggregate one asset/condition series and record it as the latest price
+   */
+  private async aggregateSeries(
+    assetId: AssetId,
+    condition: ListingCondition,
+    prices: PricePoint[],
+    sourceWeights: Map<string, number>,
+    rejectedListings: Record<string, number>,
+    cycle: UpdateCycle
+  ): Promise<PriceUpdate> {
+    const key = seriesKey(assetId, condition);
+    const lastPrice = this.lastPrices.get(key);
+
+    // Drop dominant sellers' excess listings and fresh flash-sale prices before they reach the median
+    const screening = this.manipulation.screen(
+      { assetId, condition, cycleId: cycle.id, now: this.clock.now() }, prices, lastPrice?.price ?? null
+    );
+    for (const p of screening.flagged) {
+      cycle.statuses.set(p, 'flagged');
+    }
+    for (const incident of screening.incidents) {
+      logger.warn(`${key}: suspected ${incident.type}: ${incident.detail}`);
+      metrics.manipulationIncidents.inc({ asset: assetId, type: incident.type });
+    }
+    metrics.listings.inc({ asset: assetId, stage: 'flagged' }, screening.flagged.length);
+    const screened = screening.kept;
+
+    // Filter outliers
+    const filteredPrices = filterOutliers(screened, this.outlierThreshold);
+    logger.debug(`${key}: ${filteredPrices.length} prices after outlier filtering`);
+    this.recordOutliers(screened, filteredPrices);
+    const kept = new Set(filteredPrices);
+    for (const p of screened) {
+      if (!kept.has(p)) cycle.statuses.set(p, 'outlier');
+    }
+    metrics.listings.inc({ asset: assetId, stage: 'outlier' }, screened.length - filteredPrices.length);
+    metrics.listings.inc({ asset: assetId, stage: 'accepted' }, filteredPrices.length);
+
+    // Without quorum keep the last good price (and its timestamp, so it ages into staleness)
+    const quorum = this.checkQuorum(assetId, condition, filteredPrices);
+    if (!quorum.met) {
+      logger.warn(
+        `${key}: quorum not met (${quorum.sources}/${quorum.minSources} sources, ` +
+        `${quorum.listings}/${quorum.minListings} listings), ` +
+        (lastPrice ? `keeping price from ${new Date(lastPrice.timestamp).toISOString()}` : 'nothing published')
+      );
+      if (!lastPrice) {
+        return { assetId, condition, price: null, changed: false, insufficientSources: true };
+      }
+      const held = { ...lastPrice, quorum };
+      this.lastPrices.set(key, held);
+      return { assetId, condition, price: this.present(held), changed: false, insufficientSources: true };
+    }
+
+    // Calculate price with the asset's pricing strategy
+    const result = this.getStrategy(assetId, condition).calculate(filteredPrices, sourceWeights);
+
+    const sources = this.summarizeSources(filteredPrices, sourceWeights);
+
+    // Learn from how each source compares to the consensus price
+    for (const source of sources) {
+      this.reliability.recordConsensus(source.id, source.price, result.price);
+    }
 
-    // Create aggregated price
-    const aggregatedPrice: AggregatedPrice = {
+    // Limit how far the published price can move
+    const now = this.clock.now();
+    const guardrail = this.getGuardrail(assetId, condition);
+    const decision = guardrail.evaluate(result.price, now);
+    const spotPrice = decision.price;
+
+    const candidate: AggregatedPrice = {
       assetId,
-      price: medianPrice,
-      twap,
-      priceInt: this.toPriceInt(medianPrice),
+      condition,
+      region: null,
+      price: spotPrice,
+      twap: this.twapCalculator.getTWAP(key) || spotPrice,
+      median: filteredPrices.length > 0 ? median(filteredPrices.map(p => p.price)) : 0,
+      min: filteredPrices.length > 0 ? Math.min(...filteredPrices.map(p => p.price)) : 0,
+      priceInt: this.toPriceInt(spotPrice),
       sourceCount: sources.length,
-      timestamp: Date.now(),
-      updatedAt: Date.now(),
+      timestamp: now,
+      updatedAt: now,
+      ageMs: 0,
+      stale: false,
       currency: 'USD',
       sources,
+      rejectedListings,
+      quorum,
+      guardrail: decision.status,
+      paused: null,
+      pin: null,
+      cycleId: cycle.id,
+      confidence: result.confidence,
+      method: result.method,
+      components: result.components,
+      winsorized: result.winsorized,
+      volatilityAdjusted: result.volatilityAdjusted,
     };
 
-    // Check if price changed significantly
-    const lastPrice = this.lastPrices.get(assetId);
-    const changed = this.isPriceChangeSignificant(lastPrice?.price, medianPrice);
+    // Hold the last price while a large move awaits confirmation
+    if (!decision.publish && lastPrice) {
+      const { confirmations, required } = decision.status;
+      logger.warn(
+        `${key}: move to $${spotPrice.toFixed(2)} exceeds guardrails, ` +
+        `holding $${lastPrice.price.toFixed(2)} (${confirmations}/${required} confirmations)`
+      );
+      this.pendingPrices.set(key, candidate);
+      const held = { ...lastPrice, quorum, guardrail: decision.status };
+      this.lastPrices.set(key, held);
+      return { assetId, condition, price: this.present(held), changed: false, insufficientSources: false };
+    }
+
+    if (decision.status.state === 'clamped') {
+      logger.warn(`${key}: move to $${result.price.toFixed(2)} clamped to $${spotPrice.toFixed(2)}`);
+    }
+
+    const aggregatedPrice = await this.publish(key, candidate, decision.status.state === 'confirmed');
+    const { twap } = aggregatedPrice;
 
-    // Store latest price
-    this.lastPrices.set(assetId, aggregatedPrice);
+    // Check if price changed significantly
+    const changed = this.isPriceChangeSignificant(lastPrice?.price, spotPrice);
 
     logger.info(
-      `${assetId}: $${medianPrice.toFixed(2)} (TWAP: $${twap.toFixed(2)}) ` +
-      `from ${aggregatedPrice.sourceCount} sources` +
+      `${key}: $${spotPrice.toFixed(2)} (TWAP: $${twap.toFixed(2)}) ` +
+      `from ${aggregatedPrice.sourceCount} sources via ${result.method}` +
       (changed ? ' [CHANGED]' : '')
     );
 
-    return { assetId, price: aggregatedPrice, changed };
+    return { assetId, condition, price: this.present(aggregatedPrice), changed, insufficientSources: false };
+  }
+
+  /**
+   * Aggregate a regional index of new listings, priced in the region's currency.
+   * Regional indices only summarize the market: listings were already screened
+   * for the global price, and they skip guardrails, pins, reliability learning
+   * and the price metrics. A single retailer is enough for quorum.
+   */
+  private async aggregateRegion(
+    assetId: AssetId,
+    region: Region,
+    prices: PricePoint[],
+    sourceWeights: Map<string, number>,
+    rejectedListings: Record<string, number>,
+    cycle: UpdateCycle
+  ): Promise<void> {
+    const key = seriesKey(assetId, 'new', region);
+    const lastPrice = this.lastPrices.get(key);
+    const currency = REGION_CURRENCIES[region];
+    if (!this.fx.hasRate(currency)) {
+      logger.warn(`${key}: no FX rate for ${currency}, skipping regional index`);
+      return;
+    }
+
+    const local = prices.map(p => ({
+      ...p,
+      price: p.listed?.currency === currency ? p.listed.price : this.fx.convert(p.price, 'USD', currency),
+    }));
+    const filteredPrices = filterOutliers(local, this.outlierThreshold);
+
+    const policy = { ...this.getQuorumPolicy(assetId), minSources: 1 };
+    const sourceCount = new Set(filteredPrices.map(p => p.source)).size;
+    const quorum: QuorumStatus = {
+      ...policy,
+      met: sourceCount >= policy.minSources && filteredPrices.length >= policy.minListings,
+      sources: sourceCount,
+      listings: filteredPrices.length,
+    };
+    if (!quorum.met) {
+      logger.debug(`${key}: quorum not met (${quorum.listings}/${quorum.minListings} listings)`);
+      if (lastPrice) this.lastPrices.set(key, { ...lastPrice, quorum });
+      return;
+    }
+
+    const result = this.getStrategy(assetId, 'new', region).calculate(filteredPrices, sourceWeights);
+    const now = this.clock.now();
+    this.twapCalculator.addObservation(key, result.price, now);
+    await this.persistObservation(key, { price: result.price, timestamp: now });
+
+    this.lastPrices.set(key, {
+      ...this.emptyPrice(assetId, 'new', now),
+      region,
+      currency,
+      price: result.price,
+      twap: this.twapCalculator.getTWAP(key) || result.price,
+      median: median(filteredPrices.map(p => p.price)),
+      min: Math.min(...filteredPrices.map(p => p.price)),
+      priceInt: this.toPriceInt(result.price),
+      sourceCount,
+      sources: this.summarizeSources(filteredPrices, sourceWeights),
+      rejectedListings,
+      quorum,
+      cycleId: cycle.id,
+      confidence: result.confidence,
+      method: result.method,
+      components: result.components,
+      winsorized: result.winsorized,
+      volatilityAdjusted: result.volatilityAdjusted,
+    });
+    logger.debug(`${key}: ${result.price.toFixed(2)} ${currency} from ${sourceCount} sources`);
+  }
+
+  /**
+   * Subscribe to the update of each asset's new-listing series
+   * @returns Unsubscribe function
+   */
+  onUpdate(listener: (update: PriceUpdate) => void): () => void {
+    this.updateListeners.add(listener);
+    return () => this.updateListeners.delete(listener);
   }
 
   /**
-   * Get the latest aggregated price for an asset
+   * Get the latest aggregated price for an asset, for new listings by default.
+   * With a region, get that region's index instead of the global USD price;
+   * regions are only indexed when more than one is configured.
    */
-  getPrice(assetId: AssetId): AggregatedPrice | null {
-    return this.lastPrices.get(assetId) || null;
+  getPrice(assetId: AssetId, condition: ListingCondition = 'new', region: Region | null = null): AggregatedPrice | null {
+    const price = this.lastPrices.get(seriesKey(assetId, condition, region));
+    if (price) return this.present(price);
+    if (region) return null;
+
+    // A pin can publish a price for a series that has none yet
+    const pin = this.controls.getPin(assetId, condition, this.clock.now());
+    return pin ? this.present(this.emptyPrice(assetId, condition, pin.pinnedAt)) : null;
+  }
+
+  /**
+   * Publish a price held by the guardrails without waiting for confirmations
+   * @returns The released price, or null when nothing is pending
+   */
+  async releaseGuardrail(assetId: AssetId, condition: ListingCondition = 'new'): Promise<AggregatedPrice | null> {
+    const key = seriesKey(assetId, condition);
+    const pending = this.pendingPrices.get(key);
+    if (!pending) return null;
+
+    const now = this.clock.now();
+    this.getGuardrail(assetId, condition).clearPending();
+    const released = await this.publish(key, {
+      ...pending,
+      timestamp: now,
+      updatedAt: now,
+      guardrail: { ...pending.guardrail, state: 'released', pendingSince: null },
+    }, true);
+
+    logger.info(`${key}: guardrail released, published $${released.price.toFixed(2)}`);
+    return this.present(released);
   }
 
   /**
-   * Get all latest prices
+   * Get the move limits for an asset, with registry overrides applied
    */
-  getAllPrices(): Map<AssetId, AggregatedPrice> {
-    return new Map(this.lastPrices);
+  getGuardrailPolicy(assetId: AssetId): GuardrailPolicy {
+    return { ...this.guardrailPolicy, ...getAssetDefinition(assetId).guardrails };
+  }
+
+  /**
+   * Get the quorum an asset/condition series must meet to publish a price.
+   * Used and refurbished listings only come from marketplaces, so a single
+   * source suffices for them; the listing minimum still applies.
+   */
+  getQuorumPolicy(assetId: AssetId, condition: ListingCondition = 'new'): QuorumPolicy {
+    const policy = { ...this.quorum, ...getAssetDefinition(assetId).quorum };
+    return condition === 'new' ? policy : { ...policy, minSources: 1 };
+  }
+
+  /**
+   * Get the maximum age before an asset's prices are considered stale
+   */
+  getMaxPriceAgeMs(assetId: AssetId): number {
+    return this.assetMaxPriceAges[assetId] ?? this.maxPriceAgeMs;
+  }
+
+  /**
+   * Get the latest prices for every condition an asset has listings in
+   */
+  getConditionPrices(assetId: AssetId): AggregatedPrice[] {
+    return LISTING_CONDITIONS
+      .map(condition => this.getPrice(assetId, condition))
+      .filter((price): price is AggregatedPrice => price !== null);
+  }
+
+  /**
+   * Get the regions with their own price index
+   */
+  getRegions(): readonly Region[] {
+    return this.regions.length > 1 ? this.regions : [];
+  }
+
+  /**
+   * Get the FX converter pricing non-USD listings
+   */
+  getFx(): FxConverter {
+    return this.fx;
+  }
+
+  /**
+   * Get the pricing strategy used for an asset and condition (and region)
+   */
+  getStrategy(assetId: AssetId, condition: ListingCondition = 'new', region: Region | null = null): PricingStrategy {
+    const key = seriesKey(assetId, condition, region);
+    let strategy = this.strategies.get(key);
+    if (!strategy) {
+      strategy = createPricingStrategy(
+        this.strategyNames.get(assetId) ?? 'median', this.illiquidConfig, this.clock
+      );
+      this.strategies.set(key, strategy);
+    }
+    return strategy;
+  }
+
+  /**
+   * Get circuit breaker state and health metrics for every adapter
+   */
+  getAdapterHealth(): AdapterHealth[] {
+    return this.adapters.map(adapter => adapter.getHealth());
+  }
+
+  /**
+   * Get learned reliability scores for every source seen so far
+   */
+  getSourceReliability(): SourceReliability[] {
+    return this.reliability.getAll();
+  }
+
+  /**
+   * Get recorded manipulation incidents, newest first
+   */
+  getIncidents(query: IncidentQuery): ManipulationIncident[] {
+    return this.manipulation.getIncidents(query);
+  }
+
+  /**
+   * Get all latest prices for a condition (new listings by default)
+   */
+  getAllPrices(condition: ListingCondition = 'new'): Map<AssetId, AggregatedPrice> {
+    const prices = new Map<AssetId, AggregatedPrice>();
+    for (const assetId of ASSET_IDS) {
+      const price = this.getPrice(assetId, condition);
+      if (price) {
+        prices.set(assetId, price);
+      }
+    }
+    return prices;
+  }
+
+  /**
+   * Record a price as published: feed the TWAP, move the guardrail reference
+   * and store it as the latest price
+   */
+  private async publish(key: string, price: AggregatedPrice, rebase: boolean): Promise<AggregatedPrice> {
+    if (price.price > 0) {
+      const observation = { price: price.price, timestamp: price.timestamp };
+      this.twapCalculator.addObservation(key, observation.price, observation.timestamp);
+      await this.persistObservation(key, observation);
+      this.getGuardrail(price.assetId, price.condition).accept(price.price, price.timestamp, rebase);
+    }
+
+    const published = { ...price, twap: this.twapCalculator.getTWAP(key) || price.price };
+    this.lastPrices.set(key, published);
+    this.pendingPrices.delete(key);
+
+    const labels = { asset: price.assetId, condition: price.condition };
+    metrics.price.set(labels, published.price);
+    metrics.twap.set(labels, published.twap);
+    metrics.priceSources.set(labels, published.sourceCount);
+    metrics.priceTimestamp.set(labels, published.timestamp / 1000);
+    return published;
+  }
+
+  private getGuardrail(assetId: AssetId, condition: ListingCondition): PriceGuardrail {
+    const key = seriesKey(assetId, condition);
+    let guardrail = this.guardrails.get(key);
+    if (!guardrail) {
+      guardrail = new PriceGuardrail(this.getGuardrailPolicy(assetId));
+      this.guardrails.set(key, guardrail);
+    }
+    return guardrail;
+  }
+
+  /**
+   * Hand an update to subscribers; a failing listener never fails the update
+   */
+  private notify(update: PriceUpdate): PriceUpdate {
+    for (const listener of this.updateListeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        logger.error(`Update listener failed for ${update.assetId}: ${error}`);
+      }
+    }
+    return update;
+  }
+
+  /**
+   * Archive an asset's listings from a cycle. Failures are logged; the update stands.
+   */
+  private async archiveListings(assetId: AssetId, cycle: UpdateCycle): Promise<void> {
+    if (!this.listingArchive || cycle.statuses.size === 0) return;
+
+    try {
+      await this.listingArchive.append(
+        [...cycle.statuses].map(([point, status]) => toArchivedListing(cycle.id, point, status))
+      );
+    } catch (error) {
+      logger.error(`Failed to archive ${cycle.statuses.size} listings for ${assetId}: ${error}`);
+    }
+  }
+
+  /**
+   * Record the share of each source's listings that survived outlier filtering
+   */
+  private recordOutliers(prices: PricePoint[], filtered: PricePoint[]): void {
+    const counts = new Map<string, { total: number; kept: number }>();
+    for (const p of prices) {
+      const count = counts.get(p.source) || { total: 0, kept: 0 };
+      count.total++;
+      counts.set(p.source, count);
+    }
+    for (const p of filtered) {
+      counts.get(p.source)!.kept++;
+    }
+    for (const [source, { total, kept }] of counts) {
+      this.reliability.recordListings(source, total, kept);
+    }
+  }
+
+  /**
+   * Count the distinct sources and listings behind a series update
+   */
+  private checkQuorum(assetId: AssetId, condition: ListingCondition, prices: PricePoint[]): QuorumStatus {
+    const policy = this.getQuorumPolicy(assetId, condition);
+    const sources = new Set(prices.map(p => p.source)).size;
+    const listings = prices.length;
+    return {
+      ...policy,
+      met: sources >= policy.minSources && listings >= policy.minListings,
+      sources,
+      listings,
+    };
+  }
+
+  /**
+   * Stamp a stored price with its current age and staleness, and apply any
+   * admin pause or pin. A pinned price replaces the aggregated one and ages
+   * from when it was pinned, so it is never stale before it expires. Pins are
+   * in USD, so they only apply to global prices.
+   */
+  private present(price: AggregatedPrice, now: number = this.clock.now()): AggregatedPrice {
+    const paused = this.controls.getPause(price.assetId);
+    const pin = price.region === null ? this.controls.getPin(price.assetId, price.condition, now) : null;
+
+    if (pin) {
+      return {
+        ...price,
+        price: pin.price,
+        twap: pin.price,
+        priceInt: this.toPriceInt(pin.price),
+        timestamp: pin.pinnedAt,
+        ageMs: Math.max(0, now - pin.pinnedAt),
+        stale: false,
+        paused,
+        pin,
+      };
+    }
+
+    const ageMs = Math.max(0, now - price.timestamp);
+    return { ...price, ageMs, stale: ageMs > this.getMaxPriceAgeMs(price.assetId), paused, pin: null };
+  }
+
+  /**
+   * Placeholder for a series with no aggregated price yet, e.g. one that is pinned
+   */
+  private emptyPrice(assetId: AssetId, condition: ListingCondition, now: number): AggregatedPrice {
+    return {
+      assetId,
+      condition,
+      region: null,
+      price: 0,
+      twap: 0,
+      median: 0,
+      min: 0,
+      priceInt: 0n,
+      sourceCount: 0,
+      timestamp: now,
+      updatedAt: now,
+      ageMs: 0,
+      stale: false,
+      currency: 'USD',
+      sources: [],
+      rejectedListings: {},
+      quorum: { ...this.getQuorumPolicy(assetId, condition), met: false, sources: 0, listings: 0 },
+      guardrail: {
+        state: 'ok',
+        candidate: null,
+        band: null,
+        confirmations: 0,
+        required: this.getGuardrailPolicy(assetId).confirmations,
+        pendingSince: null,
+      },
+      paused: null,
+      pin: null,
+      cycleId: null,
+      confidence: 0,
+      method: this.strategyNames.get(assetId) ?? 'median',
+      components: {},
+      winsorized: false,
+      volatilityAdjusted: false,
+    };
+  }
+
+  /**
+   * Convert a listing to USD
+   * @returns The listing priced in USD, or null when its currency has no rate
+   */
+  private toUsd(p: PricePoint): PricePoint | null {
+    const currency = p.currency ?? 'USD';
+    if (currency === 'USD') return p;
+    if (!this.fx.hasRate(currency)) return null;
+    return { ...p, price: this.fx.convert(p.price, currency, 'USD'), currency: 'USD', listed: { price: p.price, currency } };
+  }
+
+  /**
+   * Summarize the listings behind a price per source
+   */
+  private summarizeSources(prices: PricePoint[], sourceWeights: Map<string, number>): SourceDetail[] {
+    const sourceMap = new Map<string, { prices: number[]; isSimulated: boolean }>();
+    for (const p of prices) {
+      const existing = sourceMap.get(p.source) || { prices: [], isSimulated: p.source === 'mock' };
+      existing.prices.push(p.price);
+      sourceMap.set(p.source, existing);
+    }
+
+    return Array.from(sourceMap.entries()).map(([name, data]) => ({
+      id: name,
+      name: this.formatSourceName(name),
+      price: median(data.prices),
+      count: data.prices.length,
+      isSimulated: data.isSimulated,
+      reliability: this.reliability.getScore(name),
+      weight: sourceWeights.get(name) ?? this.reliability.getScore(name),
+    }));
+  }
+
+  /**
+   * Persist a TWAP observation, logging rather than failing the update
+   */
+  private async persistObservation(
+    key: string,
+    observation: { price: number; timestamp: number }
+  ): Promise<void> {
+    if (!this.observationStore) return;
+
+    try {
+      await this.observationStore.append(key, observation);
+    } catch (error) {
+      logger.warn(`Failed to persist TWAP observation for ${key}: ${error}`);
+    }
   }
 
   /**
@@ -171,7 +980,7 @@ export class PriceAggregator {
   }
 
   /**
-   * Convert USD price to 8-decimal integer (Chainlink format)
+   * Convert a price to an 8-decimal integer (Chainlink format)
    * Example: $1599.99 -> 159999000000n
    */
   private toPriceInt(price: number): bigint {
@@ -187,6 +996,9 @@ export class PriceAggregator {
       'bestbuy-scraper': 'Best Buy',
       'newegg-scraper': 'Newegg',
       'amazon-scraper': 'Amazon',
+      'amazon-de-scraper': 'Amazon.de',
+      'amazon-uk-scraper': 'Amazon.co.uk',
+      'newegg-ca-scraper': 'Newegg Canada',
       'bhphoto-scraper': 'B&H Photo',
       'ebay': 'eBay',
       'amazon': 'Amazon API',
@@ -195,3 +1007,10 @@ export class PriceAggregator {
     return nameMap[name] || name;
   }
 }
+
+/**
+ * Sortable, unique ID for an update cycle, e.g. "m2k3x9a1-4f1c2e"
+ */
+function newCycleId(now: number): string {
+  return `${now.toString(36)}-${randomBytes(3).toString('hex')}`;
+}
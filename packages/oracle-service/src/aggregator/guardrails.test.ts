@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { PriceGuardrail } from './guardrails.js';
+
+describe('PriceGuardrail', () => {
+  const MINUTE = 60 * 1000;
+  const policy = { mode: 'hold' as const, maxUpdateMove: 0.1, maxHourlyMove: 0.2, confirmations: 3 };
+
+  it('publishes the first price and moves within the limits', () => {
+    const guardrail = new PriceGuardrail(policy);
+
+    expect(guardrail.evaluate(1600, 0)).toMatchObject({ publish: true, price: 1600, status: { state: 'ok' } });
+    guardrail.accept(1600, 0);
+
+    const next = guardrail.evaluate(1700, MINUTE);
+    expect(next.publish).toBe(true);
+    expect(next.status.band?.min).toBeCloseTo(1440);
+    expect(next.status.band?.max).toBeCloseTo(1760);
+  });
+
+  it('clamps moves beyond the per-update limit in clamp mode', () => {
+    const guardrail = new PriceGuardrail({ ...policy, mode: 'clamp' });
+    guardrail.accept(1600, 0);
+
+    const decision = guardrail.evaluate(1000, MINUTE);
+
+    expect(decision.publish).toBe(true);
+    expect(decision.price).toBeCloseTo(1440);
+    expect(decision.status).toMatchObject({ state: 'clamped', candidate: 1000 });
+  });
+
+  it('limits the cumulative move within an hour', () => {
+    const guardrail = new PriceGuardrail({ ...policy, mode: 'clamp' });
+    guardrail.accept(1000, 0);
+    guardrail.accept(1100, 10 * MINUTE);
+
+    // 10% from the last price, but 21% from the price 20 minutes ago
+    expect(guardrail.evaluate(1210, 20 * MINUTE).price).toBeCloseTo(1200);
+
+    // Once the old price leaves the hour window only the per-update limit applies
+    expect(guardrail.evaluate(1210, 70 * MINUTE).price).toBe(1210);
+  });
+
+  it('holds a large move until enough consecutive cycles confirm it', () => {
+    const guardrail = new PriceGuardrail(policy);
+    guardrail.accept(1600, 0);
+
+    const first = guardrail.evaluate(2200, MINUTE);
+    expect(first.publish).toBe(false);
+    expect(first.status).toMatchObject({ state: 'pending', candidate: 2200, confirmations: 1, required: 3, pendingSince: MINUTE });
+
+    expect(guardrail.evaluate(2210, 2 * MINUTE).status.confirmations).toBe(2);
+
+    const third = guardrail.evaluate(2190, 3 * MINUTE);
+    expect(third.publish).toBe(true);
+    expect(third.price).toBe(2190);
+    expect(third.status.state).toBe('confirmed');
+    expect(guardrail.isPending()).toBe(false);
+  });
+
+  it('resets confirmations when the move reverses or returns within limits', () => {
+    const guardrail = new PriceGuardrail(policy);
+    guardrail.accept(1600, 0);
+
+    guardrail.evaluate(2200, MINUTE);
+    guardrail.evaluate(2200, 2 * MINUTE);
+    expect(guardrail.evaluate(1000, 3 * MINUTE).status.confirmations).toBe(1);
+
+    expect(guardrail.evaluate(1610, 4 * MINUTE).status.state).toBe('ok');
+    expect(guardrail.isPending()).toBe(false);
+  });
+
+  it('rebases the hour window after a confirmed move', () => {
+    const guardrail = new PriceGuardrail(policy);
+    guardrail.accept(1600, 0);
+    guardrail.accept(2400, MINUTE, true);
+
+    expect(guardrail.evaluate(2450, 2 * MINUTE).status.state).toBe('ok');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Price Move Guardrails
+ *
+ * Limits how far a published price may move in one update and within an
+ * hour, so a single bad scrape cycle can't swing the feed. A move beyond
+ * the limits is either:
+ * - clamped to the edge of the allowed band, or
+ * - held: the last price stays published while the candidate waits for
+ *   N consecutive cycles confirming the move (or a manual release)
+ */
+
+import type { GuardrailPolicy } from '../config/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type GuardrailState = 'ok' | 'clamped' | 'pending' | 'confirmed' | 'released';
+
+export interface GuardrailStatus {
+  state: GuardrailState;
+  candidate: number | null;        // Price computed from listings, when it differs from the published one
+  band: { min: number; max: number } | null;  // Allowed range for this update
+  confirmations: number;           // Consecutive cycles confirming a pending move
+  required: number;                // Confirmations needed to accept it
+  pendingSince: number | null;
+}
+
+export interface GuardrailDecision {
+  publish: boolean;                // False while a move is pending confirmation
+  price: number;                   // Price to publish (clamped when applicable)
+  status: GuardrailStatus;
+}
+
+export class PriceGuardrail {
+  private published: Array<{ price: number; timestamp: number }> = [];
+  private pending: { direction: 1 | -1; confirmations: number; since: number } | null = null;
+
+  constructor(private readonly policy: GuardrailPolicy) {}
+
+  /**
+   * Decide what to publish for a new candidate price
+   */
+  evaluate(candidate: number, now: number = Date.now()): GuardrailDecision {
+    this.prune(now);
+    const band = this.getBand();
+
+    if (!band || (candidate >= band.min && candidate <= band.max)) {
+      this.pending = null;
+      return { publish: true, price: candidate, status: this.status('ok', null, band) };
+    }
+
+    if (this.policy.mode === 'clamp') {
+      const price = Math.min(Math.max(candidate, band.min), band.max);
+      return { publish: true, price, status: this.status('clamped', candidate, band) };
+    }
+
+    // Hold: count consecutive cycles beyond the band in the same direction
+    const direction = candidate > band.max ? 1 : -1;
+    if (this.pending?.direction === direction) {
+      this.pending.confirmations++;
+    } else {
+      this.pending = { direction, confirmations: 1, since: now };
+    }
+
+    if (this.pending.confirmations >= this.policy.confirmations) {
+      const status = this.status('confirmed', candidate, band);
+      this.pending = null;
+      return { publish: true, price: candidate, status };
+    }
+
+    return { publish: false, price: candidate, status: this.status('pending', candidate, band) };
+  }
+
+  /**
+   * Record a price as published; it becomes the reference for later moves.
+   * A confirmed or released move rebases the hourly window on the new price.
+   */
+  accept(price: number, now: number = Date.now(), rebase = false): void {
+    if (rebase) {
+      this.published = [];
+    }
+    this.published.push({ price, timestamp: now });
+    this.prune(now);
+  }
+
+  /**
+   * Drop a pending move, e.g. after it has been manually released
+   */
+  clearPending(): void {
+    this.pending = null;
+  }
+
+  isPending(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Allowed range: within maxUpdateMove of the last published price, and
+   * within maxHourlyMove of every price published in the last hour
+   */
+  private getBand(): { min: number; max: number } | null {
+    if (this.published.length === 0) return null;
+
+    const last = this.published[this.published.length - 1].price;
+    const recent = this.published.map(p => p.price);
+    const { maxUpdateMove, maxHourlyMove } = this.policy;
+
+    return {
+      min: Math.max(last * (1 - maxUpdateMove), Math.max(...recent) * (1 - maxHourlyMove)),
+      max: Math.min(last * (1 + maxUpdateMove), Math.min(...recent) * (1 + maxHourlyMove)),
+    };
+  }
+
+  /**
+   * Keep prices from the last hour, and always the latest one
+   */
+  private prune(now: number): void {
+    const cutoff = now - HOUR_MS;
+    const latest = this.published[this.published.length - 1];
+    this.published = this.published.filter(p => p.timestamp >= cutoff);
+    if (this.published.length === 0 && latest) {
+      this.published.push(latest);
+    }
+  }
+
+  private status(
+    state: GuardrailState,
+    candidate: number | null,
+    band: GuardrailStatus['band']
+  ): GuardrailStatus {
+    return {
+      state,
+      candidate,
+      band,
+      confirmations: this.pending?.confirmations ?? 0,
+      required: this.policy.confirmations,
+      pendingSince: this.pending?.since ?? null,
+    };
+  }
+}
+
@@ -14,6 +14,7 @@
 
 import type { PricePoint } from '../adapters/types.js';
 import { median, mad } from './outlier.js';
+import { systemClock, type Clock } from '../utils/clock.js';
 
 export interface OracleConfig {
   // TWAP window in milliseconds
@@ -84,7 +85,10 @@ export class NFTperpStyleOracle {
   private priceHistory: Map<string, number[]> = new Map();
   private volatilityHistory: number[] = [];
 
-  constructor(private config: OracleConfig = DEFAULT_ILLIQUID_CONFIG) {}
+  constructor(
+    private config: OracleConfig = DEFAULT_ILLIQUID_CONFIG,
+    private clock: Clock = systemClock
+  ) {}
 
   /**
    * Calculate price using NFTperp methodology
@@ -220,7 +224,7 @@ export class NFTperpStyleOracle {
     if (filtered.length === 0) return null;
 
     // Weight recent trades more heavily (exponential decay)
-    const now = Date.now();
+    const now = this.clock.now();
     const recentPrices = prices
       .filter((p) => Math.abs(p.price - medianVal) <= threshold)
       .sort((a, b) => b.timestamp - a.timestamp);
@@ -299,7 +303,8 @@ export class VentualsStyleOracle {
 
   constructor(
     private config: OracleConfig = DEFAULT_ILLIQUID_CONFIG,
-    private emaWindowMs: number = 7200000 // 2 hours
+    private emaWindowMs: number = 7200000, // 2 hours
+    private clock: Clock = systemClock
   ) {}
 
   /**
@@ -310,7 +315,7 @@ export class VentualsStyleOracle {
     externalValuation: number | null
   ): IlliquidPriceResult {
     const components: IlliquidPriceResult['components'] = {};
-    const now = Date.now();
+    const now = this.clock.now();
 
     // Update mark price EMA
     this.updateEma(markPrice, now);
@@ -394,9 +399,9 @@ export class HybridIlliquidOracle {
   private nftperpOracle: NFTperpStyleOracle;
   private ventualsOracle: VentualsStyleOracle;
 
-  constructor(config: OracleConfig = DEFAULT_ILLIQUID_CONFIG) {
-    this.nftperpOracle = new NFTperpStyleOracle(config);
-    this.ventualsOracle = new VentualsStyleOracle(config);
+  constructor(config: OracleConfig = DEFAULT_ILLIQUID_CONFIG, clock: Clock = systemClock) {
+    this.nftperpOracle = new NFTperpStyleOracle(config, clock);
+    this.ventualsOracle = new VentualsStyleOracle(config, undefined, clock);
   }
 
   /**
@@ -1,7 +1,18 @@
-export { PriceAggregator } from './aggregator.js';
-export type { AggregatedPrice, PriceUpdate, SourceDetail } from './aggregator.js';
+export { PriceAggregator, seriesKey } from './aggregator.js';
+export type { AggregatedPrice, PriceUpdate, QuorumStatus, SourceDetail, AggregatorOptions } from './aggregator.js';
+export { FetchOrchestrator, DEFAULT_FETCH_ORCHESTRATOR_OPTIONS } from './orchestrator.js';
+export type { DomainStatus, FetchOrchestratorOptions, FetchOutcome, FetchTask } from './orchestrator.js';
+export { ManipulationDetector, INCIDENT_TYPES } from './manipulation.js';
+export type { IncidentQuery, IncidentType, ManipulationIncident, ScreeningResult } from './manipulation.js';
 export { TWAPCalculator } from './twap.js';
-export { filterOutliers, filterOutliersIQR, median, medianAbsoluteDeviation, mad } from './outlier.js';
+export type { PriceObservation } from './twap.js';
+export { createPricingStrategy, listingSourceWeights } from './strategy.js';
+export type { PricingStrategy, PricingResult } from './strategy.js';
+export { filterOutliers, filterOutliersIQR, median, weightedMedian, medianAbsoluteDeviation, mad } from './outlier.js';
+export { SourceReliabilityTracker, DEFAULT_RELIABILITY_OPTIONS } from './reliability.js';
+export type { ReliabilityOptions, SourceReliability } from './reliability.js';
+export { PriceGuardrail } from './guardrails.js';
+export type { GuardrailDecision, GuardrailState, GuardrailStatus } from './guardrails.js';
 
 // Illiquid asset oracle strategies (inspired by NFTperp & Ventuals)
 export {
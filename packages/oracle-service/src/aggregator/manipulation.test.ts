@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { ManipulationDetector } from './manipulation.js';
+import type { PricePoint } from '../adapters/types.js';
+import type { ManipulationPolicy } from '../config/index.js';
+
+const policy: ManipulationPolicy = {
+  enabled: true,
+  maxSourceShare: 0.75,
+  maxSellerShare: 0.5,
+  minListings: 6,
+  flashSaleDiscount: 0.2,
+  flashSaleMinListings: 2,
+};
+
+const point = (source: string, price: number, seller?: string, url?: string): PricePoint => ({
+  price,
+  source,
+  timestamp: 1000,
+  assetId: 'GPU_RTX4090',
+  metadata: { productName: 'NVIDIA GeForce RTX 4090', seller, url },
+});
+
+const context = (cycleId: string) => ({ assetId: 'GPU_RTX4090', condition: 'new' as const, cycleId, now: 1000 });
+
+describe('ManipulationDetector', () => {
+  it('caps a retailer supplying most listings, keeping those nearest the market', () => {
+    const detector = new ManipulationDetector(policy);
+    const flood = [1500, 1550, 1600, 1650, 1700, 1750, 1800, 1850, 1900].map(p => point('newegg', p));
+    const others = [point('bestbuy', 1600), point('bhphoto', 1620)];
+
+    const result = detector.screen(context('c1'), [...flood, ...others], null);
+
+    // Two other listings allow six from newegg: 6 / 8 = 75%
+    expect(result.kept).toHaveLength(8);
+    expect(result.flagged.map(p => p.price)).toEqual([1800, 1850, 1900]);
+    expect(result.incidents).toEqual([expect.objectContaining({
+      type: 'source_dominance', sources: ['newegg'], excluded: 3, detail: 'newegg supplied 9 of 11 listings (cap 75%)',
+    })]);
+  });
+
+  it('caps one marketplace seller but not a retailer selling its own stock', () => {
+    const detector = new ManipulationDetector(policy);
+    const ebay = [
+      ...[1500, 1510, 1520, 1530].map(p => point('ebay', p, 'flipper')),
+      point('ebay', 1600, 'alice'),
+    ];
+    const retail = [point('bestbuy', 1600, 'Best Buy'), point('bestbuy', 1610, 'Best Buy'), point('newegg', 1620, 'Newegg')];
+
+    const result = detector.screen(context('c1'), [...ebay, ...retail], null);
+
+    // Four other listings allow four from flipper: 4 / 8 = 50%
+    expect(result.flagged).toHaveLength(0);
+
+    const flooded = [...ebay, point('ebay', 1540, 'flipper'), point('ebay', 1550, 'flipper'), ...retail];
+    const capped = new ManipulationDetector(policy).screen(context('c1'), flooded, null);
+
+    expect(capped.flagged.map(p => p.price)).toEqual([1500, 1510]);
+    expect(capped.incidents).toEqual([expect.objectContaining({
+      type: 'seller_dominance', sellers: ['flipper'], detail: 'flipper on ebay supplied 6 of 10 listings (cap 50%)',
+    })]);
+  });
+
+  it('holds new prices far below consensus for a cycle and reports clusters as flash sales', () => {
+    const detector = new ManipulationDetector(policy);
+    const market = [point('bestbuy', 1600, undefined, 'a'), point('newegg', 1610, undefined, 'b')];
+    const sale = [point('amazon', 1100, undefined, 'c'), point('ebay', 1150, undefined, 'd')];
+    detector.screen(context('c1'), market, 1600);
+
+    const first = detector.screen(context('c2'), [...market, ...sale], 1600);
+    expect(first.flagged).toEqual(sale);
+    expect(first.incidents).toEqual([expect.objectContaining({
+      type: 'flash_sale', cycleId: 'c2', consensus: 1600, prices: [1100, 1150], excluded: 2,
+    })]);
+
+    // Still listed a cycle later, so the prices count
+    const second = detector.screen(context('c3'), [...market, ...sale], 1600);
+    expect(second.flagged).toEqual([]);
+    expect(second.incidents).toEqual([]);
+  });
+
+  it('reports held prices delisted within a cycle', () => {
+    const detector = new ManipulationDetector(policy);
+    const market = [point('bestbuy', 1600, undefined, 'a'), point('newegg', 1610, undefined, 'b')];
+    detector.screen(context('c1'), market, 1600);
+
+    const single = detector.screen(context('c2'), [...market, point('amazon', 1000, undefined, 'c')], 1600);
+    expect(single.flagged).toHaveLength(1);
+    expect(single.incidents).toEqual([]);
+
+    const gone = detector.screen(context('c3'), market, 1600);
+    expect(gone.incidents).toEqual([expect.objectContaining({
+      type: 'transient_price', cycleId: 'c3', prices: [1000], excluded: 0,
+    })]);
+
+    expect(detector.getIncidents({ limit: 10 }).map(i => i.type)).toEqual(['transient_price']);
+    expect(detector.getIncidents({ type: 'flash_sale', limit: 10 })).toEqual([]);
+  });
+
+  it('keys held prices on the listed price, so FX moves do not relist them', () => {
+    const detector = new ManipulationDetector(policy);
+    const market = [point('bestbuy', 1600, undefined, 'a'), point('newegg', 1610, undefined, 'b')];
+    const converted = (usd: number): PricePoint => ({
+      ...point('amazon', usd, undefined, 'c'),
+      listed: { price: 1000, currency: 'EUR' },
+    });
+    detector.screen(context('c1'), market, 1600);
+
+    expect(detector.screen(context('c2'), [...market, converted(1080)], 1600).flagged).toHaveLength(1);
+
+    const repriced = detector.screen(context('c3'), [...market, converted(1090)], 1600);
+    expect(repriced.flagged).toEqual([]);
+    expect(repriced.incidents).toEqual([]);
+  });
+
+  it('passes listings through when disabled', () => {
+    const detector = new ManipulationDetector({ ...policy, enabled: false });
+    const prices = [1500, 1550, 1600, 1650, 1700, 1750].map(p => point('newegg', p)).concat(point('bestbuy', 1600));
+
+    expect(detector.screen(context('c1'), prices, 3000)).toEqual({ kept: prices, flagged: [], incidents: [] });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Manipulation Detection
+ *
+ * Hardware markets are thin: one marketplace seller can flood a search with
+ * listings, and a flash sale can drag the median down for a cycle. Before
+ * outlier filtering, each series' listings are screened for:
+ * - source dominance: one retailer supplies more than maxSourceShare of the
+ *   listings. Its listings furthest from the rest of the market are dropped
+ *   until it is back at the cap.
+ * - seller dominance: the same for one marketplace seller. A seller that is
+ *   its source's only seller is the retailer itself, left to the source check.
+ * - flash sales: a price not seen last cycle and more than flashSaleDiscount
+ *   below the published price sits out one cycle; it counts from the next
+ *   cycle if it is still listed. flashSaleMinListings of them in one cycle
+ *   are reported as a flash sale.
+ * - transient prices: a held price gone by the next cycle appeared and
+ *   disappeared within a cycle, and is reported.
+ *
+ * Dominance needs minListings listings in the series, so small markets are
+ * left to the quorum. Incidents are kept in memory for /incidents.
+ */
+
+import type { ListingCondition, PricePoint } from '../adapters/types.js';
+import type { AssetId, ManipulationPolicy } from '../config/index.js';
+import { median } from './outlier.js';
+
+const MAX_INCIDENTS = 500;
+
+export const INCIDENT_TYPES = ['source_dominance', 'seller_dominance', 'flash_sale', 'transient_price'] as const;
+
+export type IncidentType = typeof INCIDENT_TYPES[number];
+
+export interface ManipulationIncident {
+  id: string;
+  type: IncidentType;
+  assetId: AssetId;
+  condition: ListingCondition;
+  cycleId: string;            // Cycle the incident was detected in
+  detectedAt: number;
+  consensus: number | null;   // Published price the listings were compared with
+  sources: string[];
+  sellers: string[];
+  prices: number[];           // Prices of the listings involved
+  excluded: number;           // Listings dropped from the cycle
+  detail: string;
+}
+
+export interface IncidentQuery {
+  assetId?: AssetId;
+  type?: IncidentType;
+  since?: number;
+  limit: number;
+}
+
+export interface ScreeningContext {
+  assetId: AssetId;
+  condition: ListingCondition;
+  cycleId: string;
+  now: number;
+}
+
+export interface ScreeningResult {
+  kept: PricePoint[];
+  flagged: PricePoint[];
+  incidents: ManipulationIncident[];
+}
+
+interface SeriesHistory {
+  seen: Set<string>;                                               // Price keys listed last cycle
+  held: Map<string, { point: PricePoint; cycleId: string }>;       // Flash-sale prices sitting out last cycle
+}
+
+export class ManipulationDetector {
+  private history: Map<string, SeriesHistory> = new Map();
+  private incidents: ManipulationIncident[] = [];
+
+  constructor(private readonly policy: ManipulationPolicy) {}
+
+  /**
+   * Screen one series' listings for a cycle
+   * @param consensus Price currently published for the series, if any
+   */
+  screen(context: ScreeningContext, prices: PricePoint[], consensus: number | null): ScreeningResult {
+    if (!this.policy.enabled) {
+      return { kept: prices, flagged: [], incidents: [] };
+    }
+
+    const key = `${context.assetId}:${context.condition}`;
+    const history = this.history.get(key) ?? { seen: new Set(), held: new Map() };
+    const keys = new Map(prices.map(p => [p, priceKey(p)]));
+    const current = new Set(keys.values());
+    const incidents: ManipulationIncident[] = [];
+
+    // Held prices that are already gone never reached the feed, but are worth reporting
+    const vanished = [...history.held.values()].filter(({ point }) => !current.has(priceKey(point)));
+    if (vanished.length > 0) {
+      const points = vanished.map(({ point }) => point);
+      incidents.push(this.incident(context, 'transient_price', points, consensus, 0,
+        `${points.length} price(s) from cycle ${vanished[0].cycleId} were delisted within a cycle`));
+    }
+
+    // New prices far below consensus sit out this cycle
+    const held = consensus === null ? [] : prices.filter(p =>
+      !history.seen.has(keys.get(p)!) && p.price < consensus * (1 - this.policy.flashSaleDiscount)
+    );
+    if (held.length >= this.policy.flashSaleMinListings) {
+      incidents.push(this.incident(context, 'flash_sale', held, consensus, held.length,
+        `${held.length} new listings more than ${percent(this.policy.flashSaleDiscount)} below $${consensus!.toFixed(2)}`));
+    }
+
+    const flagged = new Set(held);
+    let kept = prices.filter(p => !flagged.has(p));
+
+    const sourceCap = this.capDominant(kept, groupBy(kept, p => p.source), this.policy.maxSourceShare);
+    if (sourceCap) {
+      incidents.push(this.incident(context, 'source_dominance', sourceCap.dropped, consensus, sourceCap.dropped.length,
+        `${sourceCap.name} supplied ${sourceCap.count} of ${kept.length} listings (cap ${percent(this.policy.maxSourceShare)})`));
+      sourceCap.dropped.forEach(p => flagged.add(p));
+      kept = kept.filter(p => !flagged.has(p));
+    }
+
+    // Only sources listing several sellers are marketplaces
+    const sellers = new Map<string, Set<string>>();
+    for (const p of kept) {
+      if (p.metadata?.seller) {
+        sellers.set(p.source, (sellers.get(p.source) ?? new Set()).add(p.metadata.seller));
+      }
+    }
+    const marketplaceListings = kept.filter(p => (sellers.get(p.source)?.size ?? 0) > 1 && p.metadata?.seller);
+    const sellerCap = this.capDominant(
+      kept, groupBy(marketplaceListings, p => `${p.metadata!.seller} on ${p.source}`), this.policy.maxSellerShare
+    );
+    if (sellerCap) {
+      incidents.push(this.incident(context, 'seller_dominance', sellerCap.dropped, consensus, sellerCap.dropped.length,
+        `${sellerCap.name} supplied ${sellerCap.count} of ${kept.length} listings (cap ${percent(this.policy.maxSellerShare)})`));
+      sellerCap.dropped.forEach(p => flagged.add(p));
+      kept = kept.filter(p => !flagged.has(p));
+    }
+
+    this.history.set(key, {
+      seen: current,
+      held: new Map(held.map(p => [keys.get(p)!, { point: p, cycleId: context.cycleId }])),
+    });
+    this.record(incidents);
+
+    return { kept, flagged: prices.filter(p => flagged.has(p)), incidents };
+  }
+
+  /**
+   * Recorded incidents, newest first
+   */
+  getIncidents(query: IncidentQuery): ManipulationIncident[] {
+    const matches: ManipulationIncident[] = [];
+    for (let i = this.incidents.length - 1; i >= 0 && matches.length < query.limit; i--) {
+      const incident = this.incidents[i];
+      if (query.assetId && incident.assetId !== query.assetId) continue;
+      if (query.type && incident.type !== query.type) continue;
+      if (query.since !== undefined && incident.detectedAt < query.since) continue;
+      matches.push(incident);
+    }
+    return matches;
+  }
+
+  /**
+   * Find the largest group over its share of the listings and pick the
+   * listings to drop, keeping those closest to the rest of the market
+   * @returns The group, its size and the listings to drop, or null when no group is over
+   */
+  private capDominant(
+    prices: PricePoint[],
+    groups: Map<string, PricePoint[]>,
+    maxShare: number
+  ): { name: string; count: number; dropped: PricePoint[] } | null {
+    if (prices.length < this.policy.minListings || maxShare >= 1) return null;
+
+    const [name, group] = [...groups].sort(([, a], [, b]) => b.length - a.length)[0] ?? [];
+    if (!name || !group || group.length / prices.length <= maxShare) return null;
+
+    const members = new Set(group);
+    const others = prices.filter(p => !members.has(p));
+    if (others.length === 0) return null;
+
+    // Largest count c with c / (c + others) <= maxShare
+    const allowed = Math.max(1, Math.floor(maxShare * others.length / (1 - maxShare) + 1e-9));
+    const reference = median(others.map(p => p.price));
+    const ranked = [...group].sort((a, b) => Math.abs(a.price - reference) - Math.abs(b.price - reference));
+    return { name, count: group.length, dropped: ranked.slice(allowed) };
+  }
+
+  private incident(
+    context: ScreeningContext,
+    type: IncidentType,
+    points: PricePoint[],
+    consensus: number | null,
+    excluded: number,
+    detail: string
+  ): ManipulationIncident {
+    return {
+      id: `${context.cycleId}:${context.assetId}:${context.condition}:${type}`,
+      type,
+      assetId: context.assetId,
+      condition: context.condition,
+      cycleId: context.cycleId,
+      detectedAt: context.now,
+      consensus,
+      sources: unique(points.map(p => p.source)),
+      sellers: unique(points.map(p => p.metadata?.seller).filter((s): s is string => !!s)),
+      prices: points.map(p => p.price).sort((a, b) => a - b),
+      excluded,
+      detail,
+    };
+  }
+
+  private record(incidents: ManipulationIncident[]): void {
+    this.incidents.push(...incidents);
+    if (this.incidents.length > MAX_INCIDENTS) {
+      this.incidents.splice(0, this.incidents.length - MAX_INCIDENTS);
+    }
+  }
+}
+
+/**
+ * Identity of a listed price: the same listing at a new price is a new price.
+ * Uses the price as listed, so an FX refresh alone doesn't make it a new one.
+ */
+function priceKey(point: PricePoint): string {
+  const { url, productName, seller } = point.metadata ?? {};
+  const listed = point.listed ?? { price: point.price, currency: point.currency ?? 'USD' };
+  return [point.source, url ?? productName ?? '', seller ?? '', listed.price, listed.currency].join('|');
+}
+
+function groupBy(points: PricePoint[], key: (point: PricePoint) => string): Map<string, PricePoint[]> {
+  const groups = new Map<string, PricePoint[]>();
+  for (const point of points) {
+    const group = groups.get(key(point)) ?? [];
+    group.push(point);
+    groups.set(key(point), group);
+  }
+  return groups;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FetchOrchestrator } from './orchestrator.js';
+import { AdapterError, type AdapterConfig, type PriceAdapter, type PricePoint } from '../adapters/types.js';
+
+class DelayedAdapter implements PriceAdapter {
+  started: number[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+
+  constructor(
+    readonly name: string,
+    private delayMs: number,
+    readonly limits?: AdapterConfig
+  ) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async fetchPrices(assetId: string): Promise<PricePoint[]> {
+    this.started.push(Date.now());
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    this.inFlight--;
+    return [{ price: 100, source: this.name, timestamp: Date.now(), assetId }];
+  }
+}
+
+const limits = (domain: string, concurrency: number, maxRequests: number, windowMs: number): AdapterConfig => ({
+  enabled: true,
+  domain,
+  concurrency,
+  rateLimit: { maxRequests, windowMs },
+});
+
+const ASSETS = ['GPU_RTX4090', 'GPU_RTX4080', 'GPU_RTX3090', 'GPU_A100', 'GPU_H100'];
+
+describe('FetchOrchestrator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fetches different retailers in parallel', async () => {
+    const a = new DelayedAdapter('a', 1000);
+    const b = new DelayedAdapter('b', 1000);
+    const orchestrator = new FetchOrchestrator({ defaultConcurrency: 5 });
+
+    const run = orchestrator.run(ASSETS.flatMap(assetId => [{ assetId, adapter: a }, { assetId, adapter: b }]));
+    await vi.advanceTimersByTimeAsync(2000);  // Eight, then the last two
+    const outcomes = await run;
+
+    expect(outcomes.map(o => o.status)).toEqual(new Array(10).fill('ok'));
+    expect(outcomes[2].task).toMatchObject({ assetId: 'GPU_RTX4080', adapter: a });
+    expect(a.maxInFlight + b.maxInFlight).toBe(8);  // Global cap
+  });
+
+  it('holds a shared domain to the strictest limits of its adapters', async () => {
+    const api = new DelayedAdapter('store', 100, limits('store.com', 2, 10, 1000));
+    const scraper = new DelayedAdapter('store-scraper', 100, limits('store.com', 1, 3, 60000));
+    const orchestrator = new FetchOrchestrator({ deadlineMs: 300000 });
+
+    const run = orchestrator.run(ASSETS.flatMap(assetId => [{ assetId, adapter: api }, { assetId, adapter: scraper }]));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // One at a time, and only three per minute across both adapters
+    expect(orchestrator.getStatus()).toEqual([expect.objectContaining({
+      domain: 'store.com', adapters: ['store', 'store-scraper'], concurrency: 1, active: 0, queued: 7,
+    })]);
+
+    await vi.advanceTimersByTimeAsync(180000);
+    const outcomes = await run;
+
+    expect(outcomes.every(o => o.status === 'ok')).toBe(true);
+    const starts = [...api.started, ...scraper.started].sort((x, y) => x - y);
+    expect(Math.max(api.maxInFlight, scraper.maxInFlight)).toBe(1);
+    for (let i = 3; i < starts.length; i++) {
+      expect(starts[i] - starts[i - 3]).toBeGreaterThanOrEqual(60000);
+    }
+  });
+
+  it('drops fetches that miss the deadline', async () => {
+    const fast = new DelayedAdapter('fast', 100);
+    const slow = new DelayedAdapter('slow', 10000);
+    const orchestrator = new FetchOrchestrator({ deadlineMs: 5000 });
+
+    const run = orchestrator.run([
+      { assetId: 'GPU_RTX4090', adapter: fast },
+      { assetId: 'GPU_RTX4090', adapter: slow },
+    ]);
+    await vi.advanceTimersByTimeAsync(5000);
+    const outcomes = await run;
+
+    expect(outcomes.map(o => o.status)).toEqual(['ok', 'late']);
+    expect(orchestrator.getStatus().find(d => d.domain === 'slow')).toMatchObject({ active: 1, queued: 0 });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(orchestrator.getStatus().find(d => d.domain === 'slow')?.active).toBe(0);
+  });
+
+  it('reports failures without holding up the cycle', async () => {
+    const broken: PriceAdapter = {
+      name: 'broken',
+      isAvailable: () => true,
+      fetchPrices: async () => {
+        throw new Error('blocked');
+      },
+    };
+
+    const [outcome] = await new FetchOrchestrator().run([{ assetId: 'GPU_RTX4090', adapter: broken }]);
+
+    expect(outcome).toMatchObject({ status: 'failed', error: new Error('blocked') });
+  });
+
+  it('hands back the rate limit slot of a fetch rejected by an open circuit', async () => {
+    const tripped: PriceAdapter = {
+      name: 'store',
+      limits: limits('store.com', 1, 1, 60000),
+      isAvailable: () => true,
+      fetchPrices: async () => {
+        throw new AdapterError('store', 'CIRCUIT_OPEN', 'Circuit open');
+      },
+    };
+    const scraper = new DelayedAdapter('store-scraper', 100, limits('store.com', 1, 1, 60000));
+
+    const run = new FetchOrchestrator().run([
+      { assetId: 'GPU_RTX4090', adapter: tripped },
+      { assetId: 'GPU_RTX4090', adapter: scraper },
+    ]);
+    await vi.advanceTimersByTimeAsync(100);
+    const outcomes = await run;
+
+    expect(outcomes.map(o => o.status)).toEqual(['failed', 'ok']);
+    expect(scraper.started).toHaveLength(1);
+  });
+});
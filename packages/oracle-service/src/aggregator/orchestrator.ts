@@ -0,0 +1,234 @@
+/**
+ * Fetch Orchestrator
+ *
+ * Runs a cycle's (asset, adapter) fetches concurrently while keeping each
+ * retailer within its budget. Adapters declare a domain, a concurrency cap and
+ * a rate limit in fetches (AdapterConfig); adapters sharing a domain, such as an
+ * API and a scraper for the same store, share one budget made of the strictest
+ * of their limits. Fetches wait in a queue until their domain and the global
+ * concurrency cap both have room.
+ *
+ * A cycle has a deadline: fetches still queued or in flight when it passes are
+ * reported as late and the cycle completes without them. In-flight requests
+ * are not aborted; they keep their domain slot until they settle so the
+ * retailer never sees more than its budget. A fetch rejected by an open
+ * circuit breaker never reached the retailer, so its rate limit slot is
+ * handed back.
+ */
+
+import type { AssetId } from '../config/index.js';
+import type { AdapterConfig, PriceAdapter, PricePoint } from '../adapters/types.js';
+import { AdapterError } from '../adapters/types.js';
+
+export interface FetchTask {
+  assetId: AssetId;
+  adapter: PriceAdapter;
+}
+
+export type FetchOutcome =
+  | { task: FetchTask; status: 'ok'; prices: PricePoint[] }
+  | { task: FetchTask; status: 'failed'; error: unknown }
+  | { task: FetchTask; status: 'late' };       // Missed the cycle deadline
+
+export interface FetchOrchestratorOptions {
+  deadlineMs: number;          // Cycle budget; later fetches are dropped
+  concurrency: number;         // Fetches in flight across all domains
+  defaultConcurrency: number;  // Per-domain cap for adapters that declare no limits
+}
+
+export const DEFAULT_FETCH_ORCHESTRATOR_OPTIONS: FetchOrchestratorOptions = {
+  deadlineMs: 120000,          // 2 minutes
+  concurrency: 8,
+  defaultConcurrency: 4,
+};
+
+export interface DomainStatus {
+  domain: string;
+  adapters: string[];
+  concurrency: number;
+  rateLimits: AdapterConfig['rateLimit'][];
+  active: number;
+  queued: number;
+}
+
+interface Domain {
+  name: string;
+  adapters: Set<string>;
+  concurrency: number;
+  rateLimits: AdapterConfig['rateLimit'][];
+  starts: number[];            // Request start times, oldest first, within the longest window
+  active: number;
+  queued: number;
+}
+
+export class FetchOrchestrator {
+  private options: FetchOrchestratorOptions;
+  private domains: Map<string, Domain> = new Map();
+  private active = 0;
+  private pumps: Set<() => void> = new Set();  // Cycles waiting on a free slot
+
+  constructor(options: Partial<FetchOrchestratorOptions> = {}) {
+    this.options = { ...DEFAULT_FETCH_ORCHESTRATOR_OPTIONS, ...options };
+  }
+
+  /**
+   * Fetch every task within the limits and the cycle deadline
+   * @returns One outcome per task, in task order
+   */
+  run(tasks: FetchTask[]): Promise<FetchOutcome[]> {
+    if (tasks.length === 0) return Promise.resolve([]);
+
+    return new Promise(resolve => {
+      const outcomes: Array<FetchOutcome | undefined> = new Array(tasks.length);
+      const queue = tasks.map((task, index) => ({ task, index, domain: this.domainFor(task.adapter) }));
+      let remaining = tasks.length;
+      let done = false;
+      let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+      for (const { domain } of queue) {
+        domain.queued++;
+      }
+
+      const finish = () => {
+        if (done) return;
+        done = true;
+        clearTimeout(deadline);
+        if (wakeTimer) clearTimeout(wakeTimer);
+        this.pumps.delete(pump);
+        for (const { domain } of queue) {
+          domain.queued--;
+        }
+        resolve(tasks.map((task, i) => outcomes[i] ?? { task, status: 'late' }));
+      };
+
+      const pump = () => {
+        if (done) return;
+        if (wakeTimer) {
+          clearTimeout(wakeTimer);
+          wakeTimer = null;
+        }
+
+        const now = Date.now();
+        let wakeAt = Infinity;
+
+        for (let i = 0; i < queue.length && this.active < this.options.concurrency;) {
+          const { task, index, domain } = queue[i];
+          const waitMs = this.waitMs(domain, now);
+          if (waitMs > 0) {
+            wakeAt = Math.min(wakeAt, now + waitMs);
+            i++;
+            continue;
+          }
+
+          queue.splice(i, 1);
+          domain.queued--;
+          domain.active++;
+          domain.starts.push(now);
+          this.active++;
+
+          task.adapter.fetchPrices(task.assetId).then(
+            (prices): FetchOutcome => ({ task, status: 'ok', prices }),
+            (error): FetchOutcome => ({ task, status: 'failed', error })
+          ).then(outcome => {
+            domain.active--;
+            this.active--;
+            if (outcome.status === 'failed' && isCircuitOpen(outcome.error)) {
+              const slot = domain.starts.indexOf(now);
+              if (slot >= 0) domain.starts.splice(slot, 1);
+            }
+            if (!done) {
+              outcomes[index] = outcome;
+              if (--remaining === 0) finish();
+            }
+            this.wake();
+          });
+        }
+
+        // Rate limited domains free up at a known time; concurrency waits for a settle
+        if (Number.isFinite(wakeAt)) {
+          wakeTimer = setTimeout(pump, wakeAt - now);
+        }
+      };
+
+      const deadline = setTimeout(finish, this.options.deadlineMs);
+      this.pumps.add(pump);
+      pump();
+    });
+  }
+
+  getStatus(): DomainStatus[] {
+    return [...this.domains.values()].map(domain => ({
+      domain: domain.name,
+      adapters: [...domain.adapters],
+      concurrency: domain.concurrency,
+      rateLimits: domain.rateLimits.map(limit => ({ ...limit })),
+      active: domain.active,
+      queued: domain.queued,
+    }));
+  }
+
+  private wake(): void {
+    for (const pump of [...this.pumps]) {
+      pump();
+    }
+  }
+
+  /**
+   * Domain state for an adapter, tightening the domain's budget the first time
+   * a new adapter for it is seen
+   */
+  private domainFor(adapter: PriceAdapter): Domain {
+    const limits = adapter.limits;
+    const name = limits?.domain ?? adapter.name;
+
+    let domain = this.domains.get(name);
+    if (!domain) {
+      domain = {
+        name,
+        adapters: new Set(),
+        concurrency: limits?.concurrency ?? this.options.defaultConcurrency,
+        rateLimits: [],
+        starts: [],
+        active: 0,
+        queued: 0,
+      };
+      this.domains.set(name, domain);
+    }
+
+    if (!domain.adapters.has(adapter.name)) {
+      domain.adapters.add(adapter.name);
+      if (limits) {
+        domain.concurrency = Math.min(domain.concurrency, limits.concurrency);
+        domain.rateLimits.push({ ...limits.rateLimit });
+      }
+    }
+
+    return domain;
+  }
+
+  /**
+   * Time until the domain can start another request: 0 when it can now,
+   * Infinity when it is waiting on its concurrency cap
+   */
+  private waitMs(domain: Domain, now: number): number {
+    const longestWindow = Math.max(0, ...domain.rateLimits.map(limit => limit.windowMs));
+    while (domain.starts.length > 0 && domain.starts[0] <= now - longestWindow) {
+      domain.starts.shift();
+    }
+
+    if (domain.active >= domain.concurrency) return Infinity;
+
+    let waitMs = 0;
+    for (const { maxRequests, windowMs } of domain.rateLimits) {
+      const inWindow = domain.starts.filter(start => start > now - windowMs);
+      if (inWindow.length >= maxRequests) {
+        waitMs = Math.max(waitMs, inWindow[inWindow.length - maxRequests] + windowMs - now);
+      }
+    }
+    return waitMs;
+  }
+}
+
+function isCircuitOpen(error: unknown): boolean {
+  return error instanceof AdapterError && error.code === 'CIRCUIT_OPEN';
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   median,
+  weightedMedian,
   medianAbsoluteDeviation,
   filterOutliers,
   filterOutliersIQR,
@@ -28,6 +29,36 @@ describe('outlier detection', () => {
     });
   });
 
+  describe('weightedMedian', () => {
+    const equal = (values: number[]) => values.map(value => ({ value, weight: 0.7 }));
+
+    it('matches the plain median when weights are equal', () => {
+      for (const values of [[5], [1, 3, 5], [5, 1, 3], [1, 2, 3, 4], [4, 1, 3, 2], [10, 10, 20, 30, 40, 50]]) {
+        expect(weightedMedian(equal(values))).toBe(median(values));
+      }
+    });
+
+    it('returns 0 for empty input', () => {
+      expect(weightedMedian([])).toBe(0);
+    });
+
+    it('moves toward heavily weighted values', () => {
+      expect(weightedMedian([
+        { value: 100, weight: 1 },
+        { value: 200, weight: 1 },
+        { value: 300, weight: 5 },
+      ])).toBe(300);
+    });
+
+    it('ignores zero weights', () => {
+      expect(weightedMedian([
+        { value: 100, weight: 1 },
+        { value: 200, weight: 1 },
+        { value: 900, weight: 0 },
+      ])).toBe(150);
+    });
+  });
+
   describe('medianAbsoluteDeviation', () => {
     it('returns 0 for empty array', () => {
       expect(medianAbsoluteDeviation([])).toBe(0);
@@ -15,6 +15,32 @@ export function median(values: number[]): number {
   return sorted[mid];
 }
 
+/**
+ * Calculate the weighted median of values.
+ * When the cumulative weight lands exactly on half the total, the two
+ * neighbouring values are averaged, so equal weights give the plain median.
+ */
+export function weightedMedian(values: Array<{ value: number; weight: number }>): number {
+  const weighted = values.filter(v => v.weight > 0).sort((a, b) => a.value - b.value);
+  if (weighted.length === 0) return 0;
+
+  const half = weighted.reduce((sum, v) => sum + v.weight, 0) / 2;
+  const epsilon = half * 1e-9;
+  let cumulative = 0;
+
+  for (let i = 0; i < weighted.length; i++) {
+    cumulative += weighted[i].weight;
+    if (Math.abs(cumulative - half) <= epsilon && i + 1 < weighted.length) {
+      return (weighted[i].value + weighted[i + 1].value) / 2;
+    }
+    if (cumulative > half) {
+      return weighted[i].value;
+    }
+  }
+
+  return weighted[weighted.length - 1].value;
+}
+
 /**
  * Calculate Median Absolute Deviation (MAD)
  * More robust than standard deviation for detecting outliers
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { SourceReliabilityTracker } from './reliability.js';
+
+describe('SourceReliabilityTracker', () => {
+  it('scores unseen sources as fully reliable', () => {
+    const tracker = new SourceReliabilityTracker();
+
+    expect(tracker.getScore('newegg-scraper')).toBe(1);
+    expect(tracker.getAll()).toEqual([]);
+  });
+
+  it('keeps consistently good sources near 1', () => {
+    const tracker = new SourceReliabilityTracker();
+    for (let i = 0; i < 20; i++) {
+      tracker.recordFetch('newegg-scraper', true);
+      tracker.recordListings('newegg-scraper', 5, 5);
+      tracker.recordConsensus('newegg-scraper', 1610, 1600);
+    }
+
+    expect(tracker.getScore('newegg-scraper')).toBe(1);
+    expect(tracker.getReliability('newegg-scraper').observations).toBe(20);
+  });
+
+  it('lowers the score for failures, outliers and disagreement', () => {
+    const tracker = new SourceReliabilityTracker();
+    for (let i = 0; i < 10; i++) {
+      tracker.recordFetch('flaky', i % 2 === 0);
+      tracker.recordFetch('noisy', true);
+      tracker.recordListings('noisy', 4, 2);
+      tracker.recordFetch('off-market', true);
+      tracker.recordConsensus('off-market', 2000, 1600);
+    }
+
+    const flaky = tracker.getReliability('flaky');
+    const noisy = tracker.getReliability('noisy');
+    const offMarket = tracker.getReliability('off-market');
+
+    expect(flaky.availability).toBeLessThan(0.7);
+    expect(noisy.cleanliness).toBeLessThan(0.7);
+    expect(offMarket.agreement).toBeLessThan(0.4);
+    for (const r of [flaky, noisy, offMarket]) {
+      expect(r.score).toBeLessThan(0.7);
+    }
+  });
+
+  it('recovers as recent behaviour improves', () => {
+    const tracker = new SourceReliabilityTracker({ decay: 0.8 });
+    for (let i = 0; i < 10; i++) tracker.recordFetch('amazon-scraper', false);
+    const low = tracker.getScore('amazon-scraper');
+
+    for (let i = 0; i < 10; i++) tracker.recordFetch('amazon-scraper', true);
+
+    expect(tracker.getScore('amazon-scraper')).toBeGreaterThan(low);
+    expect(tracker.getScore('amazon-scraper')).toBeGreaterThan(0.8);
+  });
+
+  it('never scores below the floor', () => {
+    const tracker = new SourceReliabilityTracker({ minScore: 0.2 });
+    for (let i = 0; i < 50; i++) {
+      tracker.recordFetch('broken', false);
+      tracker.recordConsensus('broken', 1, 1600);
+    }
+
+    expect(tracker.getScore('broken')).toBe(0.2);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Source Reliability Tracker
+ *
+ * Learns a 0-1 reliability score per source from its history:
+ * - availability: how often its fetches succeed
+ * - cleanliness: how often its listings survive outlier filtering
+ * - agreement: how often its median lands near the published price
+ *
+ * Each rate is an exponentially decayed count with a neutral prior, so new
+ * sources start near 1 and recent behaviour outweighs old behaviour. The
+ * score is the product of the three rates, floored so no source is ever
+ * silenced outright.
+ */
+
+export interface ReliabilityOptions {
+  decay: number;               // Weight kept by past observations per new one (0-1)
+  priorWeight: number;         // Pseudo-observations of perfect behaviour for new sources
+  agreementTolerance: number;  // Max relative distance from consensus that counts as agreeing
+  minScore: number;            // Floor applied to every score
+}
+
+export const DEFAULT_RELIABILITY_OPTIONS: ReliabilityOptions = {
+  decay: 0.95,
+  priorWeight: 2,
+  agreementTolerance: 0.05,  // 5%
+  minScore: 0.1,
+};
+
+export interface SourceReliability {
+  name: string;
+  score: number;               // Product of the rates below, floored at minScore
+  availability: number;
+  cleanliness: number;
+  agreement: number;
+  observations: number;        // Fetches recorded so far
+}
+
+interface DecayedRate {
+  hits: number;
+  total: number;
+}
+
+interface SourceHistory {
+  fetches: DecayedRate;
+  listings: DecayedRate;
+  consensus: DecayedRate;
+  observations: number;
+}
+
+export class SourceReliabilityTracker {
+  private options: ReliabilityOptions;
+  private history: Map<string, SourceHistory> = new Map();
+
+  constructor(options: Partial<ReliabilityOptions> = {}) {
+    this.options = { ...DEFAULT_RELIABILITY_OPTIONS, ...options };
+  }
+
+  /**
+   * Record the outcome of one fetch from a source
+   */
+  recordFetch(source: string, succeeded: boolean): void {
+    const history = this.getHistory(source);
+    this.observe(history.fetches, succeeded ? 1 : 0, 1);
+    history.observations++;
+  }
+
+  /**
+   * Record how many of a source's listings survived outlier filtering
+   */
+  recordListings(source: string, total: number, kept: number): void {
+    if (total <= 0) return;
+    this.observe(this.getHistory(source).listings, kept / total, 1);
+  }
+
+  /**
+   * Record whether a source's median price agreed with the published price
+   */
+  recordConsensus(source: string, sourcePrice: number, consensusPrice: number): void {
+    if (consensusPrice <= 0) return;
+    const deviation = Math.abs(sourcePrice - consensusPrice) / consensusPrice;
+    const agreed = deviation <= this.options.agreementTolerance;
+    this.observe(this.getHistory(source).consensus, agreed ? 1 : 0, 1);
+  }
+
+  /**
+   * Current reliability score for a source (1 for unseen sources)
+   */
+  getScore(source: string): number {
+    return this.getReliability(source).score;
+  }
+
+  /**
+   * Score breakdown for a source
+   */
+  getReliability(source: string): SourceReliability {
+    const history = this.history.get(source);
+    const availability = this.rate(history?.fetches);
+    const cleanliness = this.rate(history?.listings);
+    const agreement = this.rate(history?.consensus);
+
+    return {
+      name: source,
+      score: Math.max(this.options.minScore, availability * cleanliness * agreement),
+      availability,
+      cleanliness,
+      agreement,
+      observations: history?.observations ?? 0,
+    };
+  }
+
+  /**
+   * Score breakdown for every source seen so far
+   */
+  getAll(): SourceReliability[] {
+    return Array.from(this.history.keys()).map(source => this.getReliability(source));
+  }
+
+  private getHistory(source: string): SourceHistory {
+    let history = this.history.get(source);
+    if (!history) {
+      history = {
+        fetches: { hits: 0, total: 0 },
+        listings: { hits: 0, total: 0 },
+        consensus: { hits: 0, total: 0 },
+        observations: 0,
+      };
+      this.history.set(source, history);
+    }
+    return history;
+  }
+
+  private observe(rate: DecayedRate, hit: number, weight: number): void {
+    rate.hits = rate.hits * this.options.decay + hit * weight;
+    rate.total = rate.total * this.options.decay + weight;
+  }
+
+  private rate(rate: DecayedRate | undefined): number {
+    const { priorWeight } = this.options;
+    if (!rate) return 1;
+    return (rate.hits + priorWeight) / (rate.total + priorWeight);
+  }
+}
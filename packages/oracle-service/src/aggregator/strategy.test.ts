@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { createPricingStrategy, listingSourceWeights } from './strategy.js';
+import type { PricePoint } from '../adapters/types.js';
+
+describe('pricing strategies', () => {
+  const createPrices = (values: number[], source = 'test'): PricePoint[] =>
+    values.map((price) => ({
+      price,
+      source,
+      timestamp: Date.now(),
+      assetId: 'GPU_RTX4090',
+    }));
+
+  describe('listingSourceWeights', () => {
+    it('weights sources by listing count', () => {
+      const prices = [
+        ...createPrices([100, 101, 102], 'newegg'),
+        ...createPrices([99], 'amazon'),
+      ];
+      const weights = listingSourceWeights(prices);
+
+      expect(weights.find((w) => w.name === 'newegg')?.weight).toBe(0.75);
+      expect(weights.find((w) => w.name === 'amazon')?.weight).toBe(0.25);
+    });
+  });
+
+  describe('median', () => {
+    it('returns the median price', () => {
+      const result = createPricingStrategy('median').calculate(createPrices([100, 200, 300]));
+
+      expect(result.method).toBe('median');
+      expect(result.price).toBe(200);
+      expect(result.winsorized).toBe(false);
+    });
+
+    it('returns zero price and confidence without listings', () => {
+      const result = createPricingStrategy('median').calculate([]);
+
+      expect(result.price).toBe(0);
+      expect(result.confidence).toBe(0);
+    });
+
+    it('raises confidence with more sources', () => {
+      const strategy = createPricingStrategy('median');
+      const one = strategy.calculate(createPrices([100, 101], 'a'));
+      const three = strategy.calculate([
+        ...createPrices([100], 'a'),
+        ...createPrices([101], 'b'),
+        ...createPrices([102], 'c'),
+      ]);
+
+      expect(three.confidence).toBeGreaterThan(one.confidence);
+      expect(three.confidence).toBe(1);
+    });
+
+    it('weights listings by source reliability', () => {
+      const prices = [
+        ...createPrices([100, 102], 'trusted'),
+        ...createPrices([150, 151, 152], 'unreliable'),
+      ];
+      const strategy = createPricingStrategy('median');
+
+      expect(strategy.calculate(prices).price).toBe(150);
+      expect(strategy.calculate(prices, new Map([['trusted', 1], ['unreliable', 0.2]])).price).toBe(102);
+      expect(strategy.calculate(prices, new Map([['trusted', 0.5], ['unreliable', 0.5]])).price).toBe(150);
+    });
+  });
+
+  describe('nftperp', () => {
+    it('reports components and method', () => {
+      const result = createPricingStrategy('nftperp').calculate(createPrices([100, 102, 98, 101]));
+
+      expect(result.method).toBe('nftperp');
+      expect(result.components.tradeWeightedFloor).toBeCloseTo(100.25, 2);
+      expect(result.price).toBeGreaterThan(0);
+    });
+  });
+
+  describe('ventuals', () => {
+    it('smooths the listing median with an EMA', () => {
+      const result = createPricingStrategy('ventuals').calculate(createPrices([100, 200, 300]));
+
+      expect(result.method).toBe('ventuals');
+      expect(result.components.markPriceEma).toBe(200);
+      expect(result.price).toBe(200);
+    });
+  });
+
+  describe('hybrid', () => {
+    it('combines nftperp and ventuals components', () => {
+      const result = createPricingStrategy('hybrid').calculate(createPrices([100, 102, 98, 101]));
+
+      expect(result.method).toBe('hybrid');
+      expect(result.components.salesFloor).toBeDefined();
+      expect(result.components.markPriceEma).toBeDefined();
+      expect(result.confidence).toBeGreaterThan(0);
+    });
+
+    it('returns zero price without listings', () => {
+      const result = createPricingStrategy('hybrid').calculate([]);
+
+      expect(result.method).toBe('hybrid');
+      expect(result.price).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Pricing Strategies
+ *
+ * Selects how filtered listings are turned into a single price for an asset.
+ * `median` is the original behaviour; the others delegate to the illiquid
+ * asset oracles in `illiquid-oracle.ts`.
+ */
+
+import type { PricePoint } from '../adapters/types.js';
+import type { PricingStrategyName } from '../config/index.js';
+import { median, weightedMedian } from './outlier.js';
+import {
+  NFTperpStyleOracle,
+  VentualsStyleOracle,
+  HybridIlliquidOracle,
+  calculateSourceWeights,
+  DEFAULT_ILLIQUID_CONFIG,
+  type OracleConfig,
+  type IlliquidPriceResult,
+  type SourceWeight,
+} from './illiquid-oracle.js';
+import { systemClock, type Clock } from '../utils/clock.js';
+
+export interface PricingResult extends Omit<IlliquidPriceResult, 'method'> {
+  method: PricingStrategyName;
+}
+
+export interface PricingStrategy {
+  readonly name: PricingStrategyName;
+
+  /**
+   * Calculate a price from outlier-filtered listings
+   * @param sourceWeights - Optional per-source multipliers (e.g. adapter health), default 1
+   */
+  calculate(prices: PricePoint[], sourceWeights?: Map<string, number>): PricingResult;
+}
+
+/**
+ * Build volume-based source weights from listing counts,
+ * scaled by optional per-source multipliers
+ */
+export function listingSourceWeights(
+  prices: PricePoint[],
+  multipliers?: Map<string, number>
+): SourceWeight[] {
+  const stats = new Map<string, { volume: number; reliability: number }>();
+  for (const p of prices) {
+    const multiplier = multipliers?.get(p.source) ?? 1;
+    const existing = stats.get(p.source) || { volume: 0, reliability: multiplier };
+    existing.volume += multiplier;
+    stats.set(p.source, existing);
+  }
+  return calculateSourceWeights(stats);
+}
+
+function emptyResult(method: PricingStrategyName): PricingResult {
+  return {
+    price: 0,
+    confidence: 0,
+    method,
+    components: {},
+    volatilityAdjusted: false,
+    winsorized: false,
+  };
+}
+
+/**
+ * Median of listings, each weighted by its source's multiplier.
+ * Equal multipliers give the plain median (original aggregation).
+ */
+class MedianStrategy implements PricingStrategy {
+  readonly name = 'median' as const;
+
+  calculate(prices: PricePoint[], sourceWeights?: Map<string, number>): PricingResult {
+    if (prices.length === 0) return emptyResult(this.name);
+
+    // Confidence grows with the number of distinct sources
+    const sourceCount = new Set(prices.map(p => p.source)).size;
+    const weighted = prices.map(p => ({ value: p.price, weight: sourceWeights?.get(p.source) ?? 1 }));
+
+    return {
+      ...emptyResult(this.name),
+      // Fall back to the plain median if every source is weighted to zero
+      price: weighted.some(w => w.weight > 0) ? weightedMedian(weighted) : median(prices.map(p => p.price)),
+      confidence: Math.min(sourceCount / 3, 1),
+    };
+  }
+}
+
+class NFTperpStrategy implements PricingStrategy {
+  readonly name = 'nftperp' as const;
+  private oracle: NFTperpStyleOracle;
+
+  constructor(config: OracleConfig, clock: Clock) {
+    this.oracle = new NFTperpStyleOracle(config, clock);
+  }
+
+  calculate(prices: PricePoint[], sourceWeights?: Map<string, number>): PricingResult {
+    if (prices.length === 0) return emptyResult(this.name);
+    const weights = listingSourceWeights(prices, sourceWeights);
+    return { ...this.oracle.calculatePrice(prices, weights), method: this.name };
+  }
+}
+
+class VentualsStrategy implements PricingStrategy {
+  readonly name = 'ventuals' as const;
+  private oracle: VentualsStyleOracle;
+
+  constructor(config: OracleConfig, clock: Clock) {
+    this.oracle = new VentualsStyleOracle(config, undefined, clock);
+  }
+
+  calculate(prices: PricePoint[]): PricingResult {
+    if (prices.length === 0) return emptyResult(this.name);
+
+    // Listing median acts as the mark price; no external valuation feed yet
+    const markPrice = median(prices.map(p => p.price));
+    return { ...this.oracle.calculatePrice(markPrice, null), method: this.name };
+  }
+}
+
+class HybridStrategy implements PricingStrategy {
+  readonly name = 'hybrid' as const;
+  private oracle: HybridIlliquidOracle;
+
+  constructor(config: OracleConfig, clock: Clock) {
+    this.oracle = new HybridIlliquidOracle(config, clock);
+  }
+
+  calculate(prices: PricePoint[], sourceWeights?: Map<string, number>): PricingResult {
+    if (prices.length === 0) return emptyResult(this.name);
+    const weights = listingSourceWeights(prices, sourceWeights);
+    return { ...this.oracle.calculatePrice(prices, weights), method: this.name };
+  }
+}
+
+/**
+ * Create a pricing strategy instance.
+ * Strategies keep state (EMA, volatility history), so use one per asset.
+ */
+export function createPricingStrategy(
+  name: PricingStrategyName,
+  config: OracleConfig = DEFAULT_ILLIQUID_CONFIG,
+  clock: Clock = systemClock
+): PricingStrategy {
+  switch (name) {
+    case 'nftperp':
+      return new NFTperpStrategy(config, clock);
+    case 'ventuals':
+      return new VentualsStrategy(config, clock);
+    case 'hybrid':
+      return new HybridStrategy(config, clock);
+    case 'median':
+    default:
+      return new MedianStrategy();
+  }
+}
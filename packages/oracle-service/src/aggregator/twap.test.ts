@@ -90,6 +90,42 @@ describe('TWAPCalculator', () => {
     });
   });
 
+  describe('restore', () => {
+    it('restores observations within the window', () => {
+      const now = Date.now();
+
+      twap.restore(ASSET_ID, [
+        { price: 900, timestamp: now - 400000 }, // outside window
+        { price: 1000, timestamp: now - 120000 },
+        { price: 1100, timestamp: now - 60000 },
+      ]);
+
+      expect(twap.getObservationCount(ASSET_ID)).toBe(2);
+      expect(twap.getSpotPrice(ASSET_ID)).toBe(1100);
+    });
+
+    it('continues the TWAP from restored observations', () => {
+      const now = Date.now();
+
+      twap.restore(ASSET_ID, [{ price: 1000, timestamp: now - 120000 }]);
+      twap.addObservation(ASSET_ID, 1100, now);
+
+      vi.setSystemTime(now + 60000);
+
+      const expectedTWAP = (1000 * 120000 + 1100 * 60000) / 180000;
+      expect(twap.getTWAP(ASSET_ID)).toBeCloseTo(expectedTWAP, 2);
+    });
+
+    it('skips duplicate timestamps', () => {
+      const now = Date.now();
+
+      twap.addObservation(ASSET_ID, 1000, now);
+      twap.restore(ASSET_ID, [{ price: 1000, timestamp: now }]);
+
+      expect(twap.getObservationCount(ASSET_ID)).toBe(1);
+    });
+  });
+
   describe('clear', () => {
     it('clears observations for specific asset', () => {
       twap.addObservation(ASSET_ID, 1000);
@@ -1,6 +1,7 @@
 import type { AssetId } from '../config/index.js';
+import { systemClock, type Clock } from '../utils/clock.js';
 
-interface PriceObservation {
+export interface PriceObservation {
   price: number;
   timestamp: number;
 }
@@ -14,14 +15,14 @@ export class TWAPCalculator {
   private observations: Map<AssetId, PriceObservation[]> = new Map();
   private windowMs: number;
 
-  constructor(windowMs: number = 300000) { // Default 5 minutes
+  constructor(windowMs: number = 300000, private clock: Clock = systemClock) { // Default 5 minutes
     this.windowMs = windowMs;
   }
 
   /**
    * Add a new price observation
    */
-  addObservation(assetId: AssetId, price: number, timestamp: number = Date.now()): void {
+  addObservation(assetId: AssetId, price: number, timestamp: number = this.clock.now()): void {
     const obs = this.observations.get(assetId) || [];
     obs.push({ price, timestamp });
     this.observations.set(assetId, obs);
@@ -30,6 +31,42 @@ export class TWAPCalculator {
     this.prune(assetId);
   }
 
+  /**
+   * Restore previously persisted observations (e.g. after a restart).
+   * Observations already held for the asset are kept; duplicates by
+   * timestamp are dropped.
+   */
+  restore(assetId: AssetId, observations: PriceObservation[]): void {
+    const existing = this.observations.get(assetId) || [];
+    const seen = new Set(existing.map(o => o.timestamp));
+    const merged = [...existing];
+
+    for (const o of observations) {
+      if (seen.has(o.timestamp)) continue;
+      seen.add(o.timestamp);
+      merged.push({ price: o.price, timestamp: o.timestamp });
+    }
+
+    merged.sort((a, b) => a.timestamp - b.timestamp);
+    this.observations.set(assetId, merged);
+    this.prune(assetId);
+  }
+
+  /**
+   * Get a copy of the observations currently in the window
+   */
+  getObservations(assetId: AssetId): PriceObservation[] {
+    this.prune(assetId);
+    return [...(this.observations.get(assetId) || [])];
+  }
+
+  /**
+   * Get the window size in milliseconds
+   */
+  getWindowMs(): number {
+    return this.windowMs;
+  }
+
   /**
    * Remove observations outside the window
    */
@@ -37,7 +74,7 @@ export class TWAPCalculator {
     const obs = this.observations.get(assetId);
     if (!obs) return;
 
-    const cutoff = Date.now() - this.windowMs;
+    const cutoff = this.clock.now() - this.windowMs;
     const filtered = obs.filter(o => o.timestamp >= cutoff);
     this.observations.set(assetId, filtered);
   }
@@ -72,7 +109,7 @@ export class TWAPCalculator {
     }
 
     // Include the last observation weighted to current time
-    const now = Date.now();
+    const now = this.clock.now();
     const lastObs = sorted[sorted.length - 1];
     const lastDuration = now - lastObs.timestamp;
 
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import {
+  PriceAttestor,
+  canonicalPriceMessage,
+  createPriceAttestor,
+  verifyPriceAttestation,
+  type AttestedFields,
+} from './attestor.js';
+
+const SEED = '0x' + '11'.repeat(32);
+
+const price: AttestedFields = {
+  assetId: 'GPU_RTX4090',
+  condition: 'new',
+  priceInt: BigInt('159999000000'),
+  twap: 1605.5,
+  timestamp: 1704067200000,
+  sourceCount: 3,
+};
+
+describe('PriceAttestor', () => {
+  it('should encode prices canonically', () => {
+    expect(canonicalPriceMessage(price)).toBe(
+      'hardex-price-v1\nGPU_RTX4090\nnew\n159999000000\n160550000000\n1704067200000\n3'
+    );
+    // priceInt as serialized in JSON responses encodes identically
+    expect(canonicalPriceMessage({ ...price, priceInt: '159999000000' }))
+      .toBe(canonicalPriceMessage(price));
+  });
+
+  it('should produce verifiable signatures', () => {
+    const attestor = new PriceAttestor(SEED);
+    const attestation = attestor.attest(price);
+
+    expect(attestation.algorithm).toBe('ed25519');
+    expect(attestation.publicKey).toHaveLength(64);
+    expect(verifyPriceAttestation(price, attestation, attestor.publicKey)).toBe(true);
+  });
+
+  it('should reject tampered prices and other keys', () => {
+    const attestor = new PriceAttestor(SEED);
+    const attestation = attestor.attest(price);
+    const other = new PriceAttestor('0x' + '22'.repeat(32));
+
+    expect(verifyPriceAttestation({ ...price, priceInt: BigInt(1) }, attestation, attestor.publicKey)).toBe(false);
+    expect(verifyPriceAttestation(price, attestation, other.publicKey)).toBe(false);
+  });
+
+  it('should accept PEM keys and reject non-ed25519 keys', () => {
+    const ed25519 = generateKeyPairSync('ed25519').privateKey.export({ format: 'pem', type: 'pkcs8' });
+    expect(new PriceAttestor(ed25519.toString()).publicKey).toHaveLength(64);
+
+    const ec = generateKeyPairSync('ec', { namedCurve: 'secp256k1' })
+      .privateKey.export({ format: 'pem', type: 'pkcs8' });
+    expect(() => new PriceAttestor(ec.toString())).toThrow(/ed25519/);
+    expect(() => new PriceAttestor('abcd')).toThrow(/32-byte/);
+  });
+
+  it('should be disabled without a key', () => {
+    expect(createPriceAttestor(undefined)).toBeNull();
+  });
+});
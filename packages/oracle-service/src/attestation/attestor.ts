@@ -0,0 +1,131 @@
+/**
+ * Price Attestations
+ *
+ * Signs API price responses with an ed25519 key so consumers can check the
+ * data came from this oracle. The signature covers a canonical, line-based
+ * encoding of the price rather than the JSON body, so it survives proxies
+ * that reorder or add fields:
+ *
+ *   hardex-price-v1
+ *   <assetId>
+ *   <condition>
+ *   <priceInt>
+ *   <twap as 8-decimal integer>
+ *   <timestamp>
+ *   <sourceCount>
+ *
+ * The dashboard reimplements this encoding in src/utils/attestation.ts.
+ */
+
+import { createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'crypto';
+import type { AggregatedPrice } from '../aggregator/index.js';
+
+export const ATTESTATION_VERSION = 'hardex-price-v1';
+
+// DER prefixes wrapping a raw 32-byte ed25519 key as PKCS#8 / SPKI
+const PKCS8_ED25519_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const SPKI_ED25519_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface PriceAttestation {
+  algorithm: 'ed25519';
+  version: typeof ATTESTATION_VERSION;
+  publicKey: string;        // Raw 32-byte key, hex
+  signature: string;        // 64-byte signature, hex
+}
+
+export type AttestedFields = Pick<
+  AggregatedPrice,
+  'assetId' | 'condition' | 'twap' | 'timestamp' | 'sourceCount'
+> & { priceInt: bigint | string };
+
+/**
+ * Canonical message signed for a price
+ */
+export function canonicalPriceMessage(price: AttestedFields): string {
+  return [
+    ATTESTATION_VERSION,
+    price.assetId,
+    price.condition,
+    price.priceInt.toString(),
+    BigInt(Math.round(price.twap * 1e8)).toString(),
+    price.timestamp.toString(),
+    price.sourceCount.toString(),
+  ].join('\n');
+}
+
+/**
+ * Parse an ed25519 private key from a hex-encoded 32-byte seed or a PEM string
+ */
+function parsePrivateKey(key: string): KeyObject {
+  const trimmed = key.trim();
+  if (trimmed.startsWith('-----BEGIN')) {
+    return createPrivateKey(trimmed);
+  }
+
+  const seed = Buffer.from(trimmed.replace(/^0x/, ''), 'hex');
+  if (seed.length !== 32) {
+    throw new Error('Attestation key must be a 32-byte hex seed or a PEM private key');
+  }
+  return createPrivateKey({
+    key: Buffer.concat([PKCS8_ED25519_PREFIX, seed]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+}
+
+export class PriceAttestor {
+  private readonly privateKey: KeyObject;
+  readonly publicKey: string;
+
+  constructor(key: string) {
+    this.privateKey = parsePrivateKey(key);
+    if (this.privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Attestation key must be ed25519, got ${this.privateKey.asymmetricKeyType}`);
+    }
+
+    const spki = createPublicKey(this.privateKey).export({ format: 'der', type: 'spki' });
+    this.publicKey = spki.subarray(SPKI_ED25519_PREFIX.length).toString('hex');
+  }
+
+  attest(price: AttestedFields): PriceAttestation {
+    const signature = sign(null, Buffer.from(canonicalPriceMessage(price)), this.privateKey);
+    return {
+      algorithm: 'ed25519',
+      version: ATTESTATION_VERSION,
+      publicKey: this.publicKey,
+      signature: signature.toString('hex'),
+    };
+  }
+}
+
+/**
+ * Check an attestation against a price and the oracle's public key (hex)
+ */
+export function verifyPriceAttestation(
+  price: AttestedFields,
+  attestation: PriceAttestation,
+  publicKey: string
+): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([SPKI_ED25519_PREFIX, Buffer.from(publicKey, 'hex')]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(
+      null,
+      Buffer.from(canonicalPriceMessage(price)),
+      key,
+      Buffer.from(attestation.signature, 'hex')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create an attestor from a configured key (null when attestations are disabled)
+ */
+export function createPriceAttestor(key: string | undefined): PriceAttestor | null {
+  return key ? new PriceAttestor(key) : null;
+}
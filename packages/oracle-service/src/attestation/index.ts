@@ -0,0 +1,8 @@
+export {
+  PriceAttestor,
+  createPriceAttestor,
+  canonicalPriceMessage,
+  verifyPriceAttestation,
+  ATTESTATION_VERSION,
+} from './attestor.js';
+export type { PriceAttestation, AttestedFields } from './attestor.js';
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig } from '../config/index.js';
+import type { ArchivedListing } from '../storage/listings.js';
+import { applyVariant, groupCycles, runBacktest } from './replay.js';
+import { formatSeriesCsv, formatSummaryCsv, summarizeSeries } from './report.js';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse('2025-01-01T00:00:00Z');
+
+// Two retailers each cycle; the market jumps 25% at the fifth cycle
+const archive: ArchivedListing[] = [0, 1, 2, 3, 4, 5].flatMap(cycle => {
+  const level = cycle >= 4 ? 2000 : 1600;
+  const listing = (source: string, price: number): ArchivedListing => ({
+    cycleId: `cycle-${cycle}`,
+    assetId: 'GPU_RTX4090',
+    source,
+    price,
+    listedPrice: price,
+    currency: 'USD',
+    region: 'us',
+    timestamp: START + cycle * HOUR + (source === 'b' ? 1000 : 0),
+    condition: 'new',
+    productName: 'NVIDIA GeForce RTX 4090',
+    seller: null,
+    url: null,
+    status: 'accepted',
+  });
+  return [listing('a', level), listing('a', level + 10), listing('a', level + 20), listing('b', level + 5)];
+});
+
+describe('backtest', () => {
+  const base = { ...loadConfig(), pricingStrategy: 'median' as const, assetPricingStrategies: {} };
+
+  it('groups archived listings into cycles at their last listing time', () => {
+    const cycles = groupCycles([...archive].reverse());
+
+    expect(cycles.map(c => c.id)).toEqual(['cycle-0', 'cycle-1', 'cycle-2', 'cycle-3', 'cycle-4', 'cycle-5']);
+    expect(cycles[0].time).toBe(START + 1000);
+    expect(cycles[0].listings.get('GPU_RTX4090')).toHaveLength(4);
+  });
+
+  it('applies variant overrides on the base config', () => {
+    const config = applyVariant(base, { name: 'tight', outlierThreshold: 2, quorum: { minSources: 3 } });
+
+    expect(config.outlierThreshold).toBe(2);
+    expect(config.quorum).toEqual({ ...base.quorum, minSources: 3 });
+    expect(config.pricingStrategy).toBe('median');
+  });
+
+  it('replays each variant on the archived timeline', async () => {
+    const report = await runBacktest(archive, base, [
+      { name: 'hold', guardrails: { mode: 'hold', confirmations: 2 } },
+      { name: 'clamp', guardrails: { mode: 'clamp' } },
+      { name: 'three-sources', quorum: { minSources: 3 } },
+    ]);
+
+    expect(report).toMatchObject({ from: START + 1000, to: START + 5 * HOUR + 1000, cycles: 6, listings: 24 });
+
+    const [hold, clamp, strict] = report.variants.map(v => v.assets[0]);
+
+    // The jump is held for confirmation, so the feed lags the market for a cycle
+    expect(hold.series.map(p => p.price)).toEqual([1607.5, 1607.5, 1607.5, 1607.5, 1607.5, 2007.5]);
+    expect(hold.series[4]).toMatchObject({ reference: 2007.5, fresh: false, ageMs: HOUR });
+    expect(hold).toMatchObject({ cycles: 6, published: 6, staleCycles: 1, maxAgeMs: HOUR });
+    expect(hold.maxJump).toBeCloseTo(0.2488, 4);
+    expect(hold.trackingError).toBeCloseTo(Math.sqrt((1607.5 / 2007.5 - 1) ** 2 / 6), 6);
+
+    // Clamping moves part of the way at once
+    expect(clamp.series[4].price).toBeCloseTo(1607.5 * 1.15, 6);
+    expect(clamp.maxJump).toBeCloseTo(0.15, 6);
+
+    // Two retailers never meet a three-source quorum
+    expect(strict).toMatchObject({ published: 0, staleCycles: 6, trackingError: null, maxJump: null });
+  });
+
+  it('replays non-USD listings at their archived USD prices', async () => {
+    const [template] = archive;
+    const listing = (source: string, price: number, listedPrice: number, currency: string): ArchivedListing => ({
+      ...template,
+      source,
+      price,
+      listedPrice,
+      currency,
+      region: currency === 'EUR' ? 'eu' : 'us',
+      status: currency === 'JPY' ? 'unconverted' : 'accepted',
+    });
+    // Archived at 0.8 EUR per USD, far from the built-in rate
+    const listings = [
+      listing('a', 1600, 1600, 'USD'),
+      listing('a', 1610, 1610, 'USD'),
+      listing('de', 1620, 1296, 'EUR'),
+      listing('de', 1630, 1304, 'EUR'),
+      listing('jp', 240000, 240000, 'JPY'),
+    ];
+
+    expect(groupCycles(listings)[0].listings.get('GPU_RTX4090')?.[2]).toMatchObject({
+      price: 1620, currency: 'USD', listed: { price: 1296, currency: 'EUR' }, region: 'eu',
+    });
+
+    const report = await runBacktest(listings, base, [{ name: 'median' }]);
+    expect(report.variants[0].assets[0].series).toEqual([
+      expect.objectContaining({ price: 1615, reference: 1615 }),
+    ]);
+  });
+
+  it('summarizes series and writes CSV', async () => {
+    expect(summarizeSeries([])).toEqual({
+      cycles: 0, published: 0, trackingError: null, maxJump: null, volatility: null, staleCycles: 0, maxAgeMs: null,
+    });
+
+    const report = await runBacktest(archive, base, [{ name: 'base, median' }]);
+    const summary = formatSummaryCsv(report).trim().split('\n');
+    const series = formatSeriesCsv(report).trim().split('\n');
+
+    expect(summary[0]).toBe('variant,assetId,cycles,published,trackingError,maxJump,volatility,staleCycles,maxAgeMs');
+    expect(summary[1]).toMatch(/^"base, median",GPU_RTX4090,6,6,/);
+    expect(series).toHaveLength(7);
+    expect(series[1]).toBe('"base, median",GPU_RTX4090,2025-01-01T00:00:01.000Z,cycle-0,1607.5,1607.5,0,true');
+  });
+});
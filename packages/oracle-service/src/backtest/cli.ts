@@ -0,0 +1,98 @@
+/**
+ * Backtest CLI
+ *
+ *   pnpm backtest [--archive file|supabase] [--path data/listings.jsonl]
+ *                 [--from 2025-01-01] [--to 2025-01-31] [--variants variants.json]
+ *                 [--format json|csv|series-csv] [--out report.json]
+ *
+ * Replays the raw listing archive through each variant and writes the
+ * comparison. Variants are a JSON array of overrides on the environment's
+ * config, e.g. [{ "name": "tight", "outlierThreshold": 2 }, { "name": "hybrid",
+ * "pricingStrategy": "hybrid" }, { "name": "no-screening", "manipulation":
+ * { "enabled": false } }]; without a file, every pricing strategy is
+ * compared. Times are ISO dates or Unix ms; the default range is the last 7 days.
+ * Set LOG_LEVEL=warn to quiet the per-update log lines.
+ */
+
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { loadConfig } from '../config/index.js';
+import { FileListingArchive, SupabaseListingArchive, type ListingArchive } from '../storage/listings.js';
+import { initSupabase } from '../storage/supabase.js';
+import { BacktestVariantsSchema, DEFAULT_BACKTEST_VARIANTS, runBacktest } from './replay.js';
+import { formatSeriesCsv, formatSummaryCsv } from './report.js';
+
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      archive: { type: 'string', default: 'file' },
+      path: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      variants: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+      out: { type: 'string' },
+    },
+  });
+
+  const config = loadConfig();
+  const to = values.to ? parseTime(values.to) : Date.now();
+  const from = values.from ? parseTime(values.from) : to - DEFAULT_RANGE_MS;
+
+  let archive: ListingArchive;
+  if (values.archive === 'supabase') {
+    if (!initSupabase()) throw new Error('Supabase is not configured');
+    archive = new SupabaseListingArchive();
+  } else if (values.archive === 'file') {
+    archive = new FileListingArchive(values.path ?? config.listingArchivePath);
+  } else {
+    throw new Error(`Unknown archive: ${values.archive} (expected file or supabase)`);
+  }
+
+  const variants = values.variants
+    ? BacktestVariantsSchema.parse(JSON.parse(await fs.readFile(values.variants, 'utf8')))
+    : DEFAULT_BACKTEST_VARIANTS;
+
+  const listings = await archive.range(from, to);
+  if (listings.length === 0) {
+    throw new Error(`No archived listings between ${new Date(from).toISOString()} and ${new Date(to).toISOString()}`);
+  }
+
+  const report = await runBacktest(listings, config, variants);
+
+  let output: string;
+  switch (values.format) {
+    case 'csv':
+      output = formatSummaryCsv(report);
+      break;
+    case 'series-csv':
+      output = formatSeriesCsv(report);
+      break;
+    case 'json':
+      output = JSON.stringify(report, null, 2) + '\n';
+      break;
+    default:
+      throw new Error(`Unknown format: ${values.format} (expected json, csv or series-csv)`);
+  }
+
+  if (values.out) {
+    await fs.writeFile(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+function parseTime(value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time: ${value}`);
+  }
+  return time;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
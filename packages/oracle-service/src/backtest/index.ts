@@ -0,0 +1,11 @@
+export {
+  runBacktest,
+  groupCycles,
+  applyVariant,
+  BacktestVariantSchema,
+  BacktestVariantsSchema,
+  DEFAULT_BACKTEST_VARIANTS,
+} from './replay.js';
+export type { AssetBacktest, BacktestReport, BacktestVariant, ReplayCycle, VariantBacktest } from './replay.js';
+export { summarizeSeries, formatSummaryCsv, formatSeriesCsv } from './report.js';
+export type { SeriesPoint, SeriesStats } from './report.js';
@@ -0,0 +1,249 @@
+/**
+ * Backtest Replay
+ *
+ * Feeds archived listings (see storage/listings.ts) back through fresh
+ * PriceAggregators, one per variant, on a virtual clock that jumps to each
+ * archived cycle's time. TWAP windows, EMAs, guardrail bands and staleness
+ * all see the historical timeline, so a variant's series is what the feed
+ * would have published had it run with those settings.
+ *
+ * Every archived listing is replayed regardless of its original status, so
+ * classification, bounds and outlier filtering are re-run with the variant's
+ * settings, and manipulation screening sees the archived cycles in order.
+ * Listings are replayed at their archived USD prices, so conversions use the
+ * FX rates in effect when they were collected; listings that had no rate then
+ * never fed a price and are skipped. Only the new-listing series is compared. Cycles in which an
+ * asset had no listings at all left nothing in the archive and are not
+ * replayed for that asset.
+ */
+
+import { z } from 'zod';
+import type { PriceAdapter, PricePoint } from '../adapters/types.js';
+import { classifyListings } from '../adapters/listing-classifier.js';
+import {
+  GuardrailPolicySchema,
+  ManipulationPolicySchema,
+  PRICING_STRATEGIES,
+  QuorumPolicySchema,
+  getAssetDefinition,
+  isAssetId,
+  type AssetId,
+  type Config,
+} from '../config/index.js';
+import { PriceAggregator } from '../aggregator/aggregator.js';
+import { FetchOrchestrator } from '../aggregator/orchestrator.js';
+import { median } from '../aggregator/outlier.js';
+import type { ArchivedListing } from '../storage/listings.js';
+import { VirtualClock } from '../utils/clock.js';
+import { summarizeSeries, type SeriesPoint, type SeriesStats } from './report.js';
+
+export const BacktestVariantSchema = z.object({
+  name: z.string().min(1),
+  pricingStrategy: z.enum(PRICING_STRATEGIES).optional(),  // Applies to every asset
+  outlierThreshold: z.number().positive().optional(),
+  twapWindowMs: z.number().positive().optional(),
+  quorum: QuorumPolicySchema.partial().optional(),
+  guardrails: GuardrailPolicySchema.partial().optional(),
+  manipulation: ManipulationPolicySchema.partial().optional(),
+});
+
+export type BacktestVariant = z.infer<typeof BacktestVariantSchema>;
+
+export const BacktestVariantsSchema = z.array(BacktestVariantSchema).min(1).superRefine((variants, ctx) => {
+  const names = new Set<string>();
+  for (const variant of variants) {
+    if (names.has(variant.name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate variant name: ${variant.name}` });
+    }
+    names.add(variant.name);
+  }
+});
+
+/**
+ * One variant per pricing strategy, otherwise on the base settings
+ */
+export const DEFAULT_BACKTEST_VARIANTS: BacktestVariant[] = PRICING_STRATEGIES.map(name => ({
+  name,
+  pricingStrategy: name,
+}));
+
+export interface AssetBacktest extends SeriesStats {
+  assetId: AssetId;
+  series: SeriesPoint[];
+}
+
+export interface VariantBacktest {
+  variant: BacktestVariant;
+  assets: AssetBacktest[];
+}
+
+export interface BacktestReport {
+  from: number | null;        // First replayed cycle
+  to: number | null;          // Last replayed cycle
+  cycles: number;
+  listings: number;
+  variants: VariantBacktest[];
+}
+
+/**
+ * An archived cycle: its listings per asset, replayed at the time of its last listing
+ */
+export interface ReplayCycle {
+  id: string;
+  time: number;
+  listings: Map<AssetId, PricePoint[]>;
+}
+
+/**
+ * Group archived listings into cycles in time order. Listings for assets no
+ * longer in the registry, and listings never converted to USD, are dropped.
+ */
+export function groupCycles(listings: ArchivedListing[]): ReplayCycle[] {
+  const cycles = new Map<string, ReplayCycle>();
+
+  for (const listing of listings) {
+    if (!isAssetId(listing.assetId) || listing.status === 'unconverted') continue;
+
+    const cycle = cycles.get(listing.cycleId) ?? { id: listing.cycleId, time: 0, listings: new Map() };
+    cycle.time = Math.max(cycle.time, listing.timestamp);
+    const points = cycle.listings.get(listing.assetId) ?? [];
+    points.push(toPricePoint(listing));
+    cycle.listings.set(listing.assetId, points);
+    cycles.set(listing.cycleId, cycle);
+  }
+
+  return [...cycles.values()].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Replay archived listings through each variant
+ */
+export async function runBacktest(
+  listings: ArchivedListing[],
+  base: Config,
+  variants: BacktestVariant[] = DEFAULT_BACKTEST_VARIANTS
+): Promise<BacktestReport> {
+  const cycles = groupCycles(listings);
+  const sources = [...new Set(listings.map(listing => listing.source))].sort();
+
+  const results: VariantBacktest[] = [];
+  for (const variant of variants) {
+    results.push({ variant, assets: await replayVariant(cycles, sources, applyVariant(base, variant)) });
+  }
+
+  return {
+    from: cycles[0]?.time ?? null,
+    to: cycles[cycles.length - 1]?.time ?? null,
+    cycles: cycles.length,
+    listings: listings.length,
+    variants: results,
+  };
+}
+
+/**
+ * Base config with a variant's overrides applied
+ */
+export function applyVariant(base: Config, variant: BacktestVariant): Config {
+  return {
+    ...base,
+    ...(variant.pricingStrategy && { pricingStrategy: variant.pricingStrategy, assetPricingStrategies: {} }),
+    outlierThreshold: variant.outlierThreshold ?? base.outlierThreshold,
+    twapWindowMs: variant.twapWindowMs ?? base.twapWindowMs,
+    quorum: { ...base.quorum, ...stripUndefined(variant.quorum) },
+    guardrails: { ...base.guardrails, ...stripUndefined(variant.guardrails) },
+    manipulation: { ...base.manipulation, ...stripUndefined(variant.manipulation) },
+  };
+}
+
+async function replayVariant(cycles: ReplayCycle[], sources: string[], config: Config): Promise<AssetBacktest[]> {
+  const clock = new VirtualClock(cycles[0]?.time ?? 0);
+  const replay = new ReplayAdapterSet(sources);
+  const aggregator = new PriceAggregator(replay.adapters, config, {
+    clock,
+    orchestrator: new FetchOrchestrator({ concurrency: Math.max(1, sources.length) }),
+  });
+
+  const series = new Map<AssetId, SeriesPoint[]>();
+  for (const cycle of cycles) {
+    clock.set(cycle.time);
+    replay.current = cycle;
+
+    for (const [assetId, listings] of cycle.listings) {
+      const update = await aggregator.updatePrice(assetId);
+      const price = update.price;
+
+      const assetSeries = series.get(assetId) ?? [];
+      assetSeries.push({
+        time: cycle.time,
+        cycleId: cycle.id,
+        price: price?.price ?? null,
+        reference: referencePrice(assetId, listings),
+        ageMs: price?.ageMs ?? null,
+        // Held prices (no quorum, or a move awaiting confirmation) keep their old timestamp
+        fresh: price !== null && !update.insufficientSources && price.timestamp === cycle.time,
+      });
+      series.set(assetId, assetSeries);
+    }
+  }
+
+  return [...series.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([assetId, points]) => ({ assetId, ...summarizeSeries(points), series: points }));
+}
+
+/**
+ * Replay adapters, one per archived source, serving the current cycle's listings
+ */
+class ReplayAdapterSet {
+  current: ReplayCycle | null = null;
+  readonly adapters: PriceAdapter[];
+
+  constructor(sources: string[]) {
+    this.adapters = sources.map(name => ({
+      name,
+      isAvailable: () => true,
+      fetchPrices: async (assetId: AssetId) =>
+        (this.current?.listings.get(assetId) ?? []).filter(point => point.source === name),
+    }));
+  }
+}
+
+/**
+ * Market price a variant is tracked against: the median of the cycle's new
+ * listings that match the product and sit within the asset's sanity bounds,
+ * before any outlier filtering
+ */
+function referencePrice(assetId: AssetId, points: PricePoint[]): number | null {
+  const { min, max } = getAssetDefinition(assetId).priceBounds;
+  const prices = classifyListings(points, assetId).accepted
+    .filter(p => (p.currency ?? 'USD') === 'USD')
+    .filter(p => (p.metadata?.condition ?? 'new') === 'new' && p.price >= min && p.price <= max)
+    .map(p => p.price);
+  return prices.length > 0 ? median(prices) : null;
+}
+
+/**
+ * Rebuild a listing at its archived USD price, keeping the price as listed
+ * for regional indices
+ */
+function toPricePoint(listing: ArchivedListing): PricePoint {
+  return {
+    price: listing.price,
+    currency: 'USD',
+    ...(listing.currency !== 'USD' && { listed: { price: listing.listedPrice, currency: listing.currency } }),
+    region: listing.region,
+    source: listing.source,
+    timestamp: listing.timestamp,
+    assetId: listing.assetId,
+    metadata: {
+      productName: listing.productName ?? undefined,
+      seller: listing.seller ?? undefined,
+      condition: listing.condition,
+      url: listing.url ?? undefined,
+    },
+  };
+}
+
+function stripUndefined<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,106 @@
+/**
+ * Backtest Report
+ *
+ * Statistics comparing a replayed price series with the market, and CSV
+ * output for spreadsheets. Moves are relative (0.05 = 5%).
+ */
+
+import type { BacktestReport } from './replay.js';
+
+export interface SeriesPoint {
+  time: number;
+  cycleId: string;
+  price: number | null;       // Published price after the cycle, null before the first
+  reference: number | null;   // Median of the cycle's in-bounds new listings
+  ageMs: number | null;       // Age of the published price at the cycle
+  fresh: boolean;             // The cycle published a new price rather than holding the last one
+}
+
+export interface SeriesStats {
+  cycles: number;
+  published: number;          // Cycles with a price to serve
+  trackingError: number | null;  // RMS of price vs reference
+  maxJump: number | null;     // Largest move between consecutive cycles
+  volatility: number | null;  // Standard deviation of log returns between consecutive cycles
+  staleCycles: number;        // Cycles that held the last price or had none
+  maxAgeMs: number | null;    // Oldest the published price got at a cycle
+}
+
+export function summarizeSeries(series: SeriesPoint[]): SeriesStats {
+  const prices = series.map(p => p.price).filter((price): price is number => price !== null);
+
+  const deviations = series
+    .filter(p => p.price !== null && p.reference !== null && p.reference > 0)
+    .map(p => p.price! / p.reference! - 1);
+
+  const returns: number[] = [];
+  let maxJump: number | null = null;
+  for (let i = 1; i < prices.length; i++) {
+    returns.push(Math.log(prices[i] / prices[i - 1]));
+    const jump = Math.abs(prices[i] / prices[i - 1] - 1);
+    maxJump = Math.max(maxJump ?? 0, jump);
+  }
+
+  const ages = series.map(p => p.ageMs).filter((age): age is number => age !== null);
+
+  return {
+    cycles: series.length,
+    published: prices.length,
+    trackingError: deviations.length > 0
+      ? Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0) / deviations.length)
+      : null,
+    maxJump,
+    volatility: returns.length > 1 ? standardDeviation(returns) : null,
+    staleCycles: series.filter(p => !p.fresh).length,
+    maxAgeMs: ages.length > 0 ? Math.max(...ages) : null,
+  };
+}
+
+const SUMMARY_COLUMNS = [
+  'variant', 'assetId', 'cycles', 'published', 'trackingError', 'maxJump', 'volatility', 'staleCycles', 'maxAgeMs',
+] as const;
+
+const SERIES_COLUMNS = ['variant', 'assetId', 'time', 'cycleId', 'price', 'reference', 'ageMs', 'fresh'] as const;
+
+/**
+ * One row per variant and asset
+ */
+export function formatSummaryCsv(report: BacktestReport): string {
+  const rows = report.variants.flatMap(({ variant, assets }) =>
+    assets.map(asset => [
+      variant.name, asset.assetId, asset.cycles, asset.published, asset.trackingError,
+      asset.maxJump, asset.volatility, asset.staleCycles, asset.maxAgeMs,
+    ])
+  );
+  return toCsv(SUMMARY_COLUMNS, rows);
+}
+
+/**
+ * One row per variant, asset and cycle, for charting the series side by side
+ */
+export function formatSeriesCsv(report: BacktestReport): string {
+  const rows = report.variants.flatMap(({ variant, assets }) =>
+    assets.flatMap(asset =>
+      asset.series.map(point => [
+        variant.name, asset.assetId, new Date(point.time).toISOString(), point.cycleId,
+        point.price, point.reference, point.ageMs, point.fresh,
+      ])
+    )
+  );
+  return toCsv(SERIES_COLUMNS, rows);
+}
+
+function toCsv(columns: readonly string[], rows: unknown[][]): string {
+  return [columns, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+}
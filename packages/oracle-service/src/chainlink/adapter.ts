@@ -1,29 +1,66 @@
 import express, { Request, Response, NextFunction } from 'express';
 import type { PriceAggregator } from '../aggregator/index.js';
 import type { AssetId } from '../config/index.js';
-import { ASSET_IDS } from '../config/index.js';
+import { ASSET_IDS, ASSET_REGISTRY } from '../config/index.js';
+import { isListingCondition, LISTING_CONDITIONS } from '../adapters/types.js';
 import {
   validateRequest,
   buildSuccessResponse,
   buildErrorResponse,
+  resolveEndpointValue,
+  scaleResult,
+  RequestValidationError,
   type ChainlinkRequest,
 } from './response.js';
-import { rentalRouter } from '../api/rental.js';
+import type { PriceAttestor } from '../attestation/index.js';
+import type { RentalPriceAggregator } from '../adapters/rental-aggregator.js';
+import { createRentalRouter } from '../api/rental.js';
 import { createLogger } from '../utils/logger.js';
 import { getHardwareHistory, getSupabase } from '../storage/supabase.js';
-import { fetchViaScraperApi, isScraperApiConfigured } from '../adapters/scraper-utils.js';
-import * as cheerio from 'cheerio';
+import { createAdminRouter, type AdminOptions } from '../admin/index.js';
+import type { AccessControl } from '../access/index.js';
+import { registry } from '../metrics/index.js';
+import { createStreamRouter, type EventHub } from '../stream/index.js';
+import type { Scheduler } from '../scheduler/index.js';
+import type { ListingArchive } from '../storage/listings.js';
+import {
+  AssetParamsSchema,
+  ConditionQuerySchema,
+  IncidentsQuerySchema,
+  ListingsQuerySchema,
+  PriceHistoryQuerySchema,
+  PriceQuerySchema,
+  createDocsRouter,
+  parseParams,
+  parseQuery,
+} from '../openapi/index.js';
+import { buildPricesSnapshot, formatPrice, unavailableError, type UnavailableError } from './views.js';
 
 const logger = createLogger('chainlink-adapter');
 
 export interface AdapterOptions {
   port: number;
   aggregator: PriceAggregator;
+  attestor?: PriceAttestor | null;  // Signs price responses when configured
+  rental: RentalPriceAggregator;
+  access: AccessControl;            // API keys, rate limits and quotas for the public price routes
+  trustProxy?: number;              // Reverse proxy hops to trust for client IPs
+  listingArchive?: ListingArchive | null;  // Raw listings per update cycle, served at /listings
+  stream: EventHub;                 // Price and rental updates pushed to /stream clients
+  scheduler: Scheduler;             // Periodic jobs, reported at /jobs
+  admin: Omit<AdminOptions, 'aggregator' | 'access' | 'scheduler'>;  // Feed controls, audit log and API key for /admin
 }
 
 export function createChainlinkAdapter(options: AdapterOptions): express.Application {
-  const { aggregator } = options;
+  const {
+    aggregator, attestor = null, rental, access, trustProxy = 0, listingArchive = null, admin, stream, scheduler,
+  } = options;
   const app = express();
+  const limit = access.limit();
+
+  if (trustProxy > 0) {
+    app.set('trust proxy', trustProxy);
+  }
 
   // Middleware
   app.use(express.json());
@@ -43,7 +80,11 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
     }
 
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
+    res.setHeader(
+      'Access-Control-Expose-Headers',
+      'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, X-Quota-Limit, X-Quota-Remaining, X-Quota-Reset'
+    );
 
     if (req.method === 'OPTIONS') {
       return res.sendStatus(200);
@@ -67,126 +108,94 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
     });
   });
 
-  // Force refresh prices (triggers immediate scrape)
-  app.post('/refresh', async (_req: Request, res: Response) => {
-    try {
-      logger.info('Manual price refresh triggered');
-      const updates = await aggregator.updateAllPrices();
-      res.json({
-        success: true,
-        updated: updates.length,
-        assets: updates.map(u => ({
-          assetId: u.assetId,
-          price: u.price.price,
-          sources: u.price.sources,
-        })),
+  // Asset registry (ids, display names, categories, sanity bounds)
+  app.get('/assets', (_req: Request, res: Response) => {
+    res.json({
+      assets: ASSET_REGISTRY.map(asset => ({
+        id: asset.id,
+        name: asset.name,
+        description: asset.description,
+        category: asset.category,
+        priceBounds: asset.priceBounds,
+      })),
+      timestamp: Date.now(),
+    });
+  });
+
+  // Public key for verifying price attestations
+  app.get('/pubkey', (_req: Request, res: Response) => {
+    if (!attestor) {
+      res.status(404).json({
+        error: 'Attestations not enabled',
+        message: 'Set ATTESTATION_PRIVATE_KEY to sign price responses.',
       });
-    } catch (error) {
-      logger.error(`Refresh failed: ${error}`);
-      res.status(500).json({ error: 'Refresh failed' });
+      return;
     }
+
+    res.json({
+      algorithm: 'ed25519',
+      publicKey: attestor.publicKey,
+      encoding: 'hex',
+    });
   });
 
-  // Debug endpoint to test ScraperAPI
-  app.get('/debug/scraper', async (_req: Request, res: Response) => {
-    if (!isScraperApiConfigured()) {
-      return res.json({ error: 'ScraperAPI not configured' });
-    }
+  // OpenAPI document and docs page
+  app.use(createDocsRouter());
 
+  // Prometheus metrics
+  app.get('/metrics', async (_req: Request, res: Response) => {
     try {
-      const testUrl = 'https://www.newegg.com/p/pl?d=rtx+4090&N=100007709';
-      const result = await fetchViaScraperApi(testUrl, { country: 'us' });
-
-      const html = typeof result.data === 'string' ? result.data : '';
-
-      // Check for various product selectors
-      const selectors = {
-        'item-cell': html.includes('item-cell'),
-        'item-container': html.includes('item-container'),
-        'goods-container': html.includes('goods-container'),
-        'product-price': html.includes('product-price'),
-        'price-current': html.includes('price-current'),
-        'item-title': html.includes('item-title'),
-        'item-info': html.includes('item-info'),
-      };
-
-      // Try to find price patterns
-      const priceMatches = html.match(/\$[\d,]+\.?\d*/g)?.slice(0, 10) || [];
-
-      // Find any JSON-LD data
-      const jsonLdMatch = html.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/);
-      const hasJsonLd = !!jsonLdMatch;
-
-      // Try to actually parse items like the scraper does
-      const $ = cheerio.load(html);
-      const items: { name: string; price: string; priceNum: number }[] = [];
-
-      $('.item-cell, .item-container').each((_, element) => {
-        const $item = $(element);
-        const name = $item.find('.item-title, a.item-title').first().text().trim();
-
-        // Get price
-        const priceStrong = $item.find('.price-current strong').text();
-        const priceSup = $item.find('.price-current sup').text();
-        const priceText = $item.find('.price-current').text();
-
-        let priceNum = 0;
-        if (priceStrong) {
-          const dollars = priceStrong.replace(/[^0-9]/g, '');
-          const cents = priceSup.replace(/[^0-9]/g, '') || '00';
-          priceNum = parseFloat(`${dollars}.${cents}`);
-        }
-
-        if (name && name.length > 10) {
-          items.push({
-            name: name.substring(0, 80),
-            price: priceText.substring(0, 20),
-            priceNum,
-          });
-        }
-      });
-
-      res.json({
-        status: result.status,
-        dataLength: html.length,
-        selectors,
-        itemsFound: items.length,
-        items: items.slice(0, 5),
-        priceMatches,
-      });
+      res.setHeader('Content-Type', registry.contentType);
+      res.end(await registry.metrics());
     } catch (error) {
-      res.json({ error: String(error) });
+      logger.error(`Failed to collect metrics: ${error}`);
+      res.status(500).end();
     }
   });
 
+  // Adapter circuit breaker state and health
+  app.get('/adapters', (_req: Request, res: Response) => {
+    res.json({
+      adapters: aggregator.getAdapterHealth(),
+      reliability: aggregator.getSourceReliability(),
+      timestamp: Date.now(),
+    });
+  });
+
+  // Scheduled job state, run history and last errors
+  app.get('/jobs', (_req: Request, res: Response) => {
+    res.json({ jobs: scheduler.getStatus(), timestamp: Date.now() });
+  });
+
   // GPU Rental pricing routes
-  app.use('/rental', rentalRouter);
+  app.use('/rental', limit, createRentalRouter(rental));
 
-  // Get all prices (convenience endpoint)
-  app.get('/prices', (_req: Request, res: Response) => {
-    const prices = aggregator.getAllPrices();
-    const result: Record<string, unknown> = {};
-
-    for (const [assetId, price] of prices) {
-      result[assetId] = {
-        price: price.price,
-        twap: price.twap,
-        priceInt: price.priceInt.toString(),
-        sourceCount: price.sourceCount,
-        timestamp: price.timestamp,
-        currency: price.currency,
-        sources: price.sources,
-      };
+  // Server-sent events of price and rental updates (one request per connection)
+  app.use('/stream', limit, createStreamRouter({ hub: stream, aggregator, attestor }));
+
+  // Operator interventions, refreshes and debug tools (API key required)
+  app.use('/admin', createAdminRouter({ ...admin, aggregator, access, scheduler }));
+
+  // Caller's rate limit, quota and usage (not counted against them)
+  app.get('/usage', (req: Request, res: Response) => {
+    const status = access.getStatus(req);
+    if (!status) {
+      res.status(401).json({ error: 'Invalid API key' });
+      return;
     }
+    res.json({ ...status, timestamp: Date.now() });
+  });
 
-    res.json({
-      prices: result,
-      timestamp: Date.now(),
-    });
+  // Get all prices (convenience endpoint)
+  app.get('/prices', limit, (req: Request, res: Response) => {
+    const query = parseQuery(ConditionQuerySchema, req, res);
+    if (!query) return;
+
+    res.json(buildPricesSnapshot(aggregator, query.condition, attestor));
   });
 
   // Get hardware price history
-  app.get('/prices/history', async (req: Request, res: Response) => {
+  app.get('/prices/history', limit, async (req: Request, res: Response) => {
     if (!getSupabase()) {
       return res.status(503).json({
         error: 'History storage not configured',
@@ -194,15 +203,11 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
       });
     }
 
-    const { assetId, startTime, endTime, limit } = req.query;
+    const query = parseQuery(PriceHistoryQuerySchema, req, res);
+    if (!query) return;
 
     try {
-      const history = await getHardwareHistory(
-        assetId as string | undefined,
-        startTime ? parseInt(startTime as string, 10) : undefined,
-        endTime ? parseInt(endTime as string, 10) : undefined,
-        limit ? parseInt(limit as string, 10) : 1000
-      );
+      const history = await getHardwareHistory(query.assetId, query.startTime, query.endTime, query.limit);
 
       const formatted = history.map((record) => ({
         assetId: record.asset_id,
@@ -223,52 +228,76 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
     }
   });
 
-  // Get single asset price (convenience endpoint)
-  app.get('/price/:assetId', (req: Request, res: Response) => {
-    const assetId = req.params.assetId as AssetId;
+  // Raw listings behind a cycle's prices, for audits and disputes
+  app.get('/listings', limit, async (req: Request, res: Response) => {
+    if (!listingArchive) {
+      return res.status(503).json({
+        error: 'Listing archive not configured',
+        message: 'Set LISTING_ARCHIVE to keep raw listings.',
+      });
+    }
 
-    if (!ASSET_IDS.includes(assetId)) {
-      res.status(400).json({
-        error: 'Invalid asset ID',
-        validAssets: ASSET_IDS,
+    const query = parseQuery(ListingsQuerySchema, req, res);
+    if (!query) return;
+
+    try {
+      const listings = await listingArchive.query({ assetId: query.assetId, cycleId: query.cycle, limit: query.limit });
+      res.json({
+        cycleId: query.cycle ?? listings[0]?.cycleId ?? null,
+        listings,
+        count: listings.length,
+        source: listingArchive.name,
       });
-      return;
+    } catch (error) {
+      logger.error(`Failed to fetch listings: ${error}`);
+      res.status(500).json({ error: 'Failed to fetch listings' });
     }
+  });
+
+  // Suspected manipulation caught by the aggregator, newest first
+  app.get('/incidents', limit, (req: Request, res: Response) => {
+    const query = parseQuery(IncidentsQuerySchema, req, res);
+    if (!query) return;
+
+    const incidents = aggregator.getIncidents(query);
+    res.json({ incidents, count: incidents.length, timestamp: Date.now() });
+  });
 
-    const price = aggregator.getPrice(assetId);
+  // Get single asset price (convenience endpoint)
+  app.get('/price/:assetId', limit, (req: Request, res: Response) => {
+    const params = parseParams(AssetParamsSchema, req, res);
+    const query = params && parseQuery(PriceQuerySchema, req, res);
+    if (!params || !query) return;
+
+    const { assetId } = params;
+    const { condition, region } = query;
+    const price = aggregator.getPrice(assetId, condition, region ?? null);
 
     if (!price) {
       res.status(404).json({
         error: 'Price not available',
         assetId,
+        condition,
+        ...(region && { region }),
       });
       return;
     }
 
-    res.json({
-      assetId,
-      price: price.price,
-      twap: price.twap,
-      priceInt: price.priceInt.toString(),
-      sourceCount: price.sourceCount,
-      timestamp: price.timestamp,
-      currency: price.currency,
-      sources: price.sources,
-    });
+    const unavailable = unavailableError(price, aggregator.getMaxPriceAgeMs(assetId));
+    if (unavailable) {
+      res.status(503).json({ assetId, condition, ...unavailable });
+      return;
+    }
+
+    res.json({ assetId, ...formatPrice(price, attestor) });
   });
 
   // Chainlink External Adapter endpoint (POST /price)
   app.post('/price', (req: Request, res: Response) => {
-    const validated = validateRequest(req.body);
-
-    if (!validated) {
-      res.status(400).json(
-        buildErrorResponse('0', 400, 'Invalid request format')
-      );
-      return;
-    }
+    const validated = parseChainlinkRequest(req.body, res);
+    if (!validated) return;
 
-    const { id, data } = validated;
+    const { id, data, params } = validated;
 
     // Get asset ID from request data
     const assetId = (data.assetId || data.asset) as AssetId | undefined;
@@ -287,31 +316,55 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
       return;
     }
 
-    const price = aggregator.getPrice(assetId);
+    const condition = data.condition ?? 'new';
+
+    if (!isListingCondition(condition)) {
+      res.status(400).json(
+        buildErrorResponse(id, 400, `Invalid condition: ${condition}. Valid: ${LISTING_CONDITIONS.join(', ')}`)
+      );
+      return;
+    }
+
+    const price = aggregator.getPrice(assetId, condition);
 
     if (!price) {
       res.status(404).json(
-        buildErrorResponse(id, 404, `Price not available for ${assetId}`)
+        buildErrorResponse(id, 404, `Price not available for ${assetId} (${condition})`)
       );
       return;
     }
 
-    logger.info(`Chainlink request for ${assetId}: ${price.priceInt.toString()}`);
-    res.json(buildSuccessResponse(id, price));
-  });
-
-  // Batch price request (for multiple assets)
-  app.post('/prices', (req: Request, res: Response) => {
-    const validated = validateRequest(req.body);
+    const unavailable = unavailableError(price, aggregator.getMaxPriceAgeMs(assetId));
+    if (unavailable) {
+      const { error } = unavailable;
+      logger.warn(`Refusing Chainlink request for ${assetId} (${condition}): ${error}`);
+      res.status(503).json(
+        buildErrorResponse(id, 503, `${assetId} (${condition}): ${error}`)
+      );
+      return;
+    }
 
-    if (!validated) {
-      res.status(400).json(
-        buildErrorResponse('0', 400, 'Invalid request format')
+    if (resolveEndpointValue(price, params) === null) {
+      res.status(404).json(
+        buildErrorResponse(id, 404, `Source ${params.source} has no listings for ${assetId}`)
       );
       return;
     }
 
-    const { id, data } = validated;
+    const response = buildSuccessResponse(id, price, params);
+    if (attestor && response.data) {
+      response.data.attestation = attestor.attest(price);
+    }
+    logger.info(`Chainlink ${params.endpoint} request for ${assetId} (${condition}): ${response.data?.result}`);
+    res.json(response);
+  });
+
+  // Batch price request (for multiple assets)
+  app.post('/prices', (req: Request, res: Response) => {
+    const validated = parseChainlinkRequest(req.body, res);
+    if (!validated) return;
+
+    const { id, data, params } = validated;
 
     // Get asset IDs from request
     let assetIds: AssetId[] = [];
@@ -334,13 +387,28 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
       return;
     }
 
+    const condition = data.condition ?? 'new';
+
+    if (!isListingCondition(condition)) {
+      res.status(400).json(
+        buildErrorResponse(id, 400, `Invalid condition: ${condition}. Valid: ${LISTING_CONDITIONS.join(', ')}`)
+      );
+      return;
+    }
+
     // Collect prices
-    const results: Record<string, { price: number; priceInt: string; twap: number }> = {};
+    const results: Record<string, { result: string | null; price: number; priceInt: string; twap: number }> = {};
+    const errors: Record<string, UnavailableError> = {};
 
     for (const assetId of assetIds) {
-      const price = aggregator.getPrice(assetId);
-      if (price) {
+      const price = aggregator.getPrice(assetId, condition);
+      const unavailable = price && unavailableError(price, aggregator.getMaxPriceAgeMs(assetId));
+      if (unavailable) {
+        errors[assetId] = unavailable;
+      } else if (price) {
+        const value = resolveEndpointValue(price, params);
         results[assetId] = {
+          result: value === null ? null : scaleResult(value, params),
           price: price.price,
           priceInt: price.priceInt.toString(),
           twap: price.twap,
@@ -353,6 +421,9 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
       statusCode: 200,
       data: {
         result: results,
+        errors,
+        endpoint: params.endpoint,
+        condition,
         timestamp: Date.now(),
       },
     });
@@ -369,6 +440,29 @@ export function createChainlinkAdapter(options: AdapterOptions): express.Applica
   return app;
 }
 
+/**
+ * Validate a Chainlink request body, responding with 400 when it is invalid
+ */
+function parseChainlinkRequest(body: unknown, res: Response): ChainlinkRequest | null {
+  try {
+    const validated = validateRequest(body);
+    if (!validated) {
+      res.status(400).json(
+        buildErrorResponse('0', 400, 'Invalid request format')
+      );
+    }
+    return validated;
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      res.status(400).json(
+        buildErrorResponse(error.requestId, 400, error.message)
+      );
+      return null;
+    }
+    throw error;
+  }
+}
+
 export function startAdapter(
   app: express.Application,
   port: number
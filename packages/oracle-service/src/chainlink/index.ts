@@ -4,5 +4,15 @@ export {
   validateRequest,
   buildSuccessResponse,
   buildErrorResponse,
+  resolveEndpointValue,
+  scaleResult,
+  RequestValidationError,
+  CHAINLINK_ENDPOINTS,
+  DEFAULT_ENDPOINT_PARAMS,
+} from './response.js';
+export type {
+  ChainlinkRequest,
+  ChainlinkResponse,
+  ChainlinkEndpoint,
+  EndpointParams,
 } from './response.js';
-export type { ChainlinkRequest, ChainlinkResponse } from './response.js';
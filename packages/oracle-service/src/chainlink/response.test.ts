@@ -3,6 +3,8 @@ import {
   validateRequest,
   buildSuccessResponse,
   buildErrorResponse,
+  resolveEndpointValue,
+  RequestValidationError,
 } from './response.js';
 import type { AggregatedPrice } from '../aggregator/index.js';
 
@@ -51,26 +53,79 @@ describe('Chainlink response', () => {
       expect(result).not.toBeNull();
       expect(result!.id).toBe(123);
     });
+
+    it('defaults endpoint parameters', () => {
+      const result = validateRequest({ id: '1', data: { asset: 'GPU_RTX4090' } });
+      expect(result!.params).toEqual({
+        endpoint: 'spot',
+        source: undefined,
+        decimals: 8,
+        multiply: undefined,
+      });
+    });
+
+    it('parses endpoint parameters', () => {
+      const result = validateRequest({
+        id: '1',
+        data: { asset: 'GPU_RTX4090', endpoint: 'source', source: 'newegg-scraper', multiply: '1000000' },
+      });
+      expect(result!.params.endpoint).toBe('source');
+      expect(result!.params.source).toBe('newegg-scraper');
+      expect(result!.params.multiply).toBe(1000000n);
+    });
+
+    it('rejects invalid endpoint parameters', () => {
+      const invalid = [
+        { endpoint: 'last' },
+        { endpoint: 'source' },
+        { decimals: 19 },
+        { decimals: 2.5 },
+        { multiply: '-100' },
+        { decimals: 8, multiply: 100 },
+      ];
+
+      for (const params of invalid) {
+        expect(() => validateRequest({ id: '7', data: { asset: 'GPU_RTX4090', ...params } }))
+          .toThrow(RequestValidationError);
+      }
+    });
   });
 
   describe('buildSuccessResponse', () => {
-    it('builds correct response', () => {
-      const price: AggregatedPrice = {
-        assetId: 'GPU_RTX4090',
-        price: 1599.99,
-        twap: 1605.50,
-        priceInt: BigInt('159999000000'),
-        sourceCount: 3,
-        timestamp: 1704067200000,
-        updatedAt: 1704067200000,
-        currency: 'USD',
-        sources: [
-          { name: 'newegg', price: 1599.99, count: 5, isSimulated: false },
-          { name: 'amazon', price: 1609.99, count: 3, isSimulated: false },
-          { name: 'bestbuy', price: 1589.99, count: 2, isSimulated: false },
-        ],
-      };
+    const price: AggregatedPrice = {
+      assetId: 'GPU_RTX4090',
+      condition: 'new',
+      region: null,
+      price: 1599.99,
+      twap: 1605.50,
+      median: 1599.99,
+      min: 1549.99,
+      priceInt: BigInt('159999000000'),
+      sourceCount: 3,
+      timestamp: 1704067200000,
+      updatedAt: 1704067200000,
+      ageMs: 0,
+      stale: false,
+      currency: 'USD',
+      sources: [
+        { id: 'newegg-scraper', name: 'Newegg', price: 1599.99, count: 5, isSimulated: false, reliability: 1, weight: 1 },
+        { id: 'amazon-scraper', name: 'Amazon', price: 1609.99, count: 3, isSimulated: false, reliability: 1, weight: 1 },
+        { id: 'bestbuy-scraper', name: 'Best Buy', price: 1589.99, count: 2, isSimulated: false, reliability: 1, weight: 1 },
+      ],
+      rejectedListings: {},
+      quorum: { met: true, sources: 3, listings: 9, minSources: 2, minListings: 3 },
+      guardrail: { state: 'ok', candidate: null, band: null, confirmations: 0, required: 3, pendingSince: null },
+      paused: null,
+      pin: null,
+      cycleId: null,
+      confidence: 0.9,
+      method: 'hybrid',
+      components: { salesFloor: 1599.99 },
+      winsorized: false,
+      volatilityAdjusted: false,
+    };
 
+    it('builds correct response', () => {
       const response = buildSuccessResponse('1', price);
 
       expect(response.jobRunID).toBe('1');
@@ -80,8 +135,36 @@ describe('Chainlink response', () => {
       expect(response.data?.twap).toBe(1605.50);
       expect(response.data?.sourceCount).toBe(3);
       expect(response.data?.assetId).toBe('GPU_RTX4090');
+      expect(response.data?.condition).toBe('new');
+      expect(response.data?.confidence).toBe(0.9);
+      expect(response.data?.method).toBe('hybrid');
       expect(response.error).toBeUndefined();
     });
+
+    it('returns the requested endpoint value', () => {
+      const twap = buildSuccessResponse('1', price, { endpoint: 'twap', decimals: 8 });
+      expect(twap.data?.result).toBe('160550000000');
+      expect(twap.data?.endpoint).toBe('twap');
+
+      const min = buildSuccessResponse('1', price, { endpoint: 'min', decimals: 2 });
+      expect(min.data?.result).toBe('154999');
+    });
+
+    it('returns a single source by id or display name', () => {
+      const params = { endpoint: 'source' as const, source: 'amazon-scraper', decimals: 8 };
+      expect(resolveEndpointValue(price, params)).toBe(1609.99);
+      expect(resolveEndpointValue(price, { ...params, source: 'best buy' })).toBe(1589.99);
+      expect(resolveEndpointValue(price, { ...params, source: 'ebay' })).toBeNull();
+    });
+
+    it('scales with multiply or large decimals exactly', () => {
+      const multiplied = buildSuccessResponse('1', price, { endpoint: 'spot', decimals: 8, multiply: 100n });
+      expect(multiplied.data?.result).toBe('159999');
+      expect(multiplied.data?.multiply).toBe('100');
+
+      const wei = buildSuccessResponse('1', price, { endpoint: 'spot', decimals: 18 });
+      expect(wei.data?.result).toBe('1599990000000000000000');
+    });
   });
 
   describe('buildErrorResponse', () => {
@@ -1,14 +1,58 @@
 import type { AggregatedPrice } from '../aggregator/index.js';
 
+/**
+ * Value a Chainlink job receives as `result`:
+ * - spot: aggregated price from the pricing strategy
+ * - twap: time-weighted average price
+ * - median / min: median or lowest outlier-filtered listing
+ * - source: median listing price from a single source (requires `source`)
+ */
+export const CHAINLINK_ENDPOINTS = ['spot', 'twap', 'median', 'min', 'source'] as const;
+
+export type ChainlinkEndpoint = typeof CHAINLINK_ENDPOINTS[number];
+
+export interface EndpointParams {
+  endpoint: ChainlinkEndpoint;
+  source?: string;
+  decimals: number;         // Used when `multiply` is not set
+  multiply?: bigint;
+}
+
+export const DEFAULT_ENDPOINT_PARAMS: EndpointParams = {
+  endpoint: 'spot',
+  decimals: 8,
+};
+
+const MAX_DECIMALS = 18;
+
+/**
+ * Thrown by validateRequest when a well-formed request has invalid parameters
+ */
+export class RequestValidationError extends Error {
+  constructor(
+    public readonly requestId: string | number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestValidationError';
+  }
+}
+
 /**
  * Chainlink External Adapter Request format
  * https://docs.chain.link/chainlink-nodes/external-adapters/external-adapters
  */
 export interface ChainlinkRequest {
   id: string | number;
+  params: EndpointParams;
   data: {
     asset?: string;
     assetId?: string;
+    condition?: string;  // new (default), used or refurbished
+    endpoint?: ChainlinkEndpoint;
+    source?: string;     // Source ID or display name, for endpoint=source
+    decimals?: number;   // Result scaling, default 8
+    multiply?: number | string;  // Alternative to decimals, e.g. 100000000
     // Additional parameters can be passed
     [key: string]: unknown;
   };
@@ -28,24 +72,79 @@ export interface ChainlinkResponse {
   error?: string;
 }
 
+/**
+ * Select the value an endpoint reports, or null when it isn't available
+ * (e.g. the requested source has no listings for the asset)
+ */
+export function resolveEndpointValue(price: AggregatedPrice, params: EndpointParams): number | null {
+  switch (params.endpoint) {
+    case 'twap':
+      return price.twap;
+    case 'median':
+      return price.median;
+    case 'min':
+      return price.min;
+    case 'source': {
+      const wanted = params.source?.toLowerCase();
+      const source = price.sources.find(s =>
+        s.id.toLowerCase() === wanted || s.name.toLowerCase() === wanted
+      );
+      return source ? source.price : null;
+    }
+    case 'spot':
+    default:
+      return price.price;
+  }
+}
+
+/**
+ * Scale a USD value to an integer string using `multiply` or `decimals`.
+ * Goes through the 8-decimal integer so large scales stay exact.
+ */
+export function scaleResult(value: number, params: EndpointParams): string {
+  const base = BigInt(Math.round(value * 1e8));
+  const scale = params.multiply ?? 10n ** BigInt(params.decimals);
+  return ((base * scale) / 10n ** 8n).toString();
+}
+
 /**
  * Build a successful Chainlink response
+ * @throws if the endpoint value is unavailable; check resolveEndpointValue first
  */
 export function buildSuccessResponse(
   requestId: string | number,
-  price: AggregatedPrice
+  price: AggregatedPrice,
+  params: EndpointParams = DEFAULT_ENDPOINT_PARAMS
 ): ChainlinkResponse {
+  const value = resolveEndpointValue(price, params);
+  if (value === null) {
+    throw new Error(`No ${params.endpoint} value for ${price.assetId}`);
+  }
+
   return {
     jobRunID: requestId,
     statusCode: 200,
     data: {
-      result: price.priceInt.toString(),
+      result: scaleResult(value, params),
+      endpoint: params.endpoint,
+      ...(params.source !== undefined && { source: params.source }),
+      ...(params.multiply !== undefined
+        ? { multiply: params.multiply.toString() }
+        : { decimals: params.decimals }),
+      value,
       price: price.price,
       twap: price.twap,
+      median: price.median,
+      min: price.min,
       priceInt: price.priceInt.toString(),
       sourceCount: price.sourceCount,
       timestamp: price.timestamp,
       assetId: price.assetId,
+      condition: price.condition,
+      confidence: price.confidence,
+      method: price.method,
+      quorum: price.quorum,
+      guardrail: price.guardrail,
     },
   };
 }
@@ -67,6 +166,8 @@ export function buildErrorResponse(
 
 /**
  * Validate incoming Chainlink request
+ * @returns null when the request is malformed
+ * @throws RequestValidationError when endpoint parameters are invalid
  */
 export function validateRequest(body: unknown): ChainlinkRequest | null {
   if (!body || typeof body !== 'object') {
@@ -85,8 +186,56 @@ export function validateRequest(body: unknown): ChainlinkRequest | null {
     return null;
   }
 
+  const data = req.data as ChainlinkRequest['data'];
+
   return {
     id: req.id as string | number,
-    data: req.data as ChainlinkRequest['data'],
+    params: parseEndpointParams(req.id as string | number, data),
+    data,
+  };
+}
+
+function parseEndpointParams(requestId: string | number, data: ChainlinkRequest['data']): EndpointParams {
+  const endpoint = data.endpoint ?? DEFAULT_ENDPOINT_PARAMS.endpoint;
+  if (!CHAINLINK_ENDPOINTS.includes(endpoint)) {
+    throw new RequestValidationError(
+      requestId,
+      `Invalid endpoint: ${String(endpoint)}. Valid: ${CHAINLINK_ENDPOINTS.join(', ')}`
+    );
+  }
+
+  if (data.source !== undefined && typeof data.source !== 'string') {
+    throw new RequestValidationError(requestId, 'source must be a string');
+  }
+  if (endpoint === 'source' && !data.source) {
+    throw new RequestValidationError(requestId, 'endpoint=source requires a source parameter');
+  }
+
+  if (data.decimals !== undefined && data.multiply !== undefined) {
+    throw new RequestValidationError(requestId, 'Use either decimals or multiply, not both');
+  }
+
+  const decimals = data.decimals ?? DEFAULT_ENDPOINT_PARAMS.decimals;
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+    throw new RequestValidationError(
+      requestId,
+      `decimals must be an integer between 0 and ${MAX_DECIMALS}`
+    );
+  }
+
+  let multiply: bigint | undefined;
+  if (data.multiply !== undefined) {
+    const raw = String(data.multiply);
+    if (!/^[1-9]\d*$/.test(raw)) {
+      throw new RequestValidationError(requestId, 'multiply must be a positive integer');
+    }
+    multiply = BigInt(raw);
+  }
+
+  return {
+    endpoint,
+    source: data.source,
+    decimals,
+    multiply,
   };
 }
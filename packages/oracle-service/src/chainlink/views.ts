@@ -0,0 +1,99 @@
+/**
+ * Public Price Views
+ *
+ * JSON shapes served by the convenience price routes and the update stream,
+ * shared so a streamed price looks exactly like one fetched from /prices.
+ */
+
+import type { AggregatedPrice, PriceAggregator } from '../aggregator/index.js';
+import type { ListingCondition } from '../adapters/types.js';
+import type { PriceAttestor } from '../attestation/index.js';
+
+export interface UnavailableError {
+  statusCode: 503;
+  reason: 'paused' | 'stale';
+  error: string;
+  ageMs: number;
+  maxAgeMs: number;
+  timestamp: number;
+}
+
+export interface PricesSnapshot {
+  prices: Record<string, ReturnType<typeof formatPrice>>;
+  errors: Record<string, UnavailableError>;
+  timestamp: number;
+}
+
+/**
+ * Describe why a price must not be served: its feed is paused or it is too old
+ * @returns null when the price can be served
+ */
+export function unavailableError(price: AggregatedPrice, maxAgeMs: number): UnavailableError | null {
+  const base = { statusCode: 503 as const, ageMs: price.ageMs, maxAgeMs, timestamp: price.timestamp };
+
+  if (price.paused) {
+    return { ...base, reason: 'paused', error: `Feed paused: ${price.paused.reason}` };
+  }
+  if (price.stale) {
+    return {
+      ...base,
+      reason: 'stale',
+      error: `Price is stale: last updated ${Math.round(price.ageMs / 1000)}s ago, max age ${Math.round(maxAgeMs / 1000)}s`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Public JSON view of an aggregated price, signed when an attestor is configured.
+ * Regional indices are not signed: the attestation has no currency, so a
+ * signed EUR price would verify as a USD one.
+ */
+export function formatPrice(price: AggregatedPrice, attestor: PriceAttestor | null) {
+  return {
+    condition: price.condition,
+    region: price.region,
+    price: price.price,
+    twap: price.twap,
+    priceInt: price.priceInt.toString(),
+    sourceCount: price.sourceCount,
+    timestamp: price.timestamp,
+    ageMs: price.ageMs,
+    currency: price.currency,
+    sources: price.sources,
+    rejectedListings: price.rejectedListings,
+    quorum: price.quorum,
+    guardrail: price.guardrail,
+    pin: price.pin,
+    cycleId: price.cycleId,
+    confidence: price.confidence,
+    method: price.method,
+    components: price.components,
+    winsorized: price.winsorized,
+    volatilityAdjusted: price.volatilityAdjusted,
+    ...(attestor && price.region === null && { attestation: attestor.attest(price) }),
+  };
+}
+
+/**
+ * Every servable price for a condition, with paused and stale assets under `errors`
+ */
+export function buildPricesSnapshot(
+  aggregator: PriceAggregator,
+  condition: ListingCondition,
+  attestor: PriceAttestor | null
+): PricesSnapshot {
+  const prices: PricesSnapshot['prices'] = {};
+  const errors: PricesSnapshot['errors'] = {};
+
+  for (const [assetId, price] of aggregator.getAllPrices(condition)) {
+    const unavailable = unavailableError(price, aggregator.getMaxPriceAgeMs(assetId));
+    if (unavailable) {
+      errors[assetId] = unavailable;
+    } else {
+      prices[assetId] = formatPrice(price, attestor);
+    }
+  }
+
+  return { prices, errors, timestamp: Date.now() };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  loadAssetRegistry,
+  ASSET_IDS,
+  isAssetId,
+  getAssetDefinition,
+  getRetailerQuery,
+} from './index.js';
+
+describe('asset registry', () => {
+  let dir: string;
+
+  const asset = {
+    id: 'GPU_RTX5090',
+    name: 'RTX 5090',
+    description: 'NVIDIA GeForce RTX 5090',
+    category: 'GPU',
+    searchTerms: ['GeForce RTX 5090'],
+    priceBounds: { min: 1500, max: 6000 },
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'hardex-assets-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads the bundled registry by default', () => {
+    expect(ASSET_IDS).toContain('GPU_RTX4090');
+    expect(isAssetId('GPU_RTX4090')).toBe(true);
+    expect(isAssetId('GPU_UNKNOWN')).toBe(false);
+    expect(getAssetDefinition('RAM_DDR5_32').category).toBe('RAM');
+    expect(getRetailerQuery('GPU_RTX4090', 'bestbuy')?.query).toBe('rtx 4090');
+  });
+
+  it('throws for unknown assets', () => {
+    expect(() => getAssetDefinition('GPU_UNKNOWN')).toThrow('Unknown asset ID');
+  });
+
+  it('loads a JSON registry file', async () => {
+    const filePath = path.join(dir, 'assets.json');
+    await writeFile(filePath, JSON.stringify({ assets: [asset] }));
+
+    const assets = loadAssetRegistry(filePath);
+
+    expect(assets).toHaveLength(1);
+    expect(assets[0].id).toBe('GPU_RTX5090');
+    expect(assets[0].retailers).toEqual({});
+  });
+
+  it('loads a YAML registry file', async () => {
+    const filePath = path.join(dir, 'assets.yaml');
+    await writeFile(filePath, [
+      'assets:',
+      '  - id: RAM_DDR5_96',
+      '    name: DDR5 96GB',
+      '    description: DDR5 RAM 96GB Kit',
+      '    category: RAM',
+      '    searchTerms: [DDR5 96GB]',
+      '    priceBounds: { min: 150, max: 1000 }',
+      '    retailers:',
+      '      newegg: { query: ddr5 96gb }',
+    ].join('\n'));
+
+    const assets = loadAssetRegistry(filePath);
+
+    expect(assets[0].id).toBe('RAM_DDR5_96');
+    expect(assets[0].retailers.newegg.query).toBe('ddr5 96gb');
+  });
+
+  it('rejects duplicate asset IDs', async () => {
+    const filePath = path.join(dir, 'assets.json');
+    await writeFile(filePath, JSON.stringify({ assets: [asset, asset] }));
+
+    expect(() => loadAssetRegistry(filePath)).toThrow('Duplicate asset ID');
+  });
+
+  it('rejects inverted price bounds', async () => {
+    const filePath = path.join(dir, 'assets.json');
+    await writeFile(filePath, JSON.stringify({
+      assets: [{ ...asset, priceBounds: { min: 6000, max: 1500 } }],
+    }));
+
+    expect(() => loadAssetRegistry(filePath)).toThrow('priceBounds');
+  });
+});
@@ -1,25 +1,285 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import defaultAssetRegistry from './assets.json';
+import { isCronExpression } from '../scheduler/cron.js';
+import { REGIONS, type Region } from '../adapters/types.js';
 
 dotenv.config();
 
-const AssetIdSchema = z.enum([
-  'GPU_RTX4090',
-  'GPU_RTX4080',
-  'GPU_RTX3090',
-  'RAM_DDR5_32',
-  'RAM_DDR5_64',
-]);
+// Retailer-specific search parameters; adapters build a URL from `query` when `url` is absent
+const RetailerQuerySchema = z.object({
+  query: z.string().optional(),
+  url: z.string().url().optional(),
+  categoryId: z.string().optional(),
+});
+
+// Listing title rules applied by the listing classifier
+const MatchRulesSchema = z.object({
+  // Every group must match; a group matches when the title contains any of its terms
+  required: z.array(z.array(z.string().min(1)).min(1)).default([]),
+  // Whole-word terms that reject a listing (on top of the default accessory terms)
+  exclude: z.array(z.string().min(1)).default([]),
+  // Total kit capacity, e.g. 32 accepts "32GB" and "2x16GB" but not "2x32GB"
+  capacityGb: z.number().positive().optional(),
+});
+
+// Minimum support a series needs before its price is published
+export const QuorumPolicySchema = z.object({
+  minSources: z.coerce.number().int().positive().default(2),   // Distinct adapters
+  minListings: z.coerce.number().int().positive().default(3),  // Listings after outlier filtering
+});
+
+// Limits on how far a published price may move; see aggregator/guardrails.ts
+export const GuardrailPolicySchema = z.object({
+  mode: z.enum(['clamp', 'hold']).default('hold'),
+  maxUpdateMove: z.coerce.number().positive().default(0.15),   // 15% per update
+  maxHourlyMove: z.coerce.number().positive().default(0.25),   // 25% within an hour
+  confirmations: z.coerce.number().int().positive().default(3),  // Cycles to confirm a held move
+});
+
+// Screening for thin-market manipulation, applied before outlier filtering; see aggregator/manipulation.ts
+export const ManipulationPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  maxSourceShare: z.coerce.number().positive().max(1).default(0.75),  // Of a series' listings from one retailer
+  maxSellerShare: z.coerce.number().positive().max(1).default(0.5),   // From one marketplace seller
+  minListings: z.coerce.number().int().positive().default(6),         // Listings in a series before shares are checked
+  flashSaleDiscount: z.coerce.number().positive().max(1).default(0.2),  // New prices this far below consensus wait a cycle
+  flashSaleMinListings: z.coerce.number().int().positive().default(2),  // Such prices in one cycle that make a flash sale
+});
+
+// Request budget for a public API client; see access/limiter.ts
+const RateLimitPolicySchema = z.object({
+  requestsPerMinute: z.coerce.number().int().positive(),
+  dailyQuota: z.coerce.number().int().positive(),  // Requests per UTC day
+});
+
+const ApiClientSchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16, 'API keys must be at least 16 characters'),
+}).merge(RateLimitPolicySchema.partial());  // Overrides the default client limits
+
+const AssetDefinitionSchema = z.object({
+  id: z.string().regex(/^[A-Z0-9_]+$/, 'Asset IDs must be UPPER_SNAKE_CASE'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  category: z.string().min(1),
+  searchTerms: z.array(z.string().min(1)).min(1),
+  // Sanity bounds - listings outside this range are discarded before aggregation
+  priceBounds: z.object({
+    min: z.number().nonnegative(),
+    max: z.number().positive(),
+  }).refine(b => b.min < b.max, 'priceBounds.min must be below priceBounds.max'),
+  referencePrice: z.number().positive().optional(),
+  match: MatchRulesSchema.optional(),
+  quorum: QuorumPolicySchema.partial().optional(),  // Overrides the global quorum policy
+  guardrails: GuardrailPolicySchema.partial().optional(),  // Overrides the global guardrails
+  retailers: z.record(z.string(), RetailerQuerySchema).default({}),
+});
+
+const AssetRegistrySchema = z.object({
+  assets: z.array(AssetDefinitionSchema).min(1),
+}).superRefine((registry, ctx) => {
+  const seen = new Set<string>();
+  for (const asset of registry.assets) {
+    if (seen.has(asset.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate asset ID: ${asset.id}` });
+    }
+    seen.add(asset.id);
+  }
+});
+
+export type AssetDefinition = z.infer<typeof AssetDefinitionSchema>;
+export type RetailerQuery = z.infer<typeof RetailerQuerySchema>;
+export type MatchRules = z.infer<typeof MatchRulesSchema>;
+export type QuorumPolicy = z.infer<typeof QuorumPolicySchema>;
+export type GuardrailPolicy = z.infer<typeof GuardrailPolicySchema>;
+export type ManipulationPolicy = z.infer<typeof ManipulationPolicySchema>;
+export type RateLimitPolicy = z.infer<typeof RateLimitPolicySchema>;
+export type ApiClient = z.infer<typeof ApiClientSchema>;
+
+/**
+ * Load and validate the asset registry.
+ * Reads a JSON or YAML file when a path is given, otherwise the bundled assets.json.
+ */
+export function loadAssetRegistry(filePath?: string): AssetDefinition[] {
+  let raw: unknown = defaultAssetRegistry;
+
+  if (filePath) {
+    const content = readFileSync(path.resolve(filePath), 'utf8');
+    raw = /\.ya?ml$/i.test(filePath) ? YAML.parse(content) : JSON.parse(content);
+  }
+
+  const result = AssetRegistrySchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+    throw new Error(`Invalid asset registry${filePath ? ` (${filePath})` : ''}: ${issues}`);
+  }
+
+  return result.data.assets;
+}
+
+export const ASSET_REGISTRY: readonly AssetDefinition[] = loadAssetRegistry(process.env.ASSET_REGISTRY_PATH || undefined);
+
+export type AssetId = string;
+
+export const ASSET_IDS: readonly AssetId[] = ASSET_REGISTRY.map(a => a.id);
+
+const assetsById = new Map(ASSET_REGISTRY.map(a => [a.id, a]));
+
+/**
+ * Check whether an ID is a registered asset
+ */
+export function isAssetId(value: unknown): value is AssetId {
+  return typeof value === 'string' && assetsById.has(value);
+}
+
+/**
+ * Get an asset's registry entry
+ * @throws if the asset is not registered
+ */
+export function getAssetDefinition(assetId: AssetId): AssetDefinition {
+  const asset = assetsById.get(assetId);
+  if (!asset) {
+    throw new Error(`Unknown asset ID: ${assetId}`);
+  }
+  return asset;
+}
+
+/**
+ * Get an asset's search parameters for a retailer, if it is listed there
+ */
+export function getRetailerQuery(assetId: AssetId, retailer: string): RetailerQuery | undefined {
+  return assetsById.get(assetId)?.retailers[retailer];
+}
+
+const AssetIdSchema = z.string().refine(isAssetId, id => ({ message: `Unknown asset ID: ${id}` }));
+
+const PricingStrategySchema = z.enum(['median', 'nftperp', 'ventuals', 'hybrid']);
+
+export type PricingStrategyName = z.infer<typeof PricingStrategySchema>;
+
+export const PRICING_STRATEGIES = PricingStrategySchema.options;
+
+const TwapStoreSchema = z.enum(['memory', 'file', 'supabase']);
+
+export type TwapStoreType = z.infer<typeof TwapStoreSchema>;
+
+const ListingArchiveSchema = z.enum(['off', 'memory', 'file', 'supabase']);
+
+export type ListingArchiveType = z.infer<typeof ListingArchiveSchema>;
 
-export type AssetId = z.infer<typeof AssetIdSchema>;
+const PushTransportSchema = z.enum(['file', 'rpc']);
 
-export const ASSET_IDS = AssetIdSchema.options;
+const FxProviderSchema = z.enum(['static', 'file', 'http']);
+
+const CurrencySchema = z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code');
+
+// Interval in ms, or a five-field cron expression evaluated in UTC
+const JobScheduleSchema = z.string().trim().refine(
+  value => (/^\d+$/.test(value) ? Number(value) > 0 : isCronExpression(value)),
+  'Expected an interval in ms or a cron expression that can fire'
+);
+
+export type PushTransportType = z.infer<typeof PushTransportSchema>;
 
 const ConfigSchema = z.object({
   port: z.coerce.number().default(8080),
   updateIntervalMs: z.coerce.number().default(3600000), // 1 hour default
   priceChangeThreshold: z.coerce.number().default(0.005),
   twapWindowMs: z.coerce.number().default(300000),
+  twapStore: TwapStoreSchema.default('memory'),
+  twapStorePath: z.string().default('data/twap-observations.jsonl'),
+  // Raw listings behind each update cycle, served at /listings; see storage/listings.ts
+  listingArchive: ListingArchiveSchema.default('memory'),
+  listingArchivePath: z.string().default('data/listings.jsonl'),
+  // Retail markets scraped; with more than one, each also gets a regional index in its own currency
+  regions: z.array(z.enum(REGIONS as [Region, ...Region[]])).min(1).default(['us']),
+  // Exchange rates for listings priced outside USD; see fx/rates.ts
+  fx: z.object({
+    provider: FxProviderSchema.default('static'),
+    rates: z.record(CurrencySchema, z.coerce.number().positive()).default({}),  // Units per USD, over the built-in rates
+    path: z.string().default('data/fx-rates.json'),
+    url: z.string().url().default('https://open.er-api.com/v6/latest/USD'),
+  }),
+  pricingStrategy: PricingStrategySchema.default('median'),
+  assetPricingStrategies: z.record(AssetIdSchema, PricingStrategySchema).default({}),
+  // Listings further than this many robust standard deviations (MAD) from the median are dropped
+  outlierThreshold: z.coerce.number().positive().default(3),
+  // Prices older than this are flagged stale and refused by the price routes
+  maxPriceAgeMs: z.coerce.number().positive().default(10800000), // 3 hours
+  assetMaxPriceAges: z.record(AssetIdSchema, z.coerce.number().positive()).default({}),
+  quorum: QuorumPolicySchema,
+  guardrails: GuardrailPolicySchema,
+  manipulation: ManipulationPolicySchema,
+  circuitBreaker: z.object({
+    failureThreshold: z.coerce.number().int().positive().default(3),
+    cooldownMs: z.coerce.number().positive().default(900000), // 15 minutes
+  }),
+  // Source fetching; per-retailer limits are declared by the adapters
+  fetch: z.object({
+    deadlineMs: z.coerce.number().int().positive().default(120000),  // 2 minutes
+    concurrency: z.coerce.number().int().positive().default(8),       // Fetches in flight across retailers
+  }),
+  push: z.object({
+    enabled: z.boolean().default(false),
+    transport: PushTransportSchema.default('file'),
+    filePath: z.string().default('data/push-updates.jsonl'),
+    rpcUrl: z.string().url().default('http://127.0.0.1:8545'),
+    txTimeoutMs: z.coerce.number().int().positive().default(120000),  // Wait for a transaction to be mined, 2 minutes
+    statePath: z.string().default('data/push-state.json'),  // Last pushed price and nonce per asset
+    privateKey: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Expected a 32-byte hex private key').optional(),
+    chainId: z.coerce.number().int().positive().default(31337),  // Anvil/Hardhat default
+    feeds: z.record(AssetIdSchema, z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a contract address')).default({}),
+    deviationThreshold: z.coerce.number().positive().default(0.005),
+    heartbeatMs: z.coerce.number().positive().default(3600000), // 1 hour
+    checkIntervalMs: z.coerce.number().positive().default(60000),
+  }),
+  // Periodic jobs; see scheduler/
+  scheduler: z.object({
+    jitterMs: z.coerce.number().int().nonnegative().default(5000),
+    jobs: z.object({
+      priceUpdate: JobScheduleSchema.optional(),         // Defaults to every updateIntervalMs
+      hardwareStore: JobScheduleSchema.default('300000'),  // Snapshot prices to Supabase, 5 minutes
+      rentalUpdate: JobScheduleSchema.default('300000'),   // Refresh rental prices, 5 minutes
+      fxUpdate: JobScheduleSchema.default('3600000'),      // Refresh FX rates, 1 hour
+    }),
+  }),
+  // ed25519 key (hex seed or PEM) used to sign API price responses; unset disables attestations
+  attestationKey: z.string().optional(),
+  // Public API access: keyed clients, and anonymous callers limited per IP
+  access: z.object({
+    clients: z.array(ApiClientSchema).default([]).superRefine((clients, ctx) => {
+      const names = new Set<string>();
+      const keys = new Set<string>();
+      for (const client of clients) {
+        if (names.has(client.name)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate API client: ${client.name}` });
+        }
+        if (keys.has(client.key)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `API key reused by ${client.name}` });
+        }
+        names.add(client.name);
+        keys.add(client.key);
+      }
+    }),
+    client: z.object({
+      requestsPerMinute: RateLimitPolicySchema.shape.requestsPerMinute.default(600),
+      dailyQuota: RateLimitPolicySchema.shape.dailyQuota.default(1000000),
+    }),
+    anonymous: z.object({
+      requestsPerMinute: RateLimitPolicySchema.shape.requestsPerMinute.default(60),
+      dailyQuota: RateLimitPolicySchema.shape.dailyQuota.default(50000),
+    }),
+    // Reverse proxy hops in front of the service, so anonymous limits apply to the real client IP
+    trustProxy: z.coerce.number().int().nonnegative().default(0),
+  }),
+  admin: z.object({
+    apiKey: z.string().min(16, 'Admin API key must be at least 16 characters').optional(),  // Unset disables /admin
+    auditLogPath: z.string().default('data/admin-audit.jsonl'),
+  }),
   apis: z.object({
     ebay: z.object({
       appId: z.string().optional(),
@@ -36,6 +296,12 @@ const ConfigSchema = z.object({
       apiKey: z.string().optional(),
       baseUrl: z.string().default('https://api.bestbuy.com/v1'),
     }),
+    runpod: z.object({
+      apiKey: z.string().optional(),
+    }),
+    lambda: z.object({
+      apiKey: z.string().optional(),
+    }),
   }),
 });
 
@@ -47,6 +313,88 @@ export function loadConfig(): Config {
     updateIntervalMs: process.env.UPDATE_INTERVAL_MS,
     priceChangeThreshold: process.env.PRICE_CHANGE_THRESHOLD,
     twapWindowMs: process.env.TWAP_WINDOW_MS,
+    twapStore: process.env.TWAP_STORE || undefined,
+    twapStorePath: process.env.TWAP_STORE_PATH || undefined,
+    listingArchive: process.env.LISTING_ARCHIVE || undefined,
+    listingArchivePath: process.env.LISTING_ARCHIVE_PATH || undefined,
+    regions: process.env.REGIONS?.split(',').map(region => region.trim()).filter(Boolean),
+    fx: {
+      provider: process.env.FX_PROVIDER || undefined,
+      rates: parseAssetMap(process.env.FX_RATES),
+      path: process.env.FX_RATES_PATH || undefined,
+      url: process.env.FX_RATES_URL || undefined,
+    },
+    pricingStrategy: process.env.PRICING_STRATEGY || undefined,
+    assetPricingStrategies: parseAssetMap(process.env.ASSET_PRICING_STRATEGIES),
+    outlierThreshold: process.env.OUTLIER_THRESHOLD,
+    maxPriceAgeMs: process.env.MAX_PRICE_AGE_MS,
+    assetMaxPriceAges: parseAssetMap(process.env.ASSET_MAX_PRICE_AGES),
+    quorum: {
+      minSources: process.env.QUORUM_MIN_SOURCES,
+      minListings: process.env.QUORUM_MIN_LISTINGS,
+    },
+    guardrails: {
+      mode: process.env.GUARDRAIL_MODE || undefined,
+      maxUpdateMove: process.env.GUARDRAIL_MAX_UPDATE_MOVE,
+      maxHourlyMove: process.env.GUARDRAIL_MAX_HOURLY_MOVE,
+      confirmations: process.env.GUARDRAIL_CONFIRMATIONS,
+    },
+    manipulation: {
+      enabled: process.env.MANIPULATION_DETECTION !== 'false' && process.env.MANIPULATION_DETECTION !== '0',
+      maxSourceShare: process.env.MANIPULATION_MAX_SOURCE_SHARE,
+      maxSellerShare: process.env.MANIPULATION_MAX_SELLER_SHARE,
+      minListings: process.env.MANIPULATION_MIN_LISTINGS,
+      flashSaleDiscount: process.env.FLASH_SALE_DISCOUNT,
+      flashSaleMinListings: process.env.FLASH_SALE_MIN_LISTINGS,
+    },
+    circuitBreaker: {
+      failureThreshold: process.env.CIRCUIT_FAILURE_THRESHOLD,
+      cooldownMs: process.env.CIRCUIT_COOLDOWN_MS,
+    },
+    fetch: {
+      deadlineMs: process.env.FETCH_DEADLINE_MS,
+      concurrency: process.env.FETCH_CONCURRENCY,
+    },
+    scheduler: {
+      jitterMs: process.env.JOB_JITTER_MS,
+      jobs: {
+        priceUpdate: process.env.PRICE_UPDATE_SCHEDULE || undefined,
+        hardwareStore: process.env.HARDWARE_STORE_SCHEDULE || undefined,
+        rentalUpdate: process.env.RENTAL_UPDATE_SCHEDULE || undefined,
+        fxUpdate: process.env.FX_UPDATE_SCHEDULE || undefined,
+      },
+    },
+    attestationKey: process.env.ATTESTATION_PRIVATE_KEY || undefined,
+    access: {
+      clients: parseApiClients(process.env.API_KEYS),
+      client: {
+        requestsPerMinute: process.env.CLIENT_REQUESTS_PER_MINUTE,
+        dailyQuota: process.env.CLIENT_DAILY_QUOTA,
+      },
+      anonymous: {
+        requestsPerMinute: process.env.ANON_REQUESTS_PER_MINUTE,
+        dailyQuota: process.env.ANON_DAILY_QUOTA,
+      },
+      trustProxy: process.env.TRUST_PROXY,
+    },
+    admin: {
+      apiKey: process.env.ADMIN_API_KEY || undefined,
+      auditLogPath: process.env.ADMIN_AUDIT_LOG_PATH || undefined,
+    },
+    push: {
+      enabled: process.env.PUSH_ENABLED === 'true' || process.env.PUSH_ENABLED === '1',
+      transport: process.env.PUSH_TRANSPORT || undefined,
+      filePath: process.env.PUSH_FILE_PATH || undefined,
+      rpcUrl: process.env.PUSH_RPC_URL || undefined,
+      txTimeoutMs: process.env.PUSH_TX_TIMEOUT_MS,
+      statePath: process.env.PUSH_STATE_PATH || undefined,
+      privateKey: process.env.PUSH_PRIVATE_KEY || undefined,
+      chainId: process.env.PUSH_CHAIN_ID,
+      feeds: parseAssetMap(process.env.PUSH_FEEDS),
+      deviationThreshold: process.env.PUSH_DEVIATION_THRESHOLD,
+      heartbeatMs: process.env.PUSH_HEARTBEAT_MS,
+      checkIntervalMs: process.env.PUSH_CHECK_INTERVAL_MS,
+    },
     apis: {
       ebay: {
         appId: process.env.EBAY_APP_ID,
@@ -63,24 +411,47 @@ export function loadConfig(): Config {
         apiKey: process.env.BESTBUY_API_KEY,
         baseUrl: process.env.BESTBUY_BASE_URL,
       },
+      runpod: {
+        apiKey: process.env.RUNPOD_API_KEY,
+      },
+      lambda: {
+        apiKey: process.env.LAMBDA_API_KEY,
+      },
     },
   });
 }
 
-// Asset search terms for each API
-export const ASSET_SEARCH_TERMS: Record<AssetId, string[]> = {
-  GPU_RTX4090: ['NVIDIA RTX 4090', 'GeForce RTX 4090'],
-  GPU_RTX4080: ['NVIDIA RTX 4080', 'GeForce RTX 4080'],
-  GPU_RTX3090: ['NVIDIA RTX 3090', 'GeForce RTX 3090'],
-  RAM_DDR5_32: ['DDR5 32GB', 'DDR5 RAM 32GB Kit'],
-  RAM_DDR5_64: ['DDR5 64GB', 'DDR5 RAM 64GB Kit'],
-};
-
-// Best Buy SKU mappings (approximate category IDs)
-export const BESTBUY_CATEGORY_IDS: Record<AssetId, string> = {
-  GPU_RTX4090: 'pcmcat182300050006',
-  GPU_RTX4080: 'pcmcat182300050006',
-  GPU_RTX3090: 'pcmcat182300050006',
-  RAM_DDR5_32: 'pcmcat158500050008',
-  RAM_DDR5_64: 'pcmcat158500050008',
-};
+/**
+ * Parse an API client list of the form "name:key[:requestsPerMinute[:dailyQuota]],..."
+ */
+function parseApiClients(value: string | undefined): Array<Record<string, string | undefined>> | undefined {
+  if (!value) return undefined;
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [name, key, requestsPerMinute, dailyQuota] = entry.split(':').map(part => part.trim());
+      return { name, key, requestsPerMinute: requestsPerMinute || undefined, dailyQuota: dailyQuota || undefined };
+    });
+}
+
+/**
+ * Parse a per-asset override list of the form "ASSET:value,ASSET:value"
+ * (also used for FX rates, keyed by currency)
+ */
+function parseAssetMap(value: string | undefined): Record<string, string> | undefined {
+  if (!value) return undefined;
+
+  const entries = value
+    .split(',')
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map(pair => {
+      const [key, ...rest] = pair.split(':');
+      return [key.trim(), rest.join(':').trim()];
+    });
+
+  return Object.fromEntries(entries);
+}
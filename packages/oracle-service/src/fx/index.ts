@@ -0,0 +1,9 @@
+export {
+  FxConverter,
+  StaticFxRateProvider,
+  FileFxRateProvider,
+  HttpFxRateProvider,
+  createFxRateProvider,
+  DEFAULT_FX_RATES,
+} from './rates.js';
+export type { FxRateProvider, FxRates, FxStatus } from './rates.js';
@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import axios from 'axios';
+import { FxConverter, FileFxRateProvider, HttpFxRateProvider, StaticFxRateProvider, type FxRateProvider } from './rates.js';
+
+describe('FxConverter', () => {
+  it('converts between currencies through USD', () => {
+    const fx = new FxConverter(new StaticFxRateProvider(), { EUR: 0.8, GBP: 0.5 });
+
+    expect(fx.convert(100, 'USD', 'USD')).toBe(100);
+    expect(fx.convert(80, 'EUR', 'USD')).toBe(100);
+    expect(fx.convert(100, 'USD', 'GBP')).toBe(50);
+    expect(fx.convert(80, 'EUR', 'GBP')).toBe(50);
+    expect(() => fx.convert(100, 'JPY', 'USD')).toThrow('No FX rate for JPY');
+  });
+
+  it('keeps current rates when a refresh fails or omits a currency', async () => {
+    const provider: FxRateProvider = { name: 'test', fetchRates: vi.fn() };
+    const fx = new FxConverter(provider, { EUR: 0.8, GBP: 0.5 });
+
+    vi.mocked(provider.fetchRates).mockResolvedValueOnce({ EUR: 0.9 });
+    await fx.refresh();
+    expect(fx.getStatus()).toMatchObject({ provider: 'test', rates: { USD: 1, EUR: 0.9, GBP: 0.5 } });
+
+    vi.mocked(provider.fetchRates).mockRejectedValueOnce(new Error('offline'));
+    await expect(fx.refresh()).rejects.toThrow('offline');
+    expect(fx.convert(90, 'EUR', 'USD')).toBe(100);
+  });
+
+  it('applies static overrides over the built-in rates', async () => {
+    const rates = await new StaticFxRateProvider({ EUR: 0.5 }).fetchRates();
+
+    expect(rates).toMatchObject({ USD: 1, EUR: 0.5, GBP: 0.79 });
+  });
+});
+
+describe('FileFxRateProvider', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads a rate map, skipping invalid entries', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'hardex-fx-'));
+    const filePath = path.join(dir, 'rates.json');
+    await writeFile(filePath, JSON.stringify({ rates: { EUR: 0.9, GBP: '0.8', bad: 1, CAD: -1 } }));
+
+    expect(await new FileFxRateProvider(filePath).fetchRates()).toEqual({ USD: 1, EUR: 0.9, GBP: 0.8 });
+  });
+});
+
+describe('HttpFxRateProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rebases rates quoted against another currency on USD', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: { base_code: 'EUR', rates: { USD: 1.25, GBP: 0.75 } } });
+
+    const rates = await new HttpFxRateProvider('https://fx.example.com/latest').fetchRates();
+
+    expect(rates).toEqual({ EUR: 0.8, USD: 1, GBP: 0.6 });
+  });
+
+  it('rejects responses without rates', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: { result: 'error' } });
+
+    await expect(new HttpFxRateProvider('https://fx.example.com/latest').fetchRates()).rejects.toThrow('Unexpected FX response');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * FX Rates
+ *
+ * Converts listing prices between currencies so retailers outside the US can
+ * feed the global USD price. Rates are quoted as units of a currency per USD
+ * and come from a pluggable provider:
+ * - static: built-in rates, overridable from config; works offline
+ * - file: a JSON file of rates, re-read on every refresh
+ * - http: a JSON endpoint such as open.er-api.com
+ *
+ * The converter serves the last refreshed rates synchronously, so a failed
+ * refresh keeps the previous rates rather than stalling price updates.
+ * Currencies a provider omits keep their previous rate.
+ */
+
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import type { Config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('fx');
+
+export type FxRates = Record<string, number>;  // Units of each currency per USD
+
+// Fallback rates for the currencies of the built-in regional retailers
+export const DEFAULT_FX_RATES: FxRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.37,
+};
+
+export interface FxRateProvider {
+  readonly name: string;
+
+  /**
+   * Fetch current rates, as units of each currency per USD
+   */
+  fetchRates(): Promise<FxRates>;
+}
+
+export interface FxStatus {
+  provider: string;
+  rates: FxRates;
+  updatedAt: number | null;   // Last successful refresh; null while on the initial rates
+}
+
+/**
+ * Fixed rates: the built-in defaults with any configured overrides
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+  readonly name = 'static';
+  private rates: FxRates;
+
+  constructor(overrides: FxRates = {}) {
+    this.rates = { ...DEFAULT_FX_RATES, ...overrides };
+  }
+
+  async fetchRates(): Promise<FxRates> {
+    return { ...this.rates };
+  }
+}
+
+/**
+ * Rates from a JSON file, either `{ "rates": { "EUR": 0.92 } }` or the bare map
+ */
+export class FileFxRateProvider implements FxRateProvider {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async fetchRates(): Promise<FxRates> {
+    const body = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    return parseRates(body.rates ?? body, 'USD');
+  }
+}
+
+/**
+ * Rates from an HTTP endpoint returning `{ "base": "USD", "rates": { ... } }`
+ * (`base_code` is accepted too). Rates against another base are rebased on USD.
+ */
+export class HttpFxRateProvider implements FxRateProvider {
+  readonly name = 'http';
+
+  constructor(private url: string, private timeoutMs = 10000) {}
+
+  async fetchRates(): Promise<FxRates> {
+    const response = await axios.get(this.url, { timeout: this.timeoutMs });
+    const body = response.data;
+    if (!body || typeof body.rates !== 'object') {
+      throw new Error(`Unexpected FX response from ${this.url}`);
+    }
+    return parseRates(body.rates, body.base ?? body.base_code ?? 'USD');
+  }
+}
+
+export class FxConverter {
+  private rates: FxRates;
+  private updatedAt: number | null = null;
+
+  constructor(private provider: FxRateProvider, initial: FxRates = DEFAULT_FX_RATES) {
+    this.rates = { ...initial, USD: 1 };
+  }
+
+  /**
+   * Fetch fresh rates from the provider. Throws on failure, keeping the current rates.
+   */
+  async refresh(): Promise<FxRates> {
+    const rates = await this.provider.fetchRates();
+    this.rates = { ...this.rates, ...rates, USD: 1 };
+    this.updatedAt = Date.now();
+    logger.debug(`Refreshed ${Object.keys(rates).length} FX rates from ${this.provider.name}`);
+    return { ...this.rates };
+  }
+
+  hasRate(currency: string): boolean {
+    return currency in this.rates;
+  }
+
+  /**
+   * Convert an amount between currencies through USD
+   * @throws When either currency has no rate
+   */
+  convert(amount: number, from: string, to: string): number {
+    if (from === to) return amount;
+    return amount / this.getRate(from) * this.getRate(to);
+  }
+
+  getStatus(): FxStatus {
+    return { provider: this.provider.name, rates: { ...this.rates }, updatedAt: this.updatedAt };
+  }
+
+  private getRate(currency: string): number {
+    const rate = this.rates[currency];
+    if (rate === undefined) {
+      throw new Error(`No FX rate for ${currency}`);
+    }
+    return rate;
+  }
+}
+
+/**
+ * Create the configured rate provider
+ */
+export function createFxRateProvider(config: Config['fx']): FxRateProvider {
+  switch (config.provider) {
+    case 'file':
+      logger.info(`Reading FX rates from ${config.path}`);
+      return new FileFxRateProvider(config.path);
+    case 'http':
+      logger.info(`Fetching FX rates from ${config.url}`);
+      return new HttpFxRateProvider(config.url);
+    case 'static':
+    default:
+      return new StaticFxRateProvider(config.rates);
+  }
+}
+
+/**
+ * Validate a rate map and rebase it on USD
+ */
+function parseRates(raw: unknown, base: string): FxRates {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('FX rates must be an object of currency codes to rates');
+  }
+
+  const rates: FxRates = {};
+  for (const [currency, value] of Object.entries(raw)) {
+    const rate = Number(value);
+    if (/^[A-Z]{3}$/.test(currency) && Number.isFinite(rate) && rate > 0) {
+      rates[currency] = rate;
+    }
+  }
+
+  rates[base] ??= 1;
+  const usd = rates.USD;
+  if (!usd) {
+    throw new Error(`FX rates based on ${base} have no USD rate`);
+  }
+  return Object.fromEntries(Object.entries(rates).map(([currency, rate]) => [currency, rate / usd]));
+}
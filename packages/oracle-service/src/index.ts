@@ -1,15 +1,31 @@
 import { loadConfig } from './config/index.js';
-import { createAdapters, createMockAdapters, createScraperAdapters } from './adapters/index.js';
+import {
+  createAdapters,
+  createMockAdapters,
+  createScraperAdapters,
+  createRentalAdapters,
+  RentalPriceAggregator,
+} from './adapters/index.js';
 import { PriceAggregator } from './aggregator/index.js';
 import { createChainlinkAdapter, startAdapter } from './chainlink/index.js';
 import { initSupabase, storeRentalPrices, storeHardwarePrices } from './storage/supabase.js';
-import { vastaiAdapter } from './adapters/rental-vastai.js';
+import { createObservationStore } from './storage/observations.js';
+import { createListingArchive } from './storage/listings.js';
+import { createPushUpdater } from './push/index.js';
+import { createPriceAttestor } from './attestation/index.js';
+import { AuditLog, FeedControls } from './admin/index.js';
+import { AccessControl } from './access/index.js';
+import { enableDefaultMetrics } from './metrics/index.js';
+import { EventHub, buildPriceEvent, buildRentalEvent } from './stream/index.js';
+import { Scheduler } from './scheduler/index.js';
+import { FxConverter, createFxRateProvider } from './fx/index.js';
 import { createLogger } from './utils/logger.js';
 
 const logger = createLogger('main');
 
 async function main() {
   logger.info('Starting Hardware Price Oracle Service');
+  enableDefaultMetrics();
 
   // Initialize Supabase for rental price history storage
   const supabase = initSupabase();
@@ -32,7 +48,7 @@ async function main() {
 
   if (scrapeMode) {
     logger.info('Running in SCRAPE MODE - fetching real prices from websites');
-    adapters = createScraperAdapters();
+    adapters = createScraperAdapters({ regions: config.regions });
   } else if (demoMode) {
     logger.info('Running in DEMO MODE with mock data');
     adapters = createMockAdapters();
@@ -49,91 +65,144 @@ async function main() {
 
   logger.info(`Initialized ${adapters.length} price adapters: ${adapters.map(a => a.name).join(', ')}`)
 
-  // Create price aggregator
-  const aggregator = new PriceAggregator(adapters, config);
+  // Mock data comes from a single simulated source, so only the listing quorum applies
+  const mockOnly = adapters.every(a => a.name === 'mock');
+  if (mockOnly && config.quorum.minSources > 1) {
+    logger.info('Mock data only: relaxing source quorum to 1');
+  }
+  const aggregatorConfig = mockOnly ? { ...config, quorum: { ...config.quorum, minSources: 1 } } : config;
 
-  // Create and start Chainlink adapter
-  const app = createChainlinkAdapter({
-    port: config.port,
-    aggregator,
-  });
+  // Create price aggregator, restoring TWAP observations from the last run
+  const observationStore = createObservationStore(config.twapStore, config.twapStorePath);
+  const listingArchive = createListingArchive(config.listingArchive, config.listingArchivePath);
+  const controls = new FeedControls();
 
-  await startAdapter(app, config.port);
+  // FX rates for listings from non-US retailers; the built-in rates stand in until a refresh succeeds
+  const fx = new FxConverter(createFxRateProvider(config.fx));
+  try {
+    await fx.refresh();
+  } catch (error) {
+    logger.warn(`Failed to load FX rates from ${config.fx.provider} provider, using built-in rates: ${error}`);
+  }
+  if (config.regions.length > 1) {
+    logger.info(`Regional indices enabled for ${config.regions.join(', ')}`);
+  }
 
-  // Initial price fetch
-  logger.info('Performing initial price fetch...');
-  await aggregator.updateAllPrices();
+  const aggregator = new PriceAggregator(adapters, aggregatorConfig, { observationStore, listingArchive, controls, fx });
+  await aggregator.rehydrate();
+
+  // Sign price responses when an attestation key is configured
+  const attestor = createPriceAttestor(config.attestationKey);
+  if (attestor) {
+    logger.info(`Signing price responses with ed25519 key ${attestor.publicKey}`);
+  }
+
+  // Aggregate GPU rental prices across the configured providers
+  const rental = new RentalPriceAggregator(createRentalAdapters(config, demoMode));
+  logger.info(`Initialized rental providers: ${rental.getProviders().join(', ')}`);
 
-  // Set up periodic price updates for hardware
-  const updateInterval = setInterval(async () => {
-    try {
+  // API keys, rate limits and quotas for the public price routes
+  const access = new AccessControl(config.access);
+  logger.info(
+    `Public API: ${config.access.clients.length} keyed clients, ` +
+    `anonymous limit ${config.access.anonymous.requestsPerMinute}/min`
+  );
+
+  // Admin API for pausing feeds, pinning prices and toggling sources
+  const audit = new AuditLog(config.admin.auditLogPath);
+  if (config.admin.apiKey) {
+    logger.info(`Admin API enabled, auditing to ${config.admin.auditLogPath}`);
+  } else {
+    logger.info('Admin API disabled (set ADMIN_API_KEY to enable)');
+  }
+
+  // Push every price update and rental refresh to /stream clients
+  const stream = new EventHub();
+  aggregator.onUpdate(update => stream.publish('price', buildPriceEvent(update, aggregator, attestor)));
+
+  // Push-mode updater for on-chain feeds (deviation + heartbeat)
+  const pushUpdater = config.push.enabled ? createPushUpdater(aggregator, config.push) : null;
+  if (pushUpdater) {
+    logger.info(`Push updates enabled via ${config.push.transport}, signing as ${pushUpdater.signer}`);
+    await pushUpdater.restore();
+  }
+
+  // Periodic jobs: errors are thrown so the scheduler records them for /jobs
+  const scheduler = new Scheduler({ jitterMs: config.scheduler.jitterMs });
+  const { jobs } = config.scheduler;
+
+  scheduler.register({
+    name: 'price-update',
+    description: 'Fetch listings and aggregate prices for every asset, then check push feeds',
+    schedule: jobs.priceUpdate ?? String(config.updateIntervalMs),
+    run: async () => {
       const updates = await aggregator.updateAllPrices();
       const changed = updates.filter(u => u.changed);
       if (changed.length > 0) {
         logger.info(`Price changes detected for: ${changed.map(u => u.assetId).join(', ')}`);
       }
-    } catch (error) {
-      logger.error(`Error updating prices: ${error}`);
-    }
-  }, config.updateIntervalMs);
-
-  // Store hardware prices to Supabase (every 5 minutes)
-  const HARDWARE_STORE_INTERVAL_MS = 5 * 60 * 1000;
-
-  const storeHardwarePricesSnapshot = async () => {
-    try {
-      const allPrices = aggregator.getAllPrices();
-      const timestamp = Date.now();
-
-      const records: Array<{
-        asset_id: string;
-        timestamp: number;
-        price: number;
-        twap: number;
-        source_count: number;
-      }> = [];
-
-      // getAllPrices returns a Map, so iterate with forEach
-      allPrices.forEach((priceData, assetId) => {
-        records.push({
+      await pushUpdater?.check();
+    },
+  });
+
+  // Heartbeats can expire between price updates, so check on their own schedule too
+  if (pushUpdater) {
+    scheduler.register({
+      name: 'push-check',
+      description: 'Push on-chain updates for deviations and expired heartbeats',
+      schedule: String(config.push.checkIntervalMs),
+      jitterMs: 0,
+      run: () => pushUpdater.check(),
+    });
+  }
+
+  // Snapshot hardware prices into Supabase history
+  if (supabase) {
+    scheduler.register({
+      name: 'hardware-store',
+      description: 'Store the latest hardware prices in Supabase',
+      schedule: jobs.hardwareStore,
+      run: async () => {
+        const timestamp = Date.now();
+        const records = [...aggregator.getAllPrices()].map(([assetId, priceData]) => ({
           asset_id: assetId,
           timestamp,
           price: priceData.price,
           twap: priceData.twap,
           source_count: priceData.sourceCount,
-        });
-      });
+        }));
 
-      if (records.length > 0) {
-        await storeHardwarePrices(records);
-        logger.info(`Stored ${records.length} hardware price records to Supabase`);
-      }
-    } catch (error) {
-      logger.error(`Error storing hardware prices: ${error}`);
-    }
-  };
-
-  // Initial hardware price store
-  if (supabase) {
-    // Wait a bit for initial prices to be fetched
-    setTimeout(storeHardwarePricesSnapshot, 10000);
+        if (records.length > 0) {
+          await storeHardwarePrices(records);
+          logger.info(`Stored ${records.length} hardware price records to Supabase`);
+        }
+      },
+    });
   }
 
-  // Set up hardware price store interval
-  const hardwareStoreInterval = supabase
-    ? setInterval(storeHardwarePricesSnapshot, HARDWARE_STORE_INTERVAL_MS)
-    : null;
-
-  // Set up periodic rental price updates (every 5 minutes)
-  const RENTAL_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+  scheduler.register({
+    name: 'fx-update',
+    description: 'Refresh FX rates for listings priced outside USD',
+    schedule: jobs.fxUpdate,
+    run: async () => {
+      await fx.refresh();
+    },
+  });
 
-  const updateRentalPrices = async () => {
-    try {
+  scheduler.register({
+    name: 'rental-update',
+    description: 'Refresh rental prices, stream them and store them in Supabase',
+    schedule: jobs.rentalUpdate,
+    run: async () => {
       logger.info('Fetching rental prices...');
-      const prices = await vastaiAdapter.getAllPriceStats();
-      const timestamp = Date.now();
+      const { stats: prices } = await rental.refresh();
+      const event = buildRentalEvent(prices);
+      stream.publish('rental', event);
+
+      if (!supabase) return;
 
       // Store in Supabase
+      const timestamp = event.timestamp;
       const records = Object.entries(prices).map(([gpuType, stats]) => ({
         gpu_type: gpuType,
         timestamp,
@@ -147,32 +216,40 @@ async function main() {
 
       await storeRentalPrices(records);
       logger.info(`Stored ${records.length} rental price records to Supabase`);
-    } catch (error) {
-      logger.error(`Error updating rental prices: ${error}`);
-    }
-  };
+    },
+  });
 
-  // Initial rental price fetch
-  if (supabase) {
-    logger.info('Performing initial rental price fetch...');
-    await updateRentalPrices();
+  // Create and start Chainlink adapter
+  const app = createChainlinkAdapter({
+    port: config.port,
+    aggregator,
+    attestor,
+    rental,
+    access,
+    trustProxy: config.access.trustProxy,
+    listingArchive,
+    stream,
+    scheduler,
+    admin: { controls, audit, apiKey: config.admin.apiKey },
+  });
+
+  await startAdapter(app, config.port);
+
+  // Initial price and rental fetch, then snapshot the result
+  logger.info('Performing initial price fetch...');
+  await scheduler.trigger('price-update');
+  logger.info('Performing initial rental price fetch...');
+  await scheduler.trigger('rental-update');
+  if (scheduler.has('hardware-store')) {
+    void scheduler.trigger('hardware-store');
   }
 
-  // Set up rental price update interval
-  const rentalUpdateInterval = supabase
-    ? setInterval(updateRentalPrices, RENTAL_UPDATE_INTERVAL_MS)
-    : null;
+  scheduler.start();
 
   // Graceful shutdown
   const shutdown = () => {
     logger.info('Shutting down...');
-    clearInterval(updateInterval);
-    if (rentalUpdateInterval) {
-      clearInterval(rentalUpdateInterval);
-    }
-    if (hardwareStoreInterval) {
-      clearInterval(hardwareStoreInterval);
-    }
+    scheduler.stop();
     process.exit(0);
   };
 
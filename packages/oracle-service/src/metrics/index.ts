@@ -0,0 +1,124 @@
+/**
+ * Prometheus Metrics
+ *
+ * Served at GET /metrics for alerting on scraping degradation:
+ * - adapter fetch latency and results by AdapterError code
+ * - listings per asset through each filtering stage
+ * - published price, TWAP, source count and timestamp per asset
+ * - update cycle duration and scheduled job runs
+ * - Supabase write failures and rental provider fetch results
+ *
+ * Metrics live on a dedicated registry so tests and embedders can read them
+ * without touching prom-client's global default registry.
+ */
+
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+export const registry = new Registry();
+
+/**
+ * Add Node.js process metrics (CPU, memory, event loop lag). Call once on boot.
+ */
+export function enableDefaultMetrics(): void {
+  collectDefaultMetrics({ register: registry, prefix: 'oracle_' });
+}
+
+export const adapterFetchDuration = new Histogram({
+  name: 'oracle_adapter_fetch_duration_seconds',
+  help: 'Price adapter fetch latency',
+  labelNames: ['adapter', 'outcome'] as const,  // outcome: success | failure
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry],
+});
+
+export const adapterFetches = new Counter({
+  name: 'oracle_adapter_fetches_total',
+  help: 'Price adapter fetches by result code (OK, or the AdapterError code)',
+  labelNames: ['adapter', 'code'] as const,
+  registers: [registry],
+});
+
+export const adapterDeadlineMisses = new Counter({
+  name: 'oracle_adapter_deadline_misses_total',
+  help: 'Price adapter fetches dropped from an update cycle for missing its deadline',
+  labelNames: ['adapter'] as const,
+  registers: [registry],
+});
+
+export const listings = new Counter({
+  name: 'oracle_listings_total',
+  help: 'Listings per asset by stage: collected, rejected (wrong product), out_of_bounds, flagged, outlier, accepted',
+  labelNames: ['asset', 'stage'] as const,
+  registers: [registry],
+});
+
+export const manipulationIncidents = new Counter({
+  name: 'oracle_manipulation_incidents_total',
+  help: 'Suspected manipulation per asset: source_dominance, seller_dominance, flash_sale, transient_price',
+  labelNames: ['asset', 'type'] as const,
+  registers: [registry],
+});
+
+export const price = new Gauge({
+  name: 'oracle_price_usd',
+  help: 'Latest published price',
+  labelNames: ['asset', 'condition'] as const,
+  registers: [registry],
+});
+
+export const twap = new Gauge({
+  name: 'oracle_twap_usd',
+  help: 'Time-weighted average price at the latest publish',
+  labelNames: ['asset', 'condition'] as const,
+  registers: [registry],
+});
+
+export const priceSources = new Gauge({
+  name: 'oracle_price_sources',
+  help: 'Sources contributing to the latest published price',
+  labelNames: ['asset', 'condition'] as const,
+  registers: [registry],
+});
+
+export const priceTimestamp = new Gauge({
+  name: 'oracle_price_timestamp_seconds',
+  help: 'Unix time the latest price was published; alert on time() minus this',
+  labelNames: ['asset', 'condition'] as const,
+  registers: [registry],
+});
+
+export const updateCycleDuration = new Histogram({
+  name: 'oracle_update_cycle_duration_seconds',
+  help: 'Time to fetch and aggregate prices for every asset',
+  buckets: [1, 5, 15, 30, 60, 120, 300, 600],
+  registers: [registry],
+});
+
+export const jobDuration = new Histogram({
+  name: 'oracle_job_duration_seconds',
+  help: 'Scheduled job run time; the _count series counts runs by outcome',
+  labelNames: ['job', 'outcome'] as const,  // outcome: success | failure
+  buckets: [0.1, 1, 5, 15, 30, 60, 120, 300, 600],
+  registers: [registry],
+});
+
+export const supabaseWriteFailures = new Counter({
+  name: 'oracle_supabase_write_failures_total',
+  help: 'Failed inserts into Supabase history tables',
+  labelNames: ['table'] as const,
+  registers: [registry],
+});
+
+export const rentalFetches = new Counter({
+  name: 'oracle_rental_fetches_total',
+  help: 'Rental provider fetches (e.g. Vast.ai) by result code (OK, or the AdapterError code)',
+  labelNames: ['adapter', 'code'] as const,
+  registers: [registry],
+});
+
+export const rentalOffers = new Counter({
+  name: 'oracle_rental_offers_total',
+  help: 'Offers returned by rental providers',
+  labelNames: ['adapter'] as const,
+  registers: [registry],
+});
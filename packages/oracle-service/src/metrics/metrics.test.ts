@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { registry } from './index.js';
+import { CircuitBreakerAdapter } from '../adapters/circuit-breaker.js';
+import { AdapterError, type PriceAdapter, type PricePoint } from '../adapters/types.js';
+import { PriceAggregator } from '../aggregator/index.js';
+import { loadConfig } from '../config/index.js';
+
+class StubAdapter implements PriceAdapter {
+  constructor(readonly name: string, private prices: number[] | null) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async fetchPrices(assetId: string): Promise<PricePoint[]> {
+    if (!this.prices) {
+      throw new AdapterError(this.name, 'RATE_LIMITED', 'slow down');
+    }
+    return this.prices.map(price => ({
+      price,
+      source: this.name,
+      timestamp: Date.now(),
+      assetId,
+      metadata: { productName: 'NVIDIA GeForce RTX 4090' },
+    }));
+  }
+}
+
+async function metricLines(name: string): Promise<string[]> {
+  const text = await registry.getSingleMetricAsString(name);
+  return text.split('\n').filter(line => !line.startsWith('#'));
+}
+
+describe('metrics', () => {
+  it('counts adapter fetches by AdapterError code', async () => {
+    const ok = new CircuitBreakerAdapter(new StubAdapter('metrics-ok', [1600]));
+    const failing = new CircuitBreakerAdapter(new StubAdapter('metrics-failing', null), { failureThreshold: 1 });
+
+    await ok.fetchPrices('GPU_RTX4090');
+    await expect(failing.fetchPrices('GPU_RTX4090')).rejects.toThrow();
+    await expect(failing.fetchPrices('GPU_RTX4090')).rejects.toThrow('Circuit open');
+
+    const lines = await metricLines('oracle_adapter_fetches_total');
+    expect(lines).toContain('oracle_adapter_fetches_total{adapter="metrics-ok",code="OK"} 1');
+    expect(lines).toContain('oracle_adapter_fetches_total{adapter="metrics-failing",code="RATE_LIMITED"} 1');
+    expect(lines).toContain('oracle_adapter_fetches_total{adapter="metrics-failing",code="CIRCUIT_OPEN"} 1');
+
+    const latency = await metricLines('oracle_adapter_fetch_duration_seconds');
+    expect(latency).toContain('oracle_adapter_fetch_duration_seconds_count{adapter="metrics-ok",outcome="success"} 1');
+  });
+
+  it('tracks listings by stage and the published price', async () => {
+    const config = { ...loadConfig(), pricingStrategy: 'median' as const, assetPricingStrategies: {} };
+    const aggregator = new PriceAggregator([
+      new StubAdapter('metrics-a', [1600, 1610, 1620, 4500, 9000]),
+      new StubAdapter('metrics-b', [1630, 1640]),
+    ], config);
+
+    await aggregator.updateAllPrices();
+
+    const listings = await metricLines('oracle_listings_total');
+    expect(listings).toContain('oracle_listings_total{asset="GPU_RTX4090",stage="collected"} 7');
+    expect(listings).toContain('oracle_listings_total{asset="GPU_RTX4090",stage="out_of_bounds"} 1');
+    expect(listings).toContain('oracle_listings_total{asset="GPU_RTX4090",stage="outlier"} 1');
+    expect(listings).toContain('oracle_listings_total{asset="GPU_RTX4090",stage="accepted"} 5');
+
+    const price = await metricLines('oracle_price_sources');
+    expect(price).toContain('oracle_price_sources{asset="GPU_RTX4090",condition="new"} 2');
+
+    const cycles = await metricLines('oracle_update_cycle_duration_seconds');
+    expect(cycles).toContain('oracle_update_cycle_duration_seconds_count 1');
+  });
+});
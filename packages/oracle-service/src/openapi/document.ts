@@ -0,0 +1,362 @@
+/**
+ * OpenAPI Document
+ *
+ * Built from the route schemas so the spec can't drift from validation.
+ * Covers the public API; the /admin routes are operator-only and left out.
+ */
+
+import { OpenAPIRegistry, OpenApiGeneratorV3, type RouteConfig } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import {
+  AdaptersResponseSchema,
+  AssetParamsSchema,
+  AssetsResponseSchema,
+  ChainlinkBatchRequestSchema,
+  ChainlinkBatchResponseSchema,
+  ChainlinkErrorSchema,
+  ChainlinkRequestSchema,
+  ChainlinkResponseSchema,
+  ConditionQuerySchema,
+  ErrorSchema,
+  GpuTypeParamsSchema,
+  HealthResponseSchema,
+  IncidentsQuerySchema,
+  IncidentsResponseSchema,
+  JobsResponseSchema,
+  ListingsQuerySchema,
+  ListingsResponseSchema,
+  PriceHistoryQuerySchema,
+  PriceHistoryResponseSchema,
+  PriceQuerySchema,
+  PriceResponseSchema,
+  PricesSnapshotSchema,
+  PriceUnavailableResponseSchema,
+  PubkeyResponseSchema,
+  RentalHistoryQuerySchema,
+  RentalHistoryResponseSchema,
+  RentalOffersResponseSchema,
+  RentalPriceResponseSchema,
+  RentalPricesResponseSchema,
+  RentalProvidersResponseSchema,
+  RentalStorageStatsSchema,
+  StreamQuerySchema,
+  UsageResponseSchema,
+  ValidationErrorSchema,
+} from './schemas.js';
+
+type Responses = RouteConfig['responses'];
+
+const json = (schema: z.ZodTypeAny, description: string) => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+const INVALID_REQUEST = json(ValidationErrorSchema, 'Invalid parameters');
+const HISTORY_UNAVAILABLE = json(ErrorSchema, 'History storage (Supabase) is not configured');
+const SERVER_ERROR = json(ErrorSchema, 'Upstream or storage failure');
+
+// Rate limited routes also answer 401 for an unknown X-API-Key and 429 when over budget
+const LIMITED: Responses = {
+  401: json(ErrorSchema, 'Unknown API key'),
+  429: json(ErrorSchema, 'Rate limit or daily quota exceeded; see Retry-After'),
+};
+
+export function buildOpenApiDocument(): ReturnType<OpenApiGeneratorV3['generateDocument']> {
+  const registry = new OpenAPIRegistry();
+
+  registry.registerComponent('securitySchemes', 'ApiKey', {
+    type: 'apiKey',
+    in: 'header',
+    name: 'X-API-Key',
+    description: 'Optional. Keyed clients get higher rate limits than anonymous callers.',
+  });
+  const security: Array<Record<string, string[]>> = [{ ApiKey: [] }, {}];  // Key optional
+
+  // --- Service ---
+
+  registry.registerPath({
+    method: 'get',
+    path: '/health',
+    tags: ['Service'],
+    summary: 'Liveness check',
+    responses: { 200: json(HealthResponseSchema, 'Service is up') },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/assets',
+    tags: ['Service'],
+    summary: 'Asset registry',
+    responses: { 200: json(AssetsResponseSchema, 'Tracked assets and their sanity bounds') },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/pubkey',
+    tags: ['Service'],
+    summary: 'Public key for verifying price attestations',
+    responses: {
+      200: json(PubkeyResponseSchema, 'ed25519 public key'),
+      404: json(ErrorSchema, 'Attestations are not enabled'),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/adapters',
+    tags: ['Service'],
+    summary: 'Source circuit breaker state and learned reliability',
+    responses: { 200: json(AdaptersResponseSchema, 'Per-source health') },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/jobs',
+    tags: ['Service'],
+    summary: 'Scheduled jobs with recent runs and last errors',
+    responses: { 200: json(JobsResponseSchema, 'Job status') },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/metrics',
+    tags: ['Service'],
+    summary: 'Prometheus metrics',
+    responses: {
+      200: { description: 'Prometheus text exposition format', content: { 'text/plain': { schema: z.string() } } },
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/usage',
+    tags: ['Service'],
+    summary: "Caller's rate limit, quota and usage",
+    security,
+    responses: {
+      200: json(UsageResponseSchema, 'Current budget; usage is null for anonymous callers'),
+      401: json(ErrorSchema, 'Unknown API key'),
+    },
+  });
+
+  // --- Prices ---
+
+  registry.registerPath({
+    method: 'get',
+    path: '/prices',
+    tags: ['Prices'],
+    summary: 'Latest price for every asset',
+    security,
+    request: { query: ConditionQuerySchema },
+    responses: {
+      200: json(PricesSnapshotSchema, 'Servable prices; paused and stale assets are listed under errors'),
+      400: INVALID_REQUEST,
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/price/{assetId}',
+    tags: ['Prices'],
+    summary: 'Latest price for one asset',
+    security,
+    request: { params: AssetParamsSchema, query: PriceQuerySchema },
+    responses: {
+      200: json(PriceResponseSchema, 'Aggregated price'),
+      400: INVALID_REQUEST,
+      404: json(ErrorSchema, 'No price yet for this asset, condition and region'),
+      503: json(PriceUnavailableResponseSchema, 'Feed is paused or the price is stale'),
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/prices/history',
+    tags: ['Prices'],
+    summary: 'Stored price history',
+    security,
+    request: { query: PriceHistoryQuerySchema },
+    responses: {
+      200: json(PriceHistoryResponseSchema, 'History records, oldest first'),
+      400: INVALID_REQUEST,
+      500: SERVER_ERROR,
+      503: HISTORY_UNAVAILABLE,
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/listings',
+    tags: ['Prices'],
+    summary: 'Raw listings collected in an update cycle',
+    description: 'Every listing a cycle collected, with the stage that kept or dropped it. ' +
+      'Pass the `cycleId` of a published price to see exactly what it was computed from.',
+    security,
+    request: { query: ListingsQuerySchema },
+    responses: {
+      200: json(ListingsResponseSchema, 'Listings in the order collected; empty for an unknown or pruned cycle'),
+      400: INVALID_REQUEST,
+      500: SERVER_ERROR,
+      503: json(ErrorSchema, 'Listing archive is disabled'),
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/incidents',
+    tags: ['Prices'],
+    summary: 'Suspected market manipulation',
+    description: 'Retailers or sellers supplying most of an asset\'s listings, flash sales and prices delisted ' +
+      'within a cycle, newest first. Listings involved are excluded from the price and archived as `flagged`.',
+    security,
+    request: { query: IncidentsQuerySchema },
+    responses: {
+      200: json(IncidentsResponseSchema, 'Incidents since the service started'),
+      400: INVALID_REQUEST,
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/stream',
+    tags: ['Prices'],
+    summary: 'Server-sent events of price and rental updates',
+    description:
+      'Events: `prices` (snapshot on connect), `price` (one asset after each update), ' +
+      '`rental` (stats after each rental refresh). Reconnect with Last-Event-ID to replay missed events.',
+    security,
+    request: { query: StreamQuerySchema },
+    responses: {
+      200: { description: 'Event stream', content: { 'text/event-stream': { schema: z.string() } } },
+      400: json(ErrorSchema, 'Unknown topic'),
+      503: json(ErrorSchema, 'Too many stream clients'),
+      ...LIMITED,
+    },
+  });
+
+  // --- Chainlink External Adapter ---
+
+  registry.registerPath({
+    method: 'post',
+    path: '/price',
+    tags: ['Chainlink'],
+    summary: 'Chainlink External Adapter request for one asset',
+    request: { body: { content: { 'application/json': { schema: ChainlinkRequestSchema } } } },
+    responses: {
+      200: json(ChainlinkResponseSchema, 'Scaled result for the requested endpoint'),
+      400: json(ChainlinkErrorSchema, 'Invalid request'),
+      404: json(ChainlinkErrorSchema, 'No price, or the requested source has no listings'),
+      503: json(ChainlinkErrorSchema, 'Feed is paused or the price is stale'),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/prices',
+    tags: ['Chainlink'],
+    summary: 'Chainlink External Adapter request for several assets',
+    request: { body: { content: { 'application/json': { schema: ChainlinkBatchRequestSchema } } } },
+    responses: {
+      200: json(ChainlinkBatchResponseSchema, 'Results per asset; paused and stale assets under errors'),
+      400: json(ChainlinkErrorSchema, 'Invalid request'),
+    },
+  });
+
+  // --- Rental ---
+
+  registry.registerPath({
+    method: 'get',
+    path: '/rental/providers',
+    tags: ['Rental'],
+    summary: 'Rental providers prices are aggregated from',
+    security,
+    responses: { 200: json(RentalProvidersResponseSchema, 'Provider names'), ...LIMITED },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/rental/prices',
+    tags: ['Rental'],
+    summary: 'Rental prices for every tracked GPU',
+    security,
+    responses: {
+      200: json(RentalPricesResponseSchema, 'Stats per GPU type'),
+      500: SERVER_ERROR,
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/rental/prices/{gpuType}',
+    tags: ['Rental'],
+    summary: 'Rental price for one GPU type',
+    security,
+    request: { params: GpuTypeParamsSchema },
+    responses: {
+      200: json(RentalPriceResponseSchema, 'Stats for the GPU type'),
+      400: INVALID_REQUEST,
+      500: SERVER_ERROR,
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/rental/offers/{gpuType}',
+    tags: ['Rental'],
+    summary: 'Current offers for one GPU type',
+    security,
+    request: { params: GpuTypeParamsSchema },
+    responses: {
+      200: json(RentalOffersResponseSchema, 'Offers across providers'),
+      400: INVALID_REQUEST,
+      500: SERVER_ERROR,
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/rental/history',
+    tags: ['Rental'],
+    summary: 'Stored rental price history',
+    security,
+    request: { query: RentalHistoryQuerySchema },
+    responses: {
+      200: json(RentalHistoryResponseSchema, 'History records'),
+      400: INVALID_REQUEST,
+      500: SERVER_ERROR,
+      503: HISTORY_UNAVAILABLE,
+      ...LIMITED,
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/rental/history/stats',
+    tags: ['Rental'],
+    summary: 'Rental history storage statistics',
+    security,
+    responses: {
+      200: json(RentalStorageStatsSchema, 'Record counts and time range'),
+      500: SERVER_ERROR,
+      503: HISTORY_UNAVAILABLE,
+      ...LIMITED,
+    },
+  });
+
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: '3.0.3',
+    info: {
+      title: 'Hardex Price Oracle',
+      version: '0.1.0',
+      description: 'Hardware and GPU rental prices aggregated from retail listings and rental marketplaces.',
+    },
+  });
+}
@@ -0,0 +1,13 @@
+export { buildOpenApiDocument } from './document.js';
+export { createDocsRouter } from './router.js';
+export { parseParams, parseQuery } from './validate.js';
+export {
+  AssetParamsSchema,
+  ConditionQuerySchema,
+  GpuTypeParamsSchema,
+  IncidentsQuerySchema,
+  ListingsQuerySchema,
+  PriceHistoryQuerySchema,
+  PriceQuerySchema,
+  RentalHistoryQuerySchema,
+} from './schemas.js';
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { z } from 'zod';
+import { createChainlinkAdapter } from '../chainlink/index.js';
+import { PriceAggregator } from '../aggregator/index.js';
+import { RentalPriceAggregator } from '../adapters/rental-aggregator.js';
+import { MockRentalAdapter } from '../adapters/rental-mock.js';
+import type { PriceAdapter, PricePoint, Region } from '../adapters/types.js';
+import { AccessControl } from '../access/index.js';
+import { AuditLog, FeedControls } from '../admin/index.js';
+import { PriceAttestor } from '../attestation/index.js';
+import { EventHub } from '../stream/index.js';
+import { Scheduler } from '../scheduler/index.js';
+import { MemoryListingArchive } from '../storage/listings.js';
+import { loadConfig } from '../config/index.js';
+import {
+  ChainlinkBatchResponseSchema,
+  ChainlinkResponseSchema,
+  IncidentsResponseSchema,
+  JobsResponseSchema,
+  ListingsResponseSchema,
+  PriceResponseSchema,
+  PricesSnapshotSchema,
+  RentalOffersResponseSchema,
+  RentalPricesResponseSchema,
+} from './schemas.js';
+import { buildOpenApiDocument } from './document.js';
+
+class StubAdapter implements PriceAdapter {
+  constructor(readonly name: string, private prices: number[]) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async fetchPrices(assetId: string): Promise<PricePoint[]> {
+    if (assetId !== 'GPU_RTX4090') return [];
+    return this.prices.map(price => ({
+      price,
+      source: this.name,
+      timestamp: Date.now(),
+      assetId,
+      metadata: { productName: 'NVIDIA GeForce RTX 4090' },
+    }));
+  }
+}
+
+describe('OpenAPI', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const config = {
+      ...loadConfig(),
+      pricingStrategy: 'median' as const,
+      assetPricingStrategies: {},
+      regions: ['us', 'eu'] as Region[],
+    };
+    const listingArchive = new MemoryListingArchive();
+    const aggregator = new PriceAggregator([
+      new StubAdapter('openapi-a', [1600, 1610, 1620]),
+      new StubAdapter('openapi-b', [1630, 1640]),
+    ], config, { listingArchive });
+    await aggregator.updateAllPrices();
+
+    const scheduler = new Scheduler();
+    scheduler.register({ name: 'noop', description: 'Test job', schedule: '*/5 * * * *', run: async () => {} });
+    await scheduler.trigger('noop');
+
+    const app = createChainlinkAdapter({
+      port: 0,
+      aggregator,
+      attestor: new PriceAttestor('0x' + '11'.repeat(32)),
+      rental: new RentalPriceAggregator([new MockRentalAdapter()]),
+      access: new AccessControl(config.access),
+      listingArchive,
+      stream: new EventHub(),
+      scheduler,
+      admin: { controls: new FeedControls(), audit: new AuditLog(), apiKey: undefined },
+    });
+    await new Promise<void>(resolve => {
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const expectShape = async (res: Response, schema: z.ZodTypeAny) => {
+    expect(res.status).toBe(200);
+    const result = schema.safeParse(await res.json());
+    expect(result.success ? [] : result.error.issues).toEqual([]);
+  };
+
+  it('serves a document covering the public routes', async () => {
+    const res = await fetch(`${baseUrl}/openapi.json`);
+    const document = await res.json() as ReturnType<typeof buildOpenApiDocument>;
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(Object.keys(document.paths)).toEqual(expect.arrayContaining([
+      '/prices', '/price/{assetId}', '/prices/history', '/listings', '/incidents', '/stream', '/price',
+      '/rental/prices', '/rental/prices/{gpuType}', '/rental/offers/{gpuType}', '/rental/history',
+    ]));
+    expect(Object.keys(document.paths['/prices'])).toEqual(['get', 'post']);
+    expect(document.components?.schemas?.Price).toMatchObject({ properties: { priceInt: { type: 'string' } } });
+
+    const docs = await fetch(`${baseUrl}/docs`);
+    expect(docs.headers.get('content-type')).toContain('text/html');
+  });
+
+  it('documents the responses the price routes actually return', async () => {
+    await expectShape(await fetch(`${baseUrl}/prices`), PricesSnapshotSchema);
+    await expectShape(await fetch(`${baseUrl}/price/GPU_RTX4090`), PriceResponseSchema);
+  });
+
+  it('serves regional indices without attestations', async () => {
+    const res = await fetch(`${baseUrl}/price/GPU_RTX4090?region=us`);
+    expect(res.status).toBe(200);
+    const body = await res.json() as Record<string, unknown>;
+    expect(PriceResponseSchema.safeParse(body).success).toBe(true);
+    expect(body).toMatchObject({ region: 'us', currency: 'USD' });
+    expect(body.attestation).toBeUndefined();
+
+    expect((await fetch(`${baseUrl}/price/GPU_RTX4090?region=eu`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/price/GPU_RTX4090?region=mars`)).status).toBe(400);
+  });
+
+  it('documents the listings behind a price', async () => {
+    const price = await (await fetch(`${baseUrl}/price/GPU_RTX4090`)).json() as { cycleId: string };
+    const res = await fetch(`${baseUrl}/listings?assetId=GPU_RTX4090&cycle=${price.cycleId}`);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(ListingsResponseSchema.safeParse(body).success).toBe(true);
+    expect(body).toMatchObject({ cycleId: price.cycleId, count: 5, source: 'memory' });
+  });
+
+  it('documents the incidents route', async () => {
+    await expectShape(await fetch(`${baseUrl}/incidents?assetId=GPU_RTX4090&type=flash_sale`), IncidentsResponseSchema);
+
+    const res = await fetch(`${baseUrl}/incidents?type=spoofing`);
+    expect(res.status).toBe(400);
+  });
+
+  it('documents the job status route', async () => {
+    await expectShape(await fetch(`${baseUrl}/jobs`), JobsResponseSchema);
+  });
+
+  it('documents the Chainlink adapter responses', async () => {
+    const post = (path: string, body: unknown) =>
+      fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    await expectShape(await post('/price', { id: 1, data: { assetId: 'GPU_RTX4090' } }), ChainlinkResponseSchema);
+    await expectShape(await post('/prices', { id: 2, data: {} }), ChainlinkBatchResponseSchema);
+  });
+
+  it('documents the rental responses', async () => {
+    await expectShape(await fetch(`${baseUrl}/rental/prices`), RentalPricesResponseSchema);
+    await expectShape(await fetch(`${baseUrl}/rental/offers/RTX_4090`), RentalOffersResponseSchema);
+  });
+
+  it('rejects malformed parameters with the issues found', async () => {
+    const badCondition = await fetch(`${baseUrl}/price/GPU_RTX4090?condition=broken`);
+    expect(badCondition.status).toBe(400);
+    expect(await badCondition.json()).toMatchObject({ issues: [expect.stringMatching(/^condition: /)] });
+
+    expect((await fetch(`${baseUrl}/price/NOT_AN_ASSET`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/rental/prices/GTX_1080`)).status).toBe(400);
+  });
+});
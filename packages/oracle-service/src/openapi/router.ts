@@ -0,0 +1,42 @@
+/**
+ * API Docs Router
+ *
+ * GET /openapi.json serves the generated OpenAPI document and GET /docs
+ * renders it with Redoc.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { buildOpenApiDocument } from './document.js';
+
+const REDOC_SCRIPT = 'https://cdn.redoc.ly/redoc/v2.1.5/bundles/redoc.standalone.js';
+
+const DOCS_PAGE = `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Hardex Price Oracle API</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <redoc spec-url="openapi.json"></redoc>
+    <script src="${REDOC_SCRIPT}"></script>
+  </body>
+</html>
+`;
+
+export function createDocsRouter(): Router {
+  const router = Router();
+
+  // Schemas are static, so build the document once
+  const document = buildOpenApiDocument();
+
+  router.get('/openapi.json', (_req: Request, res: Response) => {
+    res.json(document);
+  });
+
+  router.get('/docs', (_req: Request, res: Response) => {
+    res.type('html').send(DOCS_PAGE);
+  });
+
+  return router;
+}
@@ -0,0 +1,597 @@
+/**
+ * API Schemas
+ *
+ * Zod schemas for the public routes' parameters and responses. Parameter
+ * schemas validate requests at runtime; response schemas document the JSON
+ * each route returns and are checked against real responses in tests. Both
+ * feed the OpenAPI document served at /openapi.json.
+ */
+
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import { ASSET_IDS, type AssetId } from '../config/index.js';
+import { LISTING_CONDITIONS, REGIONS, type ListingCondition, type Region } from '../adapters/types.js';
+import { RENTAL_GPU_TYPES, type RentalGpuType } from '../adapters/rental-types.js';
+import { CHAINLINK_ENDPOINTS } from '../chainlink/response.js';
+import { ATTESTATION_VERSION } from '../attestation/index.js';
+import { INCIDENT_TYPES } from '../aggregator/manipulation.js';
+
+extendZodWithOpenApi(z);
+
+// History routes cap a single page at the dashboard's 7-day backfill
+const MAX_HISTORY_LIMIT = 5000;
+
+// ---------------------------------------------------------------------------
+// Parameters
+// ---------------------------------------------------------------------------
+
+export const AssetIdSchema = z
+  .enum(ASSET_IDS as [AssetId, ...AssetId[]])
+  .openapi('AssetId', { description: 'Asset ID from the registry at /assets' });
+
+export const ConditionSchema = z
+  .enum(LISTING_CONDITIONS as [ListingCondition, ...ListingCondition[]])
+  .openapi('Condition', { description: 'Market segment a price is computed from' });
+
+export const RegionSchema = z
+  .enum(REGIONS as [Region, ...Region[]])
+  .openapi('Region', { description: 'Retail market with its own index, priced in the local currency' });
+
+export const RentalGpuTypeSchema = z.enum(RENTAL_GPU_TYPES as [RentalGpuType, ...RentalGpuType[]]).openapi('RentalGpuType');
+
+const TimestampParam = z.coerce.number().int().nonnegative();
+
+export const ConditionQuerySchema = z.object({
+  condition: ConditionSchema.default('new'),
+});
+
+export const PriceQuerySchema = ConditionQuerySchema.extend({
+  region: RegionSchema.optional().openapi({
+    description: 'Regional index instead of the global USD price; only configured regions are indexed',
+  }),
+});
+
+export const AssetParamsSchema = z.object({
+  assetId: AssetIdSchema,
+});
+
+export const GpuTypeParamsSchema = z.object({
+  gpuType: RentalGpuTypeSchema,
+});
+
+const timeRange = <T extends z.ZodRawShape>(shape: T) =>
+  z
+    .object({
+      ...shape,
+      startTime: TimestampParam.optional().openapi({ description: 'Unix time in ms' }),
+      endTime: TimestampParam.optional().openapi({ description: 'Unix time in ms' }),
+      limit: z.coerce.number().int().min(1).max(MAX_HISTORY_LIMIT).default(1000),
+    })
+    .refine(q => q.startTime === undefined || q.endTime === undefined || q.startTime <= q.endTime, {
+      message: 'startTime must not be after endTime',
+      path: ['startTime'],
+    });
+
+export const PriceHistoryQuerySchema = timeRange({ assetId: AssetIdSchema.optional() });
+
+export const RentalHistoryQuerySchema = timeRange({ gpuType: RentalGpuTypeSchema.optional() });
+
+export const ListingsQuerySchema = z.object({
+  assetId: AssetIdSchema.optional(),
+  cycle: z.string().min(1).optional().openapi({ description: 'Cycle ID from a price (default: latest cycle)' }),
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_LIMIT).default(1000),
+});
+
+export const IncidentTypeSchema = z.enum(INCIDENT_TYPES).openapi('IncidentType', {
+  description: 'source_dominance and seller_dominance: one retailer or marketplace seller supplied most listings; ' +
+    'flash_sale: new listings appeared far below the published price; ' +
+    'transient_price: a held price was delisted by the next cycle',
+});
+
+export const IncidentsQuerySchema = z.object({
+  assetId: AssetIdSchema.optional(),
+  type: IncidentTypeSchema.optional(),
+  since: TimestampParam.optional().openapi({ description: 'Unix time in ms' }),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const StreamQuerySchema = z.object({
+  topics: z.string().optional().openapi({ description: 'Comma-separated: prices, rental (default both)', example: 'prices' }),
+  lastEventId: z.string().optional().openapi({ description: 'Resume point when the Last-Event-ID header cannot be set' }),
+});
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export const ErrorSchema = z
+  .object({
+    error: z.string(),
+    message: z.string().optional(),
+  })
+  .passthrough()
+  .openapi('Error');
+
+export const ValidationErrorSchema = z
+  .object({
+    error: z.string(),
+    issues: z.array(z.string()),
+  })
+  .openapi('ValidationError');
+
+export const UnavailableErrorSchema = z
+  .object({
+    statusCode: z.literal(503),
+    reason: z.enum(['paused', 'stale']),
+    error: z.string(),
+    ageMs: z.number(),
+    maxAgeMs: z.number(),
+    timestamp: z.number(),
+  })
+  .openapi('UnavailableError', { description: 'Price withheld because its feed is paused or stale' });
+
+// ---------------------------------------------------------------------------
+// Prices
+// ---------------------------------------------------------------------------
+
+const SourceDetailSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    price: z.number(),
+    count: z.number().int(),
+    isSimulated: z.boolean(),
+    reliability: z.number(),
+    weight: z.number(),
+  })
+  .openapi('SourceDetail');
+
+const QuorumStatusSchema = z
+  .object({
+    minSources: z.number().int(),
+    minListings: z.number().int(),
+    met: z.boolean(),
+    sources: z.number().int(),
+    listings: z.number().int(),
+  })
+  .openapi('QuorumStatus');
+
+const GuardrailStatusSchema = z
+  .object({
+    state: z.enum(['ok', 'clamped', 'pending', 'confirmed', 'released']),
+    candidate: z.number().nullable(),
+    band: z.object({ min: z.number(), max: z.number() }).nullable(),
+    confirmations: z.number().int(),
+    required: z.number().int(),
+    pendingSince: z.number().nullable(),
+  })
+  .openapi('GuardrailStatus');
+
+const PricePinSchema = z
+  .object({
+    price: z.number(),
+    reason: z.string(),
+    pinnedAt: z.number(),
+    expiresAt: z.number(),
+  })
+  .openapi('PricePin');
+
+const PriceAttestationSchema = z
+  .object({
+    algorithm: z.literal('ed25519'),
+    version: z.literal(ATTESTATION_VERSION),
+    publicKey: z.string(),
+    signature: z.string(),
+  })
+  .openapi('PriceAttestation', { description: 'Present when the oracle signs responses; see /pubkey' });
+
+export const PriceViewSchema = z
+  .object({
+    condition: ConditionSchema,
+    region: RegionSchema.nullable().openapi({ description: 'Regional index, or null for the global USD price' }),
+    price: z.number(),
+    twap: z.number(),
+    priceInt: z.string().openapi({ description: 'Price with 8 decimals' }),
+    sourceCount: z.number().int(),
+    timestamp: z.number(),
+    ageMs: z.number(),
+    currency: z.string(),
+    sources: z.array(SourceDetailSchema),
+    rejectedListings: z.record(z.number().int()),
+    quorum: QuorumStatusSchema,
+    guardrail: GuardrailStatusSchema,
+    pin: PricePinSchema.nullable(),
+    cycleId: z.string().nullable().openapi({ description: 'Update cycle the price was computed in; see /listings' }),
+    confidence: z.number(),
+    method: z.enum(['median', 'nftperp', 'ventuals', 'hybrid']),
+    components: z.record(z.number()),
+    winsorized: z.boolean(),
+    volatilityAdjusted: z.boolean(),
+    attestation: PriceAttestationSchema.optional().openapi({ description: 'Only global USD prices are signed' }),
+  })
+  .openapi('Price');
+
+export const PricesSnapshotSchema = z
+  .object({
+    prices: z.record(PriceViewSchema),
+    errors: z.record(UnavailableErrorSchema),
+    timestamp: z.number(),
+  })
+  .openapi('PricesSnapshot');
+
+export const PriceResponseSchema = PriceViewSchema.extend({ assetId: AssetIdSchema }).openapi('AssetPrice');
+
+export const PriceUnavailableResponseSchema = UnavailableErrorSchema.extend({
+  assetId: AssetIdSchema,
+  condition: ConditionSchema,
+}).openapi('AssetPriceUnavailable');
+
+export const PriceHistoryResponseSchema = z
+  .object({
+    history: z.array(
+      z.object({
+        assetId: z.string(),
+        timestamp: z.number(),
+        price: z.number(),
+        twap: z.number(),
+        sourceCount: z.number().int(),
+      })
+    ),
+    count: z.number().int(),
+    source: z.literal('supabase'),
+  })
+  .openapi('PriceHistory');
+
+export const ArchivedListingSchema = z
+  .object({
+    cycleId: z.string(),
+    assetId: z.string(),
+    source: z.string(),
+    price: z.number().openapi({ description: 'Price in USD, or as listed for unconverted listings' }),
+    listedPrice: z.number().openapi({ description: 'Price in the currency the retailer listed in' }),
+    currency: z.string(),
+    region: RegionSchema,
+    timestamp: z.number(),
+    condition: ConditionSchema,
+    productName: z.string().nullable(),
+    seller: z.string().nullable(),
+    url: z.string().nullable(),
+    status: z.enum(['accepted', 'unconverted', 'rejected', 'out_of_bounds', 'flagged', 'outlier']).openapi({
+      description: 'accepted listings fed the price; the rest were dropped for a currency with no FX rate, ' +
+        'as the wrong product, outside the sanity bounds, as suspected manipulation (see /incidents), or as outliers',
+    }),
+  })
+  .openapi('ArchivedListing');
+
+export const ListingsResponseSchema = z
+  .object({
+    cycleId: z.string().nullable(),
+    listings: z.array(ArchivedListingSchema),
+    count: z.number().int(),
+    source: z.enum(['memory', 'file', 'supabase']),
+  })
+  .openapi('Listings');
+
+export const IncidentSchema = z
+  .object({
+    id: z.string(),
+    type: IncidentTypeSchema,
+    assetId: z.string(),
+    condition: ConditionSchema,
+    cycleId: z.string().openapi({ description: 'Cycle the incident was detected in; see /listings' }),
+    detectedAt: z.number(),
+    consensus: z.number().nullable().openapi({ description: 'Published price the listings were compared with' }),
+    sources: z.array(z.string()),
+    sellers: z.array(z.string()),
+    prices: z.array(z.number()),
+    excluded: z.number().int().openapi({ description: 'Listings dropped from the cycle' }),
+    detail: z.string(),
+  })
+  .openapi('Incident');
+
+export const IncidentsResponseSchema = z
+  .object({
+    incidents: z.array(IncidentSchema),
+    count: z.number().int(),
+    timestamp: z.number(),
+  })
+  .openapi('Incidents');
+
+// ---------------------------------------------------------------------------
+// Rental
+// ---------------------------------------------------------------------------
+
+const RentalPriceSummarySchema = z
+  .object({
+    minPrice: z.number(),
+    maxPrice: z.number(),
+    medianPrice: z.number(),
+    avgPrice: z.number(),
+    offerCount: z.number().int(),
+    interruptibleAvg: z.number(),
+    onDemandAvg: z.number(),
+  })
+  .openapi('RentalPriceSummary', { description: 'USD per GPU-hour' });
+
+export const RentalPriceStatsSchema = RentalPriceSummarySchema.extend({
+  gpuType: RentalGpuTypeSchema,
+  providers: z.record(RentalPriceSummarySchema),
+  timestamp: z.number(),
+}).openapi('RentalPriceStats');
+
+export const RentalOfferSchema = z
+  .object({
+    id: z.string(),
+    source: z.string(),
+    gpuType: RentalGpuTypeSchema,
+    gpuCount: z.number().int(),
+    pricePerHour: z.number(),
+    pricePerGpuHour: z.number(),
+    totalVram: z.number(),
+    reliability: z.number(),
+    location: z.string(),
+    provider: z.string(),
+    available: z.boolean(),
+    interruptible: z.boolean(),
+    dlPerf: z.number(),
+    timestamp: z.number(),
+  })
+  .openapi('RentalOffer');
+
+export const RentalProvidersResponseSchema = z.object({
+  providers: z.array(z.string()),
+});
+
+export const RentalPricesResponseSchema = z
+  .object({
+    prices: z.record(RentalGpuTypeSchema, RentalPriceStatsSchema),
+    timestamp: z.number(),
+    cached: z.boolean(),
+  })
+  .openapi('RentalPrices');
+
+export const RentalPriceResponseSchema = z.object({
+  stats: RentalPriceStatsSchema,
+  timestamp: z.number(),
+});
+
+export const RentalOffersResponseSchema = z.object({
+  offers: z.array(RentalOfferSchema),
+  count: z.number().int(),
+  timestamp: z.number(),
+});
+
+export const RentalHistoryResponseSchema = z
+  .object({
+    history: z.array(
+      z.object({
+        gpuType: z.string(),
+        timestamp: z.number(),
+        avgPrice: z.number(),
+        minPrice: z.number(),
+        maxPrice: z.number(),
+        offerCount: z.number().int(),
+        interruptibleAvg: z.number().nullable(),
+        onDemandAvg: z.number().nullable(),
+      })
+    ),
+    count: z.number().int(),
+  })
+  .openapi('RentalHistory');
+
+export const RentalStorageStatsSchema = z.object({
+  totalRecords: z.number().int(),
+  oldestTimestamp: z.number().nullable(),
+  newestTimestamp: z.number().nullable(),
+  recordsByGpu: z.record(z.number().int()),
+});
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export const HealthResponseSchema = z.object({
+  status: z.literal('ok'),
+  timestamp: z.number(),
+  assets: z.array(z.string()),
+  scraperApi: z.boolean(),
+});
+
+export const AssetsResponseSchema = z.object({
+  assets: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string(),
+      category: z.string(),
+      priceBounds: z.object({ min: z.number(), max: z.number() }),
+    })
+  ),
+  timestamp: z.number(),
+});
+
+export const PubkeyResponseSchema = z.object({
+  algorithm: z.literal('ed25519'),
+  publicKey: z.string(),
+  encoding: z.literal('hex'),
+});
+
+export const AdaptersResponseSchema = z.object({
+  adapters: z.array(
+    z.object({
+      name: z.string(),
+      state: z.enum(['closed', 'open', 'half-open']),
+      successRate: z.number(),
+      healthScore: z.number(),
+      totalCalls: z.number().int(),
+      totalFailures: z.number().int(),
+      consecutiveFailures: z.number().int(),
+      avgLatencyMs: z.number().nullable(),
+      lastLatencyMs: z.number().nullable(),
+      lastSuccessAt: z.number().nullable(),
+      lastError: z.object({ code: z.string(), message: z.string(), timestamp: z.number() }).nullable(),
+      openedAt: z.number().nullable(),
+      nextAttemptAt: z.number().nullable(),
+    })
+  ),
+  reliability: z.array(
+    z.object({
+      name: z.string(),
+      score: z.number(),
+      availability: z.number(),
+      cleanliness: z.number(),
+      agreement: z.number(),
+      observations: z.number(),
+    })
+  ),
+  timestamp: z.number(),
+});
+
+export const UsageResponseSchema = z.object({
+  client: z.string(),
+  anonymous: z.boolean(),
+  limits: z.object({
+    limit: z.number().int(),
+    remaining: z.number().int(),
+    resetMs: z.number(),
+    quota: z.number().int(),
+    quotaRemaining: z.number().int(),
+    quotaResetMs: z.number(),
+  }),
+  usage: z
+    .object({
+      client: z.string(),
+      requests: z.number().int(),
+      rejected: z.object({ rate: z.number().int(), quota: z.number().int() }),
+      routes: z.record(z.number().int()),
+      daily: z.record(z.number().int()),
+      firstSeen: z.number(),
+      lastSeen: z.number(),
+    })
+    .nullable(),
+  timestamp: z.number(),
+});
+
+const JobRunSchema = z
+  .object({
+    trigger: z.enum(['schedule', 'manual']),
+    startedAt: z.number(),
+    durationMs: z.number(),
+    ok: z.boolean(),
+    error: z.string().nullable(),
+  })
+  .openapi('JobRun');
+
+export const JobsResponseSchema = z.object({
+  jobs: z.array(
+    z
+      .object({
+        name: z.string(),
+        description: z.string(),
+        schedule: z.string().openapi({ description: 'Interval in ms or a UTC cron expression' }),
+        jitterMs: z.number(),
+        running: z.boolean(),
+        nextRunAt: z.number().nullable(),
+        runs: z.number().int(),
+        failures: z.number().int(),
+        skipped: z.number().int(),
+        lastRun: JobRunSchema.nullable(),
+        lastError: z.object({ message: z.string(), at: z.number() }).nullable(),
+        history: z.array(JobRunSchema),
+      })
+      .openapi('JobStatus')
+  ),
+  timestamp: z.number(),
+});
+
+// ---------------------------------------------------------------------------
+// Chainlink External Adapter
+// ---------------------------------------------------------------------------
+
+const ChainlinkRequestDataSchema = z
+  .object({
+    asset: z.string().optional(),
+    assetId: z.string().optional(),
+    condition: ConditionSchema.optional(),
+    endpoint: z.enum(CHAINLINK_ENDPOINTS).optional().openapi({ description: 'Value reported as `result` (default spot)' }),
+    source: z.string().optional().openapi({ description: 'Source ID or name, for endpoint=source' }),
+    decimals: z.number().int().min(0).max(18).optional().openapi({ description: 'Result scaling, default 8' }),
+    multiply: z.union([z.number(), z.string()]).optional().openapi({ description: 'Alternative to decimals, e.g. 100000000' }),
+  })
+  .passthrough();
+
+export const ChainlinkRequestSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]),
+    data: ChainlinkRequestDataSchema,
+  })
+  .openapi('ChainlinkRequest');
+
+export const ChainlinkBatchRequestSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]),
+    data: ChainlinkRequestDataSchema.extend({
+      assets: z.array(z.string()).optional().openapi({ description: 'Defaults to every asset' }),
+      assetIds: z.array(z.string()).optional(),
+    }),
+  })
+  .openapi('ChainlinkBatchRequest');
+
+export const ChainlinkResponseSchema = z
+  .object({
+    jobRunID: z.union([z.string(), z.number()]),
+    statusCode: z.literal(200),
+    data: z
+      .object({
+        result: z.string(),
+        endpoint: z.enum(CHAINLINK_ENDPOINTS),
+        source: z.string().optional(),
+        decimals: z.number().int().optional(),
+        multiply: z.string().optional(),
+        value: z.number(),
+        price: z.number(),
+        twap: z.number(),
+        median: z.number(),
+        min: z.number(),
+        priceInt: z.string(),
+        sourceCount: z.number().int(),
+        timestamp: z.number(),
+        assetId: z.string(),
+        condition: ConditionSchema,
+        confidence: z.number(),
+        method: z.string(),
+        quorum: QuorumStatusSchema,
+        guardrail: GuardrailStatusSchema,
+        attestation: PriceAttestationSchema.optional(),
+      }),
+  })
+  .openapi('ChainlinkResponse');
+
+export const ChainlinkBatchResponseSchema = z
+  .object({
+    jobRunID: z.union([z.string(), z.number()]),
+    statusCode: z.literal(200),
+    data: z.object({
+      result: z.record(
+        z.object({
+          result: z.string().nullable(),
+          price: z.number(),
+          priceInt: z.string(),
+          twap: z.number(),
+        })
+      ),
+      errors: z.record(UnavailableErrorSchema),
+      endpoint: z.enum(CHAINLINK_ENDPOINTS),
+      condition: ConditionSchema,
+      timestamp: z.number(),
+    }),
+  })
+  .openapi('ChainlinkBatchResponse');
+
+export const ChainlinkErrorSchema = z
+  .object({
+    jobRunID: z.union([z.string(), z.number()]),
+    statusCode: z.number().int(),
+    error: z.string(),
+  })
+  .openapi('ChainlinkError');
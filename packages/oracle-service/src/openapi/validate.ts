@@ -0,0 +1,31 @@
+/**
+ * Request Validation
+ */
+
+import type { Request, Response } from 'express';
+import type { z } from 'zod';
+
+/**
+ * Validate a request's path parameters, responding with 400 when invalid
+ */
+export function parseParams<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, req: Request, res: Response): T | null {
+  return parse(schema, req.params, res, 'Invalid path parameters');
+}
+
+/**
+ * Validate a request's query string, responding with 400 when invalid
+ */
+export function parseQuery<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, req: Request, res: Response): T | null {
+  return parse(schema, req.query, res, 'Invalid query parameters');
+}
+
+function parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, res: Response, error: string): T | null {
+  const result = schema.safeParse(value ?? {});
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map(issue =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+  res.status(400).json({ error, issues });
+  return null;
+}
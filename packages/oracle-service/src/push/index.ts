@@ -0,0 +1,12 @@
+export { PushUpdater, createPushUpdater } from './updater.js';
+export type { PushUpdaterOptions } from './updater.js';
+export { FileTransport, RpcTransport, UnconfirmedPushError, createPushTransport } from './transport.js';
+export type { PushTransport } from './transport.js';
+export {
+  PRICE_UPDATE_TYPES,
+  priceUpdateDomain,
+  encodeAssetId,
+  signPriceUpdate,
+  verifyPriceUpdate,
+} from './payload.js';
+export type { PriceUpdateMessage, SignedPriceUpdate } from './payload.js';
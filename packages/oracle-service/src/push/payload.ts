@@ -0,0 +1,80 @@
+/**
+ * Signed Price Update Payloads
+ *
+ * Push updates are EIP-712 typed data signed with the oracle's local key,
+ * so any consumer (a feed contract, a relayer, an off-chain verifier) can
+ * recover the signer. Asset IDs are encoded as keccak256 of the registry ID,
+ * matching the bytes32 IDs used by OracleRegistry.
+ */
+
+import { Wallet, ZeroAddress, id as keccakId, verifyTypedData, type TypedDataDomain } from 'ethers';
+import type { AssetId } from '../config/index.js';
+
+export const PRICE_UPDATE_TYPES = {
+  PriceUpdate: [
+    { name: 'assetId', type: 'bytes32' },
+    { name: 'price', type: 'int256' },
+    { name: 'twap', type: 'int256' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+export interface PriceUpdateMessage {
+  assetId: string;          // bytes32 hex
+  price: string;            // 8-decimal integer
+  twap: string;             // 8-decimal integer
+  timestamp: number;        // Unix seconds
+  nonce: number;            // Per-asset sequence number
+}
+
+export interface SignedPriceUpdate {
+  asset: AssetId;           // Registry ID the message was built for
+  reason: 'deviation' | 'heartbeat';
+  domain: TypedDataDomain;
+  message: PriceUpdateMessage;
+  signer: string;
+  signature: string;
+}
+
+/**
+ * Build the EIP-712 domain for a feed (zero address when the asset has no feed contract)
+ */
+export function priceUpdateDomain(chainId: number, verifyingContract?: string): TypedDataDomain {
+  return {
+    name: 'Hardex Oracle',
+    version: '1',
+    chainId,
+    verifyingContract: verifyingContract ?? ZeroAddress,
+  };
+}
+
+/**
+ * bytes32 asset ID as used on-chain
+ */
+export function encodeAssetId(assetId: AssetId): string {
+  return keccakId(assetId);
+}
+
+/**
+ * Sign a price update message
+ */
+export async function signPriceUpdate(
+  wallet: Wallet,
+  domain: TypedDataDomain,
+  message: PriceUpdateMessage
+): Promise<string> {
+  return wallet.signTypedData(domain, PRICE_UPDATE_TYPES, message);
+}
+
+/**
+ * Recover the signer of a signed update and check it matches the claimed signer
+ */
+export function verifyPriceUpdate(update: SignedPriceUpdate): boolean {
+  try {
+    const recovered = verifyTypedData(update.domain, PRICE_UPDATE_TYPES, update.message, update.signature);
+    return recovered.toLowerCase() === update.signer.toLowerCase();
+  } catch {
+    return false;
+  }
+}
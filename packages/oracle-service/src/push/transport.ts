@@ -0,0 +1,124 @@
+/**
+ * Push Transports
+ *
+ * Deliver signed price updates:
+ * - file: appends JSON lines to a local file, for dry runs and tests
+ * - rpc: calls updatePrice() on the asset's HardwarePriceFeed through a
+ *   JSON-RPC node (Anvil/Hardhat locally), sending from the signing key
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Contract, JsonRpcProvider, Wallet, isError } from 'ethers';
+import type { AssetId, Config } from '../config/index.js';
+import type { SignedPriceUpdate } from './payload.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('push-transport');
+
+const FEED_ABI = ['function updatePrice(int256 price) external'];
+
+export interface PushTransport {
+  readonly name: string;
+
+  /**
+   * Deliver a signed update
+   * @returns A reference for the delivery (e.g. transaction hash), if any
+   */
+  send(update: SignedPriceUpdate): Promise<string | null>;
+
+  /**
+   * Check on a delivery that was sent but not confirmed (see UnconfirmedPushError)
+   * @returns true once confirmed, false if it failed or was dropped, null while pending
+   */
+  confirm(ref: string): Promise<boolean | null>;
+}
+
+/**
+ * A transaction was broadcast but not confirmed in time. It may still be
+ * mined, so the caller must wait on `txHash` rather than send again.
+ */
+export class UnconfirmedPushError extends Error {
+  constructor(
+    public readonly txHash: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'UnconfirmedPushError';
+  }
+}
+
+export class FileTransport implements PushTransport {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async send(update: SignedPriceUpdate): Promise<string | null> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(update)}\n`);
+    return null;
+  }
+
+  async confirm(_ref: string): Promise<boolean | null> {
+    return true;  // Appends are never left pending
+  }
+}
+
+export class RpcTransport implements PushTransport {
+  readonly name = 'rpc';
+  private provider: JsonRpcProvider;
+  private wallet: Wallet;
+
+  constructor(
+    rpcUrl: string,
+    privateKey: string,
+    private feeds: Partial<Record<AssetId, string>>,
+    private txTimeoutMs = 120000
+  ) {
+    this.provider = new JsonRpcProvider(rpcUrl);
+    this.wallet = new Wallet(privateKey, this.provider);
+  }
+
+  async send(update: SignedPriceUpdate): Promise<string | null> {
+    const feedAddress = this.feeds[update.asset];
+    if (!feedAddress) {
+      throw new Error(`No feed contract configured for ${update.asset}`);
+    }
+
+    const feed = new Contract(feedAddress, FEED_ABI, this.wallet);
+    const tx = await feed.updatePrice(BigInt(update.message.price));
+
+    // A transaction stuck in the mempool must not block later pushes
+    let receipt;
+    try {
+      receipt = await tx.wait(1, this.txTimeoutMs);
+    } catch (error) {
+      if (isError(error, 'TIMEOUT')) {
+        throw new UnconfirmedPushError(tx.hash, `updatePrice ${tx.hash} not confirmed within ${this.txTimeoutMs}ms`);
+      }
+      throw new Error(`updatePrice ${tx.hash} failed: ${error}`);
+    }
+    logger.debug(`${update.asset}: updatePrice mined in block ${receipt?.blockNumber}`);
+    return tx.hash as string;
+  }
+
+  async confirm(txHash: string): Promise<boolean | null> {
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (receipt) return receipt.status === 1;
+    // Unmined but still known to the node means it is waiting in the mempool
+    return (await this.provider.getTransaction(txHash)) ? null : false;
+  }
+}
+
+/**
+ * Create the configured push transport
+ */
+export function createPushTransport(config: Config['push'], privateKey: string): PushTransport {
+  switch (config.transport) {
+    case 'rpc':
+      return new RpcTransport(config.rpcUrl, privateKey, config.feeds, config.txTimeoutMs);
+    case 'file':
+    default:
+      return new FileTransport(config.filePath);
+  }
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Wallet } from 'ethers';
+import { PushUpdater } from './updater.js';
+import { encodeAssetId, verifyPriceUpdate, type SignedPriceUpdate } from './payload.js';
+import { UnconfirmedPushError, type PushTransport } from './transport.js';
+import type { AggregatedPrice } from '../aggregator/index.js';
+
+// Anvil's first default account
+const TEST_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+class MemoryTransport implements PushTransport {
+  readonly name = 'memory';
+  sent: SignedPriceUpdate[] = [];
+  fail = false;
+  unconfirmed = false;                                   // Broadcast but time out waiting for a receipt
+  confirmations: Map<string, boolean | null> = new Map();
+
+  async send(update: SignedPriceUpdate): Promise<string | null> {
+    if (this.fail) throw new Error('node unreachable');
+    this.sent.push(update);
+    if (this.unconfirmed) {
+      const txHash = `0x${this.sent.length}`;
+      this.confirmations.set(txHash, null);
+      throw new UnconfirmedPushError(txHash, `updatePrice ${txHash} not confirmed`);
+    }
+    return null;
+  }
+
+  async confirm(ref: string): Promise<boolean | null> {
+    const status = this.confirmations.get(ref);
+    return status === undefined ? false : status;
+  }
+}
+
+function priceOf(value: number): AggregatedPrice {
+  return {
+    assetId: 'GPU_RTX4090',
+    condition: 'new',
+    region: null,
+    price: value,
+    twap: value,
+    median: value,
+    min: value,
+    priceInt: BigInt(Math.round(value * 1e8)),
+    sourceCount: 3,
+    timestamp: 0,
+    updatedAt: 0,
+    ageMs: 0,
+    stale: false,
+    currency: 'USD',
+    sources: [],
+    rejectedListings: {},
+    quorum: { met: true, sources: 3, listings: 9, minSources: 2, minListings: 3 },
+    guardrail: { state: 'ok', candidate: null, band: null, confirmations: 0, required: 3, pendingSince: null },
+    paused: null,
+    pin: null,
+    cycleId: null,
+    confidence: 1,
+    method: 'median',
+    components: {},
+    winsorized: false,
+    volatilityAdjusted: false,
+  };
+}
+
+describe('PushUpdater', () => {
+  const HOUR = 60 * 60 * 1000;
+  let current: number;
+  let stale: boolean;
+  let transport: MemoryTransport;
+  let updater: PushUpdater;
+
+  beforeEach(() => {
+    current = 1600;
+    stale = false;
+    transport = new MemoryTransport();
+    updater = new PushUpdater(
+      { getPrice: () => ({ ...priceOf(current), stale }) },
+      transport,
+      new Wallet(TEST_KEY),
+      { deviationThreshold: 0.01, heartbeatMs: HOUR, chainId: 31337, feeds: {}, assets: ['GPU_RTX4090'] }
+    );
+  });
+
+  it('should push the first observed price', async () => {
+    const updates = await updater.check(0);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].reason).toBe('deviation');
+    expect(updates[0].message).toMatchObject({
+      assetId: encodeAssetId('GPU_RTX4090'),
+      price: '160000000000',
+      nonce: 1,
+    });
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it('should push only when deviation or heartbeat is reached', async () => {
+    await updater.check(0);
+
+    current = 1610; // 0.6%, below threshold
+    expect(await updater.check(60_000)).toHaveLength(0);
+
+    current = 1620; // 1.25% from the last pushed price
+    const [deviation] = await updater.check(120_000);
+    expect(deviation.reason).toBe('deviation');
+    expect(deviation.message.nonce).toBe(2);
+
+    const [heartbeat] = await updater.check(120_000 + HOUR);
+    expect(heartbeat.reason).toBe('heartbeat');
+  });
+
+  it('should sign updates verifiably', async () => {
+    const [update] = await updater.check(0);
+
+    expect(update.signer).toBe(new Wallet(TEST_KEY).address);
+    expect(verifyPriceUpdate(update)).toBe(true);
+    expect(verifyPriceUpdate({ ...update, message: { ...update.message, price: '1' } })).toBe(false);
+  });
+
+  it('should retry failed deliveries on the next check', async () => {
+    transport.fail = true;
+    expect(await updater.check(0)).toHaveLength(0);
+    expect(updater.getLastPushed('GPU_RTX4090')).toBeNull();
+
+    transport.fail = false;
+    expect(await updater.check(1000)).toHaveLength(1);
+  });
+
+  it('should wait on an unconfirmed push instead of sending it again', async () => {
+    transport.unconfirmed = true;
+    expect(await updater.check(0)).toHaveLength(0);
+    transport.unconfirmed = false;
+
+    current = 1700;
+    expect(await updater.check(60_000)).toHaveLength(0);
+    expect(transport.sent).toHaveLength(1);
+
+    transport.confirmations.set('0x1', true);
+    expect(await updater.check(120_000)).toHaveLength(1);
+    expect(transport.sent.map(u => u.message.nonce)).toEqual([1, 2]);
+    expect(updater.getLastPushed('GPU_RTX4090')).toMatchObject({ price: 1700, nonce: 2 });
+  });
+
+  it('should push again once an unconfirmed push is dropped', async () => {
+    transport.unconfirmed = true;
+    await updater.check(0);
+    transport.unconfirmed = false;
+
+    transport.confirmations.set('0x1', false);
+    const [update] = await updater.check(60_000);
+    expect(update.message.nonce).toBe(1);
+  });
+
+  it('should not push stale prices', async () => {
+    await updater.check(0);
+
+    stale = true;
+    current = 1700;
+    expect(await updater.check(60_000)).toHaveLength(0);
+    expect(await updater.check(2 * HOUR)).toHaveLength(0);
+  });
+
+  describe('state file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'hardex-push-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should continue nonces and deviation checks after a restart', async () => {
+      const statePath = path.join(dir, 'nested', 'push-state.json');
+      const create = () => new PushUpdater(
+        { getPrice: () => ({ ...priceOf(current), stale }) },
+        transport,
+        new Wallet(TEST_KEY),
+        { deviationThreshold: 0.01, heartbeatMs: HOUR, chainId: 31337, feeds: {}, assets: ['GPU_RTX4090'], statePath }
+      );
+
+      const first = create();
+      expect(await first.restore()).toBe(0);
+      await first.check(0);
+      current = 1620;
+      await first.check(60_000);
+
+      const restarted = create();
+      expect(await restarted.restore()).toBe(1);
+      expect(restarted.getLastPushed('GPU_RTX4090')).toEqual({ price: 1620, timestamp: 60_000, nonce: 2 });
+      expect(await restarted.check(120_000)).toHaveLength(0);
+
+      current = 1700;
+      const [update] = await restarted.check(180_000);
+      expect(update.message.nonce).toBe(3);
+    });
+
+    it('should keep waiting on a pending push after a restart', async () => {
+      const statePath = path.join(dir, 'push-state.json');
+      const create = () => new PushUpdater(
+        { getPrice: () => ({ ...priceOf(current), stale }) },
+        transport,
+        new Wallet(TEST_KEY),
+        { deviationThreshold: 0.01, heartbeatMs: HOUR, chainId: 31337, feeds: {}, assets: ['GPU_RTX4090'], statePath }
+      );
+
+      transport.unconfirmed = true;
+      await create().check(0);
+      transport.unconfirmed = false;
+
+      const restarted = create();
+      await restarted.restore();
+      expect(await restarted.check(60_000)).toHaveLength(0);
+      expect(transport.sent).toHaveLength(1);
+
+      transport.confirmations.set('0x1', true);
+      await restarted.check(120_000);
+      expect(restarted.getLastPushed('GPU_RTX4090')).toEqual({ price: 1600, timestamp: 0, nonce: 1 });
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Push-Mode Updater
+ *
+ * Publishes an asset's price without a Chainlink node. An update is pushed when
+ * - the price has moved at least `deviationThreshold` from the last pushed price, or
+ * - `heartbeatMs` has passed since the last push
+ *
+ * Deviation is measured against the last *pushed* price rather than the last
+ * computed one (PriceUpdate.changed), so slow drifts still trigger an update.
+ * The last pushed price and nonce per asset are saved to a state file, so a
+ * restart neither reuses nonces nor pushes again before deviation or heartbeat.
+ * A transaction broadcast but not confirmed in time is kept as pending, and
+ * later checks wait on its hash instead of sending a second one.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Wallet } from 'ethers';
+import type { AggregatedPrice, PriceAggregator } from '../aggregator/index.js';
+import type { AssetId, Config } from '../config/index.js';
+import { ASSET_IDS } from '../config/index.js';
+import {
+  encodeAssetId,
+  priceUpdateDomain,
+  signPriceUpdate,
+  type SignedPriceUpdate,
+} from './payload.js';
+import { createPushTransport, UnconfirmedPushError, type PushTransport } from './transport.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('push-updater');
+
+export interface PushUpdaterOptions {
+  deviationThreshold: number;
+  heartbeatMs: number;
+  chainId: number;
+  feeds: Partial<Record<AssetId, string>>;
+  assets?: readonly AssetId[];
+  statePath?: string;     // Persists the last pushed prices; in memory only when unset
+}
+
+interface PushedPrice {
+  price: number;
+  timestamp: number;
+  nonce: number;
+}
+
+interface PendingPush extends PushedPrice {
+  txHash: string;
+}
+
+interface PushState {
+  pushed: Record<string, PushedPrice>;
+  pending: Record<string, PendingPush>;
+}
+
+export class PushUpdater {
+  private lastPushed: Map<AssetId, PushedPrice> = new Map();
+  private pending: Map<AssetId, PendingPush> = new Map();  // Sent, awaiting confirmation
+  private checking = false;
+
+  constructor(
+    private readonly prices: Pick<PriceAggregator, 'getPrice'>,
+    private readonly transport: PushTransport,
+    private readonly wallet: Wallet,
+    private readonly options: PushUpdaterOptions
+  ) {}
+
+  /**
+   * Address updates are signed with
+   */
+  get signer(): string {
+    return this.wallet.address;
+  }
+
+  /**
+   * Reload the last pushed prices, nonces and pending pushes saved by a
+   * previous run. Call once on boot, before the first check.
+   * @returns Number of assets restored
+   */
+  async restore(): Promise<number> {
+    const { statePath } = this.options;
+    if (!statePath) return 0;
+
+    try {
+      const state = JSON.parse(await fs.readFile(statePath, 'utf8')) as PushState;
+      for (const [assetId, pushed] of Object.entries(state.pushed ?? {})) {
+        if (ASSET_IDS.includes(assetId)) {
+          this.lastPushed.set(assetId, pushed);
+        }
+      }
+      for (const [assetId, pending] of Object.entries(state.pending ?? {})) {
+        if (ASSET_IDS.includes(assetId)) {
+          this.pending.set(assetId, pending);
+        }
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to restore push state from ${statePath}: ${err}`);
+      }
+      return 0;
+    }
+    logger.info(`Restored push state for ${this.lastPushed.size} assets from ${statePath}`);
+    return this.lastPushed.size;
+  }
+
+  /**
+   * Decide whether an asset's current price needs pushing
+   */
+  shouldPush(
+    assetId: AssetId,
+    price: AggregatedPrice,
+    now: number = Date.now()
+  ): SignedPriceUpdate['reason'] | null {
+    if (price.price <= 0) return null;
+
+    const last = this.lastPushed.get(assetId);
+    if (!last) return 'deviation';
+
+    const deviation = Math.abs(price.price - last.price) / last.price;
+    if (deviation >= this.options.deviationThreshold) return 'deviation';
+
+    if (now - last.timestamp >= this.options.heartbeatMs) return 'heartbeat';
+
+    return null;
+  }
+
+  /**
+   * Push every asset whose deviation or heartbeat condition is met.
+   * Failed deliveries are logged and retried on the next check; an asset with
+   * an unconfirmed push is skipped until that push confirms or fails.
+   * @returns Updates delivered in this check
+   */
+  async check(now: number = Date.now()): Promise<SignedPriceUpdate[]> {
+    if (this.checking) {
+      logger.warn('Previous push check still running, skipping');
+      return [];
+    }
+    this.checking = true;
+
+    const delivered: SignedPriceUpdate[] = [];
+    try {
+      for (const assetId of this.options.assets ?? ASSET_IDS) {
+        if (this.pending.has(assetId) && !(await this.settlePending(assetId))) continue;
+
+        const price = this.prices.getPrice(assetId);
+        // Never sign a stale or paused price, even on heartbeat
+        if (!price || price.stale || price.paused) continue;
+
+        const reason = this.shouldPush(assetId, price, now);
+        if (!reason) continue;
+
+        try {
+          const update = await this.buildUpdate(assetId, price, reason, now);
+          let ref: string | null;
+          try {
+            ref = await this.transport.send(update);
+          } catch (error) {
+            if (!(error instanceof UnconfirmedPushError)) throw error;
+            this.pending.set(assetId, {
+              price: price.price,
+              timestamp: now,
+              nonce: update.message.nonce,
+              txHash: error.txHash,
+            });
+            await this.saveState();
+            logger.warn(`${assetId}: ${error.message}, waiting on it before pushing again`);
+            continue;
+          }
+
+          this.lastPushed.set(assetId, {
+            price: price.price,
+            timestamp: now,
+            nonce: update.message.nonce,
+          });
+          await this.saveState();
+          delivered.push(update);
+
+          logger.info(
+            `Pushed ${assetId} $${price.price.toFixed(2)} (${reason}) via ${this.transport.name}` +
+            (ref ? `: ${ref}` : '')
+          );
+        } catch (error) {
+          logger.error(`Failed to push ${assetId} via ${this.transport.name}: ${error}`);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Last pushed price for an asset
+   */
+  getLastPushed(assetId: AssetId): PushedPrice | null {
+    return this.lastPushed.get(assetId) || null;
+  }
+
+  /**
+   * Resolve a push left unconfirmed by an earlier check. A confirmed push
+   * becomes the last pushed price; a failed or dropped one is discarded.
+   * @returns false while its transaction is still pending
+   */
+  private async settlePending(assetId: AssetId): Promise<boolean> {
+    const { txHash, ...pushed } = this.pending.get(assetId)!;
+
+    let confirmed: boolean | null;
+    try {
+      confirmed = await this.transport.confirm(txHash);
+    } catch (error) {
+      logger.warn(`Failed to check pending push ${txHash} for ${assetId}: ${error}`);
+      return false;
+    }
+
+    if (confirmed === null) {
+      logger.info(`${assetId}: push ${txHash} still pending`);
+      return false;
+    }
+
+    this.pending.delete(assetId);
+    if (confirmed) {
+      this.lastPushed.set(assetId, pushed);
+      logger.info(`${assetId}: pending push ${txHash} confirmed`);
+    } else {
+      logger.warn(`${assetId}: pending push ${txHash} failed or was dropped`);
+    }
+    await this.saveState();
+    return true;
+  }
+
+  /**
+   * Write the last pushed prices and pending pushes to the state file,
+   * logging rather than failing the push
+   */
+  private async saveState(): Promise<void> {
+    const { statePath } = this.options;
+    if (!statePath) return;
+
+    try {
+      await fs.mkdir(path.dirname(statePath), { recursive: true });
+      const tmpPath = `${statePath}.tmp`;
+      const state: PushState = {
+        pushed: Object.fromEntries(this.lastPushed),
+        pending: Object.fromEntries(this.pending),
+      };
+      await fs.writeFile(tmpPath, JSON.stringify(state, null, 2));
+      await fs.rename(tmpPath, statePath);
+    } catch (error) {
+      logger.error(`Failed to save push state to ${statePath}: ${error}`);
+    }
+  }
+
+  private async buildUpdate(
+    assetId: AssetId,
+    price: AggregatedPrice,
+    reason: SignedPriceUpdate['reason'],
+    now: number
+  ): Promise<SignedPriceUpdate> {
+    const domain = priceUpdateDomain(this.options.chainId, this.options.feeds[assetId]);
+    const message = {
+      assetId: encodeAssetId(assetId),
+      price: price.priceInt.toString(),
+      twap: BigInt(Math.round(price.twap * 1e8)).toString(),
+      timestamp: Math.floor(now / 1000),
+      nonce: (this.lastPushed.get(assetId)?.nonce ?? 0) + 1,
+    };
+
+    return {
+      asset: assetId,
+      reason,
+      domain,
+      message,
+      signer: this.wallet.address,
+      signature: await signPriceUpdate(this.wallet, domain, message),
+    };
+  }
+}
+
+/**
+ * Create a push updater from config
+ * @throws if no signing key is configured
+ */
+export function createPushUpdater(
+  aggregator: Pick<PriceAggregator, 'getPrice'>,
+  config: Config['push']
+): PushUpdater {
+  if (!config.privateKey) {
+    throw new Error('PUSH_PRIVATE_KEY is required when PUSH_ENABLED=true');
+  }
+
+  if (config.transport === 'rpc' && Object.keys(config.feeds).length === 0) {
+    logger.warn('Push transport is rpc but PUSH_FEEDS is empty; nothing will be pushed');
+  }
+
+  const transport = createPushTransport(config, config.privateKey);
+  return new PushUpdater(aggregator, transport, new Wallet(config.privateKey), {
+    deviationThreshold: config.deviationThreshold,
+    heartbeatMs: config.heartbeatMs,
+    chainId: config.chainId,
+    feeds: config.feeds,
+    // On-chain pushes need a feed contract; the file transport records every asset
+    assets: config.transport === 'rpc' ? Object.keys(config.feeds) : undefined,
+    statePath: config.statePath,
+  });
+}
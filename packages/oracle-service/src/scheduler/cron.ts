@@ -0,0 +1,149 @@
+/**
+ * Cron Expressions
+ *
+ * Standard five-field expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields accept `*`, values, ranges (`1-5`), steps (`*\/15`,
+ * `0-30/10`) and comma lists. As in cron, when both day fields are restricted
+ * a time matches if either does.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;     // 0 = Sunday
+  anyDay: boolean;           // Day-of-month is `*`
+  anyWeekday: boolean;       // Day-of-week is `*`
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },  // 7 is also Sunday
+] as const;
+
+// Give up on expressions that can never match, e.g. "0 0 31 2 *"
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * @throws Error when the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  // Fold Sunday-as-7 onto 0
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    expression: parts.join(' '),
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === '*',
+    anyWeekday: parts[4] === '*',
+  };
+}
+
+/**
+ * Whether a value is a cron expression that fires at least once from now,
+ * so "0 0 31 2 *" is rejected along with malformed expressions
+ */
+export function isCronExpression(value: string): boolean {
+  try {
+    nextCronTime(parseCron(value), Date.now());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First time strictly after `after` that matches the schedule
+ * @throws Error when nothing matches within five years
+ */
+export function nextCronTime(cron: CronSchedule, after: number): number {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after + MAX_SEARCH_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  throw new Error(`Cron expression never matches: "${cron.expression}"`);
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+
+  if (cron.anyDay && cron.anyWeekday) return true;
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of text.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} step: "${item}"`);
+    }
+
+    let start: number = field.min;
+    let end: number = field.max;
+    if (range !== '*') {
+      if (!/^\d+(-\d+)?$/.test(range)) {
+        throw new Error(`Invalid ${field.name}: "${item}"`);
+      }
+      const [low, high] = range.split('-').map(Number);
+      start = low;
+      end = high ?? (stepText === undefined ? low : field.max);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid ${field.name}: "${item}" (allowed ${field.min}-${field.max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,4 @@
+export { Scheduler, DEFAULT_SCHEDULER_OPTIONS } from './scheduler.js';
+export type { JobDefinition, JobRun, JobStatus, JobTrigger, SchedulerOptions } from './scheduler.js';
+export { parseCron, nextCronTime, isCronExpression } from './cron.js';
+export type { CronSchedule } from './cron.js';
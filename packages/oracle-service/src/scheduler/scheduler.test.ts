@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Scheduler } from './scheduler.js';
+import { isCronExpression, nextCronTime, parseCron } from './cron.js';
+
+describe('cron', () => {
+  const at = (iso: string) => Date.parse(iso);
+
+  it('finds the next matching minute', () => {
+    const cron = parseCron('*/15 * * * *');
+    expect(nextCronTime(cron, at('2025-01-01T10:07:30Z'))).toBe(at('2025-01-01T10:15:00Z'));
+    expect(nextCronTime(cron, at('2025-01-01T10:15:00Z'))).toBe(at('2025-01-01T10:30:00Z'));
+  });
+
+  it('rolls over hours, days and months', () => {
+    expect(nextCronTime(parseCron('30 2 * * *'), at('2025-01-31T03:00:00Z'))).toBe(at('2025-02-01T02:30:00Z'));
+    expect(nextCronTime(parseCron('0 0 1 */3 *'), at('2025-02-10T00:00:00Z'))).toBe(at('2025-04-01T00:00:00Z'));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2025-01-03 is a Friday; the 5th falls two days later
+    const cron = parseCron('0 9 5 * 5');
+    expect(nextCronTime(cron, at('2025-01-01T00:00:00Z'))).toBe(at('2025-01-03T09:00:00Z'));
+    expect(nextCronTime(cron, at('2025-01-03T10:00:00Z'))).toBe(at('2025-01-05T09:00:00Z'));
+    expect(parseCron('0 0 * * 7').weekdays).toEqual(new Set([0]));
+  });
+
+  it('rejects malformed and impossible expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid minute');
+    expect(() => parseCron('*/0 * * * *')).toThrow('step');
+    expect(() => nextCronTime(parseCron('0 0 31 2 *'), 0)).toThrow('never matches');
+    expect(isCronExpression('0 0 31 2 *')).toBe(false);
+    expect(isCronExpression('0 0 29 2 *')).toBe(true);
+  });
+});
+
+describe('Scheduler', () => {
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2025-01-01T00:00:00Z'));
+    scheduler = new Scheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('runs interval jobs and records their history', async () => {
+    let runs = 0;
+    scheduler.register({ name: 'tick', description: 'Test', schedule: '1000', run: async () => runs++ });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(3500);
+
+    expect(runs).toBe(3);
+    const [status] = scheduler.getStatus();
+    expect(status).toMatchObject({ runs: 3, failures: 0, running: false, nextRunAt: Date.now() + 500 });
+    expect(status.history).toHaveLength(3);
+    expect(status.lastRun).toMatchObject({ trigger: 'schedule', ok: true });
+  });
+
+  it('skips ticks while the previous run is still going', async () => {
+    let release = () => {};
+    scheduler.register({
+      name: 'slow',
+      description: 'Test',
+      schedule: '1000',
+      run: () => new Promise<void>(resolve => { release = resolve; }),
+    });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(scheduler.getStatus()[0]).toMatchObject({ running: true, skipped: 2, runs: 0 });
+    expect(await scheduler.trigger('slow')).toBeNull();
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.getStatus()[0]).toMatchObject({ running: false, runs: 1 });
+  });
+
+  it('keeps the last error and carries on', async () => {
+    let fail = true;
+    scheduler.register({
+      name: 'flaky',
+      description: 'Test',
+      schedule: '1000',
+      run: async () => {
+        if (fail) throw new Error('source down');
+      },
+    });
+
+    const failed = await scheduler.trigger('flaky');
+    fail = false;
+    const recovered = await scheduler.trigger('flaky');
+
+    expect(failed).toMatchObject({ trigger: 'manual', ok: false, error: 'source down' });
+    expect(recovered?.ok).toBe(true);
+    expect(scheduler.getStatus()[0]).toMatchObject({
+      runs: 2,
+      failures: 1,
+      lastError: { message: 'source down', at: Date.now() },
+    });
+  });
+
+  it('follows cron schedules with jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    scheduler.register({ name: 'cron', description: 'Test', schedule: '*/5 * * * *', jitterMs: 10000, run: async () => {} });
+    scheduler.start();
+
+    expect(scheduler.getStatus()[0].nextRunAt).toBe(Date.parse('2025-01-01T00:05:05Z'));
+    vi.restoreAllMocks();
+  });
+
+  it('waits out schedules longer than a single timer allows', async () => {
+    let runs = 0;
+    scheduler.register({ name: 'monthly', description: 'Test', schedule: '0 0 1 * *', jitterMs: 0, run: async () => runs++ });
+    scheduler.start();
+
+    const DAY = 24 * 60 * 60 * 1000;
+    await vi.advanceTimersByTimeAsync(30 * DAY);
+    expect(runs).toBe(0);
+    expect(scheduler.getStatus()[0].nextRunAt).toBe(Date.parse('2025-02-01T00:00:00Z'));
+
+    await vi.advanceTimersByTimeAsync(DAY);
+    expect(runs).toBe(1);
+    expect(scheduler.getStatus()[0].nextRunAt).toBe(Date.parse('2025-03-01T00:00:00Z'));
+  });
+
+  it('rejects duplicate names, bad schedules and unknown jobs', async () => {
+    scheduler.register({ name: 'once', description: 'Test', schedule: '1000', run: async () => {} });
+
+    expect(() => scheduler.register({ name: 'once', description: 'Test', schedule: '1000', run: async () => {} }))
+      .toThrow('already registered');
+    expect(() => scheduler.register({ name: 'bad', description: 'Test', schedule: 'hourly', run: async () => {} }))
+      .toThrow('5 fields');
+    expect(() => scheduler.register({ name: 'never', description: 'Test', schedule: '0 0 31 2 *', run: async () => {} }))
+      .toThrow('never matches');
+    await expect(scheduler.trigger('missing')).rejects.toThrow('Unknown job');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Job Scheduler
+ *
+ * Runs the service's periodic work (price updates, history snapshots, rental
+ * refreshes) as named jobs. Each job runs on an interval or a cron expression,
+ * never overlaps itself (a tick that finds the previous run still going is
+ * skipped), and waits a random jitter before each scheduled run so jobs that
+ * share a period don't all hit their sources at the same moment. Recent runs
+ * and the last error are kept for the /jobs status route, and any job can be
+ * triggered by hand.
+ */
+
+import { nextCronTime, parseCron, type CronSchedule } from './cron.js';
+import { jobDuration } from '../metrics/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('scheduler');
+
+// Longest delay setTimeout accepts (about 24.8 days); longer ones fire at once
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string;                 // Interval in ms (e.g. "300000") or a cron expression
+  run: () => Promise<unknown>;
+  jitterMs?: number;                // Max random delay added to each scheduled run
+}
+
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface JobRun {
+  trigger: JobTrigger;
+  startedAt: number;
+  durationMs: number;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: string;
+  jitterMs: number;
+  running: boolean;
+  nextRunAt: number | null;         // Null while the scheduler is stopped
+  runs: number;
+  failures: number;
+  skipped: number;                  // Scheduled ticks dropped because a run was in progress
+  lastRun: JobRun | null;
+  lastError: { message: string; at: number } | null;
+  history: JobRun[];                // Newest first
+}
+
+export interface SchedulerOptions {
+  jitterMs: number;                 // Default for jobs that don't set their own
+  historySize: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  jitterMs: 0,
+  historySize: 20,
+};
+
+type Schedule = { intervalMs: number } | { cron: CronSchedule };
+
+interface Job {
+  definition: JobDefinition;
+  schedule: Schedule;
+  jitterMs: number;
+  running: Promise<JobRun> | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  nextRunAt: number | null;
+  runs: number;
+  failures: number;
+  skipped: number;
+  lastError: { message: string; at: number } | null;
+  history: JobRun[];
+}
+
+export class Scheduler {
+  private jobs: Map<string, Job> = new Map();
+  private options: SchedulerOptions;
+  private started = false;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  /**
+   * @throws Error on a duplicate name or an invalid schedule
+   */
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job already registered: ${definition.name}`);
+    }
+
+    const job: Job = {
+      definition,
+      schedule: parseSchedule(definition.schedule),
+      jitterMs: definition.jitterMs ?? this.options.jitterMs,
+      running: null,
+      timer: null,
+      nextRunAt: null,
+      runs: 0,
+      failures: 0,
+      skipped: 0,
+      lastError: null,
+      history: [],
+    };
+    this.jobs.set(definition.name, job);
+
+    if (this.started) {
+      this.scheduleNext(job);
+    }
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.values()) {
+      this.scheduleNext(job);
+    }
+    logger.info(`Scheduler started with ${this.jobs.size} jobs: ${[...this.jobs.keys()].join(', ')}`);
+  }
+
+  /**
+   * Cancel upcoming runs; runs already in progress finish on their own
+   */
+  stop(): void {
+    this.started = false;
+
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        clearTimeout(job.timer);
+      }
+      job.timer = null;
+      job.nextRunAt = null;
+    }
+  }
+
+  /**
+   * Run a job now, outside its schedule
+   * @returns The finished run, or null when the job is already running
+   * @throws Error for an unknown job
+   */
+  async trigger(name: string): Promise<JobRun | null> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+    if (job.running) return null;
+
+    return this.execute(job, 'manual');
+  }
+
+  has(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  getStatus(): JobStatus[] {
+    return [...this.jobs.values()].map(job => ({
+      name: job.definition.name,
+      description: job.definition.description,
+      schedule: job.definition.schedule,
+      jitterMs: job.jitterMs,
+      running: job.running !== null,
+      nextRunAt: job.nextRunAt,
+      runs: job.runs,
+      failures: job.failures,
+      skipped: job.skipped,
+      lastRun: job.history[0] ?? null,
+      lastError: job.lastError,
+      history: [...job.history],
+    }));
+  }
+
+  private scheduleNext(job: Job): void {
+    const now = Date.now();
+    let due: number;
+    try {
+      due = 'intervalMs' in job.schedule ? now + job.schedule.intervalMs : nextCronTime(job.schedule.cron, now);
+    } catch (error) {
+      // Runs from a timer, where a throw would take the process down
+      const message = error instanceof Error ? error.message : String(error);
+      job.nextRunAt = null;
+      job.lastError = { message, at: now };
+      logger.error(`Job ${job.definition.name} has no upcoming run: ${message}`);
+      return;
+    }
+    const runAt = due + Math.floor(Math.random() * (job.jitterMs + 1));
+
+    job.nextRunAt = runAt;
+    this.arm(job, runAt);
+  }
+
+  /**
+   * Set the job's timer for `runAt`, re-arming in steps when it is further off
+   * than a single timer can wait
+   */
+  private arm(job: Job, runAt: number): void {
+    const delay = runAt - Date.now();
+    job.timer = delay > MAX_TIMER_DELAY_MS
+      ? setTimeout(() => this.arm(job, runAt), MAX_TIMER_DELAY_MS)
+      : setTimeout(() => this.tick(job), Math.max(0, delay));
+  }
+
+  private tick(job: Job): void {
+    job.timer = null;
+    if (!this.started) return;
+
+    if (job.running) {
+      job.skipped++;
+      logger.warn(`Skipping ${job.definition.name}: previous run still in progress`);
+    } else {
+      void this.execute(job, 'schedule');
+    }
+    this.scheduleNext(job);
+  }
+
+  private execute(job: Job, trigger: JobTrigger): Promise<JobRun> {
+    const run = async (): Promise<JobRun> => {
+      const startedAt = Date.now();
+      let error: string | null = null;
+
+      try {
+        await job.definition.run();
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      const record: JobRun = { trigger, startedAt, durationMs: Date.now() - startedAt, ok: error === null, error };
+      this.record(job, record);
+      return record;
+    };
+
+    job.running = run().finally(() => {
+      job.running = null;
+    });
+    return job.running;
+  }
+
+  private record(job: Job, run: JobRun): void {
+    job.runs++;
+    job.history.unshift(run);
+    if (job.history.length > this.options.historySize) {
+      job.history.pop();
+    }
+    jobDuration.observe({ job: job.definition.name, outcome: run.ok ? 'success' : 'failure' }, run.durationMs / 1000);
+
+    if (run.error !== null) {
+      job.failures++;
+      job.lastError = { message: run.error, at: run.startedAt };
+      logger.error(`Job ${job.definition.name} failed after ${run.durationMs}ms: ${run.error}`);
+    } else {
+      logger.debug(`Job ${job.definition.name} finished in ${run.durationMs}ms (${run.trigger})`);
+    }
+  }
+}
+
+function parseSchedule(value: string): Schedule {
+  const text = value.trim();
+  if (/^\d+$/.test(text)) {
+    const intervalMs = Number(text);
+    if (intervalMs <= 0) {
+      throw new Error(`Job interval must be positive: "${value}"`);
+    }
+    return { intervalMs };
+  }
+  const cron = parseCron(text);
+  nextCronTime(cron, Date.now());  // Throws for expressions that never fire
+  return { cron };
+}
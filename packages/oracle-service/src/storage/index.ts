@@ -1 +1,2 @@
 export * from './supabase.js';
+export * from './observations.js';
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileListingArchive, MemoryListingArchive, type ArchivedListing, type ListingStatus } from './listings.js';
+
+const listing = (cycleId: string, assetId: string, price: number, status: ListingStatus = 'accepted'): ArchivedListing => ({
+  cycleId,
+  assetId,
+  source: 'newegg-scraper',
+  price,
+  listedPrice: price,
+  currency: 'USD',
+  region: 'us',
+  timestamp: 1000,
+  condition: 'new',
+  productName: 'NVIDIA GeForce RTX 4090',
+  seller: null,
+  url: null,
+  status,
+});
+
+describe('MemoryListingArchive', () => {
+  it('serves the latest cycle for an asset by default', async () => {
+    const archive = new MemoryListingArchive();
+    await archive.append([listing('c1', 'GPU_RTX4090', 1600), listing('c1', 'GPU_RTX4080', 1000)]);
+    await archive.append([listing('c2', 'GPU_RTX4080', 1010, 'outlier')]);
+
+    expect(await archive.query({ limit: 10 })).toEqual([listing('c2', 'GPU_RTX4080', 1010, 'outlier')]);
+    expect(await archive.query({ assetId: 'GPU_RTX4090', limit: 10 })).toEqual([listing('c1', 'GPU_RTX4090', 1600)]);
+    expect(await archive.query({ cycleId: 'c1', limit: 1 })).toHaveLength(1);
+  });
+
+  it('keeps only the most recent cycles', async () => {
+    const archive = new MemoryListingArchive(2);
+    for (const cycleId of ['c1', 'c2', 'c3']) {
+      await archive.append([listing(cycleId, 'GPU_RTX4090', 1600)]);
+    }
+
+    expect(await archive.query({ cycleId: 'c1', limit: 10 })).toEqual([]);
+    expect(await archive.query({ cycleId: 'c2', limit: 10 })).toHaveLength(1);
+  });
+});
+
+describe('FileListingArchive', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'hardex-listings-'));
+    filePath = path.join(dir, 'nested', 'listings.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns nothing when the file does not exist', async () => {
+    expect(await new FileListingArchive(filePath).query({ limit: 10 })).toEqual([]);
+  });
+
+  it('round-trips listings by cycle and asset', async () => {
+    const archive = new FileListingArchive(filePath);
+    await archive.append([listing('c1', 'GPU_RTX4090', 1600), listing('c1', 'GPU_RTX4090', 2500, 'outlier')]);
+    await archive.append([listing('c2', 'GPU_RTX4080', 1000)]);
+
+    const reopened = new FileListingArchive(filePath);
+    expect(await reopened.query({ cycleId: 'c1', limit: 10 })).toEqual([
+      listing('c1', 'GPU_RTX4090', 1600),
+      listing('c1', 'GPU_RTX4090', 2500, 'outlier'),
+    ]);
+    expect(await reopened.query({ limit: 10 })).toEqual([listing('c2', 'GPU_RTX4080', 1000)]);
+    expect(await reopened.query({ assetId: 'GPU_RTX4090', limit: 1 })).toEqual([listing('c1', 'GPU_RTX4090', 1600)]);
+  });
+
+  it('reads listings within a time range', async () => {
+    const archive = new FileListingArchive(filePath);
+    await archive.append([listing('c1', 'GPU_RTX4090', 1600), { ...listing('c2', 'GPU_RTX4090', 1610), timestamp: 5000 }]);
+
+    expect(await archive.range(0, 4999)).toEqual([listing('c1', 'GPU_RTX4090', 1600)]);
+    expect(await archive.range(1000, 5000)).toHaveLength(2);
+  });
+
+  it('reads listings archived before they carried a currency as US dollars', async () => {
+    const { listedPrice, currency, region, ...legacy } = listing('c1', 'GPU_RTX4090', 1600);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(legacy)}\n`);
+
+    expect(await new FileListingArchive(filePath).query({ limit: 10 })).toEqual([
+      { ...legacy, listedPrice: 1600, currency: 'USD', region: 'us' },
+    ]);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Raw Listing Archive
+ *
+ * Keeps every listing collected by an update cycle, tagged with the cycle's ID
+ * and the stage that decided its fate, so a published price can be traced back
+ * to the exact listings behind it and audited or disputed later:
+ * - memory: the most recent cycles only, lost on restart
+ * - file: append-only JSON lines file, for local runs
+ * - supabase: the `hardware_listings` table in production
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AssetId, ListingArchiveType } from '../config/index.js';
+import type { ListingCondition, PricePoint, Region } from '../adapters/types.js';
+import { getSupabase } from './supabase.js';
+import * as metrics from '../metrics/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('listing-archive');
+
+/**
+ * Where a listing ended up: accepted listings survived every filter and fed
+ * the price; the rest were dropped for a currency with no FX rate, as the
+ * wrong product, out of the asset's sanity bounds, as suspected manipulation,
+ * or as statistical outliers
+ */
+export type ListingStatus = 'accepted' | 'unconverted' | 'rejected' | 'out_of_bounds' | 'flagged' | 'outlier';
+
+export interface ArchivedListing {
+  cycleId: string;
+  assetId: AssetId;
+  source: string;
+  price: number;            // USD, except for unconverted listings
+  listedPrice: number;      // Price in the retailer's currency
+  currency: string;         // Currency the retailer listed in
+  region: Region;
+  timestamp: number;
+  condition: ListingCondition;
+  productName: string | null;
+  seller: string | null;
+  url: string | null;
+  status: ListingStatus;
+}
+
+export interface ListingQuery {
+  assetId?: AssetId;
+  cycleId?: string;     // Latest cycle with listings for the asset when omitted
+  limit: number;
+}
+
+export interface ListingArchive {
+  readonly name: string;
+
+  /**
+   * Persist listings collected by an update cycle
+   */
+  append(listings: ArchivedListing[]): Promise<void>;
+
+  /**
+   * Listings of one cycle, in the order they were collected
+   * @returns Empty when the cycle is unknown or has been pruned
+   */
+  query(query: ListingQuery): Promise<ArchivedListing[]>;
+
+  /**
+   * Every listing collected between two times (Unix ms, inclusive), in the
+   * order collected; used to replay history through the backtester
+   */
+  range(startTime: number, endTime: number): Promise<ArchivedListing[]>;
+}
+
+export function toArchivedListing(
+  cycleId: string,
+  point: PricePoint,
+  status: ListingStatus
+): ArchivedListing {
+  return {
+    cycleId,
+    assetId: point.assetId,
+    source: point.source,
+    price: point.price,
+    listedPrice: point.listed?.price ?? point.price,
+    currency: point.listed?.currency ?? point.currency ?? 'USD',
+    region: point.region ?? 'us',
+    timestamp: point.timestamp,
+    condition: point.metadata?.condition ?? 'new',
+    productName: point.metadata?.productName ?? null,
+    seller: point.metadata?.seller ?? null,
+    url: point.metadata?.url ?? null,
+    status,
+  };
+}
+
+/**
+ * Keeps the most recent cycles in memory
+ */
+export class MemoryListingArchive implements ListingArchive {
+  readonly name = 'memory';
+  private cycles: Map<string, ArchivedListing[]> = new Map();  // Insertion order is cycle order
+
+  constructor(private maxCycles = 50) {}
+
+  async append(listings: ArchivedListing[]): Promise<void> {
+    for (const listing of listings) {
+      const cycle = this.cycles.get(listing.cycleId) ?? [];
+      cycle.push(listing);
+      this.cycles.set(listing.cycleId, cycle);
+    }
+
+    while (this.cycles.size > this.maxCycles) {
+      this.cycles.delete(this.cycles.keys().next().value as string);
+    }
+  }
+
+  async query(query: ListingQuery): Promise<ArchivedListing[]> {
+    const cycleId = query.cycleId ?? latestCycle([...this.cycles.values()].flat(), query.assetId);
+    return filterListings(this.cycles.get(cycleId ?? '') ?? [], query);
+  }
+
+  async range(startTime: number, endTime: number): Promise<ArchivedListing[]> {
+    return [...this.cycles.values()].flat().filter(l => l.timestamp >= startTime && l.timestamp <= endTime);
+  }
+}
+
+/**
+ * Stores listings as JSON lines in a local file.
+ * Queries scan the file, so keep it on a retention schedule for long runs.
+ */
+export class FileListingArchive implements ListingArchive {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async append(listings: ArchivedListing[]): Promise<void> {
+    if (listings.length === 0) return;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, listings.map(listing => `${JSON.stringify(listing)}\n`).join(''));
+  }
+
+  async query(query: ListingQuery): Promise<ArchivedListing[]> {
+    const listings = await this.readAll();
+    const cycleId = query.cycleId ?? latestCycle(listings, query.assetId);
+    return filterListings(listings.filter(listing => listing.cycleId === cycleId), query);
+  }
+
+  async range(startTime: number, endTime: number): Promise<ArchivedListing[]> {
+    const listings = await this.readAll();
+    return listings.filter(l => l.timestamp >= startTime && l.timestamp <= endTime);
+  }
+
+  private async readAll(): Promise<ArchivedListing[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    const listings: ArchivedListing[] = [];
+    for (const raw of content.split('\n')) {
+      if (!raw.trim()) continue;
+      try {
+        listings.push(withListingDefaults(JSON.parse(raw)));
+      } catch {
+        // Skip partially written lines
+      }
+    }
+    return listings;
+  }
+}
+
+const SUPABASE_PAGE_SIZE = 1000;
+
+interface ListingRow {
+  id?: number;
+  cycle_id: string;
+  asset_id: string;
+  source: string;
+  price: number;
+  listed_price: number | null;  // Null on rows archived before listings carried a currency
+  currency: string | null;
+  region: Region | null;
+  timestamp: number;
+  condition: ListingCondition;
+  product_name: string | null;
+  seller: string | null;
+  url: string | null;
+  status: ListingStatus;
+  created_at?: string;
+}
+
+/**
+ * Stores listings in the Supabase `hardware_listings` table.
+ * Write failures are logged and counted but never fail the update cycle.
+ */
+export class SupabaseListingArchive implements ListingArchive {
+  readonly name = 'supabase';
+
+  async append(listings: ArchivedListing[]): Promise<void> {
+    const supabase = getSupabase();
+    if (!supabase || listings.length === 0) return;
+
+    const rows: ListingRow[] = listings.map(listing => ({
+      cycle_id: listing.cycleId,
+      asset_id: listing.assetId,
+      source: listing.source,
+      price: listing.price,
+      listed_price: listing.listedPrice,
+      currency: listing.currency,
+      region: listing.region,
+      timestamp: listing.timestamp,
+      condition: listing.condition,
+      product_name: listing.productName,
+      seller: listing.seller,
+      url: listing.url,
+      status: listing.status,
+    }));
+
+    try {
+      const { error } = await supabase.from('hardware_listings').insert(rows);
+      if (error) {
+        metrics.supabaseWriteFailures.inc({ table: 'hardware_listings' });
+        logger.error('Failed to archive listings:', error);
+      }
+    } catch (err) {
+      metrics.supabaseWriteFailures.inc({ table: 'hardware_listings' });
+      logger.error('Error archiving listings:', err);
+    }
+  }
+
+  async query(query: ListingQuery): Promise<ArchivedListing[]> {
+    const supabase = getSupabase();
+    if (!supabase) return [];
+
+    let cycleId = query.cycleId;
+    if (!cycleId) {
+      let latest = supabase.from('hardware_listings').select('cycle_id').order('id', { ascending: false }).limit(1);
+      if (query.assetId) {
+        latest = latest.eq('asset_id', query.assetId);
+      }
+      const { data, error } = await latest;
+      if (error) throw new Error(`Failed to find latest cycle: ${error.message}`);
+      cycleId = data?.[0]?.cycle_id;
+      if (!cycleId) return [];
+    }
+
+    let select = supabase
+      .from('hardware_listings')
+      .select('*')
+      .eq('cycle_id', cycleId)
+      .order('id', { ascending: true })
+      .limit(query.limit);
+    if (query.assetId) {
+      select = select.eq('asset_id', query.assetId);
+    }
+
+    const { data, error } = await select;
+    if (error) throw new Error(`Failed to fetch listings: ${error.message}`);
+
+    return (data as ListingRow[] ?? []).map(fromRow);
+  }
+
+  async range(startTime: number, endTime: number): Promise<ArchivedListing[]> {
+    const supabase = getSupabase();
+    if (!supabase) return [];
+
+    // PostgREST caps each response, so page through the range
+    const listings: ArchivedListing[] = [];
+    for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('hardware_listings')
+        .select('*')
+        .gte('timestamp', startTime)
+        .lte('timestamp', endTime)
+        .order('id', { ascending: true })
+        .range(from, from + SUPABASE_PAGE_SIZE - 1);
+      if (error) throw new Error(`Failed to fetch listings: ${error.message}`);
+
+      listings.push(...(data as ListingRow[] ?? []).map(fromRow));
+      if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+    }
+    return listings;
+  }
+}
+
+/**
+ * Create the configured listing archive (null disables archiving)
+ */
+export function createListingArchive(type: ListingArchiveType, filePath: string): ListingArchive | null {
+  switch (type) {
+    case 'file':
+      logger.info(`Archiving raw listings to ${filePath}`);
+      return new FileListingArchive(filePath);
+    case 'supabase':
+      if (!getSupabase()) {
+        logger.warn('Listing archive set to supabase but Supabase is not configured; keeping listings in memory');
+        return new MemoryListingArchive();
+      }
+      logger.info('Archiving raw listings to Supabase hardware_listings');
+      return new SupabaseListingArchive();
+    case 'memory':
+      return new MemoryListingArchive();
+    case 'off':
+    default:
+      return null;
+  }
+}
+
+function fromRow(row: ListingRow): ArchivedListing {
+  return withListingDefaults({
+    cycleId: row.cycle_id,
+    assetId: row.asset_id,
+    source: row.source,
+    price: row.price,
+    listedPrice: row.listed_price ?? undefined,
+    currency: row.currency ?? undefined,
+    region: row.region ?? undefined,
+    timestamp: row.timestamp,
+    condition: row.condition,
+    productName: row.product_name,
+    seller: row.seller,
+    url: row.url,
+    status: row.status,
+  });
+}
+
+/**
+ * Fill in the fields missing from listings archived before they carried a
+ * currency and region; those were all listed in USD on US sites
+ */
+function withListingDefaults(
+  listing: Omit<ArchivedListing, 'listedPrice' | 'currency' | 'region'> & Partial<ArchivedListing>
+): ArchivedListing {
+  return {
+    ...listing,
+    listedPrice: listing.listedPrice ?? listing.price,
+    currency: listing.currency ?? 'USD',
+    region: listing.region ?? 'us',
+  };
+}
+
+function latestCycle(listings: ArchivedListing[], assetId: AssetId | undefined): string | undefined {
+  for (let i = listings.length - 1; i >= 0; i--) {
+    if (!assetId || listings[i].assetId === assetId) return listings[i].cycleId;
+  }
+  return undefined;
+}
+
+function filterListings(listings: ArchivedListing[], query: ListingQuery): ArchivedListing[] {
+  return listings
+    .filter(listing => !query.assetId || listing.assetId === query.assetId)
+    .slice(0, query.limit);
+}
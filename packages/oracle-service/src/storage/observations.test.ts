@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileObservationStore } from './observations.js';
+
+describe('FileObservationStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'hardex-twap-'));
+    filePath = path.join(dir, 'nested', 'observations.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns an empty map when the file does not exist', async () => {
+    const store = new FileObservationStore(filePath);
+    const loaded = await store.load(0);
+    expect(loaded.size).toBe(0);
+  });
+
+  it('round-trips observations grouped by asset', async () => {
+    const store = new FileObservationStore(filePath);
+    await store.append('GPU_RTX4090', { price: 1600, timestamp: 1000 });
+    await store.append('GPU_RTX4090', { price: 1610, timestamp: 2000 });
+    await store.append('RAM_DDR5_32', { price: 120, timestamp: 1500 });
+
+    const loaded = await new FileObservationStore(filePath).load(0);
+
+    expect(loaded.get('GPU_RTX4090')).toEqual([
+      { price: 1600, timestamp: 1000 },
+      { price: 1610, timestamp: 2000 },
+    ]);
+    expect(loaded.get('RAM_DDR5_32')).toEqual([{ price: 120, timestamp: 1500 }]);
+  });
+
+  it('drops observations older than the window and compacts the file', async () => {
+    const store = new FileObservationStore(filePath);
+    await store.append('GPU_RTX4090', { price: 1500, timestamp: 1000 });
+    await store.append('GPU_RTX4090', { price: 1600, timestamp: 5000 });
+
+    const loaded = await store.load(2000);
+
+    expect(loaded.get('GPU_RTX4090')).toEqual([{ price: 1600, timestamp: 5000 }]);
+    const content = await readFile(filePath, 'utf8');
+    expect(content.trim().split('\n')).toHaveLength(1);
+  });
+
+  it('keys observations by series, reading lines written before series keys', async () => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify({ assetId: 'GPU_RTX4090', price: 1600, timestamp: 1000 })}\n`);
+    const store = new FileObservationStore(filePath);
+    await store.append('GPU_RTX4090:used', { price: 1300, timestamp: 2000 });
+    await store.append('GPU_RTX4090@eu', { price: 1500, timestamp: 3000 });
+
+    const loaded = await store.load(0);
+
+    expect([...loaded.keys()]).toEqual(['GPU_RTX4090', 'GPU_RTX4090:used', 'GPU_RTX4090@eu']);
+    expect(loaded.get('GPU_RTX4090')).toEqual([{ price: 1600, timestamp: 1000 }]);
+  });
+});
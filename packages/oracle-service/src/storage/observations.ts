@@ -0,0 +1,180 @@
+/**
+ * TWAP Observation Stores
+ *
+ * Persist the observations behind TWAPCalculator so the TWAP survives
+ * restarts and redeploys. Observations are keyed by price series (see
+ * seriesKey(), e.g. "GPU_RTX4090", "GPU_RTX4090:used", "GPU_RTX4090@eu") and
+ * are the aggregated prices as published, never pinned or held ones:
+ * - file: append-only JSON lines file, for local runs
+ * - supabase: the `twap_observations` table in production
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TwapStoreType } from '../config/index.js';
+import type { PriceObservation } from '../aggregator/twap.js';
+import { getSupabase } from './supabase.js';
+import * as metrics from '../metrics/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('observation-store');
+
+const SUPABASE_PAGE_SIZE = 1000;
+
+export interface ObservationStore {
+  readonly name: string;
+
+  /**
+   * Load all observations recorded at or after `since` (Unix ms), by series key
+   */
+  load(since: number): Promise<Map<string, PriceObservation[]>>;
+
+  /**
+   * Persist a new observation for a series
+   */
+  append(seriesKey: string, observation: PriceObservation): Promise<void>;
+}
+
+interface ObservationLine extends PriceObservation {
+  seriesKey: string;
+}
+
+function groupBySeries(lines: ObservationLine[]): Map<string, PriceObservation[]> {
+  const grouped = new Map<string, PriceObservation[]>();
+  for (const line of lines) {
+    const obs = grouped.get(line.seriesKey) || [];
+    obs.push({ price: line.price, timestamp: line.timestamp });
+    grouped.set(line.seriesKey, obs);
+  }
+  return grouped;
+}
+
+/**
+ * Stores observations as JSON lines in a local file.
+ * The file is compacted to the loaded window on every load.
+ */
+export class FileObservationStore implements ObservationStore {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async load(since: number): Promise<Map<string, PriceObservation[]>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw err;
+    }
+
+    const lines: ObservationLine[] = [];
+    for (const raw of content.split('\n')) {
+      if (!raw.trim()) continue;
+      try {
+        // Lines written before series keys were named hold the key under `assetId`
+        const line = JSON.parse(raw) as ObservationLine & { assetId?: string };
+        const seriesKey = line.seriesKey ?? line.assetId;
+        if (seriesKey && line.timestamp >= since && line.price > 0) {
+          lines.push({ seriesKey, price: line.price, timestamp: line.timestamp });
+        }
+      } catch {
+        // Skip partially written lines
+      }
+    }
+
+    // Drop observations outside the window so the file doesn't grow forever
+    const compacted = lines.map(line => JSON.stringify(line)).join('\n');
+    await fs.writeFile(this.filePath, compacted ? `${compacted}\n` : '');
+
+    return groupBySeries(lines);
+  }
+
+  async append(seriesKey: string, observation: PriceObservation): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const line: ObservationLine = { seriesKey, ...observation };
+    await fs.appendFile(this.filePath, `${JSON.stringify(line)}\n`);
+  }
+}
+
+interface ObservationRow {
+  id?: number;
+  series_key: string;
+  price: number;
+  timestamp: number;
+  created_at?: string;
+}
+
+/**
+ * Stores observations in the Supabase `twap_observations` table.
+ * Write failures are logged and counted but never fail the update cycle.
+ */
+export class SupabaseObservationStore implements ObservationStore {
+  readonly name = 'supabase';
+
+  async load(since: number): Promise<Map<string, PriceObservation[]>> {
+    const supabase = getSupabase();
+    if (!supabase) {
+      return new Map();
+    }
+
+    // PostgREST caps each response, so page through the window
+    const lines: ObservationLine[] = [];
+    for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('twap_observations')
+        .select('series_key, price, timestamp')
+        .gte('timestamp', since)
+        .order('timestamp', { ascending: true })
+        .range(from, from + SUPABASE_PAGE_SIZE - 1);
+      if (error) throw new Error(`Failed to load TWAP observations: ${error.message}`);
+
+      for (const row of data as ObservationRow[] ?? []) {
+        if (row.price > 0) {
+          lines.push({ seriesKey: row.series_key, price: row.price, timestamp: row.timestamp });
+        }
+      }
+      if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+    }
+
+    return groupBySeries(lines);
+  }
+
+  async append(seriesKey: string, observation: PriceObservation): Promise<void> {
+    const supabase = getSupabase();
+    if (!supabase) return;
+
+    const row: ObservationRow = { series_key: seriesKey, ...observation };
+    try {
+      const { error } = await supabase.from('twap_observations').insert(row);
+      if (error) {
+        metrics.supabaseWriteFailures.inc({ table: 'twap_observations' });
+        logger.error('Failed to store TWAP observation:', error);
+      }
+    } catch (err) {
+      metrics.supabaseWriteFailures.inc({ table: 'twap_observations' });
+      logger.error('Error storing TWAP observation:', err);
+    }
+  }
+}
+
+/**
+ * Create the configured observation store (null for in-memory only)
+ */
+export function createObservationStore(
+  type: TwapStoreType,
+  filePath: string
+): ObservationStore | null {
+  switch (type) {
+    case 'file':
+      logger.info(`Persisting TWAP observations to ${filePath}`);
+      return new FileObservationStore(filePath);
+    case 'supabase':
+      logger.info('Persisting TWAP observations to Supabase twap_observations');
+      return new SupabaseObservationStore();
+    case 'memory':
+    default:
+      return null;
+  }
+}
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import * as metrics from '../metrics/index.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('supabase');
@@ -59,11 +60,13 @@ export async function storeRentalPrices(records: Omit<RentalPriceRecord, 'id' |
       .insert(records);
 
     if (error) {
+      metrics.supabaseWriteFailures.inc({ table: 'rental_prices' });
       logger.error('Failed to store rental prices:', error);
     } else {
       logger.debug(`Stored ${records.length} rental price records`);
     }
   } catch (err) {
+    metrics.supabaseWriteFailures.inc({ table: 'rental_prices' });
     logger.error('Error storing rental prices:', err);
   }
 }
@@ -211,11 +214,13 @@ export async function storeHardwarePrices(records: Omit<HardwarePriceRecord, 'id
       .insert(records);
 
     if (error) {
+      metrics.supabaseWriteFailures.inc({ table: 'hardware_prices' });
       logger.error('Failed to store hardware prices:', error);
     } else {
       logger.debug(`Stored ${records.length} hardware price records`);
     }
   } catch (err) {
+    metrics.supabaseWriteFailures.inc({ table: 'hardware_prices' });
     logger.error('Error storing hardware prices:', err);
   }
 }
@@ -0,0 +1,52 @@
+/**
+ * Stream Event Payloads
+ */
+
+import type { PriceAggregator, PriceUpdate } from '../aggregator/index.js';
+import type { RentalGpuType, RentalPriceStats } from '../adapters/rental-types.js';
+import type { PriceAttestor } from '../attestation/index.js';
+import { formatPrice, unavailableError, type UnavailableError } from '../chainlink/views.js';
+
+/**
+ * `price` event: one asset's new-listing series after an update
+ */
+export interface PriceEvent {
+  assetId: string;
+  condition: PriceUpdate['condition'];
+  changed: boolean;
+  insufficientSources: boolean;
+  price: ReturnType<typeof formatPrice> | null;  // Null when nothing is servable
+  error: UnavailableError | null;                // Set when the feed is paused or stale
+  timestamp: number;
+}
+
+/**
+ * `rental` event: rental stats for every GPU type, as served by /rental/prices
+ */
+export interface RentalEvent {
+  prices: Record<RentalGpuType, RentalPriceStats>;
+  timestamp: number;
+  source: 'oracle-service';
+}
+
+export function buildPriceEvent(
+  update: PriceUpdate,
+  aggregator: PriceAggregator,
+  attestor: PriceAttestor | null
+): PriceEvent {
+  const error = update.price && unavailableError(update.price, aggregator.getMaxPriceAgeMs(update.assetId));
+
+  return {
+    assetId: update.assetId,
+    condition: update.condition,
+    changed: update.changed,
+    insufficientSources: update.insufficientSources,
+    price: update.price && !error ? formatPrice(update.price, attestor) : null,
+    error: error || null,
+    timestamp: Date.now(),
+  };
+}
+
+export function buildRentalEvent(prices: Record<RentalGpuType, RentalPriceStats>): RentalEvent {
+  return { prices, timestamp: Date.now(), source: 'oracle-service' };
+}
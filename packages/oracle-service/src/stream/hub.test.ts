@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { EventHub, type StreamEvent } from './hub.js';
+
+describe('EventHub', () => {
+  it('delivers published events to subscribers until they unsubscribe', () => {
+    const hub = new EventHub();
+    const received: StreamEvent[] = [];
+    const unsubscribe = hub.subscribe(event => received.push(event));
+
+    hub.publish('price', { assetId: 'GPU_RTX4090' });
+    unsubscribe();
+    hub.publish('rental', { prices: {} });
+
+    expect(received.map(e => e.type)).toEqual(['price']);
+    expect(hub.subscriberCount).toBe(0);
+  });
+
+  it('replays events after a known ID', () => {
+    const hub = new EventHub();
+    const first = hub.publish('price', 1);
+    hub.publish('rental', 2);
+    hub.publish('price', 3);
+
+    expect(hub.since(first.id)?.map(e => e.data)).toEqual([2, 3]);
+    expect(hub.since(hub.getLastId())).toEqual([]);
+  });
+
+  it('refuses to resume from IDs it cannot account for', () => {
+    const hub = new EventHub(2);
+    const first = hub.publish('price', 1);
+    hub.publish('price', 2);
+    hub.publish('price', 3);
+    hub.publish('price', 4);
+
+    // Event 2 was evicted, so a client that saw only event 1 has a gap
+    expect(hub.since(first.id)).toBeNull();
+    expect(new EventHub().since(first.id)).toBeNull();  // Previous process
+    expect(hub.since('garbage')).toBeNull();
+  });
+
+  it('keeps the latest event of each type', () => {
+    const hub = new EventHub();
+    hub.publish('rental', 'old');
+    hub.publish('price', 'price');
+    hub.publish('rental', 'new');
+
+    expect(hub.getLatest('rental')?.data).toBe('new');
+    expect(new EventHub().getLatest('rental')).toBeNull();
+  });
+});
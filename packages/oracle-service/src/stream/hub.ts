@@ -0,0 +1,94 @@
+/**
+ * Stream Event Hub
+ *
+ * Fans published events out to connected stream clients and keeps a bounded
+ * backlog so a client that reconnects with its last event ID receives what
+ * it missed. IDs are `<boot>:<sequence>`; an ID from a previous process, or
+ * one older than the backlog, can't be resumed and the client gets a fresh
+ * snapshot instead.
+ */
+
+import { randomBytes } from 'crypto';
+
+const DEFAULT_BACKLOG = 1000;
+
+export type StreamEventType = 'price' | 'rental';
+
+export interface StreamEvent {
+  id: string;
+  type: StreamEventType;
+  data: unknown;
+}
+
+interface BufferedEvent {
+  seq: number;
+  event: StreamEvent;
+}
+
+export class EventHub {
+  private readonly boot = randomBytes(4).toString('hex');
+  private seq = 0;
+  private backlog: BufferedEvent[] = [];
+  private latest: Map<StreamEventType, StreamEvent> = new Map();
+  private listeners: Set<(event: StreamEvent) => void> = new Set();
+
+  constructor(private readonly backlogSize: number = DEFAULT_BACKLOG) {}
+
+  publish(type: StreamEventType, data: unknown): StreamEvent {
+    const seq = ++this.seq;
+    const event = { id: `${this.boot}:${seq}`, type, data };
+
+    this.backlog.push({ seq, event });
+    if (this.backlog.length > this.backlogSize) {
+      this.backlog.shift();
+    }
+    this.latest.set(type, event);
+
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+    return event;
+  }
+
+  /**
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (event: StreamEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Events published after the given ID
+   * @returns null when the ID can't be resumed from
+   */
+  since(lastEventId: string): StreamEvent[] | null {
+    const [boot, seqText] = lastEventId.split(':');
+    const seq = Number(seqText);
+    if (boot !== this.boot || !Number.isInteger(seq) || seq > this.seq) return null;
+
+    // The event right after `seq` must still be in the backlog
+    const oldest = this.backlog[0]?.seq ?? this.seq + 1;
+    if (seq + 1 < oldest) return null;
+
+    return this.backlog.filter(buffered => buffered.seq > seq).map(buffered => buffered.event);
+  }
+
+  /**
+   * Most recent event of a type, e.g. the latest rental snapshot
+   */
+  getLatest(type: StreamEventType): StreamEvent | null {
+    return this.latest.get(type) ?? null;
+  }
+
+  /**
+   * ID of the most recent event, to stamp snapshots so clients resume after them
+   */
+  getLastId(): string {
+    return `${this.boot}:${this.seq}`;
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+}
@@ -0,0 +1,6 @@
+export { EventHub } from './hub.js';
+export type { StreamEvent, StreamEventType } from './hub.js';
+export { buildPriceEvent, buildRentalEvent } from './events.js';
+export type { PriceEvent, RentalEvent } from './events.js';
+export { createStreamRouter } from './router.js';
+export type { StreamRouterOptions } from './router.js';
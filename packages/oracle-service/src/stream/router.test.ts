@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { PriceAggregator } from '../aggregator/index.js';
+import { loadConfig } from '../config/index.js';
+import { EventHub } from './hub.js';
+import { createStreamRouter } from './router.js';
+
+interface ParsedEvent {
+  id?: string;
+  event?: string;
+  data?: unknown;
+}
+
+describe('stream router', () => {
+  let server: Server;
+  let baseUrl: string;
+  let hub: EventHub;
+  const controllers: AbortController[] = [];
+
+  beforeEach(() =>
+    new Promise<void>(resolve => {
+      hub = new EventHub();
+      const aggregator = new PriceAggregator([], loadConfig());
+      const app = express();
+      app.use('/stream', createStreamRouter({ hub, aggregator, attestor: null, maxClients: 2 }));
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/stream`;
+        resolve();
+      });
+    })
+  );
+
+  afterEach(async () => {
+    controllers.splice(0).forEach(controller => controller.abort());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const connect = async (query = '', headers: Record<string, string> = {}) => {
+    const controller = new AbortController();
+    controllers.push(controller);
+    const res = await fetch(`${baseUrl}${query}`, { headers, signal: controller.signal });
+    return { res, read: reader(res) };
+  };
+
+  it('sends a price snapshot and the latest rental stats on connect', async () => {
+    hub.publish('rental', { prices: { H100: {} } });
+    const { res, read } = await connect();
+
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const events = await read(2);
+    expect(events.map(e => e.event)).toEqual(['prices', 'rental']);
+    expect(events[0].data).toMatchObject({ prices: {}, errors: {} });
+    expect(events[1]).toEqual({ id: hub.getLastId(), event: 'rental', data: { prices: { H100: {} } } });
+  });
+
+  it('streams live events for the requested topics only', async () => {
+    const { read } = await connect('?topics=rental');
+    hub.publish('price', { assetId: 'GPU_RTX4090' });
+    hub.publish('rental', { prices: {} });
+
+    expect((await read(1)).map(e => e.event)).toEqual(['rental']);
+  });
+
+  it('replays missed events after Last-Event-ID instead of a snapshot', async () => {
+    const seen = hub.publish('price', { assetId: 'GPU_RTX4090' });
+    hub.publish('price', { assetId: 'GPU_RTX4080' });
+
+    const { read } = await connect('', { 'Last-Event-ID': seen.id });
+    const [event] = await read(1);
+
+    expect(event).toMatchObject({ event: 'price', data: { assetId: 'GPU_RTX4080' } });
+  });
+
+  it('rejects unknown topics and clients over the limit', async () => {
+    expect((await fetch(`${baseUrl}?topics=news`)).status).toBe(400);
+
+    await connect();
+    await connect();
+    expect((await fetch(baseUrl)).status).toBe(503);
+  });
+});
+
+/**
+ * Incrementally parse server-sent events, skipping comments and retry lines
+ */
+function reader(res: Response) {
+  const stream = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  return async (count: number): Promise<ParsedEvent[]> => {
+    const events: ParsedEvent[] = [];
+    while (events.length < count) {
+      const end = buffer.indexOf('\n\n');
+      if (end === -1) {
+        const { value, done } = await stream.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        continue;
+      }
+
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      const event: ParsedEvent = {};
+      for (const line of block.split('\n')) {
+        const [field, ...rest] = line.split(': ');
+        const value = rest.join(': ');
+        if (field === 'id') event.id = value;
+        if (field === 'event') event.event = value;
+        if (field === 'data') event.data = JSON.parse(value);
+      }
+      if (event.event) events.push(event);
+    }
+    return events;
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Update Stream Router
+ *
+ * GET /stream serves server-sent events:
+ * - `prices`: snapshot of every new-condition price, sent on connect
+ * - `price`: one asset's update after each aggregation cycle
+ * - `rental`: rental stats for every GPU type after each rental refresh
+ *
+ * Clients pick topics with `?topics=prices,rental` (default: both). On
+ * reconnect, EventSource sends the Last-Event-ID header and the missed events
+ * are replayed from the hub's backlog; when that isn't possible the client
+ * gets fresh snapshots instead.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import type { PriceAggregator } from '../aggregator/index.js';
+import type { PriceAttestor } from '../attestation/index.js';
+import { buildPricesSnapshot } from '../chainlink/views.js';
+import type { EventHub, StreamEvent, StreamEventType } from './hub.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('stream');
+
+export interface StreamRouterOptions {
+  hub: EventHub;
+  aggregator: PriceAggregator;
+  attestor: PriceAttestor | null;
+  maxClients?: number;
+  heartbeatMs?: number;
+}
+
+const DEFAULT_MAX_CLIENTS = 1000;
+const DEFAULT_HEARTBEAT_MS = 25000;  // Below the usual 30-60s proxy idle timeouts
+const RECONNECT_DELAY_MS = 5000;
+
+const TOPICS: Record<string, StreamEventType> = {
+  prices: 'price',
+  rental: 'rental',
+};
+
+export function createStreamRouter(options: StreamRouterOptions): Router {
+  const { hub, aggregator, attestor } = options;
+  const maxClients = options.maxClients ?? DEFAULT_MAX_CLIENTS;
+  const heartbeatMs = options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+  const router = Router();
+
+  router.get('/', (req: Request, res: Response) => {
+    const types = parseTopics(req.query.topics);
+    if (!types) {
+      return res.status(400).json({
+        error: `Unknown topic. Valid topics: ${Object.keys(TOPICS).join(', ')}`,
+      });
+    }
+
+    if (hub.subscriberCount >= maxClients) {
+      res.setHeader('Retry-After', String(RECONNECT_DELAY_MS / 1000));
+      return res.status(503).json({ error: 'Too many stream clients, retry later or poll /prices' });
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');  // Stop nginx from buffering the stream
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const send = (event: StreamEvent) => {
+      if (types.has(event.type)) {
+        writeEvent(res, event.id, event.type, event.data);
+      }
+    };
+
+    // Subscribe before replaying so nothing published in between is lost
+    const unsubscribe = hub.subscribe(send);
+
+    const lastEventId = req.header('Last-Event-ID') ?? stringParam(req.query.lastEventId);
+    const missed = lastEventId ? hub.since(lastEventId) : null;
+
+    if (missed) {
+      missed.forEach(send);
+    } else {
+      const id = hub.getLastId();
+      if (types.has('price')) {
+        writeEvent(res, id, 'prices', buildPricesSnapshot(aggregator, 'new', attestor));
+      }
+      const rental = hub.getLatest('rental');
+      if (types.has('rental') && rental) {
+        writeEvent(res, id, 'rental', rental.data);
+      }
+    }
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), heartbeatMs);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    logger.debug(`Stream client connected (${hub.subscriberCount} total)${missed ? `, resumed ${missed.length} events` : ''}`);
+  });
+
+  return router;
+}
+
+function writeEvent(res: Response, id: string, event: string, data: unknown): void {
+  res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * @returns null when any topic is unknown
+ */
+function parseTopics(value: unknown): Set<StreamEventType> | null {
+  const text = stringParam(value);
+  if (!text) return new Set(Object.values(TOPICS));
+
+  const types = new Set<StreamEventType>();
+  for (const topic of text.split(',').map(t => t.trim()).filter(Boolean)) {
+    const type = TOPICS[topic];
+    if (!type) return null;
+    types.add(type);
+  }
+  return types.size > 0 ? types : new Set(Object.values(TOPICS));
+}
+
+function stringParam(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
@@ -0,0 +1,36 @@
+/**
+ * Clocks
+ *
+ * Pricing code that depends on the time (TWAP windows, EMAs, guardrail bands,
+ * staleness) reads it from a Clock, so the backtester can replay archived
+ * listings on a virtual timeline. The service runs on the system clock.
+ */
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that only moves when told to
+ */
+export class VirtualClock implements Clock {
+  constructor(private time = 0) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * @throws Error when asked to move backwards
+   */
+  set(time: number): void {
+    if (time < this.time) {
+      throw new Error(`Virtual clock cannot move backwards (${time} < ${this.time})`);
+    }
+    this.time = time;
+  }
+}